@@ -0,0 +1,18 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  transform: {
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: '<rootDir>/tests/tsconfig.json',
+        // Sources are type-checked by `npm run type-check`; report only errors in the tests here
+        diagnostics: { exclude: ['**/src/**'] },
+      },
+    ],
+  },
+  collectCoverageFrom: ['src/**/*.ts'],
+};
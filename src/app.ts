@@ -4,17 +4,23 @@ import { config } from './config/env';
 import { DIContainer } from './core/container/DIContainer';
 import { DatabaseConfig } from './config/database';
 import logger from './utils/logger';
+import { TYPES } from './core/container/types';
+import { ScheduledPostPublisher } from './infrastructure/scheduler/ScheduledPostPublisher';
+import { IStorageProvider } from './core/interfaces/Services/IStorageProvider';
+import { LocalStorageProvider } from './infrastructure/storage/LocalStorageProvider';
 
 // Plugins
 import helmet from '@fastify/helmet';
 import cors from '@fastify/cors';
 import jwt from '@fastify/jwt';
 import multipart from '@fastify/multipart';
+import fastifyStatic from '@fastify/static';
 import swagger from '@fastify/swagger';
 import swaggerUi from '@fastify/swagger-ui';
 
 // Middleware
 import { authMiddleware } from './core/middleware/auth';
+import { registerAuditHooks } from './core/middleware/audit';
 import { errorHandler } from './core/middleware/errorHandler';
 
 export class Application {
@@ -35,6 +41,7 @@ export class Application {
     try {
       await this.setupDatabase();
       await this.setupPlugins();
+      await this.setupStorage();
       await this.setupMiddleware();
       await this.setupRoutes();
       await this.setupErrorHandling();
@@ -87,6 +94,12 @@ export class Application {
               scheme: 'bearer',
               bearerFormat: 'JWT',
               description: 'JWT Authorization header using the Bearer scheme.'
+            },
+            apiKeyAuth: {
+              type: 'apiKey',
+              in: 'header',
+              name: 'Authorization',
+              description: 'Personal API key as "ApiKey <key>". Only endpoints covered by the key scopes accept it.'
             }
           }
         },
@@ -99,6 +112,8 @@ export class Application {
           { name: 'Authentication', description: 'Authentication endpoints' },
           { name: 'Users', description: 'User management endpoints' },
           { name: 'Categories', description: 'Category management endpoints' },
+          { name: 'Tags', description: 'Tag listing, cloud, autocomplete, rename and merge endpoints' },
+          { name: 'Series', description: 'Multi-part article series endpoints' },
           { name: 'Blog Posts', description: 'Blog post endpoints' },
           { name: 'Comments', description: 'Comment management endpoints' },
           { name: 'Health', description: 'System health endpoints' }
@@ -191,10 +206,11 @@ export class Application {
     });
 
     // File uploads
+    // Defaults only: upload routes apply the limits of the user's role (see acceptUploads)
     await this.app.register(multipart, {
       limits: {
-        fileSize: 5 * 1024 * 1024, // 5MB
-        files: 5,
+        fileSize: config.uploads.maxFileSizeBytes,
+        files: config.uploads.maxFiles,
         fields: 10,
       },
       attachFieldsToBody: false,
@@ -203,6 +219,29 @@ export class Application {
     logger.info('Plugins registered successfully');
   }
 
+  private async setupStorage(): Promise<void> {
+    const storage = this.container.get<IStorageProvider>(TYPES.IStorageProvider);
+    await storage.initialize();
+
+    // Files of the local driver are served by the API itself
+    if (storage instanceof LocalStorageProvider) {
+      await this.app.register(fastifyStatic, {
+        root: storage.rootDirectory,
+        prefix: `${config.storage.local.publicPath}/`,
+        decorateReply: false,
+        index: false,
+        immutable: true,
+        maxAge: '365d',
+        setHeaders: (res) => {
+          // Uploaded images are embedded by the frontend, which runs on another origin
+          res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+        },
+      });
+    }
+
+    logger.info('Storage initialized', { driver: storage.driver });
+  }
+
   private async setupMiddleware(): Promise<void> {
     // Request ID
     this.app.addHook('onRequest', async (request, reply) => {
@@ -278,6 +317,9 @@ export class Application {
       });
     });
 
+    // Audit log for routes marked with the audit() preHandler
+    registerAuditHooks(this.app);
+
     // Auth middleware decorator
     this.app.decorate('authenticate', authMiddleware);
 
@@ -352,6 +394,10 @@ export class Application {
       logger.info(`📚 API Documentation: ${address}/docs`);
       logger.info(`🔍 Swagger JSON: ${address}/docs/json`);
       logger.info(`🏥 Health Check: ${address}/health`);
+
+      if (config.scheduler.enabled) {
+        this.container.get<ScheduledPostPublisher>(TYPES.ScheduledPostPublisher).start();
+      }
       
     } catch (error) {
       logger.error('Error starting server:', {
@@ -365,6 +411,7 @@ export class Application {
   public async stop(): Promise<void> {
     try {
       logger.info('Stopping server...');
+      this.container.get<ScheduledPostPublisher>(TYPES.ScheduledPostPublisher).stop();
       await this.app.close();
       await this.database.disconnect();
       logger.info('Server stopped successfully');
@@ -0,0 +1,26 @@
+import { ApiKeyScope } from "../../../domain/enums/ApiKeyScope";
+
+export interface CreateApiKeyDto {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number;
+}
+
+export interface ApiKeyResponseDto {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  active: boolean;
+}
+
+// The full key is only returned once, when it is created
+export interface CreatedApiKeyDto {
+  apiKey: ApiKeyResponseDto;
+  key: string;
+}
@@ -0,0 +1,39 @@
+import { AuditSnapshot } from "../../../domain/entities/AuditLog";
+
+// Written by the audit hook once an audited request succeeded
+export interface RecordAuditDto {
+  action: string;
+  targetType: string;
+  targetId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  actor?: {
+    id: string;
+    username?: string;
+    role?: string;
+    apiKeyId?: string;
+  };
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+export interface AuditLogResponseDto {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId?: string;
+  before?: AuditSnapshot;
+  after?: AuditSnapshot;
+  changedFields: string[];
+  actor?: {
+    id?: string;
+    username?: string;
+    role?: string;
+    apiKeyId?: string;
+  };
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+  createdAt: Date;
+}
@@ -1,5 +1,3 @@
-import { UserRole } from "@prisma/client";
-
 export interface AuthResponseDto {
   user: {
     id: string;
@@ -7,8 +5,10 @@ export interface AuthResponseDto {
     username: string;
     firstName: string;
     lastName: string;
-    role: UserRole;
+    role: string;
     avatar?: string;
+    emailVerified: boolean;
+    twoFactorEnabled: boolean;
   };
   accessToken: string;
   refreshToken: string;
@@ -0,0 +1,18 @@
+export interface OAuthProviderDto {
+  id: string;
+  name: string;
+}
+
+// Where to send the browser; the provider redirects back to redirectUri with ?code&state
+export interface OAuthAuthorizationDto {
+  provider: string;
+  authorizationUrl: string;
+  state: string;
+  redirectUri: string;
+  expiresIn: number;
+}
+
+export interface OAuthCallbackDto {
+  code: string;
+  state: string;
+}
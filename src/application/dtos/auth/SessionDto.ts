@@ -0,0 +1,16 @@
+// Request details recorded with every refresh token
+export interface SessionContextDto {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SessionDto {
+  id: string;
+  device?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  startedAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
@@ -0,0 +1,23 @@
+export interface TwoFactorStatusDto {
+  enabled: boolean;
+  required: boolean;
+  enabledAt?: Date;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetupDto {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorRecoveryCodesDto {
+  recoveryCodes: string[];
+}
+
+// Returned by login instead of tokens when a second factor is needed
+export interface MfaChallengeDto {
+  mfaRequired: true;
+  mfaToken: string;
+  enrollmentRequired: boolean;
+  expiresIn: number;
+}
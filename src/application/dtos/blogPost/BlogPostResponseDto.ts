@@ -1,4 +1,16 @@
 import { PostStatus } from "@prisma/client";
+import { CategoryBreadcrumb } from "../../../domain/entities/Category";
+import { SeriesNavigation } from "../../../domain/entities/Series";
+import { PostAuthorRole } from "../../../domain/enums/PostAuthorRole";
+
+export interface PostAuthorDto {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+  role: PostAuthorRole;
+}
 
 export interface BlogPostResponseDto {
   id: string;
@@ -13,6 +25,13 @@ export interface BlogPostResponseDto {
   viewCount: number;
   isPublished: boolean;
   publishedAt?: Date;
+  scheduledFor?: Date;
+  reviewer?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+  } | null;
   createdAt: Date;
   updatedAt: Date;
   author: {
@@ -23,12 +42,15 @@ export interface BlogPostResponseDto {
     avatar?: string;
     bio?: string; // Bu satırı ekleyin
   };
+  authors: PostAuthorDto[]; // everyone credited, in contribution order; the primary author is also in author
   category: {
     id: string;
     name: string;
     slug: string;
     color?: string;
     icon?: string;
+    breadcrumbs: CategoryBreadcrumb[]; // root category first, this category last
   };
+  series?: SeriesNavigation | null; // the post's place in its series, previous and next part
   commentsCount: number;
 }
\ No newline at end of file
@@ -8,6 +8,7 @@ export interface CreateBlogPostDto {
   tags?: string[];
   featuredImage?: string;
   images?: string[];
-  status?: PostStatus; // Use enum instead of string literals
-  isPublished?: boolean;
+  status?: PostStatus; // Only DRAFT, publishing needs an approved review
+  isPublished?: boolean; // Only false
+  scheduledFor?: Date | string; // Requested publish time, scheduled once the post is approved
 }
\ No newline at end of file
@@ -0,0 +1,5 @@
+import { BlogPostResponseDto } from "./BlogPostResponseDto";
+
+export interface RelatedPostDto extends BlogPostResponseDto {
+  score: number; // 0 to 1, weighted from tag overlap, category, content similarity and recency
+}
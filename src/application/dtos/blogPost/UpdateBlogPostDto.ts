@@ -3,11 +3,12 @@ import { PostStatus } from "../../../domain/enums/PostStatus";
 export interface UpdateBlogPostDto {
   title?: string;
   content?: string;
-  excerpt?: string;
+  excerpt?: string | null; // null clears the excerpt
   categoryId?: string;
   tags?: string[];
   featuredImage?: string;
   images?: string[];
   status?: PostStatus; // Use enum instead of string literals
   isPublished?: boolean;
+  scheduledFor?: Date | string | null; // null cancels an existing schedule
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { PostAuthorRole } from "../../../domain/enums/PostAuthorRole";
+
+export interface UpdatePostAuthorsDto {
+  // Contribution order; exactly one PRIMARY, who becomes the post's author
+  authors: Array<{
+    userId: string;
+    role: PostAuthorRole;
+  }>;
+}
@@ -7,7 +7,15 @@ export interface CategoryResponseDto {
   icon?: string;
   isActive: boolean;
   sortOrder: number;
+  parentId: string | null;
   createdAt: Date;
   updatedAt: Date;
   postsCount?: number;
+}
+
+// Category with its subcategories, as returned by GET /api/categories/tree
+export interface CategoryTreeNodeDto extends CategoryResponseDto {
+  depth: number; // root categories are 1
+  totalPostsCount: number; // posts of the category and all of its subcategories
+  children: CategoryTreeNodeDto[];
 }
\ No newline at end of file
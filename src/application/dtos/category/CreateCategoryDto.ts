@@ -4,4 +4,5 @@ export interface CreateCategoryDto {
   color?: string;
   icon?: string;
   sortOrder?: number;
+  parentId?: string | null;
 }
\ No newline at end of file
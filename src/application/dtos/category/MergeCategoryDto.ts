@@ -0,0 +1,22 @@
+export interface MergeCategoryDto {
+  targetId: string;
+  deleteSource?: boolean; // the source is deactivated unless set
+  dryRun?: boolean;
+}
+
+export interface CategorySummaryDto {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+// What a merge changed, or would change for a dry run
+export interface CategoryMergeResultDto {
+  dryRun: boolean;
+  source: CategorySummaryDto;
+  target: CategorySummaryDto;
+  movedPosts: number;
+  movedSubcategories: CategorySummaryDto[];
+  redirectedSlugs: string[]; // old slugs that now resolve to the target
+  sourceAction: "deactivated" | "deleted";
+}
@@ -5,4 +5,5 @@ export interface UpdateCategoryDto {
   icon?: string;
   sortOrder?: number;
   isActive?: boolean;
+  parentId?: string | null; // null moves the category to the top level
 }
\ No newline at end of file
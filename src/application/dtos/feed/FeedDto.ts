@@ -0,0 +1,24 @@
+export interface FeedItemDto {
+  id: string;
+  title: string;
+  url: string;
+  summary: string;
+  contentHtml?: string; // Only set when feeds are configured for full content
+  author: {
+    name: string;
+    url?: string;
+  };
+  categories: string[];
+  publishedAt: Date;
+  updatedAt: Date;
+}
+
+export interface FeedDto {
+  title: string;
+  description: string;
+  language: string;
+  siteUrl: string; // Human readable page the feed belongs to
+  feedPath: string; // e.g. /feeds or /feeds/category/news
+  updatedAt: Date;
+  items: FeedItemDto[];
+}
@@ -0,0 +1,24 @@
+import { ImageFormat } from "../../../core/interfaces/Services/IImageProcessor";
+
+export interface ImageVariantDto {
+  width: number;
+  height: number;
+  // URL of this size per format, e.g. { jpeg, webp, avif }
+  sources: Partial<Record<ImageFormat, string>>;
+}
+
+export interface ImageUploadResultDto {
+  // Full size image, re-encoded without EXIF/GPS metadata
+  url: string;
+  key: string;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  size: number;
+  // Keys of every stored file (full size and variants) and their total size in bytes
+  storageKeys: string[];
+  storedBytes: number;
+  variants: Record<string, ImageVariantDto>;
+  // Ready to use srcset attribute values per format: "<url> 320w, <url> 768w, ..."
+  srcset: Partial<Record<ImageFormat, string>>;
+}
@@ -0,0 +1,50 @@
+import { ImageFormat } from "../../../core/interfaces/Services/IImageProcessor";
+import { MediaAssetReferences } from "../../../domain/entities/MediaAsset";
+import { ImageVariantDto } from "../image/ImageUploadDto";
+
+export interface MediaAssetResponseDto {
+  id: string;
+  url: string;
+  key: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  variants: Record<string, ImageVariantDto>;
+  srcset: Partial<Record<ImageFormat, string>>;
+  altText?: string;
+  caption?: string;
+  ownerId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Only on the detail endpoint, it costs a lookup in posts and users
+  references?: MediaAssetReferences;
+}
+
+export interface UploadMediaDto {
+  buffer: Buffer;
+  fileName: string;
+  contentType: string;
+  altText?: string;
+  caption?: string;
+}
+
+export interface MediaUploadResultDto {
+  asset: MediaAssetResponseDto;
+  // The owner already uploaded the same file; the existing asset is returned and nothing is stored
+  duplicate: boolean;
+}
+
+export interface UpdateMediaAssetDto {
+  altText?: string | null;
+  caption?: string | null;
+}
+
+export interface PurgeOrphansResultDto {
+  dryRun: boolean;
+  scanned: number;
+  // Assets that are (or, in a dry run, would be) deleted
+  assets: MediaAssetResponseDto[];
+  freedBytes: number;
+}
@@ -0,0 +1,15 @@
+export interface StorageUsageDto {
+  userId: string;
+  username: string;
+  role: string;
+  usedBytes: number;
+  assetCount: number;
+  // Effective quota; null means unlimited
+  quotaBytes: number | null;
+  remainingBytes: number | null;
+  // Where the quota comes from: the user's own quota, the role's limits or the UPLOAD_* default
+  quotaSource: "user" | "role" | "default";
+  storageQuotaMb: number | null;
+  maxFileSizeBytes: number;
+  maxFiles: number;
+}
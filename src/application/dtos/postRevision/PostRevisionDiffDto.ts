@@ -0,0 +1,16 @@
+import { RevisionFieldChange } from "../../../domain/entities/PostRevision";
+
+export interface PostRevisionDiffDto {
+  blogPostId: string;
+  from: {
+    revisionId: string | null; // null = current version of the post
+    revisionNumber: number | null;
+    createdAt: Date;
+  };
+  to: {
+    revisionId: string | null;
+    revisionNumber: number | null;
+    createdAt: Date;
+  };
+  changes: RevisionFieldChange[];
+}
@@ -0,0 +1,17 @@
+export interface PostRevisionResponseDto {
+  id: string;
+  blogPostId: string;
+  revisionNumber: number;
+  title: string;
+  content: string;
+  excerpt?: string;
+  tags: string[];
+  categoryId: string;
+  createdAt: Date;
+  editor?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+  };
+}
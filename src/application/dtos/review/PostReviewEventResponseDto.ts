@@ -0,0 +1,19 @@
+import { PostStatus } from "../../../domain/enums/PostStatus";
+import { ReviewAction } from "../../../domain/enums/ReviewAction";
+
+export interface PostReviewEventResponseDto {
+  id: string;
+  blogPostId: string;
+  action: ReviewAction;
+  fromStatus: PostStatus;
+  toStatus: PostStatus;
+  comment?: string;
+  reviewerId?: string;
+  createdAt: Date;
+  actor?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+  };
+}
@@ -0,0 +1,12 @@
+export interface SubmitForReviewDto {
+  reviewerId?: string;
+  comment?: string;
+}
+
+export interface ReviewDecisionDto {
+  comment?: string;
+}
+
+export interface AssignReviewerDto {
+  reviewerId: string;
+}
@@ -0,0 +1,26 @@
+import { RoleUploadLimits } from "../../../domain/entities/Role";
+import { Permission } from "../../../domain/enums/Permission";
+
+export interface CreateRoleDto {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  uploadLimits?: Partial<RoleUploadLimits>;
+}
+
+export interface UpdateRoleDto {
+  description?: string | null;
+  permissions?: Permission[];
+  uploadLimits?: Partial<RoleUploadLimits>;
+}
+
+export interface RoleResponseDto {
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+  isSystem: boolean;
+  uploadLimits: RoleUploadLimits;
+  usersCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
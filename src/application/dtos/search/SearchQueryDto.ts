@@ -0,0 +1,13 @@
+import { SearchType } from "../../../domain/enums/SearchType";
+
+export interface SearchQueryDto {
+  q: string;
+  type?: SearchType;
+  category?: string; // Category slug
+  tag?: string;
+  author?: string; // Author id or username
+  from?: string; // ISO date
+  to?: string; // ISO date
+  page?: number;
+  limit?: number;
+}
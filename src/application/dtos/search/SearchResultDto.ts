@@ -0,0 +1,24 @@
+import { IPagination } from "../../../core/interfaces/Common/IPagination";
+import { SearchHitType } from "../../../domain/entities/SearchHit";
+import { SearchType } from "../../../domain/enums/SearchType";
+
+export interface SearchResultDto {
+  type: SearchHitType;
+  id: string;
+  title: string;
+  slug?: string;
+  titleHighlight: string;
+  highlight: string; // Matching fragments wrapped in <mark></mark>
+  rank: number;
+  date?: Date;
+  postId?: string;
+  url: string;
+}
+
+export interface SearchResponseDto {
+  query: string;
+  type: SearchType;
+  results: SearchResultDto[];
+  totals: Record<SearchHitType, number>;
+  pagination: IPagination;
+}
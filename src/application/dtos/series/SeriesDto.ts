@@ -0,0 +1,39 @@
+export interface SeriesPartDto {
+  id: string;
+  title: string;
+  slug: string;
+  part: number; // 1-based position in the series
+  status: string;
+  isPublished: boolean;
+  publishedAt?: Date | null;
+}
+
+export interface SeriesResponseDto {
+  id: string;
+  title: string;
+  slug: string;
+  description?: string;
+  ownerId: string;
+  owner?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+  };
+  totalParts: number; // published parts only
+  parts?: SeriesPartDto[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSeriesDto {
+  title: string;
+  description?: string;
+  postIds?: string[]; // parts in reading order
+}
+
+export interface UpdateSeriesDto {
+  title?: string; // a new title changes the slug, the old one redirects
+  description?: string | null;
+  postIds?: string[]; // replaces the parts; posts left out become standalone again
+}
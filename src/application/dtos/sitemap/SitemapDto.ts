@@ -0,0 +1,13 @@
+export type SitemapSection = 'categories' | 'authors' | 'posts';
+
+export interface SitemapUrlDto {
+  loc: string;
+  lastmod?: Date;
+}
+
+// A single <urlset>, or a <sitemapindex> pointing at paginated child sitemaps
+export interface SitemapDto {
+  kind: 'urlset' | 'index';
+  entries: SitemapUrlDto[];
+  updatedAt: Date;
+}
@@ -0,0 +1,42 @@
+export interface TagResponseDto {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  postCount: number; // published posts only
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface TagCloudItemDto {
+  id: string;
+  name: string;
+  slug: string;
+  postCount: number;
+  weight: number; // 1 (least used) to TagUtils.CLOUD_LEVELS (most used)
+}
+
+export interface UpdateTagDto {
+  name?: string; // renames the tag in every post
+  description?: string | null;
+}
+
+export interface MergeTagDto {
+  targetId: string;
+  dryRun?: boolean;
+}
+
+export interface TagSummaryDto {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+// What a merge changed, or would change for a dry run; the source tag is deleted
+export interface TagMergeResultDto {
+  dryRun: boolean;
+  source: TagSummaryDto;
+  target: TagSummaryDto;
+  movedPosts: number; // posts of any status
+  redirectedSlugs: string[]; // old slugs that now resolve to the target
+}
@@ -1,5 +1,3 @@
-import { UserRole } from "../../../domain/enums/UserRole";
-
 export interface CreateUserDto {
   email: string;
   username: string;
@@ -8,5 +6,5 @@ export interface CreateUserDto {
   password: string;
   bio?: string;
   avatar?: string;
-  role?: UserRole; // Use enum instead of string literals
+  role?: string; // name of an existing role
 }
\ No newline at end of file
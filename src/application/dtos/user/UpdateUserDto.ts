@@ -1,5 +1,3 @@
-import { UserRole } from "@prisma/client"; // Prisma enum'ını kullan
-
 export interface UpdateUserDto {
   email?: string;
   username?: string;
@@ -8,6 +6,6 @@ export interface UpdateUserDto {
   password?: string;
   bio?: string;
   avatar?: string;
-  role?: UserRole;
+  role?: string;
   isActive?: boolean;
 }
\ No newline at end of file
@@ -1,5 +1,3 @@
-import { UserRole } from "@prisma/client"; // Prisma enum'ını kullan
-
 export interface UserResponseDto {
   id: string;
   email: string;
@@ -8,8 +6,10 @@ export interface UserResponseDto {
   lastName: string;
   avatar?: string;
   bio?: string;
-  role: UserRole;
+  role: string;
   isActive: boolean;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
   createdAt: Date;
   updatedAt: Date;
   postsCount?: number;
@@ -0,0 +1,123 @@
+// src/application/services/ApiKeyService.ts
+import crypto from "crypto";
+import { inject, injectable } from "inversify";
+import { User } from "@prisma/client";
+import { TYPES } from "../../core/container/types";
+import { IApiKeyService } from "../../core/interfaces/Services/IApiKeyService";
+import { IApiKeyRepository } from "../../core/interfaces/Repositories/IApiKeyRepository";
+import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { ApiKeyResponseDto, CreateApiKeyDto, CreatedApiKeyDto } from "../dtos/apiKey/ApiKeyDto";
+import { ApiKey, ApiKeyUtils } from "../../domain/entities/ApiKey";
+import { ApiKeyScope } from "../../domain/enums/ApiKeyScope";
+import { NotFoundError, ValidationError } from "../../core/errors";
+import { HelperUtils } from "../../utils/helper";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+
+// <prefix>_<8 hex id>_<48 hex secret>; the "<prefix>_<id>" part is stored in clear for lookup
+const KEY_PATTERN = /^(.+_[0-9a-f]{8})_([0-9a-f]{48})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Avoid a database write on every request made with the same key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+@injectable()
+export class ApiKeyService implements IApiKeyService {
+  constructor(
+    @inject(TYPES.IApiKeyRepository) private apiKeyRepository: IApiKeyRepository,
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository
+  ) {}
+
+  async create(userId: string, dto: CreateApiKeyDto): Promise<CreatedApiKeyDto> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) throw new NotFoundError("User not found");
+
+    const scopes = [...new Set(dto.scopes)];
+    const validScopes = Object.values(ApiKeyScope) as string[];
+    const invalid = scopes.filter((scope) => !validScopes.includes(scope));
+    if (scopes.length === 0 || invalid.length > 0) {
+      throw new ValidationError("At least one valid scope is required", { invalidScopes: invalid });
+    }
+
+    const lifetimeDays = dto.expiresInDays ?? config.apiKeys.maxLifetimeDays;
+    if (lifetimeDays < 1 || lifetimeDays > config.apiKeys.maxLifetimeDays) {
+      throw new ValidationError(`API keys must expire within 1 to ${config.apiKeys.maxLifetimeDays} days`);
+    }
+
+    const activeKeys = await this.apiKeyRepository.countActiveByUser(userId);
+    if (activeKeys >= config.apiKeys.maxPerUser) {
+      throw new ValidationError(`You can have at most ${config.apiKeys.maxPerUser} active API keys`);
+    }
+
+    const prefix = `${config.apiKeys.prefix}_${crypto.randomBytes(4).toString("hex")}`;
+    const key = `${prefix}_${crypto.randomBytes(24).toString("hex")}`;
+
+    const apiKey = await this.apiKeyRepository.create({
+      name: dto.name.trim(),
+      prefix,
+      keyHash: HelperUtils.hashString(key),
+      scopes,
+      userId,
+      expiresAt: new Date(Date.now() + lifetimeDays * DAY_MS),
+    });
+
+    logger.info("API key created", { userId, apiKeyId: apiKey.id, prefix, scopes });
+
+    return { apiKey: this.toResponseDto(apiKey), key };
+  }
+
+  async listForUser(userId: string): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.apiKeyRepository.findByUser(userId);
+    return apiKeys.map((apiKey) => this.toResponseDto(apiKey));
+  }
+
+  async revoke(userId: string, apiKeyId: string): Promise<void> {
+    const apiKey = await this.apiKeyRepository.findById(apiKeyId);
+    if (!apiKey || apiKey.userId !== userId) {
+      throw new NotFoundError("API key not found", { apiKeyId });
+    }
+
+    await this.apiKeyRepository.revoke(apiKey.id);
+    logger.info("API key revoked", { userId, apiKeyId });
+  }
+
+  async authenticate(rawKey: string, ipAddress?: string): Promise<{ user: User; apiKey: ApiKey } | null> {
+    const match = KEY_PATTERN.exec(rawKey.trim());
+    if (!match) return null;
+
+    const found = await this.apiKeyRepository.findByPrefix(match[1]);
+    if (!found) return null;
+
+    const { user, ...apiKey } = found;
+    const expected = Buffer.from(apiKey.keyHash, "hex");
+    const actual = Buffer.from(HelperUtils.hashString(rawKey.trim()), "hex");
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      logger.warn("API key with known prefix but wrong secret", { apiKeyId: apiKey.id, ipAddress });
+      return null;
+    }
+
+    if (!ApiKeyUtils.isActive(apiKey)) return null;
+
+    const lastUsed = apiKey.lastUsedAt?.getTime() ?? 0;
+    if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS || apiKey.lastUsedIp !== (ipAddress ?? null)) {
+      await this.apiKeyRepository.markUsed(apiKey.id, ipAddress);
+    }
+
+    return { user, apiKey };
+  }
+
+  private toResponseDto(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt ?? undefined,
+      lastUsedAt: apiKey.lastUsedAt ?? undefined,
+      lastUsedIp: apiKey.lastUsedIp ?? undefined,
+      revokedAt: apiKey.revokedAt ?? undefined,
+      createdAt: apiKey.createdAt,
+      active: ApiKeyUtils.isActive(apiKey),
+    };
+  }
+}
@@ -0,0 +1,121 @@
+// src/application/services/AuditService.ts
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { IAuditService } from "../../core/interfaces/Services/IAuditService";
+import { IAuditLogRepository } from "../../core/interfaces/Repositories/IAuditLogRepository";
+import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
+import { AuditLogResponseDto, RecordAuditDto } from "../dtos/audit/AuditLogDto";
+import { AuditLog, AuditLogFilter, AuditLogUtils, AuditSnapshot } from "../../domain/entities/AuditLog";
+import { AuditTargetType } from "../../domain/enums/AuditAction";
+import { CsvRenderer } from "../../utils/csvRenderer";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+
+const CSV_HEADERS = [
+  "createdAt",
+  "id",
+  "action",
+  "targetType",
+  "targetId",
+  "changedFields",
+  "actorId",
+  "actorUsername",
+  "actorRole",
+  "apiKeyId",
+  "ip",
+  "userAgent",
+  "requestId",
+  "before",
+  "after",
+];
+
+@injectable()
+export class AuditService implements IAuditService {
+  constructor(@inject(TYPES.IAuditLogRepository) private auditLogRepository: IAuditLogRepository) {}
+
+  async record(entry: RecordAuditDto): Promise<void> {
+    const log = await this.auditLogRepository.create({
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId ?? null,
+      before: AuditLogUtils.sanitize(entry.before),
+      after: AuditLogUtils.sanitize(entry.after),
+      actorId: entry.actor?.id ?? null,
+      actorUsername: entry.actor?.username ?? null,
+      actorRole: entry.actor?.role ?? null,
+      apiKeyId: entry.actor?.apiKeyId ?? null,
+      ip: entry.ip ?? null,
+      userAgent: entry.userAgent ?? null,
+      requestId: entry.requestId ?? null,
+    });
+
+    logger.debug("Audit entry recorded", {
+      auditLogId: log.id,
+      action: log.action,
+      targetType: log.targetType,
+      targetId: log.targetId,
+      actorId: log.actorId,
+    });
+  }
+
+  async snapshot(targetType: AuditTargetType, targetId: string | null): Promise<AuditSnapshot | null> {
+    return AuditLogUtils.sanitize(await this.auditLogRepository.findSnapshot(targetType, targetId));
+  }
+
+  async list(filter: AuditLogFilter, page: number, limit: number): Promise<IPaginatedResult<AuditLogResponseDto>> {
+    const result = await this.auditLogRepository.findMany(filter, page, limit);
+    return {
+      data: result.data.map((log) => this.mapToResponseDto(log)),
+      pagination: result.pagination,
+    };
+  }
+
+  async exportCsv(filter: AuditLogFilter): Promise<string> {
+    const logs = await this.auditLogRepository.findForExport(filter, config.audit.exportMaxRows);
+
+    return CsvRenderer.render(
+      CSV_HEADERS,
+      logs.map((log) => [
+        log.createdAt,
+        log.id,
+        log.action,
+        log.targetType,
+        log.targetId,
+        AuditLogUtils.changedFields(log.before, log.after).join(" "),
+        log.actorId,
+        log.actorUsername,
+        log.actorRole,
+        log.apiKeyId,
+        log.ip,
+        log.userAgent,
+        log.requestId,
+        log.before,
+        log.after,
+      ])
+    );
+  }
+
+  private mapToResponseDto(log: AuditLog): AuditLogResponseDto {
+    return {
+      id: log.id,
+      action: log.action,
+      targetType: log.targetType,
+      targetId: log.targetId ?? undefined,
+      before: log.before ?? undefined,
+      after: log.after ?? undefined,
+      changedFields: AuditLogUtils.changedFields(log.before, log.after),
+      actor: log.actorId || log.actorUsername
+        ? {
+            id: log.actorId ?? undefined,
+            username: log.actorUsername ?? undefined,
+            role: log.actorRole ?? undefined,
+            apiKeyId: log.apiKeyId ?? undefined,
+          }
+        : undefined,
+      ip: log.ip ?? undefined,
+      userAgent: log.userAgent ?? undefined,
+      requestId: log.requestId ?? undefined,
+      createdAt: log.createdAt,
+    };
+  }
+}
@@ -5,7 +5,10 @@ import { IAuthService } from "../../core/interfaces/Services/IAuthService";
 import { LoginDto } from "../dtos/auth/LoginDto";
 import { RegisterDto } from "../dtos/auth/RegisterDto";
 import { AuthResponseDto } from "../dtos/auth/AuthResponseDto";
-import { User, UserRole } from "@prisma/client";
+import { MfaChallengeDto, TwoFactorRecoveryCodesDto, TwoFactorSetupDto } from "../dtos/auth/TwoFactorDto";
+import { SessionContextDto, SessionDto } from "../dtos/auth/SessionDto";
+import { RefreshToken, User, UserTokenType } from "@prisma/client";
+import { UserRole } from "../../domain/enums/UserRole";
 import {
   ValidationError,
   UnauthorizedError,
@@ -17,6 +20,21 @@ import logger from "../../utils/logger";
 import * as jwt from "jsonwebtoken";
 import type { JwtPayload } from "jsonwebtoken";
 import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { IMailer } from "../../core/interfaces/Services/IMailer";
+import { ITwoFactorService } from "../../core/interfaces/Services/ITwoFactorService";
+import { IUnitOfWork } from "../../core/interfaces/IUnitOfWork";
+import {
+  generateEmailVerificationToken,
+  generatePasswordResetToken,
+  getTokenExpiration,
+  verifyEmailVerificationToken,
+  verifyPasswordResetToken,
+} from "../../utils/jwt";
+import { JWT_CONSTANTS } from "../../utils/constants/jwt";
+import { MailTemplates } from "../../utils/mailTemplates";
+import { UserAgentUtils } from "../../utils/userAgent";
+import { config } from "../../config/env";
+import crypto from "crypto";
 const bcrypt = require("bcryptjs");
 
 type AccessTokenPayload = JwtPayload & {
@@ -24,6 +42,7 @@ type AccessTokenPayload = JwtPayload & {
   email: string;
   username: string;
   role: string; // JWT'de string olarak saklanır
+  sid: string; // oturum (refresh token ailesi) id'si
   type: "access";
 };
 
@@ -32,6 +51,12 @@ type RefreshTokenPayload = JwtPayload & {
   type: "refresh";
 };
 
+type MfaPendingTokenPayload = JwtPayload & {
+  userId: string;
+  type: "mfa_pending";
+  enroll: boolean;
+};
+
 @injectable()
 export class AuthService implements IAuthService {
   private readonly JWT_SECRET: string = process.env.JWT_SECRET! || "your-jwt-secret-key" as string;
@@ -41,12 +66,21 @@ export class AuthService implements IAuthService {
   private readonly REFRESH_TOKEN_EXPIRES_IN: string =
     process.env.REFRESH_TOKEN_EXPIRES_IN! || "7d" as string;
 
+  // Hatalı 2FA denemeleri, bekleyen token'ın jti değerine göre (in-memory)
+  private readonly mfaAttempts = new Map<string, number>();
+
+  // Açık olduğu doğrulanan oturumlar (in-memory); iptal edilenler kapatıldıkları anda çıkarılır
+  private readonly activeSessions = new Map<string, { userId: string; checkedAt: number }>();
+
   constructor(
-    @inject(TYPES.IUserRepository) private userRepository: IUserRepository
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.IMailer) private mailer: IMailer,
+    @inject(TYPES.ITwoFactorService) private twoFactorService: ITwoFactorService,
+    @inject(TYPES.IUnitOfWork) private unitOfWork: IUnitOfWork
   ) 
   {}
 
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(registerDto: RegisterDto, context: SessionContextDto = {}): Promise<AuthResponseDto> {
     const { email, username, password, firstName, lastName } = registerDto;
 
     // Email & username benzersizlik kontrolleri
@@ -74,8 +108,9 @@ export class AuthService implements IAuthService {
     });
 
     // Tokenlar
-    const accessToken = this.generateAccessToken(user);
-    const refreshToken = await this.generateRefreshToken(user.id);
+    const sessionId = crypto.randomUUID();
+    const accessToken = this.generateAccessToken(user, sessionId);
+    const refreshToken = await this.generateRefreshToken(user.id, { familyId: sessionId, context });
 
     logger.info("User registered successfully", {
       userId: user.id,
@@ -83,6 +118,13 @@ export class AuthService implements IAuthService {
       username: user.username,
     });
 
+    // Kayıt, mail gönderilemese de tamamlanır; kullanıcı linki tekrar isteyebilir
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error: any) {
+      logger.warn("Could not send verification email", { userId: user.id, error: error.message });
+    }
+
     return {
       user: {
         id: user.id,
@@ -92,13 +134,15 @@ export class AuthService implements IAuthService {
         lastName: user.lastName,
         role: user.role,
         avatar: user.avatar || undefined,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
       },
       accessToken,
       refreshToken,
     };
   }
 
-  async login(loginDto: LoginDto): Promise<AuthResponseDto> {
+  async login(loginDto: LoginDto, context: SessionContextDto = {}): Promise<AuthResponseDto | MfaChallengeDto> {
     const { email, password } = loginDto;
 
     const user = await this.userRepository.findByEmail(email);
@@ -109,48 +153,92 @@ export class AuthService implements IAuthService {
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) throw new UnauthorizedError("Invalid email or password");
 
-    await Promise.all([
-      this.userRepository.updateLastLogin(user.id),
-      this.userRepository.revokeAllRefreshTokens(user.id),
-    ]);
+    // 2FA açıksa ya da rol için zorunluysa token yerine ikinci adım istenir
+    if (user.twoFactorEnabled) {
+      return this.createMfaChallenge(user, false);
+    }
+    if (await this.twoFactorService.isRequiredForRole(user.role)) {
+      return this.createMfaChallenge(user, true);
+    }
 
-    const accessToken = this.generateAccessToken(user);
-const refreshToken = await this.generateRefreshToken(user.id);
+    return this.startSession(user, context);
+  }
 
-console.log('Generated tokens:', { accessToken, refreshToken }); // Debug log
+  // Harici sağlayıcı (OAuth/OIDC) ile doğrulanmış kullanıcı; şifre yerine kimlik zaten kanıtlandı
+  async loginWithExternalIdentity(
+    user: User,
+    context: SessionContextDto = {}
+  ): Promise<AuthResponseDto | MfaChallengeDto> {
+    if (!user.isActive) throw new ForbiddenError("Account is deactivated");
 
-logger.info("User logged in successfully", {
-  userId: user.id,
-  email: user.email,
-});
+    // Sosyal girişte de 2FA kuralları aynen uygulanır
+    if (user.twoFactorEnabled) {
+      return this.createMfaChallenge(user, false);
+    }
+    if (await this.twoFactorService.isRequiredForRole(user.role)) {
+      return this.createMfaChallenge(user, true);
+    }
 
-const response = {
-  user: {
-    id: user.id,
-    email: user.email,
-    username: user.username,
-    firstName: user.firstName,
-    lastName: user.lastName,
-    role: user.role,
-    avatar: user.avatar || undefined,
-  },
-  accessToken,
-  refreshToken,
-};
+    return this.startSession(user, context);
+  }
 
-console.log('Login response:', response); // Debug log
+  async verifyMfaLogin(
+    mfaToken: string,
+    code: string,
+    context: SessionContextDto = {}
+  ): Promise<AuthResponseDto> {
+    const { user, jti } = await this.resolveMfaToken(mfaToken, false);
+
+    const isValid = await this.twoFactorService.verifyCode(user.id, code);
+    if (!isValid) {
+      await this.registerFailedMfaAttempt(mfaToken, jti, user.id);
+      throw new UnauthorizedError("Invalid authentication code");
+    }
+
+    await this.completeMfaToken(mfaToken, jti, user.id);
+    return this.startSession(user, context);
+  }
+
+  async beginMfaEnrollment(mfaToken: string): Promise<TwoFactorSetupDto> {
+    const { user } = await this.resolveMfaToken(mfaToken, true);
+    return this.twoFactorService.beginSetup(user.id);
+  }
+
+  async completeMfaEnrollment(
+    mfaToken: string,
+    code: string,
+    context: SessionContextDto = {}
+  ): Promise<AuthResponseDto & TwoFactorRecoveryCodesDto> {
+    const { user, jti } = await this.resolveMfaToken(mfaToken, true);
+
+    let recoveryCodes: string[];
+    try {
+      recoveryCodes = await this.twoFactorService.enable(user.id, code);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        await this.registerFailedMfaAttempt(mfaToken, jti, user.id);
+      }
+      throw error;
+    }
 
-return response;
+    await this.completeMfaToken(mfaToken, jti, user.id);
+    const session = await this.startSession({ ...user, twoFactorEnabled: true }, context);
+    return { ...session, recoveryCodes };
   }
 
   async refreshToken(
-    refreshToken: string
+    refreshToken: string,
+    context: SessionContextDto = {}
   ): Promise<{ accessToken: string; refreshToken: string } | null> {
     // DB'de refresh token var mı
     const tokenData = await this.userRepository.findRefreshToken(refreshToken);
     if (!tokenData) return null;
 
-    if (tokenData.revoked) return null;
+    // İptal edilmiş token tekrar kullanıldı → token çalınmış olabilir, tüm oturumu kapat
+    if (tokenData.revoked) {
+      await this.handleRefreshTokenReuse(tokenData);
+      return null;
+    }
 
     // Süresi dolmuş mu
     if (new Date() > tokenData.expiresAt) {
@@ -180,15 +268,32 @@ return response;
       return null;
     }
 
-    // Eski refresh'i iptal et → rotate
-    await this.userRepository.revokeRefreshToken(refreshToken);
-
-    // Yeni tokenlar
+    // Eski refresh'i iptal et → rotate. Aynı token ile eşzamanlı ikinci istek de reuse sayılır.
+    // İptal ve yeni token birlikte yazılır, oturum arada kapanmış görünmez
     const user = tokenData.user;
-    const accessToken = this.generateAccessToken(user);
-    const newRefreshToken = await this.generateRefreshToken(user.id);
+    const newRefreshToken = await this.unitOfWork.execute(async () => {
+      if (!(await this.userRepository.rotateRefreshToken(tokenData.id))) {
+        return null;
+      }
+
+      // Yeni tokenlar aynı oturum ailesinde kalır
+      return this.generateRefreshToken(user.id, {
+        familyId: tokenData.familyId,
+        sessionStartedAt: tokenData.sessionStartedAt,
+        context: {
+          ipAddress: context.ipAddress ?? tokenData.ipAddress ?? undefined,
+          userAgent: context.userAgent ?? tokenData.userAgent ?? undefined,
+        },
+      });
+    });
+    if (!newRefreshToken) {
+      await this.handleRefreshTokenReuse(tokenData);
+      return null;
+    }
+
+    const accessToken = this.generateAccessToken(user, tokenData.familyId);
 
-    logger.info("Tokens refreshed successfully", { userId: user.id });
+    logger.info("Tokens refreshed successfully", { userId: user.id, sessionId: tokenData.familyId });
 
     return { accessToken, refreshToken: newRefreshToken };
   }
@@ -202,6 +307,13 @@ return response;
       await this.userRepository.revokeRefreshToken(refreshToken);
     }
 
+    // Access token'ın ait olduğu oturumu kapat
+    const decoded = jwt.decode(accessToken) as AccessTokenPayload | null;
+    if (decoded?.sid && decoded.userId) {
+      await this.userRepository.revokeRefreshTokenFamily(decoded.sid, decoded.userId);
+      this.activeSessions.delete(decoded.sid);
+    }
+
     logger.info("User logged out successfully");
   }
 
@@ -210,10 +322,47 @@ return response;
       this.blacklistToken(currentAccessToken, userId),
       this.userRepository.revokeAllRefreshTokens(userId),
     ]);
+    this.forgetSessions(userId);
 
     logger.info("User logged out from all devices", { userId });
   }
 
+  async listSessions(userId: string, currentSessionId?: string): Promise<SessionDto[]> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) throw new NotFoundError("User not found");
+
+    const tokens = await this.userRepository.findActiveSessions(userId);
+    return tokens.map((token) => this.toSessionDto(token, currentSessionId));
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.userRepository.revokeRefreshTokenFamily(sessionId, userId);
+    if (revoked === 0) throw new NotFoundError("Session not found", { sessionId });
+    this.activeSessions.delete(sessionId);
+
+    logger.info("Session revoked", { userId, sessionId });
+  }
+
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const cached = this.activeSessions.get(sessionId);
+    if (
+      cached &&
+      cached.userId === userId &&
+      Date.now() - cached.checkedAt < config.sessions.activeCacheTtlSeconds * 1000
+    ) {
+      return true;
+    }
+
+    // Kapalı oturumlar önbelleğe alınmaz, tekrar açılamazlar
+    const active = await this.userRepository.isSessionActive(sessionId, userId);
+    if (active) {
+      this.activeSessions.set(sessionId, { userId, checkedAt: Date.now() });
+    } else {
+      this.activeSessions.delete(sessionId);
+    }
+    return active;
+  }
+
   async validateAccessToken(token: string): Promise<User | null> {
     try {
       const isBlacklisted = await this.isTokenBlacklisted(token);
@@ -264,10 +413,42 @@ return response;
       this.userRepository.update(userId, { password: hashedNewPassword }),
       this.userRepository.revokeAllRefreshTokens(userId),
     ]);
+    this.forgetSessions(userId);
 
     logger.info("Password changed successfully", { userId });
   }
 
+  async resendVerificationEmail(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) throw new NotFoundError("User not found");
+
+    if (user.emailVerified)
+      throw new ValidationError("Email address is already verified");
+
+    await this.sendVerificationEmail(user);
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    let userId: string;
+    try {
+      userId = verifyEmailVerificationToken(token).userId;
+    } catch {
+      throw new ValidationError("Invalid or expired verification token");
+    }
+
+    await this.consumeUserToken(token, UserTokenType.EMAIL_VERIFICATION, userId,
+      "Invalid or expired verification token");
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) throw new ValidationError("Invalid or expired verification token");
+
+    if (!user.emailVerified) {
+      await this.userRepository.markEmailVerified(user.id);
+    }
+
+    logger.info("Email verified successfully", { userId: user.id, email: user.email });
+  }
+
   async forgotPassword(email: string): Promise<void> {
     const user = await this.userRepository.findByEmail(email);
     if (!user) {
@@ -275,14 +456,66 @@ return response;
       return;
     }
 
+    if (!user.isActive) {
+      logger.warn("Password reset requested for inactive user", { userId: user.id });
+      return;
+    }
+
+    // Yeni link gönderildiğinde eskiler geçersiz olur
+    await this.userRepository.revokeUserTokens(user.id, UserTokenType.PASSWORD_RESET);
+
+    const token = generatePasswordResetToken(user.id);
+    await this.storeUserToken(token, UserTokenType.PASSWORD_RESET, user.id);
+
+    await this.mailer.send(
+      MailTemplates.passwordReset(
+        user,
+        this.buildSiteLink(config.site.resetPasswordPath, token),
+        this.describeDuration(JWT_CONSTANTS.RESET_PASSWORD_EXPIRE)
+      )
+    );
+
     logger.info("Password reset requested", { userId: user.id, email });
   }
 
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    let userId: string;
+    try {
+      userId = verifyPasswordResetToken(token).userId;
+    } catch {
+      throw new ValidationError("Invalid or expired password reset token");
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.isActive)
+      throw new ValidationError("Invalid or expired password reset token");
+
+    await this.consumeUserToken(token, UserTokenType.PASSWORD_RESET, userId,
+      "Invalid or expired password reset token");
+
+    const hashedPassword = await this.hashPassword(newPassword);
+
+    // Link mail adresine gönderildiği için adres de doğrulanmış sayılır
+    await this.userRepository.update(user.id, {
+      password: hashedPassword,
+      ...(user.emailVerified ? {} : { emailVerified: true, emailVerifiedAt: new Date() }),
+    });
+
+    await Promise.all([
+      this.userRepository.revokeAllRefreshTokens(user.id),
+      this.userRepository.revokeUserTokens(user.id, UserTokenType.PASSWORD_RESET),
+    ]);
+    this.forgetSessions(user.id);
+
+    logger.info("Password reset successfully", { userId: user.id });
+  }
+
   async cleanupExpiredTokens(): Promise<void> {
     try {
       await Promise.all([
         this.userRepository.cleanupExpiredRefreshTokens(),
         this.userRepository.cleanupExpiredBlacklistedTokens(),
+        this.userRepository.cleanupExpiredUserTokens(),
       ]);
       logger.info("Expired tokens cleaned up successfully");
     } catch (error) {
@@ -292,12 +525,13 @@ return response;
 
   // ========== PRIVATE HELPERS ==========
 
-  private generateAccessToken(user: User): string {
+  private generateAccessToken(user: User, sessionId: string): string {
   const payload: AccessTokenPayload = {
     userId: user.id,
     email: user.email,
     username: user.username,
     role: user.role,
+    sid: sessionId,
     type: "access",
   };
 
@@ -312,28 +546,71 @@ return response;
   );
 }
 
-private async generateRefreshToken(userId: string): Promise<string> {
+private async generateRefreshToken(
+  userId: string,
+  session: { familyId: string; sessionStartedAt?: Date; context: SessionContextDto }
+): Promise<string> {
   const payload: RefreshTokenPayload = { userId, type: "refresh" };
 
   const token = jwt.sign(payload, this.REFRESH_TOKEN_SECRET, {
     expiresIn: this.REFRESH_TOKEN_EXPIRES_IN,
     issuer: "blog-api",
     subject: userId,
+    jwtid: crypto.randomUUID(),
   } as jwt.SignOptions);
 
   // JWT'yi doğrulayarak exp değerini al
   const decoded = jwt.verify(token, this.REFRESH_TOKEN_SECRET) as jwt.JwtPayload;
   const expiresAt = new Date(decoded.exp! * 1000);
 
+  const { ipAddress, userAgent } = session.context;
   await this.userRepository.createRefreshToken({
     token,
     userId,
     expiresAt,
+    familyId: session.familyId,
+    sessionStartedAt: session.sessionStartedAt,
+    ipAddress: ipAddress || null,
+    userAgent: userAgent ? userAgent.slice(0, 512) : null,
+    device: UserAgentUtils.describe(userAgent) || null,
   });
 
   return token;
 }
 
+  // Kullanıcının tüm oturumları kapatıldığında önbellekten de çıkarılır
+  private forgetSessions(userId: string): void {
+    for (const [sessionId, session] of this.activeSessions) {
+      if (session.userId === userId) {
+        this.activeSessions.delete(sessionId);
+      }
+    }
+  }
+
+  private async handleRefreshTokenReuse(tokenData: RefreshToken): Promise<void> {
+    const revoked = await this.userRepository.revokeRefreshTokenFamily(tokenData.familyId);
+    this.activeSessions.delete(tokenData.familyId);
+
+    logger.warn("Refresh token reuse detected, session revoked", {
+      userId: tokenData.userId,
+      sessionId: tokenData.familyId,
+      revokedTokens: revoked,
+    });
+  }
+
+  private toSessionDto(token: RefreshToken, currentSessionId?: string): SessionDto {
+    return {
+      id: token.familyId,
+      device: token.device || undefined,
+      ipAddress: token.ipAddress || undefined,
+      userAgent: token.userAgent || undefined,
+      startedAt: token.sessionStartedAt,
+      lastUsedAt: token.lastUsedAt,
+      expiresAt: token.expiresAt,
+      current: token.familyId === currentSessionId,
+    };
+  }
+
   private async blacklistToken(token: string, userId?: string): Promise<void> {
     try {
       const decoded = jwt.decode(token) as JwtPayload | null;
@@ -352,6 +629,162 @@ private async generateRefreshToken(userId: string): Promise<string> {
     }
   }
 
+  // Her giriş yeni bir oturum (refresh token ailesi) açar; diğer cihazlardaki oturumlar açık kalır
+  private async startSession(user: User, context: SessionContextDto): Promise<AuthResponseDto> {
+    await this.userRepository.updateLastLogin(user.id);
+
+    const sessionId = crypto.randomUUID();
+    const accessToken = this.generateAccessToken(user, sessionId);
+    const refreshToken = await this.generateRefreshToken(user.id, { familyId: sessionId, context });
+
+    logger.info("User logged in successfully", {
+      userId: user.id,
+      email: user.email,
+    });
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        avatar: user.avatar || undefined,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+      },
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  private createMfaChallenge(user: User, enrollmentRequired: boolean): MfaChallengeDto {
+    const payload: MfaPendingTokenPayload = {
+      userId: user.id,
+      type: "mfa_pending",
+      enroll: enrollmentRequired,
+    };
+
+    const mfaToken = jwt.sign(payload, this.JWT_SECRET, {
+      expiresIn: config.twoFactor.pendingTokenExpiresIn,
+      issuer: "blog-api",
+      subject: user.id,
+      jwtid: crypto.randomUUID(),
+    } as jwt.SignOptions);
+
+    logger.info("Login awaiting second factor", { userId: user.id, enrollmentRequired });
+
+    return {
+      mfaRequired: true,
+      mfaToken,
+      enrollmentRequired,
+      expiresIn: Math.round(this.addDurationMs(config.twoFactor.pendingTokenExpiresIn) / 1000),
+    };
+  }
+
+  private async resolveMfaToken(
+    mfaToken: string,
+    enrollment: boolean
+  ): Promise<{ user: User; jti: string }> {
+    let decoded: MfaPendingTokenPayload;
+    try {
+      decoded = jwt.verify(mfaToken, this.JWT_SECRET, { issuer: "blog-api" }) as MfaPendingTokenPayload;
+    } catch {
+      throw new UnauthorizedError("Invalid or expired MFA token");
+    }
+
+    if (decoded.type !== "mfa_pending" || !decoded.jti || decoded.enroll !== enrollment)
+      throw new UnauthorizedError("Invalid or expired MFA token");
+
+    if (await this.isTokenBlacklisted(mfaToken))
+      throw new UnauthorizedError("Invalid or expired MFA token");
+
+    const user = await this.userRepository.findById(decoded.userId);
+    if (!user || !user.isActive)
+      throw new UnauthorizedError("Invalid or expired MFA token");
+
+    return { user, jti: decoded.jti };
+  }
+
+  // Çok fazla hatalı denemeden sonra bekleyen token iptal edilir
+  private async registerFailedMfaAttempt(mfaToken: string, jti: string, userId: string): Promise<void> {
+    const attempts = (this.mfaAttempts.get(jti) ?? 0) + 1;
+    this.mfaAttempts.set(jti, attempts);
+
+    logger.warn("Invalid second factor", { userId, attempts });
+
+    if (attempts >= config.twoFactor.maxAttempts) {
+      await this.completeMfaToken(mfaToken, jti, userId);
+      throw new UnauthorizedError("Too many invalid codes, please log in again");
+    }
+  }
+
+  private async completeMfaToken(mfaToken: string, jti: string, userId: string): Promise<void> {
+    this.mfaAttempts.delete(jti);
+    await this.blacklistToken(mfaToken, userId);
+  }
+
+  private async sendVerificationEmail(user: User): Promise<void> {
+    await this.userRepository.revokeUserTokens(user.id, UserTokenType.EMAIL_VERIFICATION);
+
+    const token = generateEmailVerificationToken(user.id);
+    await this.storeUserToken(token, UserTokenType.EMAIL_VERIFICATION, user.id);
+
+    await this.mailer.send(
+      MailTemplates.emailVerification(
+        user,
+        this.buildSiteLink(config.site.verifyEmailPath, token),
+        this.describeDuration(JWT_CONSTANTS.EMAIL_VERIFICATION_EXPIRE)
+      )
+    );
+
+    logger.info("Verification email sent", { userId: user.id, email: user.email });
+  }
+
+  // Token'ın kendisi değil, yalnızca SHA-256 hash'i saklanır
+  private async storeUserToken(token: string, type: UserTokenType, userId: string): Promise<void> {
+    const expiresAt =
+      getTokenExpiration(token) ?? new Date(Date.now() + this.addDurationMs(JWT_CONSTANTS.DEFAULT_EXPIRE));
+
+    await this.userRepository.createUserToken({
+      tokenHash: this.hashToken(token),
+      type,
+      userId,
+      expiresAt,
+    });
+  }
+
+  // İmzası geçerli olsa bile token yalnızca bir kez kullanılabilir
+  private async consumeUserToken(
+    token: string,
+    type: UserTokenType,
+    userId: string,
+    errorMessage: string
+  ): Promise<void> {
+    const stored = await this.userRepository.findUserToken(this.hashToken(token));
+    if (!stored || stored.type !== type || stored.userId !== userId)
+      throw new ValidationError(errorMessage);
+
+    const consumed = await this.userRepository.consumeUserToken(stored.id);
+    if (!consumed) throw new ValidationError(errorMessage);
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash("sha256").update(token).digest("hex");
+  }
+
+  private buildSiteLink(path: string, token: string): string {
+    return `${config.site.url}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  private describeDuration(duration: string): string {
+    const hours = Math.round(this.addDurationMs(duration) / (60 * 60 * 1000));
+    if (hours >= 1) return hours === 1 ? "1 hour" : `${hours} hours`;
+    const minutes = Math.round(this.addDurationMs(duration) / (60 * 1000));
+    return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+  }
+
   async isTokenBlacklisted(token: string): Promise<boolean> {
     return this.userRepository.isTokenBlacklisted(token);
   }
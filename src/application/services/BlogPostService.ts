@@ -10,14 +10,52 @@ import { CreateBlogPostDto } from "../dtos/blogPost/CreateBlogPostDto";
 import { NotFoundError, ValidationError } from "../../core/errors";
 import slugify from "slugify";
 import { PostStatus } from "../../domain/enums/PostStatus";
-import { BlogPost } from "../../domain/entities/BlogPost";
+import { BlogPost, BlogPostChanges } from "../../domain/entities/BlogPost";
 import { UpdateBlogPostDto } from "../dtos/blogPost/UpdateBlogPostDto";
+import { IPostRevisionRepository } from "../../core/interfaces/Repositories/IPostRevisionRepository";
+import { PostRevisionUtils } from "../../domain/entities/PostRevision";
+import { CategoryUtils } from "../../domain/entities/Category";
+import { ISearchRepository } from "../../core/interfaces/Repositories/ISearchRepository";
+import { SearchType } from "../../domain/enums/SearchType";
+import { IPostReviewEventRepository } from "../../core/interfaces/Repositories/IPostReviewEventRepository";
+import { ReviewAction } from "../../domain/enums/ReviewAction";
+import { IUnitOfWork } from "../../core/interfaces/IUnitOfWork";
+import { IMediaService } from "../../core/interfaces/Services/IMediaService";
+import logger from "../../utils/logger";
+import { ISlugHistoryRepository } from "../../core/interfaces/Repositories/ISlugHistoryRepository";
+import { SlugResourceType } from "../../domain/enums/SlugResourceType";
+import { ITagService } from "../../core/interfaces/Services/ITagService";
+import { TagUtils } from "../../domain/entities/Tag";
+import { SeriesUtils } from "../../domain/entities/Series";
+import { IPostAuthorRepository } from "../../core/interfaces/Repositories/IPostAuthorRepository";
+import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { PostAuthorUtils } from "../../domain/entities/PostAuthor";
+import { UpdatePostAuthorsDto } from "../dtos/blogPost/UpdatePostAuthorsDto";
+import { RelatedPostDto } from "../dtos/blogPost/RelatedPostDto";
+import { RelatedPostCandidate, RelatedPostScore, RelatedPostUtils } from "../../domain/entities/RelatedPost";
+import { config } from "../../config/env";
+
+// Related posts kept per source post; the oldest entry makes room when the cache is full
+const RELATED_CACHE_MAX_ENTRIES = 1000;
+const RELATED_MAX_RESULTS = 20;
 
 @injectable()
 export class BlogPostService implements IBlogPostService {
+  // Scores only, the posts themselves are loaded fresh so edits and unpublishing show up at once
+  private readonly relatedCache = new Map<string, { sourceUpdatedAt: number; loadedAt: number; scores: RelatedPostScore[] }>();
+
   constructor(
     @inject(TYPES.IBlogPostRepository) private blogPostRepository: IBlogPostRepository,
-    @inject(TYPES.ICategoryRepository) private categoryRepository: ICategoryRepository
+    @inject(TYPES.ICategoryRepository) private categoryRepository: ICategoryRepository,
+    @inject(TYPES.IPostRevisionRepository) private postRevisionRepository: IPostRevisionRepository,
+    @inject(TYPES.ISearchRepository) private searchRepository: ISearchRepository,
+    @inject(TYPES.IPostReviewEventRepository) private postReviewEventRepository: IPostReviewEventRepository,
+    @inject(TYPES.IUnitOfWork) private unitOfWork: IUnitOfWork,
+    @inject(TYPES.IMediaService) private mediaService: IMediaService,
+    @inject(TYPES.ISlugHistoryRepository) private slugHistoryRepository: ISlugHistoryRepository,
+    @inject(TYPES.ITagService) private tagService: ITagService,
+    @inject(TYPES.IPostAuthorRepository) private postAuthorRepository: IPostAuthorRepository,
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository
   ) {}
 
   async getById(id: string): Promise<BlogPostResponseDto | null> {
@@ -34,6 +72,11 @@ export class BlogPostService implements IBlogPostService {
   }
 
   async create(dto: CreateBlogPostDto, authorId: string): Promise<BlogPostResponseDto> {
+    // New tags are created in the post's transaction, a failed write leaves none behind
+    return this.unitOfWork.execute(() => this.createPost(dto, authorId));
+  }
+
+  private async createPost(dto: CreateBlogPostDto, authorId: string): Promise<BlogPostResponseDto> {
   // Author ID gerekli ve geçerli olmalı
   if (!authorId || authorId.trim() === '') {
     throw new ValidationError('Author ID is required for all blog posts');
@@ -67,17 +110,21 @@ export class BlogPostService implements IBlogPostService {
   // Slug oluştur
   const baseSlug = slugify(dto.title, { lower: true, strict: true });
   const slug = await this.generateUniqueSlug(baseSlug);
+  const tags = await this.resolveTags(dto.tags);
 
-  const isPublishing = dto.status === PostStatus.PUBLISHED || dto.isPublished;
+  // Yeni yazılar taslak olarak başlar, yayın editör onayından sonra yapılır
+  const scheduledFor = dto.scheduledFor ? this.parseScheduleDate(dto.scheduledFor) : undefined;
+  const draft = this.applyTransition(() => BlogPost.create({ ...dto, tags, slug, authorId, scheduledFor }));
 
   const blogPostData: Partial<BlogPost> = {
     ...dto,
+    tags,
     slug,
     authorId, // Mutlaka set et
     categoryId: dto.categoryId,
-    status: dto.status || PostStatus.DRAFT,
-    isPublished: isPublishing,
-    publishedAt: isPublishing ? new Date() : undefined,
+    status: draft.status,
+    isPublished: draft.isPublished,
+    scheduledFor: draft.scheduledFor, // Requested time, scheduled when the post is approved
     viewCount: 0,
     commentsCount: 0,
   };
@@ -86,12 +133,24 @@ export class BlogPostService implements IBlogPostService {
   return this.mapToDto(blogPost);
 }
 
-  async update(id: string, dto: UpdateBlogPostDto): Promise<BlogPostResponseDto> {
+  async update(id: string, dto: UpdateBlogPostDto, editorId?: string): Promise<BlogPostResponseDto> {
+    // New tags are created in the post's transaction, a failed write leaves none behind
+    const blogPost = await this.unitOfWork.execute(() => this.updatePost(id, dto, editorId));
+    this.invalidateRelatedPosts();
+    return blogPost;
+  }
+
+  private async updatePost(id: string, dto: UpdateBlogPostDto, editorId?: string): Promise<BlogPostResponseDto> {
     const existingPost = await this.blogPostRepository.findById(id);
     if (!existingPost) {
       throw new NotFoundError('Blog post not found', { postId: id });
     }
 
+    // Tags are compared with the stored ones under their canonical names
+    if (dto.tags !== undefined) {
+      dto = { ...dto, tags: await this.resolveTags(dto.tags) };
+    }
+
     // If category is being changed, verify it exists
     if (dto.categoryId) {
       const categoryExists = await this.categoryRepository.exists(dto.categoryId);
@@ -109,10 +168,6 @@ export class BlogPostService implements IBlogPostService {
       throw new ValidationError('Content must be at least 50 characters long');
     }
 
-    if (dto.tags && dto.tags.length > 10) {
-      throw new ValidationError('Maximum 10 tags allowed');
-    }
-
     if (dto.excerpt && dto.excerpt.length > 500) {
       throw new ValidationError('Excerpt cannot exceed 500 characters');
     }
@@ -125,29 +180,170 @@ export class BlogPostService implements IBlogPostService {
       updateData.slug = await this.generateUniqueSlug(baseSlug, id);
     }
 
-    // Set publish date when publishing for first time
-    if (dto.isPublished && !existingPost.isPublished) {
-      updateData.publishedAt = new Date();
-      updateData.status = PostStatus.PUBLISHED;
+    if (dto.isPublished && dto.scheduledFor) {
+      throw new ValidationError('A post cannot be published and scheduled at the same time');
+    }
+
+    // Workflow fields are derived from domain transitions, never copied from the request
+    delete updateData.status;
+    delete updateData.isPublished;
+    delete updateData.scheduledFor;
+
+    const current = BlogPost.fromDatabase(existingPost);
+    const snapshot = PostRevisionUtils.snapshotOf(existingPost);
+    const contentChanged = PostRevisionUtils.hasChanges(snapshot, this.pickSnapshotFields(dto));
+
+    const transitions: Array<{ action: ReviewAction; before: BlogPost; after: BlogPost }> = [];
+    let post = current;
+
+    // Content edits are blocked during review and revoke an existing approval
+    if (contentChanged) {
+      const edited = this.applyTransition(() => post.updateContent(this.pickSnapshotFields(dto)));
+      if (edited.status !== post.status) {
+        transitions.push({ action: ReviewAction.APPROVAL_REVOKED, before: post, after: edited });
+      }
+      post = edited;
+    }
+
+    // Drafts only carry the requested publish time until they are approved
+    if (dto.scheduledFor !== undefined && post.status === PostStatus.DRAFT && !post.isPublished) {
+      const requested = dto.scheduledFor === null ? undefined : this.parseScheduleDate(dto.scheduledFor);
+      post = this.applyTransition(() => post.requestSchedule(requested));
+      updateData.scheduledFor = post.scheduledFor ?? null;
+      dto = { ...dto, scheduledFor: undefined };
     }
 
-    // When unpublishing, change status but keep publishedAt for historical record
-    if (dto.isPublished === false && existingPost.isPublished) {
-      updateData.status = PostStatus.DRAFT;
-      // Keep publishedAt for audit trail
+    const statusChange = this.resolveStatusChange(post, dto);
+    if (statusChange) {
+      transitions.push({ ...statusChange, before: post });
+      post = statusChange.after;
     }
 
-    const blogPost = await this.blogPostRepository.update(id, updateData);
+    if (transitions.length > 0) {
+      Object.assign(updateData, this.publicationFields(post));
+    }
+
+    // The revision, the update and its review events are kept or discarded together
+    const blogPost = await this.unitOfWork.execute(async () => {
+      // Snapshot the current state before it is overwritten
+      if (contentChanged) {
+        await this.postRevisionRepository.createNext({
+          ...snapshot,
+          blogPostId: id,
+          editorId: editorId || null,
+        });
+      }
+
+      const updated = await this.blogPostRepository.update(id, updateData);
+
+      // Links to the old slug keep working through the slug history
+      if (updateData.slug && updateData.slug !== existingPost.slug) {
+        await this.slugHistoryRepository.recordChange(SlugResourceType.POST, id, existingPost.slug, updateData.slug);
+      }
+
+      for (const transition of transitions) {
+        await this.recordTransition(transition.before, transition.after, transition.action, editorId);
+      }
+
+      return updated;
+    });
+
     return this.mapToDto(blogPost);
   }
 
+  /**
+   * Maps the legacy status / isPublished / scheduledFor fields of a generic
+   * update onto the domain transitions, so the review rules still apply
+   */
+  private resolveStatusChange(
+    post: BlogPost,
+    dto: UpdateBlogPostDto
+  ): { action: ReviewAction; after: BlogPost } | null {
+    if (dto.scheduledFor !== undefined) {
+      if (dto.scheduledFor === null) {
+        return post.isScheduled()
+          ? { action: ReviewAction.UNSCHEDULED, after: this.applyTransition(() => post.cancelSchedule()) }
+          : null;
+      }
+
+      const scheduledFor = this.parseScheduleDate(dto.scheduledFor);
+      return { action: ReviewAction.SCHEDULED, after: this.applyTransition(() => post.schedule(scheduledFor)) };
+    }
+
+    // Archiving takes a published post offline too, it is recorded as archived, not unpublished
+    if (dto.status === PostStatus.ARCHIVED) {
+      if (dto.isPublished) {
+        throw new ValidationError('An archived post cannot be published');
+      }
+      return post.status !== PostStatus.ARCHIVED
+        ? { action: ReviewAction.ARCHIVED, after: post.archive() }
+        : null;
+    }
+
+    // Only PUBLISHED and DRAFT say whether the post should be online
+    const statusWantsPublished =
+      dto.status === PostStatus.PUBLISHED ? true : dto.status === PostStatus.DRAFT ? false : undefined;
+    const wantsPublished = dto.isPublished ?? statusWantsPublished;
+
+    if (wantsPublished === true && !post.isPublished) {
+      return { action: ReviewAction.PUBLISHED, after: this.applyTransition(() => post.publish()) };
+    }
+
+    // When unpublishing, keep publishedAt for historical record
+    if (wantsPublished === false && post.isPublished) {
+      return { action: ReviewAction.UNPUBLISHED, after: this.applyTransition(() => post.unpublish()) };
+    }
+
+    if (dto.status === PostStatus.SCHEDULED && !post.isScheduled()) {
+      throw new ValidationError('scheduledFor is required for scheduled posts');
+    }
+
+    if (dto.status === PostStatus.IN_REVIEW || dto.status === PostStatus.APPROVED) {
+      if (dto.status !== post.status) {
+        throw new ValidationError('Review status changes must go through the /review endpoints');
+      }
+    }
+
+    return null;
+  }
+
+  private pickSnapshotFields(dto: UpdateBlogPostDto) {
+    const fields: Record<string, any> = {};
+    if (dto.title !== undefined) fields.title = dto.title;
+    if (dto.content !== undefined) fields.content = dto.content;
+    if (dto.excerpt !== undefined) fields.excerpt = dto.excerpt;
+    if (dto.tags !== undefined) fields.tags = dto.tags;
+    if (dto.categoryId !== undefined) fields.categoryId = dto.categoryId;
+    return fields;
+  }
+
   async delete(id: string): Promise<boolean> {
     const existingPost = await this.blogPostRepository.findById(id);
     if (!existingPost) {
       throw new NotFoundError('Blog post not found', { postId: id });
     }
 
-    return await this.blogPostRepository.delete(id);
+    // Comments are deactivated and former slugs released in the same transaction as the post delete
+    await this.unitOfWork.execute(async () => {
+      if (!(await this.blogPostRepository.delete(id))) {
+        throw new Error(`Failed to delete blog post ${id}`);
+      }
+      await this.slugHistoryRepository.deleteByResource(SlugResourceType.POST, id);
+    });
+    this.invalidateRelatedPosts();
+
+    // Images only found in older revisions are left to the orphan purge
+    const sources = [existingPost.featuredImage, ...existingPost.images, existingPost.content].filter(
+      (source): source is string => !!source
+    );
+    try {
+      await this.mediaService.releaseUrls(sources);
+    } catch (error: any) {
+      // The post is gone either way; leftovers are picked up by the orphan purge
+      logger.warn("Failed to release media of deleted post", { postId: id, error: error.message });
+    }
+
+    return true;
   }
 
   async getBySlug(slug: string): Promise<BlogPostResponseDto | null> {
@@ -155,6 +351,16 @@ export class BlogPostService implements IBlogPostService {
     return blogPost ? this.mapToDto(blogPost) : null;
   }
 
+  async getRedirectSlug(slug: string): Promise<string | null> {
+    const entry = await this.slugHistoryRepository.findBySlug(SlugResourceType.POST, slug);
+    if (!entry) {
+      return null;
+    }
+
+    const blogPost = await this.blogPostRepository.findById(entry.resourceId);
+    return blogPost && blogPost.slug !== slug ? blogPost.slug : null;
+  }
+
   async getPublished(options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>> {
     const searchOptions = {
       ...options,
@@ -172,18 +378,26 @@ export class BlogPostService implements IBlogPostService {
     };
   }
 
-  async getByCategory(categorySlug: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>> {
+  async getByCategory(
+    categorySlug: string,
+    options?: IFindAllOptions,
+    includeDescendants: boolean = false
+  ): Promise<IPaginatedResult<BlogPostResponseDto>> {
     // Find category by slug first
     const category = await this.categoryRepository.findBySlug(categorySlug);
     if (!category) {
       throw new NotFoundError('Category not found', { categorySlug });
     }
 
+    const descendants = includeDescendants ? await this.categoryRepository.findDescendants(category.id) : [];
+
     const searchOptions = {
       ...options,
       filters: {
         ...options?.filters,
-        categoryId: category.id,
+        categoryId: descendants.length > 0
+          ? { in: [category.id, ...descendants.map((descendant) => descendant.id)] }
+          : category.id,
         isPublished: true,
         status: PostStatus.PUBLISHED,
       },
@@ -196,12 +410,25 @@ export class BlogPostService implements IBlogPostService {
     };
   }
 
+  async getByTag(tagSlug: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>> {
+    const tag = await this.tagService.getBySlug(tagSlug);
+    if (!tag) {
+      throw new NotFoundError('Tag not found', { tagSlug });
+    }
+
+    const result = await this.blogPostRepository.findByTag(tag.name, options);
+    return {
+      data: result.data.map((post) => this.mapToDto(post)),
+      pagination: result.pagination,
+    };
+  }
+
   async getByAuthor(authorId: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>> {
     const searchOptions = {
       ...options,
       filters: {
         ...options?.filters,
-        authorId,
+        authors: { some: { userId: authorId } },
       },
     };
 
@@ -212,6 +439,30 @@ export class BlogPostService implements IBlogPostService {
     };
   }
 
+  async setAuthors(id: string, dto: UpdatePostAuthorsDto): Promise<BlogPostResponseDto> {
+    const invalid = PostAuthorUtils.validate(dto.authors);
+    if (invalid) {
+      throw new ValidationError(invalid, { postId: id });
+    }
+
+    if (!(await this.blogPostRepository.exists(id))) {
+      throw new NotFoundError('Blog post not found', { postId: id });
+    }
+
+    for (const author of dto.authors) {
+      const user = await this.userRepository.findById(author.userId);
+      if (!user || !user.isActive) {
+        throw new NotFoundError('Author not found', { userId: author.userId });
+      }
+    }
+
+    // The list is replaced as a whole, a post is never left without its primary author
+    await this.unitOfWork.execute(() => this.postAuthorRepository.replace(id, dto.authors));
+
+    const blogPost = await this.blogPostRepository.findById(id);
+    return this.mapToDto(blogPost);
+  }
+
   async incrementViewCount(id: string): Promise<void> {
     const exists = await this.blogPostRepository.exists(id);
     if (!exists) {
@@ -252,6 +503,85 @@ export class BlogPostService implements IBlogPostService {
     return posts.map((post: BlogPost) => this.mapToDto(post));
   }
 
+  async getRelated(id: string, limit: number = 5): Promise<RelatedPostDto[] | null> {
+    if (limit <= 0 || limit > RELATED_MAX_RESULTS) {
+      throw new ValidationError(`Limit must be between 1 and ${RELATED_MAX_RESULTS}`, { limit });
+    }
+
+    const source = await this.blogPostRepository.findById(id);
+    if (!source) {
+      return null;
+    }
+
+    const scores = (await this.getRelatedScores(source)).slice(0, limit);
+    if (scores.length === 0) {
+      return [];
+    }
+
+    const result = await this.blogPostRepository.findPublished({
+      limit: scores.length,
+      filters: { id: { in: scores.map((score) => score.id) } },
+    });
+
+    const postsById = new Map(result.data.map((post) => [post.id, post]));
+    return scores
+      .filter((score) => postsById.has(score.id))
+      .map((score) => ({
+        ...this.mapToDto(postsById.get(score.id)),
+        score: Math.round(score.score * 10000) / 10000,
+      }));
+  }
+
+  /**
+   * Entries are recomputed when the source post changed and after the TTL, which keeps
+   * recency current and picks up tag and category merges.
+   */
+  private async getRelatedScores(source: BlogPost): Promise<RelatedPostScore[]> {
+    const sourceUpdatedAt = new Date(source.updatedAt).getTime();
+    const cached = this.relatedCache.get(source.id);
+    if (
+      cached &&
+      cached.sourceUpdatedAt === sourceUpdatedAt &&
+      Date.now() - cached.loadedAt < config.relatedPosts.cacheTtlSeconds * 1000
+    ) {
+      return cached.scores;
+    }
+
+    const category = await this.categoryRepository.findById(source.categoryId);
+    const sourceDocument: RelatedPostCandidate = {
+      id: source.id,
+      title: source.title,
+      excerpt: source.excerpt,
+      content: source.content,
+      tags: source.tags || [],
+      categoryId: source.categoryId,
+      categoryParentId: category?.parentId ?? null,
+      publishedAt: source.publishedAt,
+    };
+
+    const candidates = await this.blogPostRepository.findRelatedCandidates(sourceDocument, config.relatedPosts.candidateLimit);
+    const scores = RelatedPostUtils.rank(sourceDocument, candidates, config.relatedPosts.weights, {
+      recencyHalfLifeDays: config.relatedPosts.recencyHalfLifeDays,
+    }).slice(0, RELATED_MAX_RESULTS);
+
+    this.relatedCache.delete(source.id);
+    if (this.relatedCache.size >= RELATED_CACHE_MAX_ENTRIES) {
+      this.relatedCache.delete(this.relatedCache.keys().next().value!);
+    }
+    this.relatedCache.set(source.id, { sourceUpdatedAt, loadedAt: Date.now(), scores });
+
+    return scores;
+  }
+
+  /**
+   * Any change to a published post can move it into or out of the results of every other
+   * post, so its write paths drop all cached scores. New posts start as drafts and review
+   * transitions never touch published posts, neither needs it.
+   */
+  private invalidateRelatedPosts(): void {
+    this.relatedCache.clear();
+  }
+
   async searchPosts(query: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>> {
     if (!query || query.trim().length === 0) {
       throw new ValidationError('Search query cannot be empty');
@@ -261,25 +591,31 @@ export class BlogPostService implements IBlogPostService {
       throw new ValidationError('Search query must be at least 2 characters long', { query });
     }
 
-    const searchOptions = {
-      ...options,
-      filters: {
-        ...options?.filters,
-        OR: [
-          { title: { contains: query.trim(), mode: "insensitive" } },
-          { content: { contains: query.trim(), mode: "insensitive" } },
-          { excerpt: { contains: query.trim(), mode: "insensitive" } },
-          { tags: { has: query.trim() } },
-        ],
-        isPublished: true,
-        status: PostStatus.PUBLISHED,
-      },
-    };
+    // Ranked full-text search, then load the matching posts in rank order
+    const hits = await this.searchRepository.search({
+      query: query.trim(),
+      types: [SearchType.POSTS],
+      page: options?.page,
+      limit: options?.limit,
+    });
+
+    const postIds = hits.data.map((hit) => hit.id);
+    if (postIds.length === 0) {
+      return { data: [], pagination: hits.pagination };
+    }
 
-    const result = await this.blogPostRepository.findAll(searchOptions);
+    const result = await this.blogPostRepository.findAll({
+      limit: postIds.length,
+      sortBy: 'publishedAt',
+      filters: { id: { in: postIds } },
+    });
+
+    const postsById = new Map(result.data.map((post) => [post.id, post]));
     return {
-      data: result.data.map((post) => this.mapToDto(post)),
-      pagination: result.pagination,
+      data: postIds
+        .filter((id) => postsById.has(id))
+        .map((id) => this.mapToDto(postsById.get(id))),
+      pagination: hits.pagination,
     };
   }
 
@@ -290,7 +626,7 @@ export class BlogPostService implements IBlogPostService {
         ...options?.filters,
         status: PostStatus.DRAFT,
         isPublished: false,
-        ...(authorId && { authorId }),
+        ...(authorId && { authors: { some: { userId: authorId } } }),
       },
     };
 
@@ -301,7 +637,7 @@ export class BlogPostService implements IBlogPostService {
     };
   }
 
-  async publish(id: string): Promise<BlogPostResponseDto> {
+  async publish(id: string, actorId?: string): Promise<BlogPostResponseDto> {
     const existingPost = await this.blogPostRepository.findById(id);
     if (!existingPost) {
       throw new NotFoundError('Blog post not found', { postId: id });
@@ -316,17 +652,93 @@ export class BlogPostService implements IBlogPostService {
       throw new ValidationError('Cannot publish post without a category', { postId: id });
     }
 
-    const updateData = {
-      isPublished: true,
-      status: PostStatus.PUBLISHED,
-      publishedAt: new Date(),
-    };
+    const post = BlogPost.fromDatabase(existingPost);
+    const published = this.applyTransition(() => post.publish());
+
+    const blogPost = await this.persistTransition(
+      post,
+      published,
+      this.publicationFields(published),
+      ReviewAction.PUBLISHED,
+      actorId
+    );
+    return this.mapToDto(blogPost);
+  }
+
+  async schedule(id: string, scheduledFor: Date | string, actorId?: string): Promise<BlogPostResponseDto> {
+    const existingPost = await this.blogPostRepository.findById(id);
+    if (!existingPost) {
+      throw new NotFoundError('Blog post not found', { postId: id });
+    }
 
-    const blogPost = await this.blogPostRepository.update(id, updateData);
+    const date = this.parseScheduleDate(scheduledFor);
+    const post = BlogPost.fromDatabase(existingPost);
+    const scheduled = this.applyTransition(() => post.schedule(date));
+
+    const blogPost = await this.persistTransition(
+      post,
+      scheduled,
+      this.scheduleFields(scheduled),
+      ReviewAction.SCHEDULED,
+      actorId
+    );
     return this.mapToDto(blogPost);
   }
 
-  async unpublish(id: string): Promise<BlogPostResponseDto> {
+  async cancelSchedule(id: string, actorId?: string): Promise<BlogPostResponseDto> {
+    const existingPost = await this.blogPostRepository.findById(id);
+    if (!existingPost) {
+      throw new NotFoundError('Blog post not found', { postId: id });
+    }
+
+    const post = BlogPost.fromDatabase(existingPost);
+    const unscheduled = this.applyTransition(() => post.cancelSchedule());
+
+    const blogPost = await this.persistTransition(
+      post,
+      unscheduled,
+      this.scheduleFields(unscheduled),
+      ReviewAction.UNSCHEDULED,
+      actorId
+    );
+    return this.mapToDto(blogPost);
+  }
+
+  async publishDuePosts(now: Date = new Date(), limit: number = 50): Promise<BlogPostResponseDto[]> {
+    const duePosts = await this.blogPostRepository.findDueScheduled(now, limit);
+    const publishedPosts: BlogPostResponseDto[] = [];
+
+    for (const duePost of duePosts) {
+      const post = BlogPost.fromDatabase(duePost);
+      if (!post.isDue(now)) {
+        continue;
+      }
+
+      // One broken post must not hold back the rest of the batch; it is retried on the next tick
+      try {
+        const published = post.publish();
+        const blogPost = await this.persistTransition(
+          post,
+          published,
+          this.publicationFields(published),
+          ReviewAction.PUBLISHED,
+          null
+        );
+        publishedPosts.push(this.mapToDto(blogPost));
+      } catch (error: any) {
+        logger.error('Failed to publish scheduled post', {
+          postId: post.id,
+          scheduledFor: post.scheduledFor,
+          error: error.message,
+          stack: error.stack,
+        });
+      }
+    }
+
+    return publishedPosts;
+  }
+
+  async unpublish(id: string, actorId?: string): Promise<BlogPostResponseDto> {
     const existingPost = await this.blogPostRepository.findById(id);
     if (!existingPost) {
       throw new NotFoundError('Blog post not found', { postId: id });
@@ -336,13 +748,17 @@ export class BlogPostService implements IBlogPostService {
       throw new ValidationError('Post is not published', { postId: id });
     }
 
-    const updateData = {
-      isPublished: false,
-      status: PostStatus.DRAFT,
-      // Keep publishedAt for historical record
-    };
-
-    const blogPost = await this.blogPostRepository.update(id, updateData);
+    // Keep publishedAt for historical record
+    const post = BlogPost.fromDatabase(existingPost);
+    const unpublished = this.applyTransition(() => post.unpublish());
+
+    const blogPost = await this.persistTransition(
+      post,
+      unpublished,
+      this.scheduleFields(unpublished),
+      ReviewAction.UNPUBLISHED,
+      actorId
+    );
     return this.mapToDto(blogPost);
   }
 
@@ -374,6 +790,73 @@ export class BlogPostService implements IBlogPostService {
     };
   }
 
+  private parseScheduleDate(value: Date | string): Date {
+    const date = value instanceof Date ? value : new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError('scheduledFor must be a valid date', { scheduledFor: value });
+    }
+    return date;
+  }
+
+  // Domain transitions throw plain errors, surface them as validation errors
+  private applyTransition(transition: () => BlogPost): BlogPost {
+    try {
+      return transition();
+    } catch (error: any) {
+      throw new ValidationError(error.message);
+    }
+  }
+
+  private publicationFields(post: BlogPost): BlogPostChanges {
+    return {
+      status: post.status,
+      isPublished: post.isPublished,
+      publishedAt: post.publishedAt,
+      scheduledFor: post.scheduledFor ?? null,
+    };
+  }
+
+  // Persists a transition together with its review event
+  private async persistTransition(
+    before: BlogPost,
+    after: BlogPost,
+    fields: BlogPostChanges,
+    action: ReviewAction,
+    actorId?: string | null
+  ) {
+    const blogPost = await this.unitOfWork.execute(async () => {
+      const updated = await this.blogPostRepository.update(before.id, fields);
+      await this.recordTransition(before, after, action, actorId);
+      return updated;
+    });
+    this.invalidateRelatedPosts();
+    return blogPost;
+  }
+
+  private async recordTransition(
+    before: BlogPost,
+    after: BlogPost,
+    action: ReviewAction,
+    actorId?: string | null
+  ): Promise<void> {
+    await this.postReviewEventRepository.create({
+      blogPostId: before.id,
+      action,
+      fromStatus: before.status,
+      toStatus: after.status,
+      actorId: actorId || null,
+      reviewerId: after.reviewerId || null,
+    });
+  }
+
+  private scheduleFields(post: BlogPost): BlogPostChanges {
+    return {
+      status: post.status,
+      isPublished: post.isPublished,
+      scheduledFor: post.scheduledFor ?? null,
+    };
+  }
+
   private calculateReadingTime(content: string): number {
     // Average reading speed is 200-250 words per minute
     const wordsPerMinute = 225;
@@ -406,6 +889,8 @@ private mapToDto(blogPost: any): BlogPostResponseDto {
       commentsCount: blogPost._count?.comments || blogPost.commentsCount || 0,
       isPublished: blogPost.isPublished,
       publishedAt: blogPost.publishedAt,
+      scheduledFor: blogPost.scheduledFor ?? undefined,
+      reviewer: blogPost.reviewer ?? null,
       createdAt: blogPost.createdAt,
       updatedAt: blogPost.updatedAt,
       author: {
@@ -416,16 +901,36 @@ private mapToDto(blogPost: any): BlogPostResponseDto {
         avatar: blogPost.author.avatar,
         bio: blogPost.author.bio,
       },
+      authors: (blogPost.authors || []).map((author: any) => ({
+        id: author.user.id,
+        username: author.user.username || '',
+        firstName: author.user.firstName,
+        lastName: author.user.lastName,
+        avatar: author.user.avatar,
+        role: author.role,
+      })),
       category: {
         id: blogPost.category.id,
         name: blogPost.category.name,
         slug: blogPost.category.slug,
         color: blogPost.category.color,
         icon: blogPost.category.icon,
+        breadcrumbs: CategoryUtils.breadcrumbs(blogPost.category),
       },
+      series: blogPost.series
+        ? SeriesUtils.navigation(blogPost.id, { ...blogPost.series, parts: blogPost.series.posts })
+        : null,
     };
   }
 
+  // Canonical names of the given tags; the limit is checked before any new tag is created
+  private async resolveTags(tags: string[] = []): Promise<string[]> {
+    if (tags.length > TagUtils.MAX_PER_POST) {
+      throw new ValidationError(`Maximum ${TagUtils.MAX_PER_POST} tags allowed`);
+    }
+    return this.tagService.resolveNames(tags);
+  }
+
   private async generateUniqueSlug(baseSlug: string, excludeId?: string): Promise<string> {
     let slug = baseSlug;
     let counter = 1;
@@ -433,7 +938,9 @@ private mapToDto(blogPost: any): BlogPostResponseDto {
 
     while (counter <= maxAttempts) {
       const existing = await this.blogPostRepository.findBySlug(slug);
-      if (!existing || (excludeId && existing.id === excludeId)) {
+      const inUse = existing && existing.id !== excludeId;
+      // Former slugs of other posts still redirect there and are never reused
+      if (!inUse && !(await this.slugHistoryRepository.isTaken(SlugResourceType.POST, slug, excludeId))) {
         break;
       }
       slug = `${baseSlug}-${counter}`;
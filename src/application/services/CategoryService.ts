@@ -3,7 +3,7 @@
 import { inject, injectable } from "inversify";
 import { TYPES } from "../../core/container/types";
 import { ICategoryRepository } from "../../core/interfaces/Repositories/ICategoryRepository";
-import { CategoryResponseDto } from "../dtos/category/CategoryResponseDto";
+import { CategoryResponseDto, CategoryTreeNodeDto } from "../dtos/category/CategoryResponseDto";
 import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
 import { IFindAllOptions } from "../../core/interfaces/Common/IFindAllOptions";
 import { CreateCategoryDto } from "../dtos/category/CreateCategoryDto";
@@ -11,10 +11,21 @@ import slugify from "slugify";
 import { UpdateCategoryDto } from "../dtos/category/UpdateCategoryDto";
 import { ICategoryService } from "../../core/interfaces/Services/ICategoryService";
 import { Category, CategoryUtils } from "../../domain/entities/Category";
+import { IUnitOfWork } from "../../core/interfaces/IUnitOfWork";
+import { ConflictError, NotFoundError, ValidationError } from "../../core/errors";
+import { ISlugHistoryRepository } from "../../core/interfaces/Repositories/ISlugHistoryRepository";
+import { SlugResourceType } from "../../domain/enums/SlugResourceType";
+import { IBlogPostRepository } from "../../core/interfaces/Repositories/IBlogPostRepository";
+import { CategoryMergeResultDto, CategorySummaryDto, MergeCategoryDto } from "../dtos/category/MergeCategoryDto";
 
 @injectable()
 export class CategoryService implements ICategoryService {
-  constructor(@inject(TYPES.ICategoryRepository) private categoryRepository: ICategoryRepository) {}
+  constructor(
+    @inject(TYPES.ICategoryRepository) private categoryRepository: ICategoryRepository,
+    @inject(TYPES.IBlogPostRepository) private blogPostRepository: IBlogPostRepository,
+    @inject(TYPES.ISlugHistoryRepository) private slugHistoryRepository: ISlugHistoryRepository,
+    @inject(TYPES.IUnitOfWork) private unitOfWork: IUnitOfWork
+  ) {}
 
   async getById(id: string): Promise<CategoryResponseDto | null> {
     try {
@@ -71,6 +82,9 @@ export class CategoryService implements ICategoryService {
       if (existingCategory) {
         throw new Error("Category with this name already exists");
       }
+      await this.ensureSlugAvailable(slug);
+
+      const parentId = await this.resolveParentId(dto.parentId);
 
       // Create category data using utility
       const categoryData = CategoryUtils.create({
@@ -80,6 +94,7 @@ export class CategoryService implements ICategoryService {
         color: dto.color,
         icon: dto.icon,
         sortOrder: dto.sortOrder,
+        parentId,
       });
 
       const category = await this.categoryRepository.create(categoryData);
@@ -123,6 +138,7 @@ export class CategoryService implements ICategoryService {
           if (slugConflict && slugConflict.id !== id) {
             throw new Error("Category with this name already exists");
           }
+          await this.ensureSlugAvailable(newSlug, id);
           updateData.slug = newSlug;
         }
 
@@ -156,7 +172,23 @@ export class CategoryService implements ICategoryService {
         updateData.sortOrder = dto.sortOrder;
       }
 
-      const category = await this.categoryRepository.update(id, updateData);
+      if (dto.parentId !== undefined) {
+        updateData.parentId = await this.resolveParentId(dto.parentId, id);
+      }
+
+      // The old slug keeps redirecting to the renamed category
+      const category = await this.unitOfWork.execute(async () => {
+        const updated = await this.categoryRepository.update(id, updateData);
+        if (updateData.slug) {
+          await this.slugHistoryRepository.recordChange(
+            SlugResourceType.CATEGORY,
+            id,
+            existingCategory.slug,
+            updateData.slug
+          );
+        }
+        return updated;
+      });
       return this.mapToDto(category);
     } catch (error) {
       console.error("CategoryService.update error:", error);
@@ -170,13 +202,23 @@ export class CategoryService implements ICategoryService {
         return false;
       }
 
-      // Check if category exists
-      const existingCategory = await this.categoryRepository.findById(id);
-      if (!existingCategory) {
-        return false;
-      }
+      // The post count check and the soft or hard delete it picks must see the same data
+      return await this.unitOfWork.execute(async () => {
+        const existingCategory = await this.categoryRepository.findById(id);
+        if (!existingCategory) {
+          return false;
+        }
 
-      return await this.categoryRepository.delete(id);
+        if (!(await this.categoryRepository.delete(id))) {
+          throw new Error("Failed to delete category");
+        }
+
+        // Categories with posts are only deactivated and keep their former slugs
+        if (!(await this.categoryRepository.exists(id))) {
+          await this.slugHistoryRepository.deleteByResource(SlugResourceType.CATEGORY, id);
+        }
+        return true;
+      });
     } catch (error) {
       console.error("CategoryService.delete error:", error);
       return false;
@@ -239,6 +281,184 @@ export class CategoryService implements ICategoryService {
     }
   }
 
+  async getTree(includeInactive: boolean = false): Promise<CategoryTreeNodeDto[]> {
+    const categories = await this.categoryRepository.findAllSorted();
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const isVisible = (category: Category) => includeInactive || category.isActive;
+
+    const nodes = new Map<string, CategoryTreeNodeDto>();
+    for (const category of categories.filter(isVisible)) {
+      nodes.set(category.id, { ...this.mapToDto(category), depth: 1, totalPostsCount: 0, children: [] });
+    }
+
+    // Children of a hidden category are attached to its nearest visible ancestor
+    const roots: CategoryTreeNodeDto[] = [];
+    for (const category of categories.filter(isVisible)) {
+      let parent = category.parentId ? byId.get(category.parentId) : undefined;
+      for (let steps = 0; parent && !isVisible(parent) && steps < categories.length; steps++) {
+        parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+      }
+
+      const parentNode = parent && nodes.get(parent.id);
+      (parentNode ? parentNode.children : roots).push(nodes.get(category.id)!);
+    }
+
+    const complete = (node: CategoryTreeNodeDto, depth: number): number => {
+      node.depth = depth;
+      node.totalPostsCount =
+        (node.postsCount || 0) + node.children.reduce((sum, child) => sum + complete(child, depth + 1), 0);
+      return node.totalPostsCount;
+    };
+    roots.forEach((root) => complete(root, 1));
+
+    return roots;
+  }
+
+  /**
+   * Moves the posts, subcategories and old slugs of a category into another one, then
+   * deactivates or deletes it. The source slug keeps working as a redirect to the target.
+   */
+  async merge(sourceId: string, dto: MergeCategoryDto): Promise<CategoryMergeResultDto> {
+    const { targetId, deleteSource = false, dryRun = false } = dto;
+
+    if (sourceId === targetId) {
+      throw new ValidationError("A category cannot be merged into itself", { categoryId: sourceId });
+    }
+
+    // The report and the moves must see the same posts and subcategories
+    return this.unitOfWork.execute(async () => {
+      const source = await this.categoryRepository.findById(sourceId);
+      if (!source) {
+        throw new NotFoundError("Category not found", { categoryId: sourceId });
+      }
+
+      const target = await this.categoryRepository.findById(targetId);
+      if (!target) {
+        throw new NotFoundError("Target category not found", { targetId });
+      }
+
+      const targetAncestorIds = await this.categoryRepository.findAncestorIds(target.id);
+      if (targetAncestorIds.includes(source.id)) {
+        throw new ValidationError("A category cannot be merged into one of its own subcategories", {
+          categoryId: source.id,
+          targetId: target.id,
+        });
+      }
+
+      // Subcategories of the source become subcategories of the target
+      const descendants = await this.categoryRepository.findDescendants(source.id);
+      const movedDepth = Math.max(0, ...descendants.map((descendant) => descendant.depth));
+      if (targetAncestorIds.length + 1 + movedDepth > CategoryUtils.MAX_DEPTH) {
+        throw new ValidationError(`Categories can be nested at most ${CategoryUtils.MAX_DEPTH} levels deep`, {
+          targetId: target.id,
+          maxDepth: CategoryUtils.MAX_DEPTH,
+        });
+      }
+
+      const children = await this.categoryRepository.findChildren(source.id);
+      const result: CategoryMergeResultDto = {
+        dryRun,
+        source: this.toSummary(source),
+        target: this.toSummary(target),
+        movedPosts: await this.blogPostRepository.countByCategory(source.id),
+        movedSubcategories: children.map((child) => this.toSummary(child)),
+        redirectedSlugs: [
+          source.slug,
+          ...(await this.slugHistoryRepository.findSlugs(SlugResourceType.CATEGORY, source.id)),
+        ],
+        sourceAction: deleteSource ? "deleted" : "deactivated",
+      };
+
+      if (dryRun) {
+        return result;
+      }
+
+      result.movedPosts = await this.blogPostRepository.moveToCategory(source.id, target.id);
+      await this.categoryRepository.moveChildren(source.id, target.id);
+      await this.slugHistoryRepository.reassign(SlugResourceType.CATEGORY, source.id, target.id);
+      await this.slugHistoryRepository.recordChange(SlugResourceType.CATEGORY, target.id, source.slug, target.slug);
+
+      if (deleteSource) {
+        // Without posts left the repository removes the row instead of deactivating it
+        if (!(await this.categoryRepository.delete(source.id))) {
+          throw new Error("Failed to delete category");
+        }
+      } else {
+        await this.categoryRepository.update(source.id, { isActive: false });
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Current slug for a former slug of a renamed or merged category. A slug still used by an
+   * active category is never redirected, so reactivating a merged category takes it back.
+   */
+  async getRedirectSlug(slug: string): Promise<string | null> {
+    const category = await this.categoryRepository.findBySlug(slug);
+    if (category?.isActive) {
+      return null;
+    }
+
+    const entry = await this.slugHistoryRepository.findBySlug(SlugResourceType.CATEGORY, slug);
+    const target = entry && (await this.categoryRepository.findById(entry.resourceId));
+    return target && target.slug !== slug ? target.slug : null;
+  }
+
+  // Former slugs stay with their category so old links never switch to another one
+  private async ensureSlugAvailable(slug: string, categoryId?: string): Promise<void> {
+    if (await this.slugHistoryRepository.isTaken(SlugResourceType.CATEGORY, slug, categoryId)) {
+      throw new ConflictError("This name was used by another category before and its links still point there", {
+        slug,
+      });
+    }
+  }
+
+  private toSummary(category: Category): CategorySummaryDto {
+    return { id: category.id, name: category.name, slug: category.slug };
+  }
+
+  /**
+   * Validates the parent a category is created under or moved to: it must exist, must
+   * not be the category itself or one of its subcategories, and the moved subtree has to
+   * stay within CategoryUtils.MAX_DEPTH levels.
+   */
+  private async resolveParentId(parentId: string | null | undefined, categoryId?: string): Promise<string | null> {
+    if (!parentId) {
+      return null;
+    }
+
+    if (parentId === categoryId) {
+      throw new ValidationError("A category cannot be its own parent", { categoryId, parentId });
+    }
+
+    if (!(await this.categoryRepository.exists(parentId))) {
+      throw new NotFoundError("Parent category not found", { parentId });
+    }
+
+    const ancestorIds = await this.categoryRepository.findAncestorIds(parentId);
+    if (categoryId && ancestorIds.includes(categoryId)) {
+      throw new ValidationError("A category cannot be moved below one of its own subcategories", {
+        categoryId,
+        parentId,
+      });
+    }
+
+    const descendants = categoryId ? await this.categoryRepository.findDescendants(categoryId) : [];
+    const subtreeDepth = 1 + Math.max(0, ...descendants.map((descendant) => descendant.depth));
+    const parentLevel = ancestorIds.length + 1;
+
+    if (parentLevel + subtreeDepth > CategoryUtils.MAX_DEPTH) {
+      throw new ValidationError(`Categories can be nested at most ${CategoryUtils.MAX_DEPTH} levels deep`, {
+        parentId,
+        maxDepth: CategoryUtils.MAX_DEPTH,
+      });
+    }
+
+    return parentId;
+  }
+
   private mapToDto(category: Category): CategoryResponseDto {
     return {
       id: category.id,
@@ -249,6 +469,7 @@ export class CategoryService implements ICategoryService {
       icon: category.icon || "folder",
       isActive: category.isActive,
       sortOrder: category.sortOrder,
+      parentId: category.parentId || null,
       createdAt: category.createdAt,
       updatedAt: category.updatedAt,
       postsCount: category._count?.blogPosts || 0,
@@ -289,16 +510,21 @@ export class CategoryService implements ICategoryService {
         }
       }
 
-      // Verify all categories exist
-      for (const cat of categories) {
-        const exists = await this.categoryRepository.findById(cat.id);
-        if (!exists) {
-          throw new Error(`Category with ID ${cat.id} not found`);
+      // Either every sort order is applied or none is
+      await this.unitOfWork.execute(async () => {
+        // Verify all categories exist
+        for (const cat of categories) {
+          const exists = await this.categoryRepository.findById(cat.id);
+          if (!exists) {
+            throw new Error(`Category with ID ${cat.id} not found`);
+          }
         }
-      }
 
-      // Update all sort orders using Promise.all for better performance
-      await Promise.all(categories.map((cat) => this.categoryRepository.updateSortOrder(cat.id, cat.sortOrder)));
+        // Queries of one transaction run on a single connection, so update one by one
+        for (const cat of categories) {
+          await this.categoryRepository.updateSortOrder(cat.id, cat.sortOrder);
+        }
+      });
     } catch (error) {
       console.error("CategoryService.bulkUpdateSortOrder error:", error);
       throw error;
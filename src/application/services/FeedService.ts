@@ -0,0 +1,113 @@
+// src/application/services/FeedService.ts
+
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { NotFoundError } from "../../core/errors";
+import { IBlogPostRepository } from "../../core/interfaces/Repositories/IBlogPostRepository";
+import { ICategoryRepository } from "../../core/interfaces/Repositories/ICategoryRepository";
+import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { IFeedService } from "../../core/interfaces/Services/IFeedService";
+import { config } from "../../config/env";
+import { HelperUtils } from "../../utils/helper";
+import { FeedDto, FeedItemDto } from "../dtos/feed/FeedDto";
+
+@injectable()
+export class FeedService implements IFeedService {
+  constructor(
+    @inject(TYPES.IBlogPostRepository) private blogPostRepository: IBlogPostRepository,
+    @inject(TYPES.ICategoryRepository) private categoryRepository: ICategoryRepository,
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository
+  ) {}
+
+  async getSiteFeed(): Promise<FeedDto> {
+    return this.buildFeed({
+      title: config.feeds.title,
+      description: config.feeds.description,
+      siteUrl: config.site.url,
+      feedPath: "/feeds",
+    });
+  }
+
+  async getCategoryFeed(categorySlug: string): Promise<FeedDto> {
+    const category = await this.categoryRepository.findBySlug(categorySlug);
+    if (!category || !category.isActive) {
+      throw new NotFoundError("Category not found", { categorySlug });
+    }
+
+    return this.buildFeed(
+      {
+        title: `${config.feeds.title} - ${category.name}`,
+        description: category.description || config.feeds.description,
+        siteUrl: `${config.site.url}${config.site.categoryPath}/${category.slug}`,
+        feedPath: `/feeds/category/${category.slug}`,
+      },
+      { categoryId: category.id }
+    );
+  }
+
+  async getAuthorFeed(authorId: string): Promise<FeedDto> {
+    const author = await this.userRepository.findById(authorId);
+    if (!author || !author.isActive) {
+      throw new NotFoundError("Author not found", { authorId });
+    }
+
+    return this.buildFeed(
+      {
+        title: `${config.feeds.title} - ${author.firstName} ${author.lastName}`,
+        description: author.bio || config.feeds.description,
+        siteUrl: `${config.site.url}${config.site.authorPath}/${author.username}`,
+        feedPath: `/feeds/author/${author.id}`,
+      },
+      // Co-authored posts belong in the feed of every author
+      { authors: { some: { userId: author.id } } }
+    );
+  }
+
+  private async buildFeed(
+    meta: Pick<FeedDto, "title" | "description" | "siteUrl" | "feedPath">,
+    filters: Record<string, any> = {}
+  ): Promise<FeedDto> {
+    const result = await this.blogPostRepository.findPublished({
+      page: 1,
+      limit: config.feeds.itemLimit,
+      sortBy: "publishedAt",
+      sortOrder: "desc",
+      filters,
+    });
+
+    const items = result.data.map((post) => this.mapToItem(post));
+
+    // The feed changes whenever one of its entries does
+    const updatedAt = items.reduce(
+      (latest, item) => (item.updatedAt > latest ? item.updatedAt : latest),
+      new Date(0)
+    );
+
+    return {
+      ...meta,
+      language: config.feeds.language,
+      updatedAt,
+      items,
+    };
+  }
+
+  private mapToItem(post: any): FeedItemDto {
+    const publishedAt = post.publishedAt || post.createdAt;
+    const updatedAt = post.updatedAt > publishedAt ? post.updatedAt : publishedAt;
+
+    return {
+      id: post.id,
+      title: post.title,
+      url: `${config.site.url}${config.site.postPath}/${post.slug}`,
+      summary: post.excerpt || HelperUtils.generateExcerpt(post.content, 300),
+      contentHtml: config.feeds.content === "full" ? post.content : undefined,
+      author: {
+        name: post.author ? `${post.author.firstName} ${post.author.lastName}`.trim() : "",
+        url: post.author ? `${config.site.url}${config.site.authorPath}/${post.author.username}` : undefined,
+      },
+      categories: [post.category?.name, ...(post.tags || [])].filter(Boolean),
+      publishedAt,
+      updatedAt,
+    };
+  }
+}
@@ -1,100 +1,105 @@
-import { config } from "../../config/env";
 import { IImageService } from "../../core/interfaces/Services/IImageService";
+import { IStorageProvider } from "../../core/interfaces/Services/IStorageProvider";
+import { IImageProcessor, ImageFormat, ProcessedImageFile } from "../../core/interfaces/Services/IImageProcessor";
+import { ImageUploadResultDto, ImageVariantDto } from "../dtos/image/ImageUploadDto";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { config } from "../../config/env";
 import logger from "../../utils/logger";
-import { injectable } from 'inversify';
-import * as Minio from 'minio';
+import { inject, injectable } from 'inversify';
+
+const FILE_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  gif: 'gif',
+  webp: 'webp',
+  avif: 'avif',
+};
 
 @injectable()
 export class ImageService implements IImageService {
-  private minioClient: Minio.Client;
-  private bucketName: string;
-
-  constructor() {
-    this.bucketName = config.minio.bucketName;
-    this.minioClient = new Minio.Client({
-      endPoint: config.minio.endPoint,
-      port: config.minio.port,
-      useSSL: config.minio.useSSL,
-      accessKey: config.minio.accessKey,
-      secretKey: config.minio.secretKey,
-    });
-    
-    this.initializeBucket();
-  }
+  constructor(
+    @inject(TYPES.IStorageProvider) private storage: IStorageProvider,
+    @inject(TYPES.IImageProcessor) private imageProcessor: IImageProcessor
+  ) {}
 
-  private async initializeBucket(): Promise<void> {
+  async uploadImage(file: Buffer, fileName: string, contentType: string): Promise<ImageUploadResultDto> {
     try {
-      const bucketExists = await this.minioClient.bucketExists(this.bucketName);
-      if (!bucketExists) {
-        await this.minioClient.makeBucket(this.bucketName, 'us-east-1');
-        logger.info(`Created MinIO bucket: ${this.bucketName}`);
-        
-        // Set bucket policy for public read access to images
-        const policy = {
-          Version: '2012-10-17',
-          Statement: [
-            {
-              Effect: 'Allow',
-              Principal: { AWS: ['*'] },
-              Action: ['s3:GetObject'],
-              Resource: [`arn:aws:s3:::${this.bucketName}/*`],
-            },
-          ],
-        };
-        
-        await this.minioClient.setBucketPolicy(this.bucketName, JSON.stringify(policy));
-        logger.info(`Set public read policy for bucket: ${this.bucketName}`);
+      const processed = await this.imageProcessor.process(file, config.images.variants, config.images.formats);
+
+      // All files of one upload share a folder: images/<id>/<variant>.<ext>
+      const folder = `images/${this.generateUniqueId()}`;
+      const stored: Array<ProcessedImageFile & { url: string; key: string }> = [];
+
+      for (const processedFile of processed.files) {
+        const result = await this.storage.put(
+          `${folder}/${processedFile.variant}.${FILE_EXTENSIONS[processedFile.format]}`,
+          processedFile.buffer,
+          {
+            contentType: processedFile.contentType,
+            cacheControl: 'max-age=31536000', // 1 year cache
+          }
+        );
+        stored.push({ ...processedFile, url: result.url, key: result.key });
       }
-    } catch (error) {
-      logger.error('Error initializing MinIO bucket:', error);
-      throw error;
-    }
-  }
 
-  async uploadImage(file: Buffer, fileName: string, contentType: string): Promise<string> {
-    try {
-      const uniqueFileName = this.generateUniqueFileName(fileName);
-      
-      await this.minioClient.putObject(
-        this.bucketName,
-        uniqueFileName,
-        file,
-        file.length,
-        {
-          'Content-Type': contentType,
-          'Cache-Control': 'max-age=31536000', // 1 year cache
-        }
-      );
-
-      logger.info(`Image uploaded successfully: ${uniqueFileName}`);
-      return this.getImageUrl(uniqueFileName);
+      const original = stored[0];
+      logger.info(`Image uploaded successfully: ${original.key}`, {
+        driver: this.storage.driver,
+        fileName,
+        contentType,
+        originalSize: file.length,
+        storedSize: original.buffer.length,
+        files: stored.length,
+      });
+
+      return {
+        url: original.url,
+        key: original.key,
+        format: processed.format,
+        width: processed.width,
+        height: processed.height,
+        size: original.buffer.length,
+        storageKeys: stored.map((storedFile) => storedFile.key),
+        storedBytes: stored.reduce((total, storedFile) => total + storedFile.buffer.length, 0),
+        variants: this.buildVariants(stored.slice(1)),
+        srcset: this.buildSrcset(stored.slice(1)),
+      };
     } catch (error) {
+      // Unreadable or unsupported images are the client's fault
+      if (error instanceof BaseError) {
+        throw error;
+      }
       logger.error('Error uploading image:', error);
       throw new Error('Failed to upload image');
     }
   }
 
-  async uploadMultipleImages(files: Array<{ buffer: Buffer; fileName: string; contentType: string }>): Promise<string[]> {
-    const uploadPromises = files.map(file => 
-      this.uploadImage(file.buffer, file.fileName, file.contentType)
-    );
-    
-    try {
-      return await Promise.all(uploadPromises);
-    } catch (error) {
-      logger.error('Error uploading multiple images:', error);
-      throw new Error('Failed to upload images');
+  async uploadMultipleImages(
+    files: Array<{ buffer: Buffer; fileName: string; contentType: string }>
+  ): Promise<ImageUploadResultDto[]> {
+    // One at a time: image processing is CPU and memory heavy
+    const results: ImageUploadResultDto[] = [];
+    for (const file of files) {
+      results.push(await this.uploadImage(file.buffer, file.fileName, file.contentType));
     }
+    return results;
+  }
+
+  async generateThumbnail(buffer: Buffer, size: number = 320): Promise<Buffer> {
+    return this.imageProcessor.resize(buffer, size, 'webp');
   }
 
   async deleteImage(fileName: string): Promise<boolean> {
     try {
-      // Extract filename from URL if full URL is provided
-      const objectName = this.extractFileNameFromUrl(fileName);
+      // Accept both the public URL returned on upload and a bare key
+      const key = this.storage.keyFromUrl(fileName) ?? fileName;
       
-      await this.minioClient.removeObject(this.bucketName, objectName);
-      logger.info(`Image deleted successfully: ${objectName}`);
-      return true;
+      const deleted = await this.storage.delete(key);
+      if (deleted) {
+        logger.info(`Image deleted successfully: ${key}`);
+      }
+      return deleted;
     } catch (error) {
       logger.error('Error deleting image:', error);
       return false;
@@ -107,22 +112,41 @@ export class ImageService implements IImageService {
   }
 
   getImageUrl(fileName: string): string {
-    const protocol = config.minio.useSSL ? 'https' : 'http';
-    const port = config.minio.port === 443 || config.minio.port === 80 ? '' : `:${config.minio.port}`;
-    return `${protocol}://${config.minio.endPoint}${port}/${this.bucketName}/${fileName}`;
+    return this.storage.getUrl(fileName);
   }
 
-  private generateUniqueFileName(originalFileName: string): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 15);
-    const extension = originalFileName.split('.').pop();
-    return `${timestamp}-${random}.${extension}`;
+  private buildVariants(files: Array<ProcessedImageFile & { url: string }>): Record<string, ImageVariantDto> {
+    const variants: Record<string, ImageVariantDto> = {};
+
+    for (const file of files) {
+      const variant = (variants[file.variant] ??= { width: file.width, height: file.height, sources: {} });
+      variant.sources[file.format] = file.url;
+    }
+
+    return variants;
   }
 
-  private extractFileNameFromUrl(fileNameOrUrl: string): string {
-    if (fileNameOrUrl.includes('/')) {
-      return fileNameOrUrl.split('/').pop() || fileNameOrUrl;
+  private buildSrcset(files: Array<ProcessedImageFile & { url: string }>): Partial<Record<ImageFormat, string>> {
+    const candidates: Partial<Record<ImageFormat, Map<number, string>>> = {};
+
+    // Variants larger than the original are clamped to its width; keep one candidate per width
+    for (const file of [...files].sort((a, b) => a.width - b.width)) {
+      const byWidth = (candidates[file.format] ??= new Map<number, string>());
+      if (!byWidth.has(file.width)) {
+        byWidth.set(file.width, file.url);
+      }
+    }
+
+    const srcset: Partial<Record<ImageFormat, string>> = {};
+    for (const [format, byWidth] of Object.entries(candidates) as Array<[ImageFormat, Map<number, string>]>) {
+      srcset[format] = Array.from(byWidth, ([width, url]) => `${url} ${width}w`).join(', ');
     }
-    return fileNameOrUrl;
+    return srcset;
+  }
+
+  private generateUniqueId(): string {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substring(2, 15);
+    return `${timestamp}-${random}`;
   }
 }
\ No newline at end of file
@@ -0,0 +1,261 @@
+// src/application/services/MediaService.ts
+
+import { createHash } from "crypto";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { ConflictError, ForbiddenError, NotFoundError } from "../../core/errors";
+import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
+import { IMediaAssetRepository } from "../../core/interfaces/Repositories/IMediaAssetRepository";
+import { IImageService } from "../../core/interfaces/Services/IImageService";
+import { IMediaService } from "../../core/interfaces/Services/IMediaService";
+import { IPermissionService } from "../../core/interfaces/Services/IPermissionService";
+import { IStorageProvider } from "../../core/interfaces/Services/IStorageProvider";
+import { IUploadPolicyService } from "../../core/interfaces/Services/IUploadPolicyService";
+import { MediaAsset, MediaAssetFilter, MediaAssetUtils } from "../../domain/entities/MediaAsset";
+import { PolicySubject } from "../../domain/entities/Role";
+import { Permission } from "../../domain/enums/Permission";
+import {
+  MediaAssetResponseDto,
+  MediaUploadResultDto,
+  PurgeOrphansResultDto,
+  UpdateMediaAssetDto,
+  UploadMediaDto,
+} from "../dtos/media/MediaAssetDto";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+
+// Assets checked per page while looking for orphans
+const ORPHAN_SCAN_PAGE_SIZE = 100;
+
+// Absolute URLs and root relative paths, as found in markdown and HTML post content
+const CONTENT_URL_PATTERN = /(?:https?:\/\/|\/)[^\s"'()<>\]]+/g;
+
+@injectable()
+export class MediaService implements IMediaService {
+  constructor(
+    @inject(TYPES.IMediaAssetRepository) private mediaAssetRepository: IMediaAssetRepository,
+    @inject(TYPES.IImageService) private imageService: IImageService,
+    @inject(TYPES.IStorageProvider) private storage: IStorageProvider,
+    @inject(TYPES.IPermissionService) private permissionService: IPermissionService,
+    @inject(TYPES.IUploadPolicyService) private uploadPolicyService: IUploadPolicyService
+  ) {}
+
+  async upload(file: UploadMediaDto, ownerId: string): Promise<MediaUploadResultDto> {
+    // Hash of the uploaded bytes: the stored files are re-encoded and differ on every upload
+    const contentHash = createHash("sha256").update(file.buffer).digest("hex");
+
+    const existing = await this.mediaAssetRepository.findByOwnerAndHash(ownerId, contentHash);
+    if (existing) {
+      logger.info("Duplicate upload, reusing media asset", { assetId: existing.id, ownerId });
+      return { asset: this.mapToDto(existing), duplicate: true };
+    }
+
+    const image = await this.imageService.uploadImage(file.buffer, file.fileName, file.contentType);
+
+    try {
+      // Variants make the stored size differ from the upload size checked before processing
+      await this.uploadPolicyService.ensureUserQuota(ownerId, image.storedBytes);
+
+      const asset = await this.mediaAssetRepository.create({
+        key: image.key,
+        url: image.url,
+        storageKeys: image.storageKeys,
+        fileName: file.fileName,
+        mimeType: `image/${image.format}`,
+        size: image.size,
+        storedBytes: image.storedBytes,
+        width: image.width,
+        height: image.height,
+        variants: image.variants,
+        srcset: image.srcset,
+        altText: file.altText ?? null,
+        caption: file.caption ?? null,
+        contentHash,
+        ownerId,
+      });
+      return { asset: this.mapToDto(asset), duplicate: false };
+    } catch (error) {
+      // Without a record nothing would ever clean the stored files up
+      await this.imageService.deleteMultipleImages(image.storageKeys);
+      throw error;
+    }
+  }
+
+  async uploadMany(files: UploadMediaDto[], ownerId: string): Promise<MediaUploadResultDto[]> {
+    // One at a time: image processing is CPU and memory heavy
+    const results: MediaUploadResultDto[] = [];
+    for (const file of files) {
+      results.push(await this.upload(file, ownerId));
+    }
+    return results;
+  }
+
+  async list(
+    actor: PolicySubject,
+    filter: MediaAssetFilter,
+    page: number,
+    limit: number
+  ): Promise<IPaginatedResult<MediaAssetResponseDto>> {
+    // Without media.manage users only browse their own uploads
+    const canManage = await this.permissionService.can(actor, Permission.MEDIA_MANAGE);
+    const result = await this.mediaAssetRepository.findMany(
+      { ...filter, ownerId: canManage ? filter.ownerId : actor.id },
+      page,
+      limit
+    );
+
+    return {
+      data: result.data.map((asset) => this.mapToDto(asset)),
+      pagination: result.pagination,
+    };
+  }
+
+  async getById(id: string, actor: PolicySubject): Promise<MediaAssetResponseDto> {
+    const asset = await this.findAsset(id);
+
+    if (asset.ownerId !== actor.id && !(await this.permissionService.can(actor, Permission.MEDIA_MANAGE))) {
+      throw new ForbiddenError("Not authorized to view this media asset", { assetId: id });
+    }
+
+    const references = await this.mediaAssetRepository.findReferences(asset);
+    return { ...this.mapToDto(asset), references };
+  }
+
+  async update(id: string, dto: UpdateMediaAssetDto, actor: PolicySubject): Promise<MediaAssetResponseDto> {
+    const asset = await this.findAsset(id);
+
+    if (!(await this.permissionService.can(actor, "media.edit", { ownerId: asset.ownerId }))) {
+      throw new ForbiddenError("Not authorized to edit this media asset", { assetId: id });
+    }
+
+    const updated = await this.mediaAssetRepository.update(id, {
+      ...(dto.altText !== undefined && { altText: dto.altText || null }),
+      ...(dto.caption !== undefined && { caption: dto.caption || null }),
+    });
+    return this.mapToDto(updated);
+  }
+
+  async delete(id: string, actor: PolicySubject, force: boolean = false): Promise<void> {
+    const asset = await this.findAsset(id);
+
+    if (!(await this.permissionService.can(actor, "media.delete", { ownerId: asset.ownerId }))) {
+      throw new ForbiddenError("Not authorized to delete this media asset", { assetId: id });
+    }
+
+    if (!force) {
+      const references = await this.mediaAssetRepository.findReferences(asset);
+      if (MediaAssetUtils.isReferenced(references)) {
+        throw new ConflictError("Media asset is still in use; pass force=true to delete it anyway", {
+          assetId: id,
+          references,
+        });
+      }
+    }
+
+    await this.remove(asset);
+  }
+
+  async findOrphans(limit: number): Promise<MediaAssetResponseDto[]> {
+    const { orphans } = await this.scanOrphans(limit);
+    return orphans.map((asset) => this.mapToDto(asset));
+  }
+
+  async purgeOrphans(options: { dryRun: boolean; limit: number }): Promise<PurgeOrphansResultDto> {
+    const { orphans, scanned } = await this.scanOrphans(options.limit);
+
+    if (!options.dryRun) {
+      for (const asset of orphans) {
+        await this.remove(asset);
+      }
+      logger.info("Purged orphaned media assets", { count: orphans.length, scanned });
+    }
+
+    return {
+      dryRun: options.dryRun,
+      scanned,
+      assets: orphans.map((asset) => this.mapToDto(asset)),
+      freedBytes: orphans.reduce((total, asset) => total + asset.size, 0),
+    };
+  }
+
+  async releaseUrls(sources: string[]): Promise<number> {
+    const keys = sources
+      .flatMap((source) => source.match(CONTENT_URL_PATTERN) || [])
+      .map((url) => this.storage.keyFromUrl(url))
+      .filter((key): key is string => !!key);
+
+    const assets = await this.mediaAssetRepository.findByStorageKeys(Array.from(new Set(keys)));
+    let released = 0;
+
+    for (const asset of assets) {
+      // Another post or an avatar may use the same upload
+      const references = await this.mediaAssetRepository.findReferences(asset);
+      if (!MediaAssetUtils.isReferenced(references)) {
+        await this.remove(asset);
+        released++;
+      }
+    }
+
+    return released;
+  }
+
+  private async scanOrphans(limit: number): Promise<{ orphans: MediaAsset[]; scanned: number }> {
+    // Recent uploads may belong to a post that is still being written
+    const createdBefore = new Date(Date.now() - config.media.orphanGraceHours * 60 * 60 * 1000);
+    const orphans: MediaAsset[] = [];
+    let scanned = 0;
+    let page = 1;
+    let hasNext = true;
+
+    while (hasNext && orphans.length < limit) {
+      const result = await this.mediaAssetRepository.findMany({ createdBefore }, page++, ORPHAN_SCAN_PAGE_SIZE);
+
+      for (const asset of result.data) {
+        if (orphans.length >= limit) break;
+        scanned++;
+        if (!MediaAssetUtils.isReferenced(await this.mediaAssetRepository.findReferences(asset))) {
+          orphans.push(asset);
+        }
+      }
+
+      hasNext = result.pagination.hasNext;
+    }
+
+    return { orphans, scanned };
+  }
+
+  private async remove(asset: MediaAsset): Promise<void> {
+    // The record goes first: a file left behind is harmless, a record without files is a broken image
+    await this.mediaAssetRepository.delete(asset.id);
+    await this.imageService.deleteMultipleImages(asset.storageKeys);
+    logger.info("Media asset deleted", { assetId: asset.id, key: asset.key, files: asset.storageKeys.length });
+  }
+
+  private async findAsset(id: string): Promise<MediaAsset> {
+    const asset = await this.mediaAssetRepository.findById(id);
+    if (!asset) {
+      throw new NotFoundError("Media asset not found", { assetId: id });
+    }
+    return asset;
+  }
+
+  private mapToDto(asset: MediaAsset): MediaAssetResponseDto {
+    return {
+      id: asset.id,
+      url: asset.url,
+      key: asset.key,
+      fileName: asset.fileName,
+      mimeType: asset.mimeType,
+      size: asset.size,
+      width: asset.width ?? undefined,
+      height: asset.height ?? undefined,
+      variants: (asset.variants || {}) as MediaAssetResponseDto["variants"],
+      srcset: (asset.srcset || {}) as MediaAssetResponseDto["srcset"],
+      altText: asset.altText ?? undefined,
+      caption: asset.caption ?? undefined,
+      ownerId: asset.ownerId ?? undefined,
+      createdAt: asset.createdAt,
+      updatedAt: asset.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+// src/application/services/OAuthService.ts
+import crypto from "crypto";
+import { inject, injectable } from "inversify";
+import { User } from "@prisma/client";
+import { UserRole } from "../../domain/enums/UserRole";
+import { TYPES } from "../../core/container/types";
+import { IOAuthService } from "../../core/interfaces/Services/IOAuthService";
+import { IOAuthRepository } from "../../core/interfaces/Repositories/IOAuthRepository";
+import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { IAuthService } from "../../core/interfaces/Services/IAuthService";
+import {
+  ExternalProfile,
+  IOAuthProvider,
+  IOAuthProviderRegistry,
+} from "../../core/interfaces/Services/IOAuthProvider";
+import { OAuthAuthorizationDto, OAuthCallbackDto, OAuthProviderDto } from "../dtos/auth/OAuthDto";
+import { AuthResponseDto } from "../dtos/auth/AuthResponseDto";
+import { MfaChallengeDto } from "../dtos/auth/TwoFactorDto";
+import { SessionContextDto } from "../dtos/auth/SessionDto";
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError } from "../../core/errors";
+import { HelperUtils } from "../../utils/helper";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+const bcrypt = require("bcryptjs");
+
+const USERNAME_MIN = 3;
+const USERNAME_MAX = 30;
+
+@injectable()
+export class OAuthService implements IOAuthService {
+  constructor(
+    @inject(TYPES.IOAuthProviderRegistry) private providers: IOAuthProviderRegistry,
+    @inject(TYPES.IOAuthRepository) private oauthRepository: IOAuthRepository,
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.IAuthService) private authService: IAuthService
+  ) {}
+
+  listProviders(): OAuthProviderDto[] {
+    return this.providers.list().map((provider) => ({ id: provider.id, name: provider.name }));
+  }
+
+  async beginAuthorization(providerId: string): Promise<OAuthAuthorizationDto> {
+    const provider = this.getProvider(providerId);
+
+    const state = HelperUtils.generateSecureToken();
+    const nonce = HelperUtils.generateSecureToken();
+    const codeVerifier = HelperUtils.generateSecureToken();
+    const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+    const redirectUri = `${config.site.url}${config.site.oauthCallbackPath}/${provider.id}`;
+    const expiresIn = config.oauth.stateExpiresInMinutes * 60;
+
+    const authorizationUrl = await provider.buildAuthorizationUrl({
+      state,
+      nonce,
+      codeChallenge,
+      redirectUri,
+    });
+
+    // Only the hash of the state is stored; the verifier never leaves the server
+    await this.oauthRepository.createState({
+      stateHash: HelperUtils.hashString(state),
+      provider: provider.id,
+      codeVerifier,
+      nonce,
+      redirectUri,
+      expiresAt: new Date(Date.now() + expiresIn * 1000),
+    });
+
+    // Abandoned logins leave their state behind; sweep them here instead of a separate job
+    this.oauthRepository.cleanupExpiredStates().catch((error) =>
+      logger.warn("Could not clean up expired OAuth states", { error: error.message })
+    );
+
+    return { provider: provider.id, authorizationUrl, state, redirectUri, expiresIn };
+  }
+
+  async completeAuthorization(
+    providerId: string,
+    dto: OAuthCallbackDto,
+    context: SessionContextDto = {}
+  ): Promise<AuthResponseDto | MfaChallengeDto> {
+    const provider = this.getProvider(providerId);
+
+    const pending = await this.oauthRepository.consumeState(HelperUtils.hashString(dto.state));
+    if (!pending || pending.provider !== provider.id || pending.expiresAt < new Date()) {
+      throw new UnauthorizedError("Invalid or expired authorization state");
+    }
+
+    const profile = await provider.exchangeCode({
+      code: dto.code,
+      codeVerifier: pending.codeVerifier,
+      nonce: pending.nonce,
+      redirectUri: pending.redirectUri,
+    });
+
+    const user = await this.resolveUser(profile);
+    return this.authService.loginWithExternalIdentity(user, context);
+  }
+
+  /**
+   * Known identity -> its user; otherwise link to the account with the same email when both
+   * sides verified it, otherwise create a new account when sign-up is allowed.
+   */
+  private async resolveUser(profile: ExternalProfile): Promise<User> {
+    const identity = await this.oauthRepository.findIdentity(profile.provider, profile.subject);
+    if (identity) {
+      await this.oauthRepository.touchIdentity(identity.id, profile.email ?? null);
+      return identity.user;
+    }
+
+    // An unverified address could belong to someone else; never link on it
+    if (!profile.email || !profile.emailVerified) {
+      throw new UnauthorizedError("The identity provider did not return a verified email address");
+    }
+
+    let user = await this.userRepository.findByEmail(profile.email);
+    if (user) {
+      // Anyone can register an address they do not own; linking would hand its password login
+      // (and whoever set it) the account of the real owner of the address
+      if (!user.emailVerified) {
+        logger.warn("Refused to link external identity to an unverified account", {
+          userId: user.id,
+          provider: profile.provider,
+        });
+        throw new ConflictError(
+          "An account with this email address exists but the address is not verified. Verify it or sign in with your password first",
+          { provider: profile.provider }
+        );
+      }
+      logger.info("Linked external identity to existing user", {
+        userId: user.id,
+        provider: profile.provider,
+      });
+    } else {
+      if (!config.oauth.allowSignup) {
+        throw new ForbiddenError("No account exists for this email address");
+      }
+      user = await this.createUser(profile, profile.email);
+    }
+
+    await this.oauthRepository.createIdentity({
+      provider: profile.provider,
+      subject: profile.subject,
+      email: profile.email,
+      userId: user.id,
+    });
+
+    return user;
+  }
+
+  private async createUser(profile: ExternalProfile, email: string): Promise<User> {
+    // Social accounts get an unusable random password; "forgot password" can set a real one
+    const password = await bcrypt.hash(HelperUtils.generateRandomString(32), 12);
+
+    const user = await this.userRepository.create({
+      email,
+      username: await this.uniqueUsername(profile.username || email.split("@")[0]),
+      firstName: profile.firstName || "",
+      lastName: profile.lastName || "",
+      avatar: profile.avatar || null,
+      password,
+      role: UserRole.USER,
+      isActive: true,
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+    });
+
+    logger.info("User registered via external identity", {
+      userId: user.id,
+      provider: profile.provider,
+    });
+
+    return user;
+  }
+
+  // Usernames are alphanumeric, 3-30 chars (same rules as registration)
+  private async uniqueUsername(candidate: string): Promise<string> {
+    let base = candidate.replace(/[^a-zA-Z0-9]/g, "").slice(0, USERNAME_MAX - 4);
+    if (base.length < USERNAME_MIN) base = `user${base}`;
+
+    let username = base;
+    for (let attempt = 0; await this.userRepository.findByUsername(username); attempt++) {
+      if (attempt >= 10) {
+        username = `user${HelperUtils.generateRandomString(6)}`;
+        continue;
+      }
+      username = `${base}${crypto.randomInt(1000, 10000)}`;
+    }
+
+    return username;
+  }
+
+  private getProvider(id: string): IOAuthProvider {
+    const provider = this.providers.get(id);
+    if (!provider) throw new NotFoundError("Login provider not found", { provider: id });
+    return provider;
+  }
+}
@@ -0,0 +1,165 @@
+// src/application/services/PermissionService.ts
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { IPermissionService } from "../../core/interfaces/Services/IPermissionService";
+import { IRoleRepository } from "../../core/interfaces/Repositories/IRoleRepository";
+import { CreateRoleDto, RoleResponseDto, UpdateRoleDto } from "../dtos/role/RoleDto";
+import { PolicyResource, PolicySubject, Role, RoleUtils } from "../../domain/entities/Role";
+import { Permission, PolicyAction } from "../../domain/enums/Permission";
+import { UserRole } from "../../domain/enums/UserRole";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../../core/errors";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+
+@injectable()
+export class PermissionService implements IPermissionService {
+  private readonly cache = new Map<string, { permissions: Permission[]; loadedAt: number }>();
+
+  constructor(
+    @inject(TYPES.IRoleRepository) private roleRepository: IRoleRepository
+  ) {}
+
+  async can(user: PolicySubject, action: PolicyAction, resource?: PolicyResource): Promise<boolean> {
+    const permissions = await this.getPermissions(user.role);
+    return RoleUtils.can(permissions, user, action, resource);
+  }
+
+  async ensure(user: PolicySubject, action: PolicyAction, resource?: PolicyResource): Promise<void> {
+    if (!(await this.can(user, action, resource))) {
+      throw new ForbiddenError("You do not have permission to perform this action", { action });
+    }
+  }
+
+  async getPermissions(role: string): Promise<Permission[]> {
+    const cached = this.cache.get(role);
+    if (cached && Date.now() - cached.loadedAt < config.permissions.cacheTtlSeconds * 1000) {
+      return cached.permissions;
+    }
+
+    // A role that no longer exists grants nothing
+    const found = await this.roleRepository.findByName(role);
+    const permissions = found?.permissions ?? [];
+    this.cache.set(role, { permissions, loadedAt: Date.now() });
+
+    return permissions;
+  }
+
+  listPermissions(): Permission[] {
+    return Object.values(Permission);
+  }
+
+  async listRoles(): Promise<RoleResponseDto[]> {
+    const roles = await this.roleRepository.findAll();
+    return roles.map((role) => this.mapToDto(role, role.usersCount));
+  }
+
+  async getRole(name: string): Promise<RoleResponseDto> {
+    const role = await this.findRole(name);
+    return this.mapToDto(role, await this.roleRepository.countUsers(name));
+  }
+
+  async createRole(dto: CreateRoleDto, actorId: string): Promise<RoleResponseDto> {
+    const name = dto.name.toUpperCase();
+    if (!RoleUtils.isValidName(name)) {
+      throw new ValidationError("Role name must be 2-32 characters of A-Z, 0-9 and _, starting with a letter", { name });
+    }
+
+    if (await this.roleRepository.findByName(name)) {
+      throw new ConflictError("Role already exists", { name });
+    }
+
+    const role = await this.roleRepository.create({
+      name,
+      description: dto.description,
+      permissions: this.normalizePermissions(dto.permissions),
+      uploadLimits: dto.uploadLimits,
+    });
+    this.cache.delete(name);
+
+    logger.info("Role created", { role: name, permissions: role.permissions, createdBy: actorId });
+    return this.mapToDto(role, 0);
+  }
+
+  async updateRole(name: string, dto: UpdateRoleDto, actorId: string): Promise<RoleResponseDto> {
+    const existing = await this.findRole(name);
+
+    const permissions = dto.permissions !== undefined ? this.normalizePermissions(dto.permissions) : undefined;
+
+    // Keep at least one way back into role management
+    if (
+      existing.name === UserRole.ADMIN &&
+      permissions &&
+      !RoleUtils.can(permissions, { id: actorId, role: existing.name }, Permission.ROLE_MANAGE)
+    ) {
+      throw new ValidationError(`The ${UserRole.ADMIN} role must keep the ${Permission.ROLE_MANAGE} permission`);
+    }
+
+    const role = await this.roleRepository.update(name, {
+      ...(dto.description !== undefined && { description: dto.description }),
+      ...(permissions && { permissions }),
+      ...(dto.uploadLimits && { uploadLimits: dto.uploadLimits }),
+    });
+    this.cache.delete(name);
+
+    logger.info("Role updated", {
+      role: name,
+      before: existing.permissions,
+      after: role.permissions,
+      updatedBy: actorId,
+    });
+
+    return this.mapToDto(role, await this.roleRepository.countUsers(name));
+  }
+
+  async deleteRole(name: string, actorId: string): Promise<void> {
+    const role = await this.findRole(name);
+
+    if (role.isSystem) {
+      throw new ValidationError("Built-in roles cannot be deleted", { name });
+    }
+
+    const usersCount = await this.roleRepository.countUsers(name);
+    if (usersCount > 0) {
+      throw new ConflictError("Role is still assigned to users", { name, usersCount });
+    }
+
+    await this.roleRepository.delete(name);
+    this.cache.delete(name);
+
+    logger.info("Role deleted", { role: name, deletedBy: actorId });
+  }
+
+  async roleExists(name: string): Promise<boolean> {
+    return !!(await this.roleRepository.findByName(name));
+  }
+
+  // ========== PRIVATE HELPERS ==========
+
+  private async findRole(name: string): Promise<Role> {
+    const role = await this.roleRepository.findByName(name);
+    if (!role) throw new NotFoundError("Role not found", { name });
+    return role;
+  }
+
+  private normalizePermissions(permissions: string[]): Permission[] {
+    const unique = [...new Set(permissions)];
+    const unknown = unique.filter((permission) => !RoleUtils.isKnownPermission(permission));
+    if (unknown.length > 0) {
+      throw new ValidationError("Unknown permissions", { unknown });
+    }
+    return unique as Permission[];
+  }
+
+  private mapToDto(role: Role, usersCount: number): RoleResponseDto {
+    return {
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      isSystem: role.isSystem,
+      uploadLimits: role.uploadLimits,
+      usersCount,
+      createdAt: role.createdAt,
+      updatedAt: role.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,222 @@
+// src/application/services/PostReviewService.ts
+
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { ForbiddenError, NotFoundError, ValidationError } from "../../core/errors";
+import { IFindAllOptions } from "../../core/interfaces/Common/IFindAllOptions";
+import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
+import { IBlogPostRepository } from "../../core/interfaces/Repositories/IBlogPostRepository";
+import { IPostReviewEventRepository } from "../../core/interfaces/Repositories/IPostReviewEventRepository";
+import { IPostAuthorRepository } from "../../core/interfaces/Repositories/IPostAuthorRepository";
+import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { IBlogPostService } from "../../core/interfaces/Services/IBlogPostService";
+import { IPostReviewService } from "../../core/interfaces/Services/IPostReviewService";
+import { IPermissionService } from "../../core/interfaces/Services/IPermissionService";
+import { IUnitOfWork } from "../../core/interfaces/IUnitOfWork";
+import { BlogPost, BlogPostChanges, PostReviewer } from "../../domain/entities/BlogPost";
+import { PostReviewEvent } from "../../domain/entities/PostReviewEvent";
+import { PolicySubject } from "../../domain/entities/Role";
+import { Permission } from "../../domain/enums/Permission";
+import { PostStatus } from "../../domain/enums/PostStatus";
+import { PostAuthorRole } from "../../domain/enums/PostAuthorRole";
+import { ReviewAction } from "../../domain/enums/ReviewAction";
+import { BlogPostResponseDto } from "../dtos/blogPost/BlogPostResponseDto";
+import { PostReviewEventResponseDto } from "../dtos/review/PostReviewEventResponseDto";
+import { SubmitForReviewDto } from "../dtos/review/ReviewRequestDto";
+
+@injectable()
+export class PostReviewService implements IPostReviewService {
+  constructor(
+    @inject(TYPES.IPostReviewEventRepository) private postReviewEventRepository: IPostReviewEventRepository,
+    @inject(TYPES.IBlogPostRepository) private blogPostRepository: IBlogPostRepository,
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.IBlogPostService) private blogPostService: IBlogPostService,
+    @inject(TYPES.IPermissionService) private permissionService: IPermissionService,
+    @inject(TYPES.IPostAuthorRepository) private postAuthorRepository: IPostAuthorRepository,
+    @inject(TYPES.IUnitOfWork) private unitOfWork: IUnitOfWork
+  ) {}
+
+  async getHistory(
+    blogPostId: string,
+    actor: PolicySubject,
+    options?: IFindAllOptions
+  ): Promise<IPaginatedResult<PostReviewEventResponseDto>> {
+    const post = await this.findPost(blogPostId);
+
+    // Authors see the history of their own posts, reviewers of every post
+    if (
+      post.authorId !== actor.id &&
+      !(await this.isCredited(blogPostId, actor.id)) &&
+      !(await this.permissionService.can(actor, Permission.POST_REVIEW))
+    ) {
+      throw new ForbiddenError("Not authorized to view the review history of this post", { blogPostId });
+    }
+
+    const result = await this.postReviewEventRepository.findByBlogPost(blogPostId, options);
+    return {
+      data: result.data.map((event) => this.mapToDto(event)),
+      pagination: result.pagination,
+    };
+  }
+
+  async getQueue(
+    options: IFindAllOptions & { reviewerId?: string; unassigned?: boolean } = {}
+  ): Promise<IPaginatedResult<BlogPostResponseDto>> {
+    const { reviewerId, unassigned, ...findOptions } = options;
+
+    // Oldest submissions first
+    return this.blogPostService.getAll({
+      ...findOptions,
+      sortBy: "updatedAt",
+      sortOrder: "asc",
+      filters: {
+        status: PostStatus.IN_REVIEW,
+        ...(reviewerId && { reviewerId }),
+        ...(unassigned && { reviewerId: null }),
+      },
+    });
+  }
+
+  async submit(blogPostId: string, actor: PolicySubject, dto: SubmitForReviewDto = {}): Promise<BlogPostResponseDto> {
+    if (dto.reviewerId) {
+      await this.ensureReviewer(dto.reviewerId);
+    }
+
+    return this.transition(blogPostId, actor, ReviewAction.SUBMITTED, (post) => post.submitForReview(dto.reviewerId), dto.comment);
+  }
+
+  async withdraw(blogPostId: string, actor: PolicySubject, comment?: string): Promise<BlogPostResponseDto> {
+    return this.transition(blogPostId, actor, ReviewAction.WITHDRAWN, (post) => post.withdrawFromReview(), comment);
+  }
+
+  async assignReviewer(blogPostId: string, actor: PolicySubject, reviewerId: string): Promise<BlogPostResponseDto> {
+    await this.ensureReviewer(reviewerId);
+
+    // Reviewers may claim a post or hand over their own assignment, reassigning others needs post.review.any
+    if (!(await this.permissionService.can(actor, Permission.POST_REVIEW_ANY))) {
+      const post = await this.findPost(blogPostId);
+      if (post.reviewerId && post.reviewerId !== actor.id) {
+        throw new ForbiddenError("Post is assigned to another reviewer", { blogPostId });
+      }
+    }
+
+    return this.transition(blogPostId, actor, ReviewAction.REVIEWER_ASSIGNED, (post) => post.assignReviewer(reviewerId));
+  }
+
+  async approve(blogPostId: string, actor: PolicySubject, comment?: string): Promise<BlogPostResponseDto> {
+    const reviewer = await this.toReviewer(actor);
+    await this.ensureNotCoAuthor(blogPostId, reviewer);
+    return this.transition(blogPostId, actor, ReviewAction.APPROVED, (post) => post.approve(reviewer), comment);
+  }
+
+  async requestChanges(blogPostId: string, actor: PolicySubject, comment: string): Promise<BlogPostResponseDto> {
+    if (!comment || comment.trim().length === 0) {
+      throw new ValidationError("A comment is required when requesting changes");
+    }
+
+    const reviewer = await this.toReviewer(actor);
+    await this.ensureNotCoAuthor(blogPostId, reviewer);
+
+    return this.transition(blogPostId, actor, ReviewAction.CHANGES_REQUESTED, (post) => post.requestChanges(reviewer), comment);
+  }
+
+  // Applies a domain transition, persists the new state and appends it to the history
+  private async transition(
+    blogPostId: string,
+    actor: PolicySubject,
+    action: ReviewAction,
+    apply: (post: BlogPost) => BlogPost,
+    comment?: string
+  ): Promise<BlogPostResponseDto> {
+    const before = await this.findPost(blogPostId);
+
+    let after: BlogPost;
+    try {
+      after = apply(before);
+    } catch (error: any) {
+      // Domain transitions throw plain errors
+      throw new ValidationError(error.message, { blogPostId, status: before.status });
+    }
+
+    const changes: BlogPostChanges = {
+      status: after.status,
+      isPublished: after.isPublished,
+      scheduledFor: after.scheduledFor ?? null,
+      reviewerId: after.reviewerId ?? null,
+    };
+
+    // A state change without its history entry must never be stored
+    await this.unitOfWork.execute(async () => {
+      await this.blogPostRepository.update(blogPostId, changes);
+      await this.postReviewEventRepository.create({
+        blogPostId,
+        action,
+        fromStatus: before.status,
+        toStatus: after.status,
+        comment: comment?.trim() || null,
+        actorId: actor.id,
+        reviewerId: after.reviewerId || null,
+      });
+    });
+
+    return (await this.blogPostService.getById(blogPostId))!;
+  }
+
+  private async findPost(blogPostId: string): Promise<BlogPost> {
+    const post = await this.blogPostRepository.findById(blogPostId);
+    if (!post) {
+      throw new NotFoundError("Blog post not found", { postId: blogPostId });
+    }
+    return BlogPost.fromDatabase(post);
+  }
+
+  private async ensureReviewer(reviewerId: string): Promise<void> {
+    const reviewer = await this.userRepository.findById(reviewerId);
+    if (!reviewer || !reviewer.isActive) {
+      throw new NotFoundError("Reviewer not found", { reviewerId });
+    }
+
+    if (!(await this.permissionService.can(reviewer, Permission.POST_REVIEW))) {
+      throw new ValidationError("Reviewer must have the post.review permission", { reviewerId });
+    }
+  }
+
+  private async isCredited(blogPostId: string, userId: string): Promise<boolean> {
+    const authors = await this.postAuthorRepository.findByPost(blogPostId);
+    return authors.some((author) => author.userId === userId);
+  }
+
+  // The domain rule only knows the primary author; co-authors cannot review the post either
+  private async ensureNotCoAuthor(blogPostId: string, reviewer: PostReviewer): Promise<void> {
+    if (reviewer.canReviewAny) {
+      return;
+    }
+
+    const authors = await this.postAuthorRepository.findByPost(blogPostId);
+    if (authors.some((author) => author.userId === reviewer.id && author.role === PostAuthorRole.CO_AUTHOR)) {
+      throw new ValidationError("Authors cannot review their own posts", { blogPostId });
+    }
+  }
+
+  private async toReviewer(actor: PolicySubject): Promise<PostReviewer> {
+    const [canReview, canReviewAny] = await Promise.all([
+      this.permissionService.can(actor, Permission.POST_REVIEW),
+      this.permissionService.can(actor, Permission.POST_REVIEW_ANY),
+    ]);
+    return { id: actor.id, canReview, canReviewAny };
+  }
+
+  private mapToDto(event: PostReviewEvent): PostReviewEventResponseDto {
+    return {
+      id: event.id,
+      blogPostId: event.blogPostId,
+      action: event.action,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      comment: event.comment ?? undefined,
+      reviewerId: event.reviewerId ?? undefined,
+      createdAt: event.createdAt,
+      actor: event.actor ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+// src/application/services/PostRevisionService.ts
+
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { NotFoundError } from "../../core/errors";
+import { IFindAllOptions } from "../../core/interfaces/Common/IFindAllOptions";
+import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
+import { IBlogPostRepository } from "../../core/interfaces/Repositories/IBlogPostRepository";
+import { IPostRevisionRepository } from "../../core/interfaces/Repositories/IPostRevisionRepository";
+import { IBlogPostService } from "../../core/interfaces/Services/IBlogPostService";
+import { IPostRevisionService } from "../../core/interfaces/Services/IPostRevisionService";
+import { PostRevision, PostRevisionSnapshot, PostRevisionUtils } from "../../domain/entities/PostRevision";
+import { BlogPostResponseDto } from "../dtos/blogPost/BlogPostResponseDto";
+import { PostRevisionDiffDto } from "../dtos/postRevision/PostRevisionDiffDto";
+import { PostRevisionResponseDto } from "../dtos/postRevision/PostRevisionResponseDto";
+
+// Keyword accepted by compare() to reference the live version of the post
+const CURRENT_VERSION = "current";
+
+type ComparableVersion = {
+  revisionId: string | null;
+  revisionNumber: number | null;
+  createdAt: Date;
+  snapshot: PostRevisionSnapshot;
+};
+
+@injectable()
+export class PostRevisionService implements IPostRevisionService {
+  constructor(
+    @inject(TYPES.IPostRevisionRepository) private postRevisionRepository: IPostRevisionRepository,
+    @inject(TYPES.IBlogPostRepository) private blogPostRepository: IBlogPostRepository,
+    @inject(TYPES.IBlogPostService) private blogPostService: IBlogPostService
+  ) {}
+
+  async getRevisions(blogPostId: string, options?: IFindAllOptions): Promise<IPaginatedResult<PostRevisionResponseDto>> {
+    await this.ensurePostExists(blogPostId);
+
+    const result = await this.postRevisionRepository.findByBlogPost(blogPostId, options);
+    return {
+      data: result.data.map((revision) => this.mapToDto(revision)),
+      pagination: result.pagination,
+    };
+  }
+
+  async getRevision(blogPostId: string, revisionId: string): Promise<PostRevisionResponseDto> {
+    const revision = await this.findRevisionOfPost(blogPostId, revisionId);
+    return this.mapToDto(revision);
+  }
+
+  async compare(blogPostId: string, from: string, to: string = CURRENT_VERSION): Promise<PostRevisionDiffDto> {
+    const [fromVersion, toVersion] = await Promise.all([
+      this.resolveVersion(blogPostId, from),
+      this.resolveVersion(blogPostId, to),
+    ]);
+
+    return {
+      blogPostId,
+      from: {
+        revisionId: fromVersion.revisionId,
+        revisionNumber: fromVersion.revisionNumber,
+        createdAt: fromVersion.createdAt,
+      },
+      to: {
+        revisionId: toVersion.revisionId,
+        revisionNumber: toVersion.revisionNumber,
+        createdAt: toVersion.createdAt,
+      },
+      changes: PostRevisionUtils.diff(fromVersion.snapshot, toVersion.snapshot),
+    };
+  }
+
+  async restore(blogPostId: string, revisionId: string, editorId: string): Promise<BlogPostResponseDto> {
+    const revision = await this.findRevisionOfPost(blogPostId, revisionId);
+
+    // Going through the regular update path snapshots the current state first,
+    // so a restore can itself be undone.
+    return this.blogPostService.update(
+      blogPostId,
+      {
+        title: revision.title,
+        content: revision.content,
+        excerpt: revision.excerpt ?? null, // null clears an excerpt added after this revision
+        tags: revision.tags,
+        categoryId: revision.categoryId,
+      },
+      editorId
+    );
+  }
+
+  private async resolveVersion(blogPostId: string, reference: string): Promise<ComparableVersion> {
+    if (reference === CURRENT_VERSION) {
+      const blogPost = await this.ensurePostExists(blogPostId);
+      return {
+        revisionId: null,
+        revisionNumber: null,
+        createdAt: blogPost.updatedAt,
+        snapshot: PostRevisionUtils.snapshotOf(blogPost),
+      };
+    }
+
+    const revision = await this.findRevisionOfPost(blogPostId, reference);
+    return {
+      revisionId: revision.id,
+      revisionNumber: revision.revisionNumber,
+      createdAt: revision.createdAt,
+      snapshot: PostRevisionUtils.snapshotOf(revision),
+    };
+  }
+
+  private async findRevisionOfPost(blogPostId: string, revisionId: string): Promise<PostRevision> {
+    const revision = await this.postRevisionRepository.findById(revisionId);
+    if (!revision || revision.blogPostId !== blogPostId) {
+      throw new NotFoundError("Revision not found", { blogPostId, revisionId });
+    }
+    return revision;
+  }
+
+  private async ensurePostExists(blogPostId: string) {
+    const blogPost = await this.blogPostRepository.findById(blogPostId);
+    if (!blogPost) {
+      throw new NotFoundError("Blog post not found", { postId: blogPostId });
+    }
+    return blogPost;
+  }
+
+  private mapToDto(revision: PostRevision): PostRevisionResponseDto {
+    return {
+      id: revision.id,
+      blogPostId: revision.blogPostId,
+      revisionNumber: revision.revisionNumber,
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.excerpt ?? undefined,
+      tags: revision.tags,
+      categoryId: revision.categoryId,
+      createdAt: revision.createdAt,
+      editor: revision.editor ?? undefined,
+    };
+  }
+}
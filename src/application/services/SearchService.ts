@@ -0,0 +1,103 @@
+// src/application/services/SearchService.ts
+
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { ValidationError } from "../../core/errors";
+import { ISearchRepository } from "../../core/interfaces/Repositories/ISearchRepository";
+import { ISearchService } from "../../core/interfaces/Services/ISearchService";
+import { SearchFilters, SearchHit, SearchHitType, SEARCH_HIT_TYPES } from "../../domain/entities/SearchHit";
+import { SearchType } from "../../domain/enums/SearchType";
+import { SearchQueryDto } from "../dtos/search/SearchQueryDto";
+import { SearchResponseDto, SearchResultDto } from "../dtos/search/SearchResultDto";
+
+@injectable()
+export class SearchService implements ISearchService {
+  constructor(@inject(TYPES.ISearchRepository) private searchRepository: ISearchRepository) {}
+
+  async search(dto: SearchQueryDto): Promise<SearchResponseDto> {
+    const query = dto.q?.trim() || "";
+    if (query.length < 2) {
+      throw new ValidationError("Search query must be at least 2 characters long", { query });
+    }
+
+    const type = dto.type || SearchType.POSTS;
+    if (!Object.values(SearchType).includes(type)) {
+      throw new ValidationError("Invalid search type", { type });
+    }
+
+    const types: SearchHitType[] = type === SearchType.ALL ? SEARCH_HIT_TYPES : [type];
+
+    const result = await this.searchRepository.search({
+      query,
+      types,
+      filters: this.buildFilters(dto),
+      page: dto.page,
+      limit: dto.limit,
+    });
+
+    return {
+      query,
+      type,
+      results: result.data.map((hit) => this.mapToDto(hit)),
+      totals: result.totals,
+      pagination: result.pagination,
+    };
+  }
+
+  private buildFilters(dto: SearchQueryDto): SearchFilters {
+    const from = this.parseDate(dto.from, "from");
+    const to = this.parseDate(dto.to, "to");
+
+    if (from && to && from > to) {
+      throw new ValidationError("'from' must be before 'to'", { from: dto.from, to: dto.to });
+    }
+
+    return {
+      category: dto.category?.trim() || undefined,
+      tag: dto.tag?.trim() || undefined,
+      author: dto.author?.trim() || undefined,
+      from,
+      to,
+    };
+  }
+
+  private parseDate(value: string | undefined, field: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`'${field}' must be a valid date`, { [field]: value });
+    }
+    return date;
+  }
+
+  private buildUrl(hit: SearchHit): string {
+    switch (hit.type) {
+      case SearchType.POSTS:
+        return `/api/posts/slug/${hit.slug}`;
+      case SearchType.COMMENTS:
+        return `/api/posts/${hit.postId}`;
+      case SearchType.CATEGORIES:
+        return `/api/posts/category/${hit.slug}`;
+      case SearchType.AUTHORS:
+        return `/api/users/${hit.id}`;
+    }
+  }
+
+  private mapToDto(hit: SearchHit): SearchResultDto {
+    return {
+      type: hit.type,
+      id: hit.id,
+      title: hit.title,
+      slug: hit.slug ?? undefined,
+      titleHighlight: hit.titleHighlight,
+      highlight: hit.highlight,
+      rank: hit.rank,
+      date: hit.date ?? undefined,
+      postId: hit.postId ?? undefined,
+      url: this.buildUrl(hit),
+    };
+  }
+}
@@ -0,0 +1,212 @@
+import { inject, injectable } from "inversify";
+import slugify from "slugify";
+import { ISeriesService } from "../../core/interfaces/Services/ISeriesService";
+import { ISeriesRepository } from "../../core/interfaces/Repositories/ISeriesRepository";
+import { ISlugHistoryRepository } from "../../core/interfaces/Repositories/ISlugHistoryRepository";
+import { IPermissionService } from "../../core/interfaces/Services/IPermissionService";
+import { IUnitOfWork } from "../../core/interfaces/IUnitOfWork";
+import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
+import { TYPES } from "../../core/container/types";
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from "../../core/errors";
+import { PolicySubject } from "../../domain/entities/Role";
+import { Series, SeriesFilter, SeriesPart, SeriesUtils } from "../../domain/entities/Series";
+import { PostAuthorUtils } from "../../domain/entities/PostAuthor";
+import { SlugResourceType } from "../../domain/enums/SlugResourceType";
+import { CreateSeriesDto, SeriesResponseDto, UpdateSeriesDto } from "../dtos/series/SeriesDto";
+
+@injectable()
+export class SeriesService implements ISeriesService {
+  constructor(
+    @inject(TYPES.ISeriesRepository) private seriesRepository: ISeriesRepository,
+    @inject(TYPES.ISlugHistoryRepository) private slugHistoryRepository: ISlugHistoryRepository,
+    @inject(TYPES.IPermissionService) private permissionService: IPermissionService,
+    @inject(TYPES.IUnitOfWork) private unitOfWork: IUnitOfWork
+  ) {}
+
+  async list(filter: SeriesFilter, page: number, limit: number): Promise<IPaginatedResult<SeriesResponseDto>> {
+    const result = await this.seriesRepository.findMany(filter, page, limit);
+    return {
+      data: result.data.map((series) => this.mapToDto(series)),
+      pagination: result.pagination,
+    };
+  }
+
+  async getById(id: string): Promise<SeriesResponseDto | null> {
+    const series = await this.seriesRepository.findById(id);
+    return series ? this.mapToDto(series, SeriesUtils.visibleParts(series.parts ?? [])) : null;
+  }
+
+  async getBySlug(slug: string): Promise<SeriesResponseDto | null> {
+    const series = await this.seriesRepository.findBySlug(slug);
+    return series ? this.mapToDto(series, SeriesUtils.visibleParts(series.parts ?? [])) : null;
+  }
+
+  async getRedirectSlug(slug: string): Promise<string | null> {
+    const entry = await this.slugHistoryRepository.findBySlug(SlugResourceType.SERIES, slug);
+    const target = entry && (await this.seriesRepository.findById(entry.resourceId));
+    return target && target.slug !== slug ? target.slug : null;
+  }
+
+  async create(dto: CreateSeriesDto, actor: PolicySubject): Promise<SeriesResponseDto> {
+    // A series is never left behind without the parts it was created with
+    return this.unitOfWork.execute(async () => {
+      const title = dto.title.trim();
+      const series = await this.seriesRepository.create({
+        title,
+        slug: await this.generateUniqueSlug(title),
+        description: dto.description?.trim() || null,
+        ownerId: actor.id,
+      });
+
+      if (dto.postIds?.length) {
+        await this.assignParts(series, dto.postIds, actor);
+      }
+
+      // The owner gets every part back, drafts included
+      const created = await this.seriesRepository.findById(series.id);
+      return this.mapToDto(created!, created!.parts);
+    });
+  }
+
+  async update(id: string, dto: UpdateSeriesDto, actor: PolicySubject): Promise<SeriesResponseDto> {
+    return this.unitOfWork.execute(async () => {
+      const series = await this.findManageable(id, actor, "Not authorized to edit this series");
+
+      const data: Partial<Pick<Series, "title" | "slug" | "description">> = {};
+
+      if (dto.description !== undefined) {
+        data.description = dto.description?.trim() || null;
+      }
+
+      if (dto.title !== undefined && dto.title.trim() !== series.title) {
+        data.title = dto.title.trim();
+        data.slug = await this.generateUniqueSlug(data.title, id);
+      }
+
+      await this.seriesRepository.update(id, data);
+
+      // Links to the old slug keep working through the slug history
+      if (data.slug && data.slug !== series.slug) {
+        await this.slugHistoryRepository.recordChange(SlugResourceType.SERIES, id, series.slug, data.slug);
+      }
+
+      if (dto.postIds !== undefined) {
+        await this.assignParts(series, dto.postIds, actor);
+      }
+
+      const updated = await this.seriesRepository.findById(id);
+      return this.mapToDto(updated!, updated!.parts);
+    });
+  }
+
+  async delete(id: string, actor: PolicySubject): Promise<void> {
+    await this.unitOfWork.execute(async () => {
+      await this.findManageable(id, actor, "Not authorized to delete this series");
+      await this.seriesRepository.delete(id);
+      await this.slugHistoryRepository.deleteByResource(SlugResourceType.SERIES, id);
+    });
+  }
+
+  private async findManageable(id: string, actor: PolicySubject, message: string): Promise<Series> {
+    const series = await this.seriesRepository.findById(id);
+    if (!series) {
+      throw new NotFoundError("Series not found", { seriesId: id });
+    }
+
+    if (!(await this.permissionService.can(actor, "series.manage", { ownerId: series.ownerId }))) {
+      throw new ForbiddenError(message, { seriesId: id });
+    }
+
+    return series;
+  }
+
+  /**
+   * Posts join a series in the given order. Only posts the actor may edit can be
+   * added, and a post belongs to one series at a time: it has to be removed from
+   * the other one first.
+   */
+  private async assignParts(series: Series, postIds: string[], actor: PolicySubject): Promise<void> {
+    if (new Set(postIds).size !== postIds.length) {
+      throw new ValidationError("A post can only appear once in a series", { seriesId: series.id });
+    }
+
+    if (postIds.length > SeriesUtils.MAX_PARTS) {
+      throw new ValidationError(`A series can have at most ${SeriesUtils.MAX_PARTS} parts`, {
+        seriesId: series.id,
+      });
+    }
+
+    const posts = await this.seriesRepository.findPostRefs(postIds);
+    const missing = postIds.filter((postId) => !posts.some((post) => post.id === postId));
+    if (missing.length > 0) {
+      throw new NotFoundError("Blog post not found", { postIds: missing });
+    }
+
+    const current = new Set((series.parts ?? []).map((part) => part.id));
+
+    for (const post of posts) {
+      if (post.seriesId && post.seriesId !== series.id) {
+        throw new ConflictError("This post is already part of another series", {
+          postId: post.id,
+          seriesId: post.seriesId,
+        });
+      }
+
+      // Parts already in the series may be reordered by the series owner
+      const resource = PostAuthorUtils.policyResource("post.edit", post.authorId, post.authors);
+      if (!current.has(post.id) && !(await this.permissionService.can(actor, "post.edit", resource))) {
+        throw new ForbiddenError("Not authorized to add this post to a series", { postId: post.id });
+      }
+    }
+
+    await this.seriesRepository.setParts(series.id, postIds);
+  }
+
+  private async generateUniqueSlug(title: string, excludeId?: string): Promise<string> {
+    const baseSlug = slugify(title, { lower: true, strict: true });
+    if (!baseSlug) {
+      throw new ValidationError("Series title needs at least one letter or digit");
+    }
+
+    let slug = baseSlug;
+    let counter = 1;
+    const maxAttempts = 100;
+
+    while (counter <= maxAttempts) {
+      // Former slugs of other series still redirect there and are never reused
+      if (
+        !(await this.seriesRepository.slugExists(slug, excludeId)) &&
+        !(await this.slugHistoryRepository.isTaken(SlugResourceType.SERIES, slug, excludeId))
+      ) {
+        return slug;
+      }
+      slug = `${baseSlug}-${counter}`;
+      counter++;
+    }
+
+    return `${baseSlug}-${Date.now()}`;
+  }
+
+  private mapToDto(series: Series, parts?: SeriesPart[]): SeriesResponseDto {
+    return {
+      id: series.id,
+      title: series.title,
+      slug: series.slug,
+      description: series.description || undefined,
+      ownerId: series.ownerId,
+      owner: series.owner,
+      totalParts: series.publishedParts ?? (series.parts ?? []).filter((part) => SeriesUtils.isPublished(part)).length,
+      parts: parts?.map((part, index) => ({
+        id: part.id,
+        title: part.title,
+        slug: part.slug,
+        part: index + 1,
+        status: part.status,
+        isPublished: part.isPublished,
+        publishedAt: part.publishedAt,
+      })),
+      createdAt: series.createdAt,
+      updatedAt: series.updatedAt,
+    };
+  }
+}
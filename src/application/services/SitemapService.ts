@@ -0,0 +1,153 @@
+// src/application/services/SitemapService.ts
+
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { NotFoundError } from "../../core/errors";
+import { ICategoryRepository } from "../../core/interfaces/Repositories/ICategoryRepository";
+import { ISitemapRepository } from "../../core/interfaces/Repositories/ISitemapRepository";
+import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { ISitemapService } from "../../core/interfaces/Services/ISitemapService";
+import { config } from "../../config/env";
+import { SitemapDto, SitemapSection, SitemapUrlDto } from "../dtos/sitemap/SitemapDto";
+
+@injectable()
+export class SitemapService implements ISitemapService {
+  constructor(
+    @inject(TYPES.ISitemapRepository) private sitemapRepository: ISitemapRepository,
+    @inject(TYPES.ICategoryRepository) private categoryRepository: ICategoryRepository,
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository
+  ) {}
+
+  async getSitemap(): Promise<SitemapDto> {
+    const maxUrls = config.sitemap.maxUrlsPerFile;
+    const [categoryUrls, authorUrls, postCount] = await Promise.all([
+      this.getCategoryUrls(),
+      this.getAuthorUrls(),
+      this.sitemapRepository.countPublishedPosts(),
+    ]);
+
+    if (categoryUrls.length + authorUrls.length + postCount <= maxUrls) {
+      const postUrls = postCount > 0 ? await this.getPostUrls(0, postCount) : [];
+      return this.urlSet([...categoryUrls, ...authorUrls, ...postUrls]);
+    }
+
+    // Too many URLs for one file, every section is split into child sitemaps
+    const postPageDates = await this.sitemapRepository.getPublishedPostPageDates(maxUrls);
+    const entries: SitemapUrlDto[] = [
+      ...this.chunk(categoryUrls, maxUrls).map((urls, index) => ({
+        loc: this.childSitemapUrl("categories", index + 1),
+        lastmod: this.latest(urls),
+      })),
+      ...this.chunk(authorUrls, maxUrls).map((urls, index) => ({
+        loc: this.childSitemapUrl("authors", index + 1),
+        lastmod: this.latest(urls),
+      })),
+      ...postPageDates.map((lastmod, index) => ({
+        loc: this.childSitemapUrl("posts", index + 1),
+        lastmod,
+      })),
+    ];
+
+    return {
+      kind: "index",
+      entries,
+      updatedAt: this.latest(entries),
+    };
+  }
+
+  async getChildSitemap(section: SitemapSection, page: number): Promise<SitemapDto> {
+    if (page < 1) {
+      throw new NotFoundError("Sitemap not found", { section, page });
+    }
+
+    const maxUrls = config.sitemap.maxUrlsPerFile;
+    const offset = (page - 1) * maxUrls;
+    let urls: SitemapUrlDto[];
+
+    switch (section) {
+      case "categories":
+        urls = (await this.getCategoryUrls()).slice(offset, offset + maxUrls);
+        break;
+      case "authors":
+        urls = (await this.getAuthorUrls()).slice(offset, offset + maxUrls);
+        break;
+      case "posts":
+        urls = await this.getPostUrls(offset, maxUrls);
+        break;
+    }
+
+    if (urls.length === 0) {
+      throw new NotFoundError("Sitemap not found", { section, page });
+    }
+
+    return this.urlSet(urls);
+  }
+
+  getRobotsTxt(): string {
+    const { allow, disallow, crawlDelay } = config.robots;
+    const lines = [
+      "User-agent: *",
+      ...allow.map((path) => `Allow: ${path}`),
+      // An empty Disallow means everything may be crawled
+      ...(disallow.length > 0 ? disallow.map((path) => `Disallow: ${path}`) : ["Disallow:"]),
+    ];
+
+    if (crawlDelay !== undefined && !isNaN(crawlDelay)) {
+      lines.push(`Crawl-delay: ${crawlDelay}`);
+    }
+
+    lines.push("", `Sitemap: ${config.site.apiUrl}/sitemap.xml`);
+    return lines.join("\n") + "\n";
+  }
+
+  private async getCategoryUrls(): Promise<SitemapUrlDto[]> {
+    const categories = await this.categoryRepository.findActive();
+    return categories.map((category) => ({
+      loc: `${config.site.url}${config.site.categoryPath}/${encodeURIComponent(category.slug)}`,
+      lastmod: category.updatedAt,
+    }));
+  }
+
+  private async getAuthorUrls(): Promise<SitemapUrlDto[]> {
+    const authors = await this.userRepository.findAuthors();
+    return authors.map((author) => ({
+      loc: `${config.site.url}${config.site.authorPath}/${encodeURIComponent(author.username)}`,
+      lastmod: author.updatedAt,
+    }));
+  }
+
+  private async getPostUrls(skip: number, take: number): Promise<SitemapUrlDto[]> {
+    const posts = await this.sitemapRepository.findPublishedPosts(skip, take);
+    return posts.map((post) => ({
+      loc: `${config.site.url}${config.site.postPath}/${encodeURIComponent(post.slug)}`,
+      lastmod: post.updatedAt,
+    }));
+  }
+
+  private urlSet(entries: SitemapUrlDto[]): SitemapDto {
+    return {
+      kind: "urlset",
+      entries,
+      updatedAt: this.latest(entries),
+    };
+  }
+
+  private childSitemapUrl(section: SitemapSection, page: number): string {
+    return `${config.site.apiUrl}/sitemaps/${section}-${page}.xml`;
+  }
+
+  private chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+      chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+  }
+
+  private latest(entries: SitemapUrlDto[]): Date {
+    return entries.reduce(
+      (latest, entry) => (entry.lastmod && entry.lastmod > latest ? entry.lastmod : latest),
+      new Date(0)
+    );
+  }
+}
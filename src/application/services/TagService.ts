@@ -0,0 +1,238 @@
+import { inject, injectable } from "inversify";
+import { ITagService } from "../../core/interfaces/Services/ITagService";
+import { ITagRepository } from "../../core/interfaces/Repositories/ITagRepository";
+import { IBlogPostRepository } from "../../core/interfaces/Repositories/IBlogPostRepository";
+import { ISlugHistoryRepository } from "../../core/interfaces/Repositories/ISlugHistoryRepository";
+import { IUnitOfWork } from "../../core/interfaces/IUnitOfWork";
+import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
+import { TYPES } from "../../core/container/types";
+import { ConflictError, NotFoundError, ValidationError } from "../../core/errors";
+import { Tag, TagFilter, TagUtils } from "../../domain/entities/Tag";
+import { SlugResourceType } from "../../domain/enums/SlugResourceType";
+import {
+  MergeTagDto,
+  TagCloudItemDto,
+  TagMergeResultDto,
+  TagResponseDto,
+  TagSummaryDto,
+  UpdateTagDto,
+} from "../dtos/tag/TagDto";
+
+@injectable()
+export class TagService implements ITagService {
+  constructor(
+    @inject(TYPES.ITagRepository) private tagRepository: ITagRepository,
+    @inject(TYPES.IBlogPostRepository) private blogPostRepository: IBlogPostRepository,
+    @inject(TYPES.ISlugHistoryRepository) private slugHistoryRepository: ISlugHistoryRepository,
+    @inject(TYPES.IUnitOfWork) private unitOfWork: IUnitOfWork
+  ) {}
+
+  async list(filter: TagFilter, page: number, limit: number): Promise<IPaginatedResult<TagResponseDto>> {
+    const result = await this.tagRepository.findMany(filter, page, limit);
+    return {
+      data: result.data.map((tag) => this.mapToDto(tag)),
+      pagination: result.pagination,
+    };
+  }
+
+  async getBySlug(slug: string): Promise<TagResponseDto | null> {
+    const tag = await this.tagRepository.findBySlug(slug);
+    return tag ? this.mapToDto(tag) : null;
+  }
+
+  async getCloud(limit: number): Promise<TagCloudItemDto[]> {
+    const tags = await this.tagRepository.findPopular(limit);
+    const counts = tags.map((tag) => tag.postCount ?? 0);
+    const min = Math.min(...counts);
+    const max = Math.max(...counts);
+
+    // The most used tags are picked, then shown alphabetically
+    return tags
+      .map((tag) => ({
+        ...this.toSummary(tag),
+        postCount: tag.postCount ?? 0,
+        weight: TagUtils.cloudWeight(tag.postCount ?? 0, min, max),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async autocomplete(prefix: string, limit: number): Promise<TagResponseDto[]> {
+    const name = TagUtils.normalizeName(prefix);
+    if (!name) {
+      return [];
+    }
+
+    const tags = await this.tagRepository.findByPrefix(name, TagUtils.toSlug(name), limit);
+    return tags.map((tag) => this.mapToDto(tag));
+  }
+
+  async update(id: string, dto: UpdateTagDto): Promise<TagResponseDto> {
+    // The tag and the posts carrying its name are renamed together
+    return this.unitOfWork.execute(async () => {
+      const tag = await this.tagRepository.findById(id);
+      if (!tag) {
+        throw new NotFoundError("Tag not found", { tagId: id });
+      }
+
+      const data: Partial<Pick<Tag, "name" | "slug" | "description">> = {};
+
+      if (dto.description !== undefined) {
+        data.description = dto.description?.trim() || null;
+      }
+
+      if (dto.name !== undefined) {
+        const name = TagUtils.normalizeName(dto.name);
+        const slug = this.slugOf(name);
+
+        const existing = await this.tagRepository.findBySlug(slug);
+        if (existing && existing.id !== tag.id) {
+          throw new ConflictError("Another tag already has this name, merge the two tags instead", {
+            tagId: existing.id,
+            slug,
+          });
+        }
+
+        if (slug !== tag.slug) {
+          await this.ensureSlugAvailable(slug, tag.id);
+        }
+
+        if (name !== tag.name) {
+          data.name = name;
+          data.slug = slug;
+        }
+      }
+
+      await this.tagRepository.update(id, data);
+
+      if (data.name && data.slug) {
+        await this.blogPostRepository.replaceTag(tag.name, data.name);
+
+        // Links to the old slug keep working through the slug history
+        if (data.slug !== tag.slug) {
+          await this.slugHistoryRepository.recordChange(SlugResourceType.TAG, id, tag.slug, data.slug);
+        }
+      }
+
+      const updated = await this.tagRepository.findById(id);
+      return this.mapToDto(updated!);
+    });
+  }
+
+  async merge(sourceId: string, dto: MergeTagDto): Promise<TagMergeResultDto> {
+    const { targetId, dryRun = false } = dto;
+
+    if (sourceId === targetId) {
+      throw new ValidationError("A tag cannot be merged into itself", { tagId: sourceId });
+    }
+
+    // The report and the rewrite must see the same posts
+    return this.unitOfWork.execute(async () => {
+      const source = await this.tagRepository.findById(sourceId);
+      if (!source) {
+        throw new NotFoundError("Tag not found", { tagId: sourceId });
+      }
+
+      const target = await this.tagRepository.findById(targetId);
+      if (!target) {
+        throw new NotFoundError("Target tag not found", { targetId });
+      }
+
+      const result: TagMergeResultDto = {
+        dryRun,
+        source: this.toSummary(source),
+        target: this.toSummary(target),
+        movedPosts: await this.blogPostRepository.countByTag(source.name),
+        redirectedSlugs: [source.slug, ...(await this.slugHistoryRepository.findSlugs(SlugResourceType.TAG, source.id))],
+      };
+
+      if (dryRun) {
+        return result;
+      }
+
+      result.movedPosts = await this.blogPostRepository.replaceTag(source.name, target.name);
+      await this.slugHistoryRepository.reassign(SlugResourceType.TAG, source.id, target.id);
+      await this.slugHistoryRepository.recordChange(SlugResourceType.TAG, target.id, source.slug, target.slug);
+      await this.tagRepository.delete(source.id);
+
+      return result;
+    });
+  }
+
+  async getRedirectSlug(slug: string): Promise<string | null> {
+    if (await this.tagRepository.findBySlug(slug)) {
+      return null;
+    }
+
+    const entry = await this.slugHistoryRepository.findBySlug(SlugResourceType.TAG, slug);
+    const target = entry && (await this.tagRepository.findById(entry.resourceId));
+    return target && target.slug !== slug ? target.slug : null;
+  }
+
+  async resolveNames(names: string[]): Promise<string[]> {
+    const resolved: string[] = [];
+
+    for (const rawName of names) {
+      const name = TagUtils.normalizeName(rawName);
+      const slug = this.slugOf(name);
+      const tag = (await this.findExisting(name, slug)) ?? (await this.tagRepository.findOrCreate(name, slug));
+
+      if (!resolved.includes(tag.name)) {
+        resolved.push(tag.name);
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Tag a spelling belongs to: the one with its slug, the one a renamed or merged tag
+   * with that slug went to, or one with the same name whose slug was built differently
+   */
+  private async findExisting(name: string, slug: string): Promise<Tag | null> {
+    const bySlug = await this.tagRepository.findBySlug(slug);
+    if (bySlug) {
+      return bySlug;
+    }
+
+    const entry = await this.slugHistoryRepository.findBySlug(SlugResourceType.TAG, slug);
+    const redirected = entry && (await this.tagRepository.findById(entry.resourceId));
+    if (redirected) {
+      return redirected;
+    }
+
+    return this.tagRepository.findByName(name);
+  }
+
+  private slugOf(name: string): string {
+    const slug = TagUtils.toSlug(name);
+    if (!slug) {
+      throw new ValidationError("Tags need at least one letter or digit", { tag: name });
+    }
+    return slug;
+  }
+
+  // Former slugs stay with their tag so old links never switch to another one
+  private async ensureSlugAvailable(slug: string, tagId: string): Promise<void> {
+    if (await this.slugHistoryRepository.isTaken(SlugResourceType.TAG, slug, tagId)) {
+      throw new ConflictError("This name was used by another tag before and its links still point there", {
+        slug,
+      });
+    }
+  }
+
+  private toSummary(tag: Tag): TagSummaryDto {
+    return { id: tag.id, name: tag.name, slug: tag.slug };
+  }
+
+  private mapToDto(tag: Tag): TagResponseDto {
+    return {
+      id: tag.id,
+      name: tag.name,
+      slug: tag.slug,
+      description: tag.description || undefined,
+      postCount: tag.postCount ?? 0,
+      createdAt: tag.createdAt,
+      updatedAt: tag.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,224 @@
+// src/application/services/TwoFactorService.ts
+import crypto from "crypto";
+import { inject, injectable } from "inversify";
+import { User } from "@prisma/client";
+import { TYPES } from "../../core/container/types";
+import { ITwoFactorService } from "../../core/interfaces/Services/ITwoFactorService";
+import { ITwoFactorRepository } from "../../core/interfaces/Repositories/ITwoFactorRepository";
+import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { IRoleRepository } from "../../core/interfaces/Repositories/IRoleRepository";
+import { TwoFactorSetupDto, TwoFactorStatusDto } from "../dtos/auth/TwoFactorDto";
+import { ForbiddenError, NotFoundError, ValidationError } from "../../core/errors";
+import { Totp } from "../../utils/totp";
+import { HelperUtils } from "../../utils/helper";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+const bcrypt = require("bcryptjs");
+
+const RECOVERY_CODE_PATTERN = /^[a-z0-9]{5}-?[a-z0-9]{5}$/i;
+
+@injectable()
+export class TwoFactorService implements ITwoFactorService {
+  private readonly encryptionKey = crypto.createHash("sha256").update(config.twoFactor.encryptionKey).digest();
+
+  constructor(
+    @inject(TYPES.ITwoFactorRepository) private twoFactorRepository: ITwoFactorRepository,
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.IRoleRepository) private roleRepository: IRoleRepository
+  ) {}
+
+  async getStatus(userId: string): Promise<TwoFactorStatusDto> {
+    const user = await this.getUser(userId);
+    const [required, recoveryCodesRemaining] = await Promise.all([
+      this.isRequiredForRole(user.role),
+      user.twoFactorEnabled ? this.twoFactorRepository.countRemainingRecoveryCodes(user.id) : Promise.resolve(0),
+    ]);
+
+    return {
+      enabled: user.twoFactorEnabled,
+      required,
+      enabledAt: user.twoFactorEnabledAt ?? undefined,
+      recoveryCodesRemaining,
+    };
+  }
+
+  async beginSetup(userId: string): Promise<TwoFactorSetupDto> {
+    const user = await this.getUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new ValidationError("Two-factor authentication is already enabled");
+    }
+
+    const secret = Totp.generateSecret();
+    await this.twoFactorRepository.saveSecret(user.id, this.encrypt(secret));
+
+    logger.info("Two-factor setup started", { userId: user.id });
+
+    return {
+      secret,
+      otpauthUri: Totp.buildUri(secret, user.email, config.twoFactor.issuer),
+    };
+  }
+
+  async enable(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new ValidationError("Two-factor authentication is already enabled");
+    }
+    if (!user.twoFactorSecret) {
+      throw new ValidationError("Start two-factor setup before enabling it");
+    }
+
+    if (!(await this.verifyTotp(user, code))) {
+      throw new ValidationError("Invalid authentication code");
+    }
+
+    await this.twoFactorRepository.enable(user.id);
+    const recoveryCodes = await this.issueRecoveryCodes(user.id);
+
+    logger.info("Two-factor authentication enabled", { userId: user.id });
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new ValidationError("Two-factor authentication is not enabled");
+    }
+
+    if (await this.isRequiredForRole(user.role)) {
+      throw new ForbiddenError("Two-factor authentication is required for your role", { role: user.role });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.password);
+    if (!isPasswordValid) {
+      throw new ValidationError("Password is incorrect");
+    }
+
+    if (!(await this.verifyCode(user.id, code))) {
+      throw new ValidationError("Invalid authentication code");
+    }
+
+    await this.twoFactorRepository.disable(user.id);
+    logger.info("Two-factor authentication disabled", { userId: user.id });
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new ValidationError("Two-factor authentication is not enabled");
+    }
+
+    // Only an authenticator code is accepted here, not a recovery code
+    if (!(await this.verifyTotp(user, code))) {
+      throw new ValidationError("Invalid authentication code");
+    }
+
+    const recoveryCodes = await this.issueRecoveryCodes(user.id);
+    logger.info("Two-factor recovery codes regenerated", { userId: user.id });
+    return recoveryCodes;
+  }
+
+  /**
+   * Accepts either a current TOTP code or an unused recovery code
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.getUser(userId);
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const normalized = code.trim();
+    if (RECOVERY_CODE_PATTERN.test(normalized)) {
+      const consumed = await this.twoFactorRepository.consumeRecoveryCode(
+        user.id,
+        this.hashRecoveryCode(normalized)
+      );
+      if (consumed) {
+        logger.warn("Two-factor recovery code used", { userId: user.id });
+      }
+      return consumed;
+    }
+
+    return this.verifyTotp(user, normalized);
+  }
+
+  async isRequiredForRole(role: string): Promise<boolean> {
+    const requiredRoles = await this.twoFactorRepository.findRequiredRoles();
+    return requiredRoles.includes(role);
+  }
+
+  async getRequiredRoles(): Promise<string[]> {
+    return this.twoFactorRepository.findRequiredRoles();
+  }
+
+  async setRequiredRoles(roles: string[], actorId: string): Promise<string[]> {
+    const uniqueRoles = Array.from(new Set(roles));
+    const existing = await this.roleRepository.findExistingNames(uniqueRoles);
+    const unknown = uniqueRoles.filter((role) => !existing.includes(role));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown roles: ${unknown.join(", ")}`, { roles: unknown });
+    }
+
+    await this.twoFactorRepository.setRequiredRoles(uniqueRoles, actorId);
+
+    logger.info("Two-factor role policy updated", { roles: uniqueRoles, updatedBy: actorId });
+    return uniqueRoles;
+  }
+
+  // ========== PRIVATE HELPERS ==========
+
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError("User not found", { userId });
+    }
+    return user;
+  }
+
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = Totp.verify(this.decrypt(user.twoFactorSecret), code);
+    if (step === null) {
+      return false;
+    }
+
+    // A code can only be used once, even within its validity window
+    return this.twoFactorRepository.markStepUsed(user.id, step);
+  }
+
+  private async issueRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: config.twoFactor.recoveryCodeCount }, () => {
+      const raw = crypto.randomBytes(8).toString("hex").slice(0, 10);
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.twoFactorRepository.replaceRecoveryCodes(
+      userId,
+      codes.map((code) => this.hashRecoveryCode(code))
+    );
+
+    return codes;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return HelperUtils.hashString(code.replace("-", "").toLowerCase());
+  }
+
+  // AES-256-GCM, stored as iv.tag.ciphertext (base64url)
+  private encrypt(plain: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64url")).join(".");
+  }
+
+  private decrypt(payload: string): string {
+    const [iv, tag, encrypted] = payload.split(".").map((part) => Buffer.from(part, "base64url"));
+    const decipher = crypto.createDecipheriv("aes-256-gcm", this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+  }
+}
@@ -0,0 +1,141 @@
+// src/application/services/UploadPolicyService.ts
+
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { NotFoundError, PayloadTooLargeError, QuotaExceededError, UnsupportedFileTypeError } from "../../core/errors";
+import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
+import { IRoleRepository } from "../../core/interfaces/Repositories/IRoleRepository";
+import { IStorageQuotaRepository } from "../../core/interfaces/Repositories/IStorageQuotaRepository";
+import { InspectedUpload, IUploadPolicyService, UploadPolicy } from "../../core/interfaces/Services/IUploadPolicyService";
+import { RoleUploadLimits } from "../../domain/entities/Role";
+import { StorageQuotaUtils, StorageUsage } from "../../domain/entities/StorageQuota";
+import { StorageUsageDto } from "../dtos/media/StorageUsageDto";
+import { detectFileType } from "../../utils/fileType";
+import { config } from "../../config/env";
+
+const NO_ROLE_LIMITS: RoleUploadLimits = { maxFileSizeBytes: null, maxFiles: null, storageQuotaMb: null };
+
+@injectable()
+export class UploadPolicyService implements IUploadPolicyService {
+  constructor(
+    @inject(TYPES.IRoleRepository) private roleRepository: IRoleRepository,
+    @inject(TYPES.IStorageQuotaRepository) private storageQuotaRepository: IStorageQuotaRepository
+  ) {}
+
+  async resolve(userId: string): Promise<UploadPolicy> {
+    const usage = await this.findUsage(userId);
+    const limits = await this.findRoleLimits(usage.role);
+
+    return {
+      maxFileSizeBytes: limits.maxFileSizeBytes ?? config.uploads.maxFileSizeBytes,
+      maxFiles: limits.maxFiles ?? config.uploads.maxFiles,
+      allowedTypes: config.uploads.allowedTypes,
+      quotaBytes: StorageQuotaUtils.resolveQuotaBytes(
+        usage.storageQuotaMb,
+        limits.storageQuotaMb,
+        config.uploads.storageQuotaMb
+      ),
+      usedBytes: usage.usedBytes,
+    };
+  }
+
+  inspect(file: { buffer: Buffer; fileName: string }, policy: UploadPolicy): InspectedUpload {
+    if (file.buffer.length > policy.maxFileSizeBytes) {
+      throw new PayloadTooLargeError(
+        `File too large: ${file.fileName}. Maximum ${StorageQuotaUtils.formatBytes(policy.maxFileSizeBytes)} allowed`,
+        { fileName: file.fileName, size: file.buffer.length, maxFileSizeBytes: policy.maxFileSizeBytes }
+      );
+    }
+
+    // The client supplied type and file extension are not trusted
+    const contentType = detectFileType(file.buffer);
+    if (!contentType || !policy.allowedTypes.includes(contentType)) {
+      throw new UnsupportedFileTypeError(`Unsupported file type: ${file.fileName}`, {
+        fileName: file.fileName,
+        detectedType: contentType,
+        allowedTypes: policy.allowedTypes,
+      });
+    }
+
+    return { buffer: file.buffer, fileName: file.fileName, contentType };
+  }
+
+  ensureQuota(policy: UploadPolicy, incomingBytes: number): void {
+    if (policy.quotaBytes !== null && policy.usedBytes + incomingBytes > policy.quotaBytes) {
+      throw new QuotaExceededError(
+        `Storage quota exceeded: ${StorageQuotaUtils.formatBytes(policy.usedBytes)} of ` +
+          `${StorageQuotaUtils.formatBytes(policy.quotaBytes)} used`,
+        {
+          usedBytes: policy.usedBytes,
+          quotaBytes: policy.quotaBytes,
+          remainingBytes: Math.max(0, policy.quotaBytes - policy.usedBytes),
+          incomingBytes,
+        }
+      );
+    }
+  }
+
+  async ensureUserQuota(userId: string, incomingBytes: number): Promise<void> {
+    this.ensureQuota(await this.resolve(userId), incomingBytes);
+  }
+
+  async getUsage(userId: string): Promise<StorageUsageDto> {
+    const usage = await this.findUsage(userId);
+    return this.mapToDto(usage, await this.findRoleLimits(usage.role));
+  }
+
+  async listUsage(page: number, limit: number): Promise<IPaginatedResult<StorageUsageDto>> {
+    const result = await this.storageQuotaRepository.findUsages(page, limit);
+
+    // Few distinct roles per page, load each once
+    const roleLimits = new Map<string, RoleUploadLimits>();
+    for (const role of new Set(result.data.map((usage) => usage.role))) {
+      roleLimits.set(role, await this.findRoleLimits(role));
+    }
+
+    return {
+      data: result.data.map((usage) => this.mapToDto(usage, roleLimits.get(usage.role)!)),
+      pagination: result.pagination,
+    };
+  }
+
+  async setUserQuota(userId: string, storageQuotaMb: number | null): Promise<StorageUsageDto> {
+    await this.findUsage(userId);
+    await this.storageQuotaRepository.setUserQuota(userId, storageQuotaMb);
+    return this.getUsage(userId);
+  }
+
+  // ========== PRIVATE HELPERS ==========
+
+  private async findUsage(userId: string): Promise<StorageUsage> {
+    const usage = await this.storageQuotaRepository.findUsage(userId);
+    if (!usage) throw new NotFoundError("User not found", { userId });
+    return usage;
+  }
+
+  private async findRoleLimits(role: string): Promise<RoleUploadLimits> {
+    return (await this.roleRepository.findByName(role))?.uploadLimits ?? NO_ROLE_LIMITS;
+  }
+
+  private mapToDto(usage: StorageUsage, limits: RoleUploadLimits): StorageUsageDto {
+    const quotaBytes = StorageQuotaUtils.resolveQuotaBytes(
+      usage.storageQuotaMb,
+      limits.storageQuotaMb,
+      config.uploads.storageQuotaMb
+    );
+
+    return {
+      userId: usage.userId,
+      username: usage.username,
+      role: usage.role,
+      usedBytes: usage.usedBytes,
+      assetCount: usage.assetCount,
+      quotaBytes,
+      remainingBytes: quotaBytes === null ? null : Math.max(0, quotaBytes - usage.usedBytes),
+      quotaSource: usage.storageQuotaMb !== null ? "user" : limits.storageQuotaMb !== null ? "role" : "default",
+      storageQuotaMb: usage.storageQuotaMb,
+      maxFileSizeBytes: limits.maxFileSizeBytes ?? config.uploads.maxFileSizeBytes,
+      maxFiles: limits.maxFiles ?? config.uploads.maxFiles,
+    };
+  }
+}
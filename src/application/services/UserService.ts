@@ -4,7 +4,8 @@ import { IUserService } from "../../core/interfaces/Services/IUserService";
 import { CreateUserDto } from "../dtos/user/CreateUserDto";
 import { UpdateUserDto } from "../dtos/user/UpdateUserDto";
 import { UserResponseDto } from "../dtos/user/UserResponseDto";
-import { User, UserRole } from "@prisma/client";
+import { User, UserTokenType } from "@prisma/client";
+import { UserRole } from "../../domain/enums/UserRole";
 import { 
   NotFoundError, 
   ConflictError, 
@@ -16,11 +17,16 @@ import { IFindAllOptions } from "../../core/interfaces/Common/IFindAllOptions";
 import { IPaginatedResult } from "../../core/interfaces/Common/IPaginatedResult";
 const bcrypt = require("bcryptjs");
 import { IUserRepository } from "../../core/interfaces/Repositories/IUserRepository";
+import { IRoleRepository } from "../../core/interfaces/Repositories/IRoleRepository";
+import { IUnitOfWork } from "../../core/interfaces/IUnitOfWork";
+import { PolicySubject, RoleUtils } from "../../domain/entities/Role";
 
 @injectable()
 export class UserService implements IUserService {
   constructor(
-    @inject(TYPES.IUserRepository) private userRepository: IUserRepository
+    @inject(TYPES.IUserRepository) private userRepository: IUserRepository,
+    @inject(TYPES.IRoleRepository) private roleRepository: IRoleRepository,
+    @inject(TYPES.IUnitOfWork) private unitOfWork: IUnitOfWork
   ) {}
 
   // IService'den gelen metodlar
@@ -53,6 +59,11 @@ export class UserService implements IUserService {
       throw new ConflictError('Username already exists', { username: dto.username });
     }
 
+    // Rol kontrolü
+    if (dto.role) {
+      await this.ensureRoleExists(dto.role);
+    }
+
     // Password hash
     const hashedPassword = await this.hashPassword(dto.password);
 
@@ -107,7 +118,21 @@ export class UserService implements IUserService {
       updateData.password = await this.hashPassword(dto.password);
     }
 
-    const user = await this.userRepository.update(id, updateData);
+    // Yeni email adresi tekrar doğrulanmalı
+    const emailChanged = !!dto.email && dto.email !== existingUser.email;
+    if (emailChanged) {
+      updateData.emailVerified = false;
+      updateData.emailVerifiedAt = null;
+    }
+
+    // Eski adrese gönderilmiş doğrulama linkleri güncellemeyle birlikte geçersiz olmalı
+    const user = await this.unitOfWork.execute(async () => {
+      const updated = await this.userRepository.update(id, updateData);
+      if (emailChanged) {
+        await this.userRepository.revokeUserTokens(id, UserTokenType.EMAIL_VERIFICATION);
+      }
+      return updated;
+    });
     logger.info('User updated successfully', { userId: user.id });
 
     return this.mapToResponseDto(user);
@@ -119,7 +144,14 @@ export class UserService implements IUserService {
       throw new NotFoundError('User not found', { userId: id });
     }
 
-    const deleted = await this.userRepository.delete(id);
+    const deleted = await this.unitOfWork.execute(async () => {
+      if (!(await this.userRepository.delete(id))) {
+        return false;
+      }
+      await this.revokeCredentials(id);
+      return true;
+    });
+
     if (deleted) {
       logger.info('User deactivated successfully', { userId: id });
     }
@@ -200,7 +232,10 @@ export class UserService implements IUserService {
       throw new ValidationError('User is already deactivated');
     }
 
-    await this.userRepository.update(id, { isActive: false });
+    await this.unitOfWork.execute(async () => {
+      await this.userRepository.update(id, { isActive: false });
+      await this.revokeCredentials(id);
+    });
     logger.info('User deactivated', { userId: id });
     return true;
   }
@@ -259,57 +294,71 @@ export class UserService implements IUserService {
     };
   }
 
-  async promoteToAuthor(id: string): Promise<UserResponseDto> {
+  /**
+   * Assigns an existing role. The actor can only hand out, or take away, roles whose
+   * permissions they hold themselves, so user.manage alone never leads to more rights.
+   */
+  async changeRole(id: string, role: string, actor: PolicySubject): Promise<UserResponseDto> {
     const user = await this.userRepository.findById(id);
     if (!user) {
       throw new NotFoundError('User not found', { userId: id });
     }
 
-    if (user.role === UserRole.ADMIN) {
-      throw new ValidationError('Admin users cannot be changed to author');
+    if (id === actor.id) {
+      throw new ForbiddenError('You cannot change your own role');
     }
 
-    if (user.role === UserRole.AUTHOR) {
-      throw new ValidationError('User is already an author');
+    const roleName = role.toUpperCase();
+    const targetRole = await this.roleRepository.findByName(roleName);
+    if (!targetRole) {
+      throw new ValidationError(`Unknown role: ${roleName}`, { role: roleName });
     }
 
-    const updatedUser = await this.userRepository.update(id, { role: UserRole.AUTHOR });
-    logger.info('User promoted to author', { 
-      userId: id, 
-      username: user.username,
-      fromRole: user.role,
-      toRole: UserRole.AUTHOR
-    });
-
-    return this.mapToResponseDto(updatedUser);
-  }
-
-  async demoteToUser(id: string): Promise<UserResponseDto> {
-    const user = await this.userRepository.findById(id);
-    if (!user) {
-      throw new NotFoundError('User not found', { userId: id });
+    if (user.role === roleName) {
+      throw new ValidationError(`User already has the ${roleName} role`);
     }
 
-    if (user.role === UserRole.ADMIN) {
-      throw new ForbiddenError('Admin users cannot be demoted');
+    const actorRole = await this.roleRepository.findByName(actor.role);
+    const currentRole = await this.roleRepository.findByName(user.role);
+    const granted = actorRole?.permissions ?? [];
+    if (!RoleUtils.covers(granted, targetRole.permissions)) {
+      throw new ForbiddenError(`You cannot assign the ${roleName} role, it grants permissions you do not have`, {
+        role: roleName,
+      });
     }
-
-    if (user.role === UserRole.USER) {
-      throw new ValidationError('User is already a regular user');
+    if (!RoleUtils.covers(granted, currentRole?.permissions ?? [])) {
+      throw new ForbiddenError(`You cannot change the role of a ${user.role} user, it grants permissions you do not have`, {
+        role: user.role,
+      });
     }
 
-    const updatedUser = await this.userRepository.update(id, { role: UserRole.USER });
-    logger.info('User demoted to regular user', { 
-      userId: id, 
+    const updatedUser = await this.userRepository.update(id, { role: roleName });
+    logger.info('User role changed', {
+      userId: id,
       username: user.username,
       fromRole: user.role,
-      toRole: UserRole.USER
+      toRole: roleName,
+      actorId: actor.id,
     });
 
     return this.mapToResponseDto(updatedUser);
   }
 
   // Helper methods
+  // Pasif kullanıcının açık oturumları ve bekleyen e-posta linkleri kullanılamaz
+  private async revokeCredentials(id: string): Promise<void> {
+    await this.userRepository.revokeAllRefreshTokens(id);
+    await this.userRepository.revokeUserTokens(id, UserTokenType.EMAIL_VERIFICATION);
+    await this.userRepository.revokeUserTokens(id, UserTokenType.PASSWORD_RESET);
+  }
+
+  private async ensureRoleExists(role: string): Promise<void> {
+    const existing = await this.roleRepository.findByName(role);
+    if (!existing) {
+      throw new ValidationError(`Unknown role: ${role}`, { role });
+    }
+  }
+
   private async hashPassword(password: string): Promise<string> {
     const saltRounds = 12;
     return await bcrypt.hash(password, saltRounds);
@@ -326,6 +375,8 @@ export class UserService implements IUserService {
       bio: user.bio ?? undefined, // null safety
       role: user.role,
       isActive: user.isActive,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
       postsCount: (user as any)._count?.blogPosts ?? 0,
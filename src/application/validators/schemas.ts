@@ -1,7 +1,11 @@
 import Joi from 'joi';
 import { PostStatus } from '../../domain/enums/PostStatus';
+import { PostAuthorRole } from '../../domain/enums/PostAuthorRole';
 import { CommentStatus } from '../../domain/enums/CommentStatus';
-import { UserRole } from '../../domain/enums/UserRole';
+import { Permission } from '../../domain/enums/Permission';
+import { ROLE_NAME_PATTERN } from '../../domain/entities/Role';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { config } from '../../config/env';
 
 export const authSchemas = {
   register: Joi.object({
@@ -16,6 +20,102 @@ export const authSchemas = {
     email: Joi.string().email().required(),
     password: Joi.string().required(),
   }),
+
+  mfaLogin: Joi.object({
+    mfaToken: Joi.string().required(),
+    code: Joi.string().trim().min(6).max(11).required(),
+  }),
+
+  mfaEnrollment: Joi.object({
+    mfaToken: Joi.string().required(),
+  }),
+
+  verifyEmail: Joi.object({
+    token: Joi.string().required(),
+  }),
+
+  forgotPassword: Joi.object({
+    email: Joi.string().email().required(),
+  }),
+
+  resetPassword: Joi.object({
+    token: Joi.string().required(),
+    newPassword: Joi.string().min(6).required(),
+    confirmPassword: Joi.string().valid(Joi.ref('newPassword')).required()
+      .messages({ 'any.only': 'New password and confirmation do not match' }),
+  }),
+};
+
+export const twoFactorSchemas = {
+  enable: Joi.object({
+    code: Joi.string().trim().length(6).pattern(/^\d+$/).required(),
+  }),
+
+  disable: Joi.object({
+    password: Joi.string().required(),
+    code: Joi.string().trim().min(6).max(11).required(),
+  }),
+
+  regenerateRecoveryCodes: Joi.object({
+    code: Joi.string().trim().length(6).pattern(/^\d+$/).required(),
+  }),
+
+  requiredRoles: Joi.object({
+    roles: Joi.array().items(Joi.string().pattern(ROLE_NAME_PATTERN)).unique().required(),
+  }),
+};
+
+export const apiKeySchemas = {
+  create: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    scopes: Joi.array().items(Joi.string().valid(...Object.values(ApiKeyScope))).min(1).unique().required(),
+    expiresInDays: Joi.number().integer().min(1).max(config.apiKeys.maxLifetimeDays).optional(),
+  }),
+};
+
+export const oauthSchemas = {
+  callback: Joi.object({
+    code: Joi.string().max(2048).required(),
+    state: Joi.string().max(512).required(),
+  }),
+};
+
+// null resets a limit to the configured default
+const roleUploadLimits = Joi.object({
+  maxFileSizeBytes: Joi.number().integer().min(1).allow(null).optional(),
+  maxFiles: Joi.number().integer().min(1).max(100).allow(null).optional(),
+  storageQuotaMb: Joi.number().integer().min(0).allow(null).optional(),
+});
+
+export const roleSchemas = {
+  create: Joi.object({
+    name: Joi.string().uppercase().pattern(ROLE_NAME_PATTERN).required(),
+    description: Joi.string().trim().max(200).optional(),
+    permissions: Joi.array().items(Joi.string().valid(...Object.values(Permission))).unique().required(),
+    uploadLimits: roleUploadLimits.optional(),
+  }),
+
+  update: Joi.object({
+    description: Joi.string().trim().max(200).allow(null).optional(),
+    permissions: Joi.array().items(Joi.string().valid(...Object.values(Permission))).unique().optional(),
+    uploadLimits: roleUploadLimits.optional(),
+  }).min(1),
+
+  assign: Joi.object({
+    role: Joi.string().pattern(ROLE_NAME_PATTERN).required(),
+  }),
+};
+
+export const mediaSchemas = {
+  update: Joi.object({
+    altText: Joi.string().trim().max(300).allow('', null).optional(),
+    caption: Joi.string().trim().max(1000).allow('', null).optional(),
+  }).min(1),
+
+  // null falls back to the quota of the user's role, 0 means unlimited
+  quota: Joi.object({
+    storageQuotaMb: Joi.number().integer().min(0).allow(null).required(),
+  }),
 };
 
 export const blogPostSchemas = {
@@ -24,26 +124,98 @@ export const blogPostSchemas = {
     content: Joi.string().min(50).required(),
     excerpt: Joi.string().max(500).optional(),
     categoryId: Joi.string().required(),
-    tags: Joi.array().items(Joi.string()).optional(),
+    tags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(10).optional(),
     featuredImage: Joi.string().uri().optional(),
     images: Joi.array().items(Joi.string().uri()).optional(),
-    status: Joi.string().valid(...Object.values(PostStatus)).optional(),
-    isPublished: Joi.boolean().optional(),
+    // New posts are drafts; these are only accepted with their draft values
+    status: Joi.string().valid(PostStatus.DRAFT).optional()
+      .messages({ 'any.only': 'New posts start as drafts and must be approved before publishing' }),
+    isPublished: Joi.boolean().valid(false).optional()
+      .messages({ 'any.only': 'New posts start as drafts and must be approved before publishing' }),
+    scheduledFor: Joi.date().iso().greater('now').optional(),
   }),
 
   update: Joi.object({
     title: Joi.string().min(5).max(200).optional(),
     content: Joi.string().min(50).optional(),
-    excerpt: Joi.string().max(500).optional(),
+    excerpt: Joi.string().max(500).allow(null).optional(),
     categoryId: Joi.string().optional(),
-    tags: Joi.array().items(Joi.string()).optional(),
+    tags: Joi.array().items(Joi.string().trim().min(1).max(50)).max(10).optional(),
     featuredImage: Joi.string().uri().optional(),
     images: Joi.array().items(Joi.string().uri()).optional(),
     status: Joi.string().valid(...Object.values(PostStatus)).optional(),
     isPublished: Joi.boolean().optional(),
+    scheduledFor: Joi.date().iso().greater('now').allow(null).optional(),
+  }),
+
+  schedule: Joi.object({
+    scheduledFor: Joi.date().iso().greater('now').required(),
+  }),
+
+  authors: Joi.object({
+    authors: Joi.array()
+      .items(
+        Joi.object({
+          userId: Joi.string().required(),
+          role: Joi.string().valid(...Object.values(PostAuthorRole)).required(),
+        })
+      )
+      .min(1)
+      .max(10)
+      .unique('userId')
+      .required(),
   }),
 };
 
+export const reviewSchemas = {
+  submit: Joi.object({
+    reviewerId: Joi.string().optional(),
+    comment: Joi.string().max(2000).optional(),
+  }),
+
+  withdraw: Joi.object({
+    comment: Joi.string().max(2000).optional(),
+  }),
+
+  assignReviewer: Joi.object({
+    reviewerId: Joi.string().required(),
+  }),
+
+  approve: Joi.object({
+    comment: Joi.string().max(2000).optional(),
+  }),
+
+  requestChanges: Joi.object({
+    comment: Joi.string().min(1).max(2000).required(),
+  }),
+};
+
+export const tagSchemas = {
+  update: Joi.object({
+    name: Joi.string().trim().min(1).max(50).optional(),
+    description: Joi.string().trim().max(200).allow('', null).optional(),
+  }).min(1),
+
+  merge: Joi.object({
+    targetId: Joi.string().required(),
+    dryRun: Joi.boolean().optional(),
+  }),
+};
+
+export const seriesSchemas = {
+  create: Joi.object({
+    title: Joi.string().trim().min(3).max(200).required(),
+    description: Joi.string().trim().max(1000).allow('').optional(),
+    postIds: Joi.array().items(Joi.string()).unique().max(100).optional(),
+  }),
+
+  update: Joi.object({
+    title: Joi.string().trim().min(3).max(200).optional(),
+    description: Joi.string().trim().max(1000).allow('', null).optional(),
+    postIds: Joi.array().items(Joi.string()).unique().max(100).optional(),
+  }).min(1),
+};
+
 export const categorySchemas = {
   create: Joi.object({
     name: Joi.string().min(2).max(50).required(),
@@ -51,6 +223,7 @@ export const categorySchemas = {
     color: Joi.string().pattern(/^#[0-9a-fA-F]{6}$/).optional(),
     icon: Joi.string().max(50).optional(),
     sortOrder: Joi.number().integer().min(0).optional(),
+    parentId: Joi.string().allow(null).optional(),
   }),
 
   update: Joi.object({
@@ -60,12 +233,19 @@ export const categorySchemas = {
     icon: Joi.string().max(50).optional(),
     sortOrder: Joi.number().integer().min(0).optional(),
     isActive: Joi.boolean().optional(),
+    parentId: Joi.string().allow(null).optional(),
   }),
 
   sortOrder: Joi.object({
     sortOrder: Joi.number().integer().min(0).required(),
   }),
 
+  merge: Joi.object({
+    targetId: Joi.string().required(),
+    deleteSource: Joi.boolean().optional(),
+    dryRun: Joi.boolean().optional(),
+  }),
+
    bulkSortOrder: Joi.object({
     categories: Joi.array()
       .items(
@@ -110,6 +290,6 @@ export const userSchemas = {
     password: Joi.string().min(6).required(),
     bio: Joi.string().max(500).optional(),
     avatar: Joi.string().uri().optional(),
-    role: Joi.string().valid(...Object.values(UserRole)).optional(),
+    role: Joi.string().pattern(ROLE_NAME_PATTERN).optional(),
   }),
 };
\ No newline at end of file
@@ -1,25 +1,39 @@
 import dotenv from 'dotenv';
+import { StorageDriver } from '../core/interfaces/Services/IStorageProvider';
+import { ImageVariantSpec, ModernImageFormat } from '../core/interfaces/Services/IImageProcessor';
 
 // Load environment variables
 dotenv.config();
 
 // MinIO configuration interface
 interface MinIOConfig {
-  enabled: boolean;
   endPoint: string;
   port: number;
   useSSL: boolean;
   accessKey: string;
   secretKey: string;
   bucketName: string;
+  publicUrl: string;
 }
 
+const parseStorageDriver = (): StorageDriver => {
+  const driver = process.env.STORAGE_DRIVER;
+  if (driver === 'local' || driver === 's3' || driver === 'memory') {
+    return driver;
+  }
+  // STORAGE_ENABLED=true used to switch uploads to MinIO
+  return process.env.STORAGE_ENABLED === 'true' ? 's3' : 'local';
+};
+
 export const config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   port: process.env.PORT || 3000,
   
   database: {
     url: process.env.DATABASE_URL || 'postgresql://localhost:5432/blog_db',
+    // Limits for unit of work transactions: time to wait for a connection, and to finish
+    transactionMaxWaitMs: parseInt(process.env.DATABASE_TRANSACTION_MAX_WAIT_MS || '5000'),
+    transactionTimeoutMs: parseInt(process.env.DATABASE_TRANSACTION_TIMEOUT_MS || '10000'),
   },
   
   jwt: {
@@ -32,16 +46,179 @@ export const config = {
     credentials: process.env.CORS_CREDENTIALS === 'true' || true,
   },
 
-  // MinIO Configuration with proper typing - Default DISABLED
+  // Where uploaded files are kept: local filesystem (default), S3/MinIO, or in memory for tests
+  storage: {
+    driver: parseStorageDriver(),
+    local: {
+      directory: process.env.STORAGE_LOCAL_DIR || 'uploads',
+      // Route the local driver serves files from
+      publicPath: '/' + (process.env.STORAGE_LOCAL_PUBLIC_PATH || 'uploads').replace(/^\/+|\/+$/g, ''),
+    },
+  },
+
+  // Upload processing: resized "<name>:<width>" variants, each also encoded in the modern formats
+  images: {
+    variants: (process.env.IMAGE_VARIANTS || 'thumb:320,medium:768,large:1280')
+      .split(',')
+      .map((variant) => variant.trim().split(':'))
+      .filter(([name, width]) => name && parseInt(width) > 0)
+      .map(([name, width]) => ({ name, width: parseInt(width) })) as ImageVariantSpec[],
+    formats: (process.env.IMAGE_FORMATS || 'webp,avif')
+      .split(',')
+      .map((format) => format.trim().toLowerCase())
+      .filter((format) => format === 'webp' || format === 'avif') as ModernImageFormat[],
+    quality: parseInt(process.env.IMAGE_QUALITY || '80'),
+  },
+
+  // Upload limits for roles that do not set their own (see the role uploadLimits)
+  uploads: {
+    maxFileSizeBytes: Math.round(parseFloat(process.env.UPLOAD_MAX_FILE_SIZE_MB || '5') * 1024 * 1024),
+    maxFiles: parseInt(process.env.UPLOAD_MAX_FILES || '5'),
+    storageQuotaMb: parseInt(process.env.UPLOAD_STORAGE_QUOTA_MB || '1024'), // 0 means unlimited
+    // Checked against the detected content type, never the one sent by the client
+    allowedTypes: (process.env.UPLOAD_ALLOWED_TYPES || 'image/jpeg,image/png,image/webp,image/gif')
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter(Boolean),
+  },
+
+  // Media library: unreferenced assets younger than the grace period are kept, their post may still be a draft in progress
+  media: {
+    orphanGraceHours: parseInt(process.env.MEDIA_ORPHAN_GRACE_HOURS || '24'),
+  },
+
+  // S3 / MinIO connection, used by the s3 storage driver
   minio: {
-    enabled: process.env.STORAGE_ENABLED === 'true', // Default DISABLED
     endPoint: process.env.MINIO_ENDPOINT || 'localhost',
     port: parseInt(process.env.MINIO_PORT || '9000'),
     useSSL: process.env.MINIO_USE_SSL === 'true',
     accessKey: process.env.MINIO_ACCESS_KEY || 'minioadmin',
     secretKey: process.env.MINIO_SECRET_KEY || 'minioadmin',
     bucketName: process.env.MINIO_BUCKET_NAME || 'blog-images',
+    // Public base URL of the bucket when clients reach it through a CDN or proxy
+    publicUrl: (process.env.MINIO_PUBLIC_URL || '').replace(/\/$/, ''),
   } as MinIOConfig,
+
+  // Public URLs used in generated documents (feeds, sitemap)
+  site: {
+    url: (process.env.SITE_URL || 'http://localhost:3001').replace(/\/$/, ''),
+    apiUrl: (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/$/, ''),
+    postPath: process.env.SITE_POST_PATH || '/posts',
+    categoryPath: process.env.SITE_CATEGORY_PATH || '/category',
+    authorPath: process.env.SITE_AUTHOR_PATH || '/author',
+    verifyEmailPath: process.env.SITE_VERIFY_EMAIL_PATH || '/verify-email',
+    resetPasswordPath: process.env.SITE_RESET_PASSWORD_PATH || '/reset-password',
+    // Frontend page the identity provider redirects to, as <path>/<provider>
+    oauthCallbackPath: process.env.SITE_OAUTH_CALLBACK_PATH || '/auth/callback',
+  },
+
+  // TOTP two-factor authentication
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || process.env.FEED_TITLE || 'Blog',
+    // Key used to encrypt TOTP secrets at rest; falls back to the JWT secret
+    // Required in production (checked below); other environments fall back to the JWT secret
+    encryptionKey:
+      process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+      (process.env.NODE_ENV === 'production' ? '' : process.env.JWT_SECRET || 'your-fallback-secret-key-change-in-production'),
+    recoveryCodeCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODES || '10'),
+    pendingTokenExpiresIn: process.env.TWO_FACTOR_PENDING_TOKEN_EXPIRES_IN || '5m',
+    maxAttempts: parseInt(process.env.TWO_FACTOR_MAX_ATTEMPTS || '5'),
+  },
+
+  // Social / OpenID Connect login; a provider is enabled when its client id is set
+  oauth: {
+    allowSignup: process.env.OAUTH_ALLOW_SIGNUP !== 'false',
+    stateExpiresInMinutes: parseInt(process.env.OAUTH_STATE_EXPIRES_MINUTES || '10'),
+    github: {
+      clientId: process.env.GITHUB_CLIENT_ID || '',
+      clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+    },
+    google: {
+      clientId: process.env.GOOGLE_CLIENT_ID || '',
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
+    },
+    // Any OpenID Connect issuer with discovery (Keycloak, Auth0, a local mock issuer...)
+    oidc: {
+      name: process.env.OIDC_NAME || 'OpenID Connect',
+      issuer: (process.env.OIDC_ISSUER || '').replace(/\/$/, ''),
+      clientId: process.env.OIDC_CLIENT_ID || '',
+      clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+      scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    },
+  },
+
+  // Personal API keys: "<prefix>_<id>_<secret>"
+  apiKeys: {
+    prefix: process.env.API_KEY_PREFIX || 'blog',
+    maxPerUser: parseInt(process.env.API_KEY_MAX_PER_USER || '10'),
+    maxLifetimeDays: parseInt(process.env.API_KEY_MAX_LIFETIME_DAYS || '365'),
+  },
+
+  // Live sessions seen by authenticate are cached per process; revoking a session applies
+  // immediately on this instance and after activeCacheTtlSeconds on the others
+  sessions: {
+    activeCacheTtlSeconds: parseInt(process.env.SESSIONS_ACTIVE_CACHE_TTL_SECONDS || '30'),
+  },
+
+  // Role -> permission sets are cached per process; edits made through the API apply immediately
+  // on this instance and after cacheTtlSeconds on the others
+  permissions: {
+    cacheTtlSeconds: parseInt(process.env.PERMISSIONS_CACHE_TTL_SECONDS || '60'),
+  },
+
+  // Audit log - CSV exports are capped so a wide filter cannot dump the whole table at once
+  audit: {
+    exportMaxRows: parseInt(process.env.AUDIT_EXPORT_MAX_ROWS || '10000'),
+  },
+
+  // Outgoing mail - 'console' logs messages, 'file' writes .eml files to outputDir
+  mail: {
+    transport: (process.env.MAIL_TRANSPORT === 'file' ? 'file' : 'console') as 'console' | 'file',
+    from: process.env.MAIL_FROM || 'Blog <no-reply@localhost>',
+    outputDir: process.env.MAIL_OUTPUT_DIR || 'mail',
+  },
+
+  // sitemap.xml - the protocol allows at most 50,000 URLs per file
+  sitemap: {
+    maxUrlsPerFile: Math.min(parseInt(process.env.SITEMAP_MAX_URLS || '50000'), 50000),
+  },
+
+  // robots.txt rules for all user agents, comma separated paths
+  robots: {
+    allow: (process.env.ROBOTS_ALLOW || '').split(',').map((path) => path.trim()).filter(Boolean),
+    disallow: (process.env.ROBOTS_DISALLOW || '/api/').split(',').map((path) => path.trim()).filter(Boolean),
+    crawlDelay: process.env.ROBOTS_CRAWL_DELAY ? parseInt(process.env.ROBOTS_CRAWL_DELAY) : undefined,
+  },
+
+  // RSS / Atom / JSON Feed
+  feeds: {
+    title: process.env.FEED_TITLE || 'Blog',
+    description: process.env.FEED_DESCRIPTION || 'Latest posts',
+    language: process.env.FEED_LANGUAGE || 'en',
+    content: (process.env.FEED_CONTENT === 'full' ? 'full' : 'excerpt') as 'full' | 'excerpt',
+    itemLimit: parseInt(process.env.FEED_ITEM_LIMIT || '20'),
+  },
+
+  // "You might also like": up to candidateLimit published posts are scored, those sharing tags or the
+  // category first. Weights are relative to each other
+  relatedPosts: {
+    weights: {
+      tags: parseFloat(process.env.RELATED_POSTS_WEIGHT_TAGS || '0.4'),
+      category: parseFloat(process.env.RELATED_POSTS_WEIGHT_CATEGORY || '0.2'),
+      content: parseFloat(process.env.RELATED_POSTS_WEIGHT_CONTENT || '0.3'),
+      recency: parseFloat(process.env.RELATED_POSTS_WEIGHT_RECENCY || '0.1'),
+    },
+    recencyHalfLifeDays: parseInt(process.env.RELATED_POSTS_RECENCY_HALF_LIFE_DAYS || '180'),
+    candidateLimit: parseInt(process.env.RELATED_POSTS_CANDIDATE_LIMIT || '200'),
+    cacheTtlSeconds: parseInt(process.env.RELATED_POSTS_CACHE_TTL_SECONDS || '600'),
+  },
+
+  // Background publisher for scheduled posts
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    publishIntervalMs: parseInt(process.env.SCHEDULER_PUBLISH_INTERVAL_MS || '60000'),
+    batchSize: parseInt(process.env.SCHEDULER_BATCH_SIZE || '50'),
+  },
 };
 
 // Validate required environment variables
@@ -54,13 +231,31 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
-// Validate MinIO config if enabled
-if (config.minio.enabled) {
+// Secrets without a usable default in production
+if (config.nodeEnv === 'production') {
+  const requiredProductionVars = ['TWO_FACTOR_ENCRYPTION_KEY'];
+
+  for (const envVar of requiredProductionVars) {
+    if (!process.env[envVar]) {
+      console.error(`❌ Missing required environment variable: ${envVar}`);
+      process.exit(1);
+    }
+  }
+
+  // Anyone holding the JWT secret could otherwise decrypt the stored TOTP secrets
+  if (process.env.TWO_FACTOR_ENCRYPTION_KEY === process.env.JWT_SECRET) {
+    console.error('❌ TWO_FACTOR_ENCRYPTION_KEY must differ from JWT_SECRET');
+    process.exit(1);
+  }
+}
+
+// Validate MinIO config if the s3 storage driver is used
+if (config.storage.driver === 's3') {
   const requiredMinIOVars = ['MINIO_ENDPOINT', 'MINIO_ACCESS_KEY', 'MINIO_SECRET_KEY'];
   
   for (const envVar of requiredMinIOVars) {
     if (!process.env[envVar]) {
-      console.warn(`⚠️  MinIO enabled but missing ${envVar}, using default value`);
+      console.warn(`⚠️  S3 storage enabled but missing ${envVar}, using default value`);
     }
   }
 }
\ No newline at end of file
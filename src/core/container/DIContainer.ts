@@ -28,6 +28,91 @@ import { IImageService } from '../interfaces/Services/IImageService';
 import { ImageService } from '../../application/services/ImageService';
 import { CategoryController } from '../../presentation/controllers/CategoryController';
 import { BlogPostController } from '../../presentation/controllers/BlogPostController';
+import { IPostRevisionRepository } from '../interfaces/Repositories/IPostRevisionRepository';
+import { PostRevisionRepository } from '../../infrastructure/database/repositories/PostRevisionRepository';
+import { IPostRevisionService } from '../interfaces/Services/IPostRevisionService';
+import { PostRevisionService } from '../../application/services/PostRevisionService';
+import { PostRevisionController } from '../../presentation/controllers/PostRevisionController';
+import { ScheduledPostPublisher } from '../../infrastructure/scheduler/ScheduledPostPublisher';
+import { ISearchRepository } from '../interfaces/Repositories/ISearchRepository';
+import { SearchRepository } from '../../infrastructure/database/repositories/SearchRepository';
+import { ISearchService } from '../interfaces/Services/ISearchService';
+import { SearchService } from '../../application/services/SearchService';
+import { SearchController } from '../../presentation/controllers/SearchController';
+import { IFeedService } from '../interfaces/Services/IFeedService';
+import { FeedService } from '../../application/services/FeedService';
+import { FeedController } from '../../presentation/controllers/FeedController';
+import { ISitemapRepository } from '../interfaces/Repositories/ISitemapRepository';
+import { SitemapRepository } from '../../infrastructure/database/repositories/SitemapRepository';
+import { ISitemapService } from '../interfaces/Services/ISitemapService';
+import { SitemapService } from '../../application/services/SitemapService';
+import { SitemapController } from '../../presentation/controllers/SitemapController';
+import { IPostReviewEventRepository } from '../interfaces/Repositories/IPostReviewEventRepository';
+import { PostReviewEventRepository } from '../../infrastructure/database/repositories/PostReviewEventRepository';
+import { IPostReviewService } from '../interfaces/Services/IPostReviewService';
+import { PostReviewService } from '../../application/services/PostReviewService';
+import { PostReviewController } from '../../presentation/controllers/PostReviewController';
+import { ITwoFactorRepository } from '../interfaces/Repositories/ITwoFactorRepository';
+import { TwoFactorRepository } from '../../infrastructure/database/repositories/TwoFactorRepository';
+import { ITwoFactorService } from '../interfaces/Services/ITwoFactorService';
+import { TwoFactorService } from '../../application/services/TwoFactorService';
+import { TwoFactorController } from '../../presentation/controllers/TwoFactorController';
+import { SessionController } from '../../presentation/controllers/SessionController';
+import { IApiKeyRepository } from '../interfaces/Repositories/IApiKeyRepository';
+import { ApiKeyRepository } from '../../infrastructure/database/repositories/ApiKeyRepository';
+import { IApiKeyService } from '../interfaces/Services/IApiKeyService';
+import { ApiKeyService } from '../../application/services/ApiKeyService';
+import { ApiKeyController } from '../../presentation/controllers/ApiKeyController';
+import { IOAuthRepository } from '../interfaces/Repositories/IOAuthRepository';
+import { OAuthRepository } from '../../infrastructure/database/repositories/OAuthRepository';
+import { IOAuthService } from '../interfaces/Services/IOAuthService';
+import { OAuthService } from '../../application/services/OAuthService';
+import { OAuthController } from '../../presentation/controllers/OAuthController';
+import { IOAuthProviderRegistry } from '../interfaces/Services/IOAuthProvider';
+import { OAuthProviderRegistry } from '../../infrastructure/oauth/OAuthProviderRegistry';
+import { IRoleRepository } from '../interfaces/Repositories/IRoleRepository';
+import { RoleRepository } from '../../infrastructure/database/repositories/RoleRepository';
+import { IPermissionService } from '../interfaces/Services/IPermissionService';
+import { PermissionService } from '../../application/services/PermissionService';
+import { RoleController } from '../../presentation/controllers/RoleController';
+import { IAuditLogRepository } from '../interfaces/Repositories/IAuditLogRepository';
+import { AuditLogRepository } from '../../infrastructure/database/repositories/AuditLogRepository';
+import { IAuditService } from '../interfaces/Services/IAuditService';
+import { AuditService } from '../../application/services/AuditService';
+import { AuditController } from '../../presentation/controllers/AuditController';
+import { IMediaAssetRepository } from '../interfaces/Repositories/IMediaAssetRepository';
+import { MediaAssetRepository } from '../../infrastructure/database/repositories/MediaAssetRepository';
+import { IMediaService } from '../interfaces/Services/IMediaService';
+import { MediaService } from '../../application/services/MediaService';
+import { MediaController } from '../../presentation/controllers/MediaController';
+import { IStorageQuotaRepository } from '../interfaces/Repositories/IStorageQuotaRepository';
+import { StorageQuotaRepository } from '../../infrastructure/database/repositories/StorageQuotaRepository';
+import { IUploadPolicyService } from '../interfaces/Services/IUploadPolicyService';
+import { UploadPolicyService } from '../../application/services/UploadPolicyService';
+import { ISlugHistoryRepository } from '../interfaces/Repositories/ISlugHistoryRepository';
+import { SlugHistoryRepository } from '../../infrastructure/database/repositories/SlugHistoryRepository';
+import { ITagRepository } from '../interfaces/Repositories/ITagRepository';
+import { TagRepository } from '../../infrastructure/database/repositories/TagRepository';
+import { ITagService } from '../interfaces/Services/ITagService';
+import { TagService } from '../../application/services/TagService';
+import { TagController } from '../../presentation/controllers/TagController';
+import { ISeriesRepository } from '../interfaces/Repositories/ISeriesRepository';
+import { SeriesRepository } from '../../infrastructure/database/repositories/SeriesRepository';
+import { ISeriesService } from '../interfaces/Services/ISeriesService';
+import { SeriesService } from '../../application/services/SeriesService';
+import { SeriesController } from '../../presentation/controllers/SeriesController';
+import { IPostAuthorRepository } from '../interfaces/Repositories/IPostAuthorRepository';
+import { PostAuthorRepository } from '../../infrastructure/database/repositories/PostAuthorRepository';
+import { IMailer } from '../interfaces/Services/IMailer';
+import { ConsoleMailer } from '../../infrastructure/mail/ConsoleMailer';
+import { FileMailer } from '../../infrastructure/mail/FileMailer';
+import { IStorageProvider } from '../interfaces/Services/IStorageProvider';
+import { LocalStorageProvider } from '../../infrastructure/storage/LocalStorageProvider';
+import { S3StorageProvider } from '../../infrastructure/storage/S3StorageProvider';
+import { MemoryStorageProvider } from '../../infrastructure/storage/MemoryStorageProvider';
+import { IImageProcessor } from '../interfaces/Services/IImageProcessor';
+import { SharpImageProcessor } from '../../infrastructure/image/SharpImageProcessor';
+import { config } from '../../config/env';
 
 export class DIContainer {
   private static container: Container;
@@ -71,6 +156,66 @@ export class DIContainer {
       .to(CommentRepository)
       .inSingletonScope();
 
+    container.bind<IPostRevisionRepository>(TYPES.IPostRevisionRepository)
+      .to(PostRevisionRepository)
+      .inSingletonScope();
+
+    container.bind<ISearchRepository>(TYPES.ISearchRepository)
+      .to(SearchRepository)
+      .inSingletonScope();
+
+    container.bind<ISitemapRepository>(TYPES.ISitemapRepository)
+      .to(SitemapRepository)
+      .inSingletonScope();
+
+    container.bind<IPostReviewEventRepository>(TYPES.IPostReviewEventRepository)
+      .to(PostReviewEventRepository)
+      .inSingletonScope();
+
+    container.bind<ITwoFactorRepository>(TYPES.ITwoFactorRepository)
+      .to(TwoFactorRepository)
+      .inSingletonScope();
+
+    container.bind<IApiKeyRepository>(TYPES.IApiKeyRepository)
+      .to(ApiKeyRepository)
+      .inSingletonScope();
+
+    container.bind<IOAuthRepository>(TYPES.IOAuthRepository)
+      .to(OAuthRepository)
+      .inSingletonScope();
+
+    container.bind<IRoleRepository>(TYPES.IRoleRepository)
+      .to(RoleRepository)
+      .inSingletonScope();
+
+    container.bind<IAuditLogRepository>(TYPES.IAuditLogRepository)
+      .to(AuditLogRepository)
+      .inSingletonScope();
+
+    container.bind<IMediaAssetRepository>(TYPES.IMediaAssetRepository)
+      .to(MediaAssetRepository)
+      .inSingletonScope();
+
+    container.bind<IStorageQuotaRepository>(TYPES.IStorageQuotaRepository)
+      .to(StorageQuotaRepository)
+      .inSingletonScope();
+
+    container.bind<ISlugHistoryRepository>(TYPES.ISlugHistoryRepository)
+      .to(SlugHistoryRepository)
+      .inSingletonScope();
+
+    container.bind<ITagRepository>(TYPES.ITagRepository)
+      .to(TagRepository)
+      .inSingletonScope();
+
+    container.bind<ISeriesRepository>(TYPES.ISeriesRepository)
+      .to(SeriesRepository)
+      .inSingletonScope();
+
+    container.bind<IPostAuthorRepository>(TYPES.IPostAuthorRepository)
+      .to(PostAuthorRepository)
+      .inSingletonScope();
+
     // ===============================
     // Unit of Work
     // ===============================
@@ -78,6 +223,36 @@ export class DIContainer {
       .to(UnitOfWork)
       .inSingletonScope();
 
+    // ===============================
+    // Mail Transport
+    // ===============================
+    container.bind<IMailer>(TYPES.IMailer)
+      .to(config.mail.transport === 'file' ? FileMailer : ConsoleMailer)
+      .inSingletonScope();
+
+    // ===============================
+    // Storage & Image Processing
+    // ===============================
+    const storageProviders = {
+      local: LocalStorageProvider,
+      s3: S3StorageProvider,
+      memory: MemoryStorageProvider,
+    };
+    container.bind<IStorageProvider>(TYPES.IStorageProvider)
+      .to(storageProviders[config.storage.driver])
+      .inSingletonScope();
+
+    container.bind<IImageProcessor>(TYPES.IImageProcessor)
+      .to(SharpImageProcessor)
+      .inSingletonScope();
+
+    // ===============================
+    // Login Providers (OAuth2 / OIDC)
+    // ===============================
+    container.bind<IOAuthProviderRegistry>(TYPES.IOAuthProviderRegistry)
+      .to(OAuthProviderRegistry)
+      .inSingletonScope();
+
     // ===============================
     // Service Layer
     // ===============================
@@ -105,6 +280,69 @@ export class DIContainer {
       .to(ImageService)
       .inSingletonScope();
 
+    container.bind<IPostRevisionService>(TYPES.IPostRevisionService)
+      .to(PostRevisionService)
+      .inSingletonScope();
+
+    container.bind<ISearchService>(TYPES.ISearchService)
+      .to(SearchService)
+      .inSingletonScope();
+
+    container.bind<IFeedService>(TYPES.IFeedService)
+      .to(FeedService)
+      .inSingletonScope();
+
+    container.bind<ISitemapService>(TYPES.ISitemapService)
+      .to(SitemapService)
+      .inSingletonScope();
+
+    container.bind<IPostReviewService>(TYPES.IPostReviewService)
+      .to(PostReviewService)
+      .inSingletonScope();
+
+    container.bind<ITwoFactorService>(TYPES.ITwoFactorService)
+      .to(TwoFactorService)
+      .inSingletonScope();
+
+    container.bind<IApiKeyService>(TYPES.IApiKeyService)
+      .to(ApiKeyService)
+      .inSingletonScope();
+
+    container.bind<IOAuthService>(TYPES.IOAuthService)
+      .to(OAuthService)
+      .inSingletonScope();
+
+    container.bind<IPermissionService>(TYPES.IPermissionService)
+      .to(PermissionService)
+      .inSingletonScope();
+
+    container.bind<IAuditService>(TYPES.IAuditService)
+      .to(AuditService)
+      .inSingletonScope();
+
+    container.bind<IMediaService>(TYPES.IMediaService)
+      .to(MediaService)
+      .inSingletonScope();
+
+    container.bind<IUploadPolicyService>(TYPES.IUploadPolicyService)
+      .to(UploadPolicyService)
+      .inSingletonScope();
+
+    container.bind<ITagService>(TYPES.ITagService)
+      .to(TagService)
+      .inSingletonScope();
+
+    container.bind<ISeriesService>(TYPES.ISeriesService)
+      .to(SeriesService)
+      .inSingletonScope();
+
+    // ===============================
+    // Background Jobs
+    // ===============================
+    container.bind<ScheduledPostPublisher>(TYPES.ScheduledPostPublisher)
+      .to(ScheduledPostPublisher)
+      .inSingletonScope();
+
     // ===============================
     // Controller Layer
     // ===============================
@@ -123,6 +361,62 @@ export class DIContainer {
     container.bind<CommentController>(TYPES.CommentController)
       .to(CommentController)
       .inTransientScope();
+
+    container.bind<PostRevisionController>(TYPES.PostRevisionController)
+      .to(PostRevisionController)
+      .inTransientScope();
+
+    container.bind<SearchController>(TYPES.SearchController)
+      .to(SearchController)
+      .inTransientScope();
+
+    container.bind<FeedController>(TYPES.FeedController)
+      .to(FeedController)
+      .inTransientScope();
+
+    container.bind<SitemapController>(TYPES.SitemapController)
+      .to(SitemapController)
+      .inTransientScope();
+
+    container.bind<PostReviewController>(TYPES.PostReviewController)
+      .to(PostReviewController)
+      .inTransientScope();
+
+    container.bind<TwoFactorController>(TYPES.TwoFactorController)
+      .to(TwoFactorController)
+      .inTransientScope();
+
+    container.bind<SessionController>(TYPES.SessionController)
+      .to(SessionController)
+      .inTransientScope();
+
+    container.bind<ApiKeyController>(TYPES.ApiKeyController)
+      .to(ApiKeyController)
+      .inTransientScope();
+
+    container.bind<OAuthController>(TYPES.OAuthController)
+      .to(OAuthController)
+      .inTransientScope();
+
+    container.bind<RoleController>(TYPES.RoleController)
+      .to(RoleController)
+      .inTransientScope();
+
+    container.bind<AuditController>(TYPES.AuditController)
+      .to(AuditController)
+      .inTransientScope();
+
+    container.bind<MediaController>(TYPES.MediaController)
+      .to(MediaController)
+      .inTransientScope();
+
+    container.bind<TagController>(TYPES.TagController)
+      .to(TagController)
+      .inTransientScope();
+
+    container.bind<SeriesController>(TYPES.SeriesController)
+      .to(SeriesController)
+      .inTransientScope();
   }
 
   /**
@@ -10,6 +10,21 @@ export const TYPES = {
   ICategoryRepository: Symbol.for('ICategoryRepository'),
   IBlogPostRepository: Symbol.for('IBlogPostRepository'),
   ICommentRepository: Symbol.for('ICommentRepository'),
+  IPostRevisionRepository: Symbol.for('IPostRevisionRepository'),
+  ISearchRepository: Symbol.for('ISearchRepository'),
+  ISitemapRepository: Symbol.for('ISitemapRepository'),
+  IPostReviewEventRepository: Symbol.for('IPostReviewEventRepository'),
+  ITwoFactorRepository: Symbol.for('ITwoFactorRepository'),
+  IApiKeyRepository: Symbol.for('IApiKeyRepository'),
+  IOAuthRepository: Symbol.for('IOAuthRepository'),
+  IRoleRepository: Symbol.for('IRoleRepository'),
+  IAuditLogRepository: Symbol.for('IAuditLogRepository'),
+  IMediaAssetRepository: Symbol.for('IMediaAssetRepository'),
+  IStorageQuotaRepository: Symbol.for('IStorageQuotaRepository'),
+  ISlugHistoryRepository: Symbol.for('ISlugHistoryRepository'),
+  ITagRepository: Symbol.for('ITagRepository'),
+  ISeriesRepository: Symbol.for('ISeriesRepository'),
+  IPostAuthorRepository: Symbol.for('IPostAuthorRepository'),
   
   // Services
   IUserService: Symbol.for('IUserService'),
@@ -18,10 +33,51 @@ export const TYPES = {
   ICommentService: Symbol.for('ICommentService'),
   IAuthService: Symbol.for('IAuthService'),
   IImageService: Symbol.for('IImageService'),
+  IPostRevisionService: Symbol.for('IPostRevisionService'),
+  ISearchService: Symbol.for('ISearchService'),
+  IFeedService: Symbol.for('IFeedService'),
+  ISitemapService: Symbol.for('ISitemapService'),
+  IPostReviewService: Symbol.for('IPostReviewService'),
+  ITwoFactorService: Symbol.for('ITwoFactorService'),
+  IApiKeyService: Symbol.for('IApiKeyService'),
+  IOAuthService: Symbol.for('IOAuthService'),
+  IPermissionService: Symbol.for('IPermissionService'),
+  IAuditService: Symbol.for('IAuditService'),
+  IMediaService: Symbol.for('IMediaService'),
+  IUploadPolicyService: Symbol.for('IUploadPolicyService'),
+  ITagService: Symbol.for('ITagService'),
+  ISeriesService: Symbol.for('ISeriesService'),
+  
+  // Mail
+  IMailer: Symbol.for('IMailer'),
+
+  // Storage
+  IStorageProvider: Symbol.for('IStorageProvider'),
+  IImageProcessor: Symbol.for('IImageProcessor'),
+
+  // Login Providers
+  IOAuthProviderRegistry: Symbol.for('IOAuthProviderRegistry'),
+  
+  // Background Jobs
+  ScheduledPostPublisher: Symbol.for('ScheduledPostPublisher'),
   
   // Controllers
   UserController: Symbol.for('UserController'),
   CategoryController: Symbol.for('CategoryController'),
   BlogPostController: Symbol.for('BlogPostController'),
   CommentController: Symbol.for('CommentController'),
+  PostRevisionController: Symbol.for('PostRevisionController'),
+  SearchController: Symbol.for('SearchController'),
+  FeedController: Symbol.for('FeedController'),
+  SitemapController: Symbol.for('SitemapController'),
+  PostReviewController: Symbol.for('PostReviewController'),
+  TwoFactorController: Symbol.for('TwoFactorController'),
+  SessionController: Symbol.for('SessionController'),
+  ApiKeyController: Symbol.for('ApiKeyController'),
+  OAuthController: Symbol.for('OAuthController'),
+  RoleController: Symbol.for('RoleController'),
+  AuditController: Symbol.for('AuditController'),
+  MediaController: Symbol.for('MediaController'),
+  TagController: Symbol.for('TagController'),
+  SeriesController: Symbol.for('SeriesController'),
 };
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { BaseError, ErrorCode } from "..";
+
+export class PayloadTooLargeError extends BaseError {
+  constructor(
+    message: string,
+    context?: Record<string, any>
+  ) {
+    super(message, ErrorCode.PAYLOAD_TOO_LARGE, 413, true, context);
+  }
+}
\ No newline at end of file
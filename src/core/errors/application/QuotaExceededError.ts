@@ -0,0 +1,10 @@
+import { BaseError, ErrorCode } from "..";
+
+export class QuotaExceededError extends BaseError {
+  constructor(
+    message: string,
+    context?: Record<string, any>
+  ) {
+    super(message, ErrorCode.STORAGE_QUOTA_EXCEEDED, 413, true, context);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { BaseError, ErrorCode } from "..";
+
+export class UnsupportedFileTypeError extends BaseError {
+  constructor(
+    message: string,
+    context?: Record<string, any>
+  ) {
+    super(message, ErrorCode.UNSUPPORTED_FILE_TYPE, 422, true, context);
+  }
+}
\ No newline at end of file
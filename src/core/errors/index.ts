@@ -8,9 +8,12 @@ export { ConflictError } from './application/ConflictError';
 export { NotFoundError } from './application/NotFoundError';
 export { UnauthorizedError } from './application/UnauthorizedError';
 export { ForbiddenError } from './application/ForbiddenError';
+export { PayloadTooLargeError } from './application/PayloadTooLargeError';
+export { QuotaExceededError } from './application/QuotaExceededError';
 
 // Domain Layer
 export { ValidationError } from './domain/ValidationError';
+export { UnsupportedFileTypeError } from './domain/UnsupportedFileTypeError';
 
 // Infrastructure Layer
 export { DatabaseError } from './infrastructure/DatabaseError';
@@ -1,10 +1,8 @@
-import { UserRole } from "@prisma/client";
-
 export interface AuthenticatedUser {
   id: string;
   email: string;
   username: string;
   firstName: string;
   lastName: string;
-  role: UserRole;
+  role: string;
 }
\ No newline at end of file
@@ -1,7 +1,5 @@
-import { UserRole } from "@prisma/client";
-
 export  interface JwtPayload {
   userId: string;
   email: string;
-  role: UserRole;
+  role: string;
 }
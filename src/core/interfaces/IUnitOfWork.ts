@@ -8,9 +8,14 @@ export interface IUnitOfWork {
   categories: ICategoryRepository;
   blogPosts: IBlogPostRepository;
   comments: ICommentRepository;
-  
-  begin(): Promise<void>;
-  commit(): Promise<void>;
-  rollback(): Promise<void>;
-  dispose(): Promise<void>;
-}
\ No newline at end of file
+
+  /**
+   * Runs work in a single database transaction. Repository calls made inside it (directly or
+   * through services) join the transaction; a thrown error rolls back every write made so far.
+   * Nested calls join the outer transaction instead of opening a new one.
+   */
+  execute<T>(work: (uow: IUnitOfWork) => Promise<T>): Promise<T>;
+
+  // True while the current call chain runs inside execute()
+  readonly inTransaction: boolean;
+}
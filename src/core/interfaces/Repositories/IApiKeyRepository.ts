@@ -0,0 +1,20 @@
+import { User } from "@prisma/client";
+import { ApiKey } from "../../../domain/entities/ApiKey";
+import { ApiKeyScope } from "../../../domain/enums/ApiKeyScope";
+
+export interface IApiKeyRepository {
+  create(data: {
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    userId: string;
+    expiresAt?: Date | null;
+  }): Promise<ApiKey>;
+  findById(id: string): Promise<ApiKey | null>;
+  findByPrefix(prefix: string): Promise<(ApiKey & { user: User }) | null>;
+  findByUser(userId: string): Promise<ApiKey[]>;
+  countActiveByUser(userId: string): Promise<number>;
+  revoke(id: string): Promise<void>;
+  markUsed(id: string, ipAddress?: string): Promise<void>;
+}
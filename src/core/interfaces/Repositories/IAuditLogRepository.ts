@@ -0,0 +1,10 @@
+import { AuditLog, AuditLogFilter, AuditSnapshot } from "../../../domain/entities/AuditLog";
+import { AuditTargetType } from "../../../domain/enums/AuditAction";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface IAuditLogRepository {
+  create(data: Omit<AuditLog, "id" | "createdAt">): Promise<AuditLog>;
+  findMany(filter: AuditLogFilter, page: number, limit: number): Promise<IPaginatedResult<AuditLog>>;
+  findForExport(filter: AuditLogFilter, limit: number): Promise<AuditLog[]>;
+  findSnapshot(targetType: AuditTargetType, targetId: string | null): Promise<AuditSnapshot | null>;
+}
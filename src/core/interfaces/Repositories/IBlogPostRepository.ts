@@ -1,12 +1,15 @@
-import { BlogPost } from "../../../domain/entities/BlogPost";
+import { BlogPost, BlogPostChanges } from "../../../domain/entities/BlogPost";
+import { RelatedPostCandidate } from "../../../domain/entities/RelatedPost";
 import { IFindAllOptions } from "../Common/IFindAllOptions";
 import { IPaginatedResult } from "../Common/IPaginatedResult";
 import { IRepository } from "../IRepository";
 
 export interface IBlogPostRepository extends IRepository<BlogPost> {
+  update(id: string, changes: BlogPostChanges): Promise<BlogPost>;
   findBySlug(slug: string): Promise<BlogPost | null>;
   findPublished(options?: IFindAllOptions): Promise<IPaginatedResult<BlogPost>>;
   findByCategory(categoryId: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPost>>;
+  // Posts the user is credited on, in any author role
   findByAuthor(authorId: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPost>>;
   incrementViewCount(id: string): Promise<void>;
   findPopular(limit?: number): Promise<BlogPost[]>;
@@ -14,4 +17,16 @@ export interface IBlogPostRepository extends IRepository<BlogPost> {
   findByTag(tag: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPost>>;
   findDrafts(authorId?: string): Promise<BlogPost[]>;
   findTrending(limit: number, days: number): Promise<BlogPost[]>;
+  findDueScheduled(now: Date, limit?: number): Promise<BlogPost[]>;
+  // Published posts other than the source, those sharing a tag or the category first, then the newest
+  findRelatedCandidates(
+    source: Pick<RelatedPostCandidate, "id" | "tags" | "categoryId">,
+    limit: number
+  ): Promise<RelatedPostCandidate[]>;
+  // Posts of any status
+  countByCategory(categoryId: string): Promise<number>;
+  moveToCategory(fromCategoryId: string, toCategoryId: string): Promise<number>;
+  countByTag(tag: string): Promise<number>;
+  // Renames the tag in every post, dropping it where the new name is already present
+  replaceTag(fromTag: string, toTag: string): Promise<number>;
 }
\ No newline at end of file
@@ -12,4 +12,12 @@ export interface ICategoryRepository extends IRepository<Category> {
     active: number;
     inactive: number;
   }>;
+  // Every category, active or not, in display order
+  findAllSorted(): Promise<Category[]>;
+  // Parent first, root last
+  findAncestorIds(id: string): Promise<string[]>;
+  // Subcategories at any level; depth 1 are the direct children
+  findDescendants(id: string): Promise<Array<{ id: string; depth: number }>>;
+  findChildren(parentId: string): Promise<Category[]>;
+  moveChildren(fromParentId: string, toParentId: string | null): Promise<number>;
 }
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { MediaAsset, MediaAssetFilter, MediaAssetReferences } from "../../../domain/entities/MediaAsset";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface IMediaAssetRepository {
+  create(data: Omit<MediaAsset, "id" | "createdAt" | "updatedAt">): Promise<MediaAsset>;
+  findById(id: string): Promise<MediaAsset | null>;
+  findByOwnerAndHash(ownerId: string, contentHash: string): Promise<MediaAsset | null>;
+  findByStorageKeys(keys: string[]): Promise<MediaAsset[]>;
+  findMany(filter: MediaAssetFilter, page: number, limit: number): Promise<IPaginatedResult<MediaAsset>>;
+  update(id: string, data: Partial<Pick<MediaAsset, "altText" | "caption">>): Promise<MediaAsset>;
+  delete(id: string): Promise<void>;
+  findReferences(asset: MediaAsset): Promise<MediaAssetReferences>;
+}
\ No newline at end of file
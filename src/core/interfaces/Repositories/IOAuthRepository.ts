@@ -0,0 +1,25 @@
+import { OAuthState, User, UserIdentity } from "@prisma/client";
+
+export interface IOAuthRepository {
+  // Pending authorization requests (state + PKCE verifier)
+  createState(data: {
+    stateHash: string;
+    provider: string;
+    codeVerifier: string;
+    nonce: string;
+    redirectUri: string;
+    expiresAt: Date;
+  }): Promise<OAuthState>;
+  consumeState(stateHash: string): Promise<OAuthState | null>;
+  cleanupExpiredStates(): Promise<number>;
+
+  // Linked external identities
+  findIdentity(provider: string, subject: string): Promise<(UserIdentity & { user: User }) | null>;
+  createIdentity(data: {
+    provider: string;
+    subject: string;
+    email?: string | null;
+    userId: string;
+  }): Promise<UserIdentity>;
+  touchIdentity(id: string, email?: string | null): Promise<void>;
+}
@@ -0,0 +1,8 @@
+import { PostAuthor, PostAuthorInput } from "../../../domain/entities/PostAuthor";
+
+export interface IPostAuthorRepository {
+  // In contribution order, with the users
+  findByPost(postId: string): Promise<PostAuthor[]>;
+  // Replaces the author list in the given order and moves blog_posts.authorId to the primary author
+  replace(postId: string, authors: PostAuthorInput[]): Promise<void>;
+}
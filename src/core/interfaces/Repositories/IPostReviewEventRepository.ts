@@ -0,0 +1,8 @@
+import { PostReviewEvent } from "../../../domain/entities/PostReviewEvent";
+import { IFindAllOptions } from "../Common/IFindAllOptions";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+import { IRepository } from "../IRepository";
+
+export interface IPostReviewEventRepository extends IRepository<PostReviewEvent> {
+  findByBlogPost(blogPostId: string, options?: IFindAllOptions): Promise<IPaginatedResult<PostReviewEvent>>;
+}
@@ -0,0 +1,12 @@
+import { PostRevision } from "../../../domain/entities/PostRevision";
+import { IFindAllOptions } from "../Common/IFindAllOptions";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+import { IRepository } from "../IRepository";
+
+export interface IPostRevisionRepository extends IRepository<PostRevision> {
+  findByBlogPost(blogPostId: string, options?: IFindAllOptions): Promise<IPaginatedResult<PostRevision>>;
+  findByRevisionNumber(blogPostId: string, revisionNumber: number): Promise<PostRevision | null>;
+  getLatestRevisionNumber(blogPostId: string): Promise<number>;
+  // Stores the revision under the next free number of its post, safe against concurrent saves
+  createNext(revisionData: Omit<Partial<PostRevision>, "revisionNumber">): Promise<PostRevision>;
+}
@@ -0,0 +1,20 @@
+import { Role, RoleUploadLimits } from "../../../domain/entities/Role";
+import { Permission } from "../../../domain/enums/Permission";
+
+export interface IRoleRepository {
+  findAll(): Promise<Array<Role & { usersCount: number }>>;
+  findByName(name: string): Promise<Role | null>;
+  findExistingNames(names: string[]): Promise<string[]>;
+  create(data: {
+    name: string;
+    description?: string | null;
+    permissions: Permission[];
+    uploadLimits?: Partial<RoleUploadLimits>;
+  }): Promise<Role>;
+  update(
+    name: string,
+    data: { description?: string | null; permissions?: Permission[]; uploadLimits?: Partial<RoleUploadLimits> }
+  ): Promise<Role>;
+  delete(name: string): Promise<void>;
+  countUsers(name: string): Promise<number>;
+}
@@ -0,0 +1,16 @@
+import { SearchFilters, SearchHit, SearchHitType } from "../../../domain/entities/SearchHit";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface SearchCriteria {
+  query: string;
+  types: SearchHitType[];
+  filters?: SearchFilters;
+  page?: number;
+  limit?: number;
+}
+
+export interface ISearchRepository {
+  search(criteria: SearchCriteria): Promise<IPaginatedResult<SearchHit> & {
+    totals: Record<SearchHitType, number>;
+  }>;
+}
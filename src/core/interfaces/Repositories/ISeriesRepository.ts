@@ -0,0 +1,19 @@
+import { Series, SeriesFilter, SeriesPostRef } from "../../../domain/entities/Series";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface ISeriesRepository {
+  // Single series come with their parts in reading order
+  findById(id: string): Promise<Series | null>;
+  findBySlug(slug: string): Promise<Series | null>;
+  // Lists only count the published parts
+  findMany(filter: SeriesFilter, page: number, limit: number): Promise<IPaginatedResult<Series>>;
+  create(data: Pick<Series, "title" | "slug" | "description" | "ownerId">): Promise<Series>;
+  update(id: string, data: Partial<Pick<Series, "title" | "slug" | "description">>): Promise<Series>;
+  // The parts stay as standalone posts
+  delete(id: string): Promise<void>;
+  slugExists(slug: string, excludeId?: string): Promise<boolean>;
+
+  findPostRefs(postIds: string[]): Promise<SeriesPostRef[]>;
+  // Makes the posts the parts of the series in this order; posts left out are detached
+  setParts(seriesId: string, postIds: string[]): Promise<void>;
+}
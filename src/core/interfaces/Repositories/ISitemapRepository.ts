@@ -0,0 +1,11 @@
+export interface SitemapPostEntry {
+  slug: string;
+  updatedAt: Date;
+}
+
+export interface ISitemapRepository {
+  countPublishedPosts(): Promise<number>;
+  findPublishedPosts(skip: number, take: number): Promise<SitemapPostEntry[]>;
+  // Latest updatedAt of every page of published posts, index 0 = page 1
+  getPublishedPostPageDates(pageSize: number): Promise<Date[]>;
+}
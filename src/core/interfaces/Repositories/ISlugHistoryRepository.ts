@@ -0,0 +1,15 @@
+import { SlugHistory } from "../../../domain/entities/SlugHistory";
+import { SlugResourceType } from "../../../domain/enums/SlugResourceType";
+
+export interface ISlugHistoryRepository {
+  findBySlug(resourceType: SlugResourceType, slug: string): Promise<SlugHistory | null>;
+  // Former slugs of a resource, oldest first
+  findSlugs(resourceType: SlugResourceType, resourceId: string): Promise<string[]>;
+  // True when the slug is a former slug of another resource than the given one
+  isTaken(resourceType: SlugResourceType, slug: string, resourceId?: string): Promise<boolean>;
+  // Keeps the old slug for the resource and drops the entry of the new one when it takes back an old slug
+  recordChange(resourceType: SlugResourceType, resourceId: string, oldSlug: string, newSlug: string): Promise<void>;
+  // Moves former slugs to another resource, e.g. when categories are merged
+  reassign(resourceType: SlugResourceType, fromResourceId: string, toResourceId: string): Promise<number>;
+  deleteByResource(resourceType: SlugResourceType, resourceId: string): Promise<number>;
+}
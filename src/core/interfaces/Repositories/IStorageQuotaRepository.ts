@@ -0,0 +1,9 @@
+import { StorageUsage } from "../../../domain/entities/StorageQuota";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface IStorageQuotaRepository {
+  findUsage(userId: string): Promise<StorageUsage | null>;
+  // Users that own media, largest usage first
+  findUsages(page: number, limit: number): Promise<IPaginatedResult<StorageUsage>>;
+  setUserQuota(userId: string, storageQuotaMb: number | null): Promise<void>;
+}
\ No newline at end of file
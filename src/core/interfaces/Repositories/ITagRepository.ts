@@ -0,0 +1,20 @@
+import { Tag, TagFilter } from "../../../domain/entities/Tag";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+// Reads fill in postCount, writes leave it out
+export interface ITagRepository {
+  findById(id: string): Promise<Tag | null>;
+  findBySlug(slug: string): Promise<Tag | null>;
+  // Case-insensitive, for spellings whose slug changed since the tag was created
+  findByName(name: string): Promise<Tag | null>;
+  // Creates the tag unless one with the slug exists already
+  findOrCreate(name: string, slug: string): Promise<Tag>;
+  update(id: string, data: Partial<Pick<Tag, "name" | "slug" | "description">>): Promise<Tag>;
+  delete(id: string): Promise<void>;
+
+  findMany(filter: TagFilter, page: number, limit: number): Promise<IPaginatedResult<Tag>>;
+  // Most used tags, only those with published posts
+  findPopular(limit: number): Promise<Tag[]>;
+  // Tags whose name starts with the prefix or whose slug starts with slugPrefix, most used first
+  findByPrefix(prefix: string, slugPrefix: string, limit: number): Promise<Tag[]>;
+}
@@ -0,0 +1,13 @@
+export interface ITwoFactorRepository {
+  saveSecret(userId: string, encryptedSecret: string): Promise<void>;
+  enable(userId: string): Promise<void>;
+  disable(userId: string): Promise<void>;
+  markStepUsed(userId: string, step: number): Promise<boolean>;
+
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countRemainingRecoveryCodes(userId: string): Promise<number>;
+
+  findRequiredRoles(): Promise<string[]>;
+  setRequiredRoles(roles: string[], actorId: string): Promise<void>;
+}
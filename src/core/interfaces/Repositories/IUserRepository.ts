@@ -1,4 +1,4 @@
-import { RefreshToken, TokenBlacklist, User } from "@prisma/client";
+import { RefreshToken, TokenBlacklist, User, UserToken, UserTokenType } from "@prisma/client";
 import { IRepository } from "../IRepository";
 
 export interface IUserRepository extends IRepository<User> {
@@ -13,12 +13,23 @@ export interface IUserRepository extends IRepository<User> {
     token: string;
     userId: string;
     expiresAt: Date;
+    familyId: string;
+    sessionStartedAt?: Date;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+    device?: string | null;
   }): Promise<RefreshToken>;
   findRefreshToken(token: string): Promise<(RefreshToken & { user: User }) | null>;
   revokeRefreshToken(token: string): Promise<void>;
   revokeAllRefreshTokens(userId: string): Promise<void>;
   cleanupExpiredRefreshTokens(): Promise<void>;
 
+  // Sessions (refresh token families)
+  rotateRefreshToken(id: string): Promise<boolean>;
+  revokeRefreshTokenFamily(familyId: string, userId?: string): Promise<number>;
+  findActiveSessions(userId: string): Promise<RefreshToken[]>;
+  isSessionActive(familyId: string, userId: string): Promise<boolean>;
+
   // New blacklist methods 
   createBlacklistedToken(data: {
     token: string;
@@ -29,4 +40,17 @@ export interface IUserRepository extends IRepository<User> {
   isTokenBlacklisted(token: string): Promise<boolean>; // Bu eksikti
   cleanupExpiredBlacklistedToken(tokenId: string): Promise<void>;
   cleanupExpiredBlacklistedTokens(): Promise<void>;
+
+  // Single-use email verification / password reset tokens
+  createUserToken(data: {
+    tokenHash: string;
+    type: UserTokenType;
+    userId: string;
+    expiresAt: Date;
+  }): Promise<UserToken>;
+  findUserToken(tokenHash: string): Promise<UserToken | null>;
+  consumeUserToken(id: string): Promise<boolean>;
+  revokeUserTokens(userId: string, type: UserTokenType): Promise<void>;
+  cleanupExpiredUserTokens(): Promise<void>;
+  markEmailVerified(id: string): Promise<User>;
 }
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { User } from "@prisma/client";
+import { ApiKeyResponseDto, CreateApiKeyDto, CreatedApiKeyDto } from "../../../application/dtos/apiKey/ApiKeyDto";
+import { ApiKey } from "../../../domain/entities/ApiKey";
+
+export interface IApiKeyService {
+  create(userId: string, dto: CreateApiKeyDto): Promise<CreatedApiKeyDto>;
+  listForUser(userId: string): Promise<ApiKeyResponseDto[]>;
+  revoke(userId: string, apiKeyId: string): Promise<void>;
+  authenticate(rawKey: string, ipAddress?: string): Promise<{ user: User; apiKey: ApiKey } | null>;
+}
@@ -0,0 +1,11 @@
+import { AuditLogResponseDto, RecordAuditDto } from "../../../application/dtos/audit/AuditLogDto";
+import { AuditLogFilter, AuditSnapshot } from "../../../domain/entities/AuditLog";
+import { AuditTargetType } from "../../../domain/enums/AuditAction";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface IAuditService {
+  record(entry: RecordAuditDto): Promise<void>;
+  snapshot(targetType: AuditTargetType, targetId: string | null): Promise<AuditSnapshot | null>;
+  list(filter: AuditLogFilter, page: number, limit: number): Promise<IPaginatedResult<AuditLogResponseDto>>;
+  exportCsv(filter: AuditLogFilter): Promise<string>;
+}
@@ -1,17 +1,34 @@
 import { AuthResponseDto } from "../../../application/dtos/auth/AuthResponseDto";
 import { LoginDto } from "../../../application/dtos/auth/LoginDto";
 import { RegisterDto } from "../../../application/dtos/auth/RegisterDto";
+import { MfaChallengeDto, TwoFactorRecoveryCodesDto, TwoFactorSetupDto } from "../../../application/dtos/auth/TwoFactorDto";
+import { SessionContextDto, SessionDto } from "../../../application/dtos/auth/SessionDto";
 import { User } from '@prisma/client';
 
 export interface IAuthService {
-  login(dto: LoginDto): Promise<AuthResponseDto | null>;
-  register(dto: RegisterDto): Promise<AuthResponseDto>;
-  refreshToken(refreshToken: string): Promise<{ accessToken: string; refreshToken: string; } | null>;
+  login(dto: LoginDto, context?: SessionContextDto): Promise<AuthResponseDto | MfaChallengeDto>;
+  loginWithExternalIdentity(user: User, context?: SessionContextDto): Promise<AuthResponseDto | MfaChallengeDto>;
+  verifyMfaLogin(mfaToken: string, code: string, context?: SessionContextDto): Promise<AuthResponseDto>;
+  beginMfaEnrollment(mfaToken: string): Promise<TwoFactorSetupDto>;
+  completeMfaEnrollment(
+    mfaToken: string,
+    code: string,
+    context?: SessionContextDto
+  ): Promise<AuthResponseDto & TwoFactorRecoveryCodesDto>;
+  register(dto: RegisterDto, context?: SessionContextDto): Promise<AuthResponseDto>;
+  refreshToken(refreshToken: string, context?: SessionContextDto): Promise<{ accessToken: string; refreshToken: string; } | null>;
   logout(accessToken: string, refreshToken?: string): Promise<void>;
   logoutAll(userId: string, currentAccessToken: string): Promise<void>;
+  listSessions(userId: string, currentSessionId?: string): Promise<SessionDto[]>;
+  revokeSession(userId: string, sessionId: string): Promise<void>;
+  // Whether the session an access token belongs to is still open
+  isSessionActive(sessionId: string, userId: string): Promise<boolean>;
   isTokenBlacklisted(token: string): Promise<boolean>;
   validateAccessToken(token: string): Promise<User | null>;
   changePassword(userId: string, currentPassword: string, newPassword: string): Promise<void>;
+  resendVerificationEmail(userId: string): Promise<void>;
+  verifyEmail(token: string): Promise<void>;
   forgotPassword(email: string): Promise<void>;
+  resetPassword(token: string, newPassword: string): Promise<void>;
   cleanupExpiredTokens(): Promise<void>;
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { BlogPostResponseDto } from "../../../application/dtos/blogPost/BlogPostResponseDto";
 import { CreateBlogPostDto } from "../../../application/dtos/blogPost/CreateBlogPostDto";
 import { UpdateBlogPostDto } from "../../../application/dtos/blogPost/UpdateBlogPostDto";
+import { UpdatePostAuthorsDto } from "../../../application/dtos/blogPost/UpdatePostAuthorsDto";
+import { RelatedPostDto } from "../../../application/dtos/blogPost/RelatedPostDto";
 import { IFindAllOptions } from "../Common/IFindAllOptions";
 import { IPaginatedResult } from "../Common/IPaginatedResult";
 import { IService } from "../IService";
@@ -9,15 +11,33 @@ export interface IBlogPostService {
   getById(id: string): Promise<BlogPostResponseDto | null>;
   getAll(options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>>;
   create(dto: CreateBlogPostDto, authorId: string): Promise<BlogPostResponseDto>; 
-  update(id: string, dto: UpdateBlogPostDto): Promise<BlogPostResponseDto>;
+  update(id: string, dto: UpdateBlogPostDto, editorId?: string): Promise<BlogPostResponseDto>;
   delete(id: string): Promise<boolean>;
   getBySlug(slug: string): Promise<BlogPostResponseDto | null>;
   getPublished(options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>>;
-  getByCategory(categorySlug: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>>;
+  // Current slug of the post a former slug belonged to, null when the slug has no history
+  getRedirectSlug(slug: string): Promise<string | null>;
+  // includeDescendants also lists the posts of all subcategories
+  getByCategory(
+    categorySlug: string,
+    options?: IFindAllOptions,
+    includeDescendants?: boolean
+  ): Promise<IPaginatedResult<BlogPostResponseDto>>;
+  getByTag(tagSlug: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>>;
+  // Posts the user is credited on, as primary author or in any other role
   getByAuthor(authorId: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>>;
+  // Replaces the authors of the post; the caller checks who may do it
+  setAuthors(id: string, dto: UpdatePostAuthorsDto): Promise<BlogPostResponseDto>;
   incrementViewCount(id: string): Promise<void>;
   getPopular(limit?: number): Promise<BlogPostResponseDto[]>;
   getRecent(limit?: number): Promise<BlogPostResponseDto[]>;
   searchPosts(query: string, options?: IFindAllOptions): Promise<IPaginatedResult<BlogPostResponseDto>>;
   getTrending(limit?: number, days?: number): Promise<BlogPostResponseDto[]>;
+  // Published posts most similar to the post, best first; null when the post does not exist
+  getRelated(id: string, limit?: number): Promise<RelatedPostDto[] | null>;
+  publish(id: string, actorId?: string): Promise<BlogPostResponseDto>;
+  unpublish(id: string, actorId?: string): Promise<BlogPostResponseDto>;
+  schedule(id: string, scheduledFor: Date | string, actorId?: string): Promise<BlogPostResponseDto>;
+  cancelSchedule(id: string, actorId?: string): Promise<BlogPostResponseDto>;
+  publishDuePosts(now?: Date, limit?: number): Promise<BlogPostResponseDto[]>;
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
-import { CategoryResponseDto } from "../../../application/dtos/category/CategoryResponseDto";
+import { CategoryResponseDto, CategoryTreeNodeDto } from "../../../application/dtos/category/CategoryResponseDto";
 import { CreateCategoryDto } from "../../../application/dtos/category/CreateCategoryDto";
 import { UpdateCategoryDto } from "../../../application/dtos/category/UpdateCategoryDto";
+import { CategoryMergeResultDto, MergeCategoryDto } from "../../../application/dtos/category/MergeCategoryDto";
 import { IService } from "../IService";
 
 export interface ICategoryService extends IService<CategoryResponseDto, CreateCategoryDto, UpdateCategoryDto> {
@@ -15,4 +16,9 @@ export interface ICategoryService extends IService<CategoryResponseDto, CreateCa
     active: number;
     inactive: number;
   }>;
+  // Nested categories; inactive ones are left out unless includeInactive is set
+  getTree(includeInactive?: boolean): Promise<CategoryTreeNodeDto[]>;
+  merge(sourceId: string, dto: MergeCategoryDto): Promise<CategoryMergeResultDto>;
+  // Slug an old slug of a merged category redirects to, null when it is not redirected
+  getRedirectSlug(slug: string): Promise<string | null>;
 }
@@ -0,0 +1,7 @@
+import { FeedDto } from "../../../application/dtos/feed/FeedDto";
+
+export interface IFeedService {
+  getSiteFeed(): Promise<FeedDto>;
+  getCategoryFeed(categorySlug: string): Promise<FeedDto>;
+  getAuthorFeed(authorId: string): Promise<FeedDto>;
+}
@@ -0,0 +1,34 @@
+export type ModernImageFormat = 'webp' | 'avif';
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | ModernImageFormat;
+
+export interface ImageVariantSpec {
+  name: string;
+  width: number;
+}
+
+export interface ProcessedImageFile {
+  // "original" or the name of a variant
+  variant: string;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  contentType: string;
+  buffer: Buffer;
+}
+
+export interface ProcessedImage {
+  format: ImageFormat;
+  width: number;
+  height: number;
+  files: ProcessedImageFile[];
+}
+
+/**
+ * Turns an uploaded image into the files that get stored: the original
+ * re-encoded without metadata, plus every resized variant in the fallback
+ * format and each modern format
+ */
+export interface IImageProcessor {
+  process(input: Buffer, variants: ImageVariantSpec[], formats: ModernImageFormat[]): Promise<ProcessedImage>;
+  resize(input: Buffer, width: number, format?: ImageFormat): Promise<Buffer>;
+}
@@ -1,8 +1,10 @@
+import { ImageUploadResultDto } from "../../../application/dtos/image/ImageUploadDto";
+
 export interface IImageService {
-  uploadImage(file: Buffer, fileName: string, contentType: string): Promise<string>;
-  uploadMultipleImages(files: Array<{ buffer: Buffer; fileName: string; contentType: string }>): Promise<string[]>;
+  uploadImage(file: Buffer, fileName: string, contentType: string): Promise<ImageUploadResultDto>;
+  uploadMultipleImages(files: Array<{ buffer: Buffer; fileName: string; contentType: string }>): Promise<ImageUploadResultDto[]>;
   deleteImage(fileName: string): Promise<boolean>;
   deleteMultipleImages(fileNames: string[]): Promise<boolean[]>;
   getImageUrl(fileName: string): string;
-  generateThumbnail?(buffer: Buffer, size?: number): Promise<Buffer>;
+  generateThumbnail(buffer: Buffer, size?: number): Promise<Buffer>;
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+import {
+  MediaAssetResponseDto,
+  MediaUploadResultDto,
+  PurgeOrphansResultDto,
+  UpdateMediaAssetDto,
+  UploadMediaDto,
+} from "../../../application/dtos/media/MediaAssetDto";
+import { MediaAssetFilter } from "../../../domain/entities/MediaAsset";
+import { PolicySubject } from "../../../domain/entities/Role";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface IMediaService {
+  upload(file: UploadMediaDto, ownerId: string): Promise<MediaUploadResultDto>;
+  uploadMany(files: UploadMediaDto[], ownerId: string): Promise<MediaUploadResultDto[]>;
+  list(actor: PolicySubject, filter: MediaAssetFilter, page: number, limit: number): Promise<IPaginatedResult<MediaAssetResponseDto>>;
+  getById(id: string, actor: PolicySubject): Promise<MediaAssetResponseDto>;
+  update(id: string, dto: UpdateMediaAssetDto, actor: PolicySubject): Promise<MediaAssetResponseDto>;
+  delete(id: string, actor: PolicySubject, force?: boolean): Promise<void>;
+
+  // Reference tracking
+  findOrphans(limit: number): Promise<MediaAssetResponseDto[]>;
+  purgeOrphans(options: { dryRun: boolean; limit: number }): Promise<PurgeOrphansResultDto>;
+  // Deletes the library assets behind the URLs in these values (URLs or post content) once nothing references them
+  releaseUrls(sources: string[]): Promise<number>;
+}
\ No newline at end of file
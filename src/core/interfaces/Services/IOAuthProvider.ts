@@ -0,0 +1,37 @@
+// Profile returned by an identity provider after a successful code exchange
+export interface ExternalProfile {
+  provider: string;
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  username?: string;
+  firstName?: string;
+  lastName?: string;
+  avatar?: string;
+}
+
+export interface AuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeChallenge: string; // S256
+  redirectUri: string;
+}
+
+export interface CodeExchangeRequest {
+  code: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+}
+
+export interface IOAuthProvider {
+  readonly id: string;
+  readonly name: string;
+  buildAuthorizationUrl(request: AuthorizationRequest): Promise<string>;
+  exchangeCode(request: CodeExchangeRequest): Promise<ExternalProfile>;
+}
+
+export interface IOAuthProviderRegistry {
+  list(): IOAuthProvider[];
+  get(id: string): IOAuthProvider | undefined;
+}
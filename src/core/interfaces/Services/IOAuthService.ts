@@ -0,0 +1,14 @@
+import { AuthResponseDto } from "../../../application/dtos/auth/AuthResponseDto";
+import { MfaChallengeDto } from "../../../application/dtos/auth/TwoFactorDto";
+import { SessionContextDto } from "../../../application/dtos/auth/SessionDto";
+import { OAuthAuthorizationDto, OAuthCallbackDto, OAuthProviderDto } from "../../../application/dtos/auth/OAuthDto";
+
+export interface IOAuthService {
+  listProviders(): OAuthProviderDto[];
+  beginAuthorization(provider: string): Promise<OAuthAuthorizationDto>;
+  completeAuthorization(
+    provider: string,
+    dto: OAuthCallbackDto,
+    context?: SessionContextDto
+  ): Promise<AuthResponseDto | MfaChallengeDto>;
+}
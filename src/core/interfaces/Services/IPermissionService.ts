@@ -0,0 +1,19 @@
+import { CreateRoleDto, RoleResponseDto, UpdateRoleDto } from "../../../application/dtos/role/RoleDto";
+import { PolicyResource, PolicySubject } from "../../../domain/entities/Role";
+import { Permission, PolicyAction } from "../../../domain/enums/Permission";
+
+export interface IPermissionService {
+  // Policy engine
+  can(user: PolicySubject, action: PolicyAction, resource?: PolicyResource): Promise<boolean>;
+  ensure(user: PolicySubject, action: PolicyAction, resource?: PolicyResource): Promise<void>;
+  getPermissions(role: string): Promise<Permission[]>;
+
+  // Role management
+  listPermissions(): Permission[];
+  listRoles(): Promise<RoleResponseDto[]>;
+  getRole(name: string): Promise<RoleResponseDto>;
+  createRole(dto: CreateRoleDto, actorId: string): Promise<RoleResponseDto>;
+  updateRole(name: string, dto: UpdateRoleDto, actorId: string): Promise<RoleResponseDto>;
+  deleteRole(name: string, actorId: string): Promise<void>;
+  roleExists(name: string): Promise<boolean>;
+}
@@ -0,0 +1,16 @@
+import { BlogPostResponseDto } from "../../../application/dtos/blogPost/BlogPostResponseDto";
+import { PostReviewEventResponseDto } from "../../../application/dtos/review/PostReviewEventResponseDto";
+import { SubmitForReviewDto } from "../../../application/dtos/review/ReviewRequestDto";
+import { PolicySubject } from "../../../domain/entities/Role";
+import { IFindAllOptions } from "../Common/IFindAllOptions";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface IPostReviewService {
+  getHistory(blogPostId: string, actor: PolicySubject, options?: IFindAllOptions): Promise<IPaginatedResult<PostReviewEventResponseDto>>;
+  getQueue(options?: IFindAllOptions & { reviewerId?: string; unassigned?: boolean }): Promise<IPaginatedResult<BlogPostResponseDto>>;
+  submit(blogPostId: string, actor: PolicySubject, dto?: SubmitForReviewDto): Promise<BlogPostResponseDto>;
+  withdraw(blogPostId: string, actor: PolicySubject, comment?: string): Promise<BlogPostResponseDto>;
+  assignReviewer(blogPostId: string, actor: PolicySubject, reviewerId: string): Promise<BlogPostResponseDto>;
+  approve(blogPostId: string, actor: PolicySubject, comment?: string): Promise<BlogPostResponseDto>;
+  requestChanges(blogPostId: string, actor: PolicySubject, comment: string): Promise<BlogPostResponseDto>;
+}
@@ -0,0 +1,12 @@
+import { BlogPostResponseDto } from "../../../application/dtos/blogPost/BlogPostResponseDto";
+import { PostRevisionDiffDto } from "../../../application/dtos/postRevision/PostRevisionDiffDto";
+import { PostRevisionResponseDto } from "../../../application/dtos/postRevision/PostRevisionResponseDto";
+import { IFindAllOptions } from "../Common/IFindAllOptions";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface IPostRevisionService {
+  getRevisions(blogPostId: string, options?: IFindAllOptions): Promise<IPaginatedResult<PostRevisionResponseDto>>;
+  getRevision(blogPostId: string, revisionId: string): Promise<PostRevisionResponseDto>;
+  compare(blogPostId: string, from: string, to?: string): Promise<PostRevisionDiffDto>;
+  restore(blogPostId: string, revisionId: string, editorId: string): Promise<BlogPostResponseDto>;
+}
@@ -0,0 +1,6 @@
+import { SearchQueryDto } from "../../../application/dtos/search/SearchQueryDto";
+import { SearchResponseDto } from "../../../application/dtos/search/SearchResultDto";
+
+export interface ISearchService {
+  search(dto: SearchQueryDto): Promise<SearchResponseDto>;
+}
@@ -0,0 +1,18 @@
+import { CreateSeriesDto, SeriesResponseDto, UpdateSeriesDto } from "../../../application/dtos/series/SeriesDto";
+import { PolicySubject } from "../../../domain/entities/Role";
+import { SeriesFilter } from "../../../domain/entities/Series";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface ISeriesService {
+  list(filter: SeriesFilter, page: number, limit: number): Promise<IPaginatedResult<SeriesResponseDto>>;
+  // Readers only see the published parts
+  getById(id: string): Promise<SeriesResponseDto | null>;
+  getBySlug(slug: string): Promise<SeriesResponseDto | null>;
+  // Current slug of a series that used to have this one, if any
+  getRedirectSlug(slug: string): Promise<string | null>;
+
+  // Changes are limited to the owner of the series and admins
+  create(dto: CreateSeriesDto, actor: PolicySubject): Promise<SeriesResponseDto>;
+  update(id: string, dto: UpdateSeriesDto, actor: PolicySubject): Promise<SeriesResponseDto>;
+  delete(id: string, actor: PolicySubject): Promise<void>;
+}
@@ -0,0 +1,7 @@
+import { SitemapDto, SitemapSection } from "../../../application/dtos/sitemap/SitemapDto";
+
+export interface ISitemapService {
+  getSitemap(): Promise<SitemapDto>;
+  getChildSitemap(section: SitemapSection, page: number): Promise<SitemapDto>;
+  getRobotsTxt(): string;
+}
@@ -0,0 +1,33 @@
+export type StorageDriver = 'local' | 's3' | 'memory';
+
+export interface PutObjectOptions {
+  contentType: string;
+  cacheControl?: string;
+}
+
+export interface StoredObject {
+  key: string;
+  url: string;
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Binary object storage used for uploaded media. Keys are relative paths
+ * like "images/1700000000000-abc.png"; drivers decide where the bytes live
+ * and how they are served publicly.
+ */
+export interface IStorageProvider {
+  readonly driver: StorageDriver;
+
+  // Prepares the backing store (directory, bucket and its policy)
+  initialize(): Promise<void>;
+  put(key: string, body: Buffer, options: PutObjectOptions): Promise<StoredObject>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<boolean>;
+  exists(key: string): Promise<boolean>;
+  getUrl(key: string): string;
+  // Key of an object from its public URL, null when the URL belongs to another store
+  keyFromUrl(url: string): string | null;
+  healthCheck(): Promise<boolean>;
+}
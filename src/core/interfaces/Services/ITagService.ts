@@ -0,0 +1,27 @@
+import {
+  MergeTagDto,
+  TagCloudItemDto,
+  TagMergeResultDto,
+  TagResponseDto,
+  UpdateTagDto,
+} from "../../../application/dtos/tag/TagDto";
+import { TagFilter } from "../../../domain/entities/Tag";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+export interface ITagService {
+  list(filter: TagFilter, page: number, limit: number): Promise<IPaginatedResult<TagResponseDto>>;
+  getBySlug(slug: string): Promise<TagResponseDto | null>;
+  getCloud(limit: number): Promise<TagCloudItemDto[]>;
+  autocomplete(prefix: string, limit: number): Promise<TagResponseDto[]>;
+  update(id: string, dto: UpdateTagDto): Promise<TagResponseDto>;
+  merge(sourceId: string, dto: MergeTagDto): Promise<TagMergeResultDto>;
+  // Slug a former slug of a renamed or merged tag redirects to, null when it is not redirected
+  getRedirectSlug(slug: string): Promise<string | null>;
+
+  /**
+   * Canonical names for the tags given with a post, creating the tags that do not exist yet.
+   * Spellings sharing a slug resolve to the same tag and appear once. Call it in the unit of
+   * work that writes the post, so the new tags are rolled back with it.
+   */
+  resolveNames(names: string[]): Promise<string[]>;
+}
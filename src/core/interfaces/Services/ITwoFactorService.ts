@@ -0,0 +1,13 @@
+import { TwoFactorSetupDto, TwoFactorStatusDto } from "../../../application/dtos/auth/TwoFactorDto";
+
+export interface ITwoFactorService {
+  getStatus(userId: string): Promise<TwoFactorStatusDto>;
+  beginSetup(userId: string): Promise<TwoFactorSetupDto>;
+  enable(userId: string, code: string): Promise<string[]>;
+  disable(userId: string, password: string, code: string): Promise<void>;
+  regenerateRecoveryCodes(userId: string, code: string): Promise<string[]>;
+  verifyCode(userId: string, code: string): Promise<boolean>;
+  isRequiredForRole(role: string): Promise<boolean>;
+  getRequiredRoles(): Promise<string[]>;
+  setRequiredRoles(roles: string[], actorId: string): Promise<string[]>;
+}
@@ -0,0 +1,37 @@
+import { StorageUsageDto } from "../../../application/dtos/media/StorageUsageDto";
+import { IPaginatedResult } from "../Common/IPaginatedResult";
+
+// What a user may upload right now
+export interface UploadPolicy {
+  maxFileSizeBytes: number;
+  maxFiles: number;
+  allowedTypes: string[];
+  quotaBytes: number | null; // null means unlimited
+  usedBytes: number;
+}
+
+// Uploaded file whose type was detected from its content
+export interface InspectedUpload {
+  buffer: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * Single place for upload rules: per-role size and count limits, the allowed
+ * content types and the per-user storage quota.
+ */
+export interface IUploadPolicyService {
+  resolve(userId: string): Promise<UploadPolicy>;
+  // Throws PayloadTooLargeError (413) or UnsupportedFileTypeError (422)
+  inspect(file: { buffer: Buffer; fileName: string }, policy: UploadPolicy): InspectedUpload;
+  // Throws QuotaExceededError (413) when the bytes do not fit in the remaining quota
+  ensureQuota(policy: UploadPolicy, incomingBytes: number): void;
+  // Same check against the current usage, for the final size of processed uploads
+  ensureUserQuota(userId: string, incomingBytes: number): Promise<void>;
+
+  // Usage and quota administration
+  getUsage(userId: string): Promise<StorageUsageDto>;
+  listUsage(page: number, limit: number): Promise<IPaginatedResult<StorageUsageDto>>;
+  setUserQuota(userId: string, storageQuotaMb: number | null): Promise<StorageUsageDto>;
+}
\ No newline at end of file
@@ -2,6 +2,7 @@ import { CreateUserDto } from "../../../application/dtos/user/CreateUserDto";
 import { UpdateUserDto } from "../../../application/dtos/user/UpdateUserDto";
 import { UserResponseDto } from "../../../application/dtos/user/UserResponseDto";
 import { IService } from "../IService";
+import { PolicySubject } from "../../../domain/entities/Role";
 
 export interface IUserService extends IService<UserResponseDto, CreateUserDto, UpdateUserDto> {
   // Basic user operations
@@ -29,6 +30,5 @@ export interface IUserService extends IService<UserResponseDto, CreateUserDto, U
   }>;
 
   // Admin operations
-  promoteToAuthor(id: string): Promise<UserResponseDto>;
-  demoteToUser(id: string): Promise<UserResponseDto>;
+  changeRole(id: string, role: string, actor: PolicySubject): Promise<UserResponseDto>;
 }
\ No newline at end of file
@@ -1,9 +1,9 @@
 export interface MinIOConfig {
-  enabled: boolean;
   endPoint: string;
   port: number;
   useSSL: boolean;
   accessKey: string;
   secretKey: string;
   bucketName: string;
+  publicUrl: string;
 }
\ No newline at end of file
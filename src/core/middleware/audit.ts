@@ -0,0 +1,141 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { TYPES } from '../container/types';
+import { IAuditService } from '../interfaces/Services/IAuditService';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { AuditSnapshot } from '../../domain/entities/AuditLog';
+import logger from '../../utils/logger';
+
+export interface AuditOptions {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  // Id (or ids, for bulk actions) of the target; defaults to the :id route param
+  target?: (request: FastifyRequest) => string | string[] | null | undefined;
+  // Created resources only have an id once the handler ran; read it from the response data
+  targetFromResponse?: (data: any) => string | null | undefined;
+  // Requests that change nothing, such as dry runs, are not recorded
+  skip?: (request: FastifyRequest) => boolean;
+}
+
+interface AuditTarget {
+  id: string | null;
+  before: AuditSnapshot | null;
+}
+
+interface AuditContext {
+  options: AuditOptions;
+  targets: AuditTarget[];
+  responseData?: any;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auditContext?: AuditContext;
+  }
+}
+
+const getAuditService = (request: FastifyRequest): IAuditService =>
+  request.container.get(TYPES.IAuditService) as IAuditService;
+
+const defaultTarget = (request: FastifyRequest): string | undefined =>
+  (request.params as { id?: string })?.id;
+
+// Target resolvers for routes whose target is not the :id param
+export const paramTarget = (name: string) => (request: FastifyRequest) =>
+  (request.params as Record<string, string | undefined>)[name];
+
+export const bodyTarget = (pick: (body: any) => string | string[] | undefined) => (request: FastifyRequest) =>
+  pick(request.body || {});
+
+/**
+ * Marks a route as audited and captures the state of its target before the handler runs.
+ * Place it after authentication and validation so rejected requests are never recorded;
+ * the entry itself is written by the onResponse hook from registerAuditHooks.
+ */
+export const audit = (options: AuditOptions) => {
+  return async (request: FastifyRequest) => {
+    if (options.skip?.(request)) {
+      return;
+    }
+
+    const auditService = getAuditService(request);
+    const context: AuditContext = { options, targets: [] };
+
+    if (!options.targetFromResponse) {
+      const resolved = (options.target || defaultTarget)(request);
+      const ids = Array.isArray(resolved) ? Array.from(new Set(resolved)) : [resolved ?? null];
+
+      context.targets = await Promise.all(
+        ids.map(async (id) => ({ id, before: await auditService.snapshot(options.targetType, id) }))
+      );
+    }
+
+    request.auditContext = context;
+  };
+};
+
+/**
+ * Cross-cutting hooks that write one audit entry per target of every successful audited request
+ */
+export const registerAuditHooks = (app: FastifyInstance) => {
+  // Keep the response data of create routes, it carries the id of the new resource
+  app.addHook('onSend', async (request, reply, payload) => {
+    const context = request.auditContext;
+    if (context?.options.targetFromResponse && typeof payload === 'string' && reply.statusCode < 400) {
+      try {
+        context.responseData = JSON.parse(payload).data;
+      } catch {
+        context.responseData = undefined;
+      }
+    }
+    return payload;
+  });
+
+  app.addHook('onResponse', async (request, reply) => {
+    const context = request.auditContext;
+    if (!context || reply.statusCode >= 400) {
+      return;
+    }
+
+    const { options } = context;
+    const auditService = getAuditService(request);
+
+    try {
+      const targets = options.targetFromResponse
+        ? [{ id: options.targetFromResponse(context.responseData) ?? null, before: null }]
+        : context.targets;
+
+      for (const target of targets) {
+        const after = await auditService.snapshot(options.targetType, target.id);
+
+        // Ids of bulk requests that never existed
+        if (!target.before && !after) {
+          continue;
+        }
+
+        await auditService.record({
+          action: options.action,
+          targetType: options.targetType,
+          targetId: target.id,
+          before: target.before,
+          after,
+          actor: request.user && {
+            id: request.user.id,
+            username: request.user.username,
+            role: request.user.role,
+            apiKeyId: request.user.apiKey?.id,
+          },
+          ip: request.ip,
+          userAgent: request.headers['user-agent'],
+          requestId: request.id,
+        });
+      }
+    } catch (error: any) {
+      // The response is already sent; make the gap in the audit trail visible in the logs
+      logger.error('Failed to write audit log', {
+        requestId: request.id,
+        action: options.action,
+        error: error.message,
+      });
+    }
+  });
+};
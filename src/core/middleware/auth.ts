@@ -4,6 +4,14 @@ import { IAuthService } from "../interfaces/Services/IAuthService";
 import { UserRole } from "../../domain/enums/UserRole";
 import logger from "../../utils/logger";
 import { IUserRepository } from "../interfaces/Repositories/IUserRepository";
+import { IBlogPostRepository } from "../interfaces/Repositories/IBlogPostRepository";
+import { IPostAuthorRepository } from "../interfaces/Repositories/IPostAuthorRepository";
+import { IApiKeyService } from "../interfaces/Services/IApiKeyService";
+import { IPermissionService } from "../interfaces/Services/IPermissionService";
+import { ApiKeyScope } from "../../domain/enums/ApiKeyScope";
+import { Permission, PolicyAction } from "../../domain/enums/Permission";
+import { PostAuthorUtils } from "../../domain/entities/PostAuthor";
+import { PolicyResource } from "../../domain/entities/Role";
 
 // Extend FastifyRequest type to include user
 declare module 'fastify' {
@@ -12,7 +20,7 @@ declare module 'fastify' {
       id: string;
       email: string;
       username: string;
-      role: UserRole;
+      role: string;
     };
     container: any;
   }
@@ -37,6 +45,11 @@ const ErrorResponses = {
     message: 'Token has been revoked',
     statusCode: 401
   },
+  SESSION_REVOKED: {
+    error: 'Authentication Failed',
+    message: 'Session has been revoked',
+    statusCode: 401
+  },
   TOKEN_EXPIRED: {
     error: 'Authentication Failed',
     message: 'Token has expired',
@@ -62,9 +75,24 @@ const ErrorResponses = {
     message: 'User account is inactive',
     statusCode: 401
   },
-  INSUFFICIENT_PERMISSIONS: (roles: UserRole[]) => ({
+  INVALID_API_KEY: {
+    error: 'Authentication Failed',
+    message: 'Invalid, expired or revoked API key',
+    statusCode: 401
+  },
+  API_KEY_NOT_ALLOWED: {
+    error: 'Insufficient Permissions',
+    message: 'This endpoint cannot be used with an API key',
+    statusCode: 403
+  },
+  INSUFFICIENT_SCOPE: (scopes: ApiKeyScope[]) => ({
+    error: 'Insufficient Permissions',
+    message: `API key is missing required scopes: ${scopes.join(', ')}`,
+    statusCode: 403
+  }),
+  INSUFFICIENT_PERMISSIONS: (action: PolicyAction) => ({
     error: 'Insufficient Permissions',
-    message: `Access denied. Required roles: ${roles.join(', ')}`,
+    message: `Access denied. Missing permission: ${action}`,
     statusCode: 403
   }),
   RESOURCE_FORBIDDEN: {
@@ -89,6 +117,16 @@ const extractToken = (authHeader?: string): string | null => {
   return authHeader.slice(7) || null;
 };
 
+/**
+ * Extract API key from an "Authorization: ApiKey <key>" header
+ */
+const extractApiKey = (authHeader?: string): string | null => {
+  if (!authHeader || !authHeader.startsWith('ApiKey ')) {
+    return null;
+  }
+  return authHeader.slice(7).trim() || null;
+};
+
 /**
  * Verify and decode JWT token
  */
@@ -105,19 +143,77 @@ const verifyJwtToken = (token: string, server: any): any => {
   }
 };
 
+/**
+ * Extract the user id from a token payload (tokens are signed with userId, legacy ones with id)
+ */
+const getTokenUserId = (decoded: any): string | undefined => {
+  return decoded.userId ?? decoded.id;
+};
+
 /**
  * Validate token payload structure
  */
 const validateTokenPayload = (decoded: any, expectedType: 'access' | 'refresh'): boolean => {
-  return decoded.id && decoded.type === expectedType;
+  return !!getTokenUserId(decoded) && decoded.type === expectedType;
+};
+
+/**
+ * API key authentication
+ * The key acts as its owner; scopes are enforced by authorize()
+ */
+const authenticateApiKey = async (request: FastifyRequest, reply: FastifyReply, rawKey: string) => {
+  const apiKeyService = request.container.get(TYPES.IApiKeyService) as IApiKeyService;
+  const result = await apiKeyService.authenticate(rawKey, request.ip);
+
+  if (!result) {
+    logger.warn('Authentication failed: Invalid API key', {
+      key: rawKey.substring(0, 14) + '...',
+      ip: request.ip,
+      url: request.url
+    });
+    return reply.status(401).send(ErrorResponses.INVALID_API_KEY);
+  }
+
+  const { user, apiKey } = result;
+  if (!user.isActive) {
+    logger.warn('Inactive user attempted to authenticate with API key', {
+      userId: user.id,
+      apiKeyId: apiKey.id,
+      ip: request.ip,
+      url: request.url
+    });
+    return reply.status(401).send(ErrorResponses.USER_INACTIVE);
+  }
+
+  request.user = {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    role: user.role,
+    apiKey: {
+      id: apiKey.id,
+      scopes: apiKey.scopes,
+    },
+  };
+
+  logger.debug('User authenticated with API key', {
+    userId: user.id,
+    apiKeyId: apiKey.id,
+    url: request.url
+  });
 };
 
 /**
  * Authentication middleware
- * Verifies JWT token and sets user in request context
+ * Verifies JWT token (or API key) and sets user in request context
  */
 export const authenticate = async (request: FastifyRequest, reply: FastifyReply) => {
   try {
+    const apiKey = extractApiKey(request.headers.authorization);
+    if (apiKey) {
+      return await authenticateApiKey(request, reply, apiKey);
+    }
+
     const token = extractToken(request.headers.authorization);
     
     if (!token) {
@@ -166,7 +262,7 @@ export const authenticate = async (request: FastifyRequest, reply: FastifyReply)
     if (!validateTokenPayload(decoded, 'access')) {
       logger.warn('Authentication failed: Invalid token payload', {
         tokenType: decoded.type,
-        hasId: !!decoded.id,
+        hasId: !!getTokenUserId(decoded),
         ip: request.ip
       });
       return reply.status(401).send(ErrorResponses.INVALID_TOKEN_PAYLOAD);
@@ -174,11 +270,11 @@ export const authenticate = async (request: FastifyRequest, reply: FastifyReply)
 
     // Get user from database
     const userRepository = request.container.get(TYPES.IUserRepository) as IUserRepository;
-    const user = await userRepository.findById(decoded.id);
+    const user = await userRepository.findById(getTokenUserId(decoded)!);
     
     if (!user) {
       logger.warn('User not found during authentication', {
-        userId: decoded.id,
+        userId: getTokenUserId(decoded),
         ip: request.ip,
         url: request.url
       });
@@ -195,12 +291,24 @@ export const authenticate = async (request: FastifyRequest, reply: FastifyReply)
       return reply.status(401).send(ErrorResponses.USER_INACTIVE);
     }
 
+    // Logging out or revoking the session ends its access tokens too, not only its refresh token
+    if (!decoded.sid || !(await authService.isSessionActive(decoded.sid, user.id))) {
+      logger.warn('Authentication failed: Session has been revoked', {
+        userId: user.id,
+        sessionId: decoded.sid,
+        ip: request.ip,
+        url: request.url
+      });
+      return reply.status(401).send(ErrorResponses.SESSION_REVOKED);
+    }
+
     // Set the user in the request context
     request.user = {
       id: user.id,
       email: user.email,
       username: user.username,
-      role: toUserRole(user.role),
+      role: user.role,
+      sessionId: decoded.sid,
     };
 
     // Log successful authentication
@@ -224,39 +332,68 @@ export const authenticate = async (request: FastifyRequest, reply: FastifyReply)
 };
 
 /**
- * Convert string to UserRole enum safely
+ * Permission check for the current user (resolved from the user's role)
  */
-const toUserRole = (role: string): UserRole => {
-  const validRoles = Object.values(UserRole) as string[];
-  if (validRoles.includes(role)) {
-    return role as UserRole;
-  }
-  // Fallback to USER if invalid role
-  return UserRole.USER;
+const hasPermission = async (
+  request: FastifyRequest,
+  action: PolicyAction,
+  resource?: PolicyResource
+): Promise<boolean> => {
+  const permissionService = request.container.get(TYPES.IPermissionService) as IPermissionService;
+  return permissionService.can(request.user!, action, resource);
 };
 
 /**
  * Authorization middleware factory
- * Checks if authenticated user has required role(s)
+ * Checks that the authenticated user's role grants the action (when given).
+ * Requests made with an API key also need every scope in requiredScopes;
+ * routes that declare no scopes are not available to API keys at all.
  */
-export const authorize = (allowedRoles: UserRole[]) => {
+export const authorize = (action: PolicyAction | null, requiredScopes: ApiKeyScope[] = []) => {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       if (!request.user) {
         return reply.status(401).send(ErrorResponses.AUTHENTICATION_REQUIRED);
       }
 
-      if (!allowedRoles.includes(request.currentUser?.role ? toUserRole(request.currentUser.role) : UserRole.USER)) {
+      if (action && !(await hasPermission(request, action))) {
         logger.warn('Authorization failed: Insufficient permissions', {
           userId: request.user.id,
           username: request.user.username,
           userRole: request.user.role,
-          requiredRoles: allowedRoles,
+          requiredPermission: action,
           url: request.url,
           method: request.method,
           ip: request.ip
         });
-        return reply.status(403).send(ErrorResponses.INSUFFICIENT_PERMISSIONS(allowedRoles));
+        return reply.status(403).send(ErrorResponses.INSUFFICIENT_PERMISSIONS(action));
+      }
+
+      const apiKey = request.user.apiKey;
+      if (apiKey) {
+        if (requiredScopes.length === 0) {
+          logger.warn('Authorization failed: Endpoint not available to API keys', {
+            userId: request.user.id,
+            apiKeyId: apiKey.id,
+            url: request.url,
+            method: request.method,
+            ip: request.ip
+          });
+          return reply.status(403).send(ErrorResponses.API_KEY_NOT_ALLOWED);
+        }
+
+        const missingScopes = requiredScopes.filter((scope) => !apiKey.scopes.includes(scope));
+        if (missingScopes.length > 0) {
+          logger.warn('Authorization failed: API key scope missing', {
+            userId: request.user.id,
+            apiKeyId: apiKey.id,
+            missingScopes,
+            url: request.url,
+            method: request.method,
+            ip: request.ip
+          });
+          return reply.status(403).send(ErrorResponses.INSUFFICIENT_SCOPE(missingScopes));
+        }
       }
 
       // Log successful authorization
@@ -264,6 +401,7 @@ export const authorize = (allowedRoles: UserRole[]) => {
         userId: request.user.id,
         username: request.user.username,
         role: request.user.role,
+        permission: action,
         url: request.url,
         method: request.method
       });
@@ -283,9 +421,12 @@ export const authorize = (allowedRoles: UserRole[]) => {
 
 /**
  * Resource ownership middleware factory
- * Checks if user owns the resource or has admin privileges
+ * Checks if user is the resource (e.g. own profile) or has the override permission
  */
-export const requireOwnership = (resourceIdParam: string = 'id') => {
+export const requireOwnership = (
+  resourceIdParam: string = 'id',
+  overridePermission: PolicyAction = Permission.USER_MANAGE
+) => {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       if (!request.user) {
@@ -303,13 +444,8 @@ export const requireOwnership = (resourceIdParam: string = 'id') => {
         });
       }
 
-      // Admin users can access any resource
-      if (request.user.role === UserRole.ADMIN) {
-        return;
-      }
-
       // Check if user owns the resource
-      if (resourceId !== request.user.id) {
+      if (resourceId !== request.user.id && !(await hasPermission(request, overridePermission))) {
         logger.warn('Resource ownership violation', {
           userId: request.user.id,
           username: request.user.username,
@@ -337,9 +473,11 @@ export const requireOwnership = (resourceIdParam: string = 'id') => {
 
 /**
  * Blog post ownership middleware factory
- * Checks if user owns the blog post or has admin/author privileges
+ * Checks the action against the post's authors: ".own" permissions need the user
+ * to be the primary author or a co-author whose role allows the action, ".any"
+ * permissions allow every post
  */
-export const requireBlogOwnership = () => {
+export const requireBlogOwnership = (action: PolicyAction = 'post.edit') => {
   return async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       if (!request.user) {
@@ -357,16 +495,21 @@ export const requireBlogOwnership = () => {
         });
       }
 
-      // Admin users can access any resource
-      if (request.user.role === UserRole.ADMIN) {
-        return;
+      const blogPostRepository = request.container.get(TYPES.IBlogPostRepository) as IBlogPostRepository;
+      const blogPost = await blogPostRepository.findById(blogPostId);
+      if (!blogPost) {
+        return reply.status(404).send({
+          error: 'Not Found',
+          message: 'Post not found',
+          statusCode: 404
+        });
       }
 
-      // Check if user owns the blog post
-      const userRepository = request.container.get(TYPES.IUserRepository) as IUserRepository;
-      // Burada BlogPost repository kullanmak daha doğru olur, örnek olarak gösteriyorum
-      // const blogPost = await blogRepository.findById(blogPostId);
-      // if (blogPost && blogPost.authorId === request.user.id) return;
+      const postAuthorRepository = request.container.get(TYPES.IPostAuthorRepository) as IPostAuthorRepository;
+      const authors = await postAuthorRepository.findByPost(blogPostId);
+      if (await hasPermission(request, action, PostAuthorUtils.policyResource(action, blogPost.authorId, authors))) {
+        return;
+      }
 
       logger.warn('Blog post ownership violation', {
         userId: request.user.id,
@@ -419,14 +562,18 @@ export const optionalAuth = async (request: FastifyRequest, reply: FastifyReply)
       }
 
       const userRepository = request.container.get(TYPES.IUserRepository) as IUserRepository;
-      const user = await userRepository.findById(decoded.id);
+      const user = await userRepository.findById(getTokenUserId(decoded)!);
       
-      if (user && user.isActive) {
+      // Tokens of a revoked session are ignored like any other invalid token
+      const sessionActive = !!decoded.sid && (await authService.isSessionActive(decoded.sid, getTokenUserId(decoded)!));
+
+      if (user && user.isActive && sessionActive) {
         request.user = {
           id: user.id,
           email: user.email,
           username: user.username,
           role: user.role,
+          sessionId: decoded.sid,
         };
 
         logger.debug('Optional authentication successful', {
@@ -520,24 +667,20 @@ export const rateLimitByRole = (limits: { [K in UserRole]: number }) => {
 };
 
 /**
- * Admin only middleware
- * Shorthand for authorize([UserRole.ADMIN])
- */
-export const adminOnly = authorize([UserRole.ADMIN]);
-
-/**
- * Author or Admin middleware
- * Shorthand for authorize([UserRole.AUTHOR, UserRole.ADMIN])
+ * Permission middleware
+ * Shorthand for authorize(action, scopes); the route is usable with an API key
+ * only when scopes are given
  */
-export const authorOrAdmin = authorize([UserRole.AUTHOR, UserRole.ADMIN]);
+export const requirePermission = (action: PolicyAction, ...scopes: ApiKeyScope[]) =>
+  authorize(action, scopes);
 
 /**
- * Authenticated users only middleware
- * Shorthand for authorize([UserRole.USER, UserRole.AUTHOR, UserRole.ADMIN])
+ * Authenticated users only middleware (any role, no API keys)
  */
-export const authenticatedOnly = authorize([UserRole.USER, UserRole.AUTHOR, UserRole.ADMIN]);
+export const authenticatedOnly = authorize(null);
 
 /**
- * Content creators middleware (Author and Admin)
+ * Any authenticated user, also usable with an API key that has all given scopes
  */
-export const contentCreators = authorize([UserRole.AUTHOR, UserRole.ADMIN]);
\ No newline at end of file
+export const authenticatedWithScopes = (...scopes: ApiKeyScope[]) =>
+  authorize(null, scopes);
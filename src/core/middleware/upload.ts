@@ -0,0 +1,73 @@
+import { FastifyRequest } from 'fastify';
+import { TYPES } from '../container/types';
+import { InspectedUpload, IUploadPolicyService } from '../interfaces/Services/IUploadPolicyService';
+import { PayloadTooLargeError, ValidationError } from '../errors';
+import { StorageQuotaUtils } from '../../domain/entities/StorageQuota';
+
+export interface AcceptUploadsOptions {
+  // Accept up to the role's file count instead of a single file
+  multiple?: boolean;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    uploads?: InspectedUpload[];
+    // Text fields sent along with the files
+    uploadFields?: Record<string, string>;
+  }
+}
+
+/**
+ * Reads the multipart body under the upload policy of the current user: the role's
+ * size and count limits, content types detected from the file bytes and the
+ * remaining storage quota. Place it after authentication; handlers read request.uploads.
+ */
+export const acceptUploads = (options: AcceptUploadsOptions = {}) => {
+  return async (request: FastifyRequest) => {
+    if (!request.isMultipart()) {
+      throw new ValidationError('Expected a multipart/form-data request');
+    }
+
+    const uploadPolicyService = request.container.get(TYPES.IUploadPolicyService) as IUploadPolicyService;
+    const policy = await uploadPolicyService.resolve(request.user!.id);
+    const maxFiles = options.multiple ? policy.maxFiles : 1;
+
+    const uploads: InspectedUpload[] = [];
+    const fields: Record<string, string> = {};
+
+    try {
+      for await (const part of request.parts({ limits: { fileSize: policy.maxFileSizeBytes, files: maxFiles } })) {
+        if (part.type === 'file') {
+          const buffer = await part.toBuffer();
+          uploads.push(uploadPolicyService.inspect({ buffer, fileName: part.filename }, policy));
+        } else {
+          fields[part.fieldname] = String(part.value);
+        }
+      }
+    } catch (error: any) {
+      // Limits enforced by the multipart parser while streaming
+      if (error.code === 'FST_REQ_FILE_TOO_LARGE') {
+        throw new PayloadTooLargeError(
+          `File too large. Maximum ${StorageQuotaUtils.formatBytes(policy.maxFileSizeBytes)} allowed`,
+          { maxFileSizeBytes: policy.maxFileSizeBytes }
+        );
+      }
+      if (error.code === 'FST_FILES_LIMIT') {
+        throw new PayloadTooLargeError(`Maximum ${maxFiles} file(s) per request allowed`, { maxFiles });
+      }
+      throw error;
+    }
+
+    if (uploads.length === 0) {
+      throw new ValidationError('No file uploaded');
+    }
+
+    uploadPolicyService.ensureQuota(
+      policy,
+      uploads.reduce((total, upload) => total + upload.buffer.length, 0)
+    );
+
+    request.uploads = uploads;
+    request.uploadFields = fields;
+  };
+};
@@ -0,0 +1,30 @@
+// src/domain/entities/ApiKey.ts
+
+import { ApiKeyScope } from "../enums/ApiKeyScope";
+
+// Personal API key; the secret itself is never stored, only its hash
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string; // public part of the key, used for lookup and display
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  userId: string;
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+}
+
+// Utility functions for business logic
+export const ApiKeyUtils = {
+  isActive(apiKey: ApiKey, now: Date = new Date()): boolean {
+    if (apiKey.revokedAt) return false;
+    return !apiKey.expiresAt || apiKey.expiresAt > now;
+  },
+
+  hasScopes(apiKey: Pick<ApiKey, 'scopes'>, required: ApiKeyScope[]): boolean {
+    return required.every((scope) => apiKey.scopes.includes(scope));
+  },
+};
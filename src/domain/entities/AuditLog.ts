@@ -0,0 +1,66 @@
+// src/domain/entities/AuditLog.ts
+
+export type AuditSnapshot = Record<string, unknown>;
+
+// Append-only record of who changed which resource and how
+export interface AuditLog {
+  id: string;
+  action: string;
+  targetType: string;
+  targetId?: string | null;
+  before?: AuditSnapshot | null; // state before the action, null for creations
+  after?: AuditSnapshot | null; // state after the action, null for deletions
+  actorId?: string | null;
+  actorUsername?: string | null; // kept so entries stay readable after the actor is deleted
+  actorRole?: string | null;
+  apiKeyId?: string | null; // set when the action was made with a personal API key
+  ip?: string | null;
+  userAgent?: string | null;
+  requestId?: string | null;
+  createdAt: Date;
+}
+
+export interface AuditLogFilter {
+  actorId?: string;
+  action?: string; // exact action or a prefix ending in "*", e.g. "user.*"
+  targetType?: string;
+  targetId?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Never copied into snapshots
+const SENSITIVE_KEYS = [
+  'password',
+  'twoFactorSecret',
+  'keyHash',
+  'tokenHash',
+  'codeHash',
+  'token',
+  'searchVector',
+];
+
+// Utility functions for business logic
+export const AuditLogUtils = {
+  /**
+   * Plain JSON copy of a resource without secrets; dates become ISO strings
+   */
+  sanitize(value: unknown): AuditSnapshot | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    return JSON.parse(
+      JSON.stringify(value, (key, item) => (SENSITIVE_KEYS.includes(key) ? undefined : item))
+    );
+  },
+
+  changedFields(before?: AuditSnapshot | null, after?: AuditSnapshot | null): string[] {
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+    return Array.from(keys).filter(
+      (key) => JSON.stringify(before?.[key] ?? null) !== JSON.stringify(after?.[key] ?? null)
+    );
+  },
+};
@@ -1,5 +1,20 @@
 import { PostStatus } from "../enums/PostStatus";
 
+// The acting user of a review decision, resolved from their permissions (post.review / post.review.any)
+export interface PostReviewer {
+  id: string;
+  canReview: boolean;
+  canReviewAny: boolean;
+}
+
+// Optional fields a stored post can have cleared
+type ClearableField = "excerpt" | "featuredImage" | "publishedAt" | "scheduledFor" | "reviewerId";
+
+// Changes written to a stored post; null clears an optional field such as the schedule or the reviewer
+export type BlogPostChanges = Partial<Omit<BlogPost, ClearableField>> & {
+  [K in ClearableField]?: BlogPost[K] | null;
+};
+
 export class BlogPost {
   constructor(
     public readonly id: string,
@@ -19,6 +34,8 @@ export class BlogPost {
     public readonly publishedAt?: Date,
     public readonly createdAt: Date = new Date(),
     public readonly updatedAt: Date = new Date(),
+    public readonly scheduledFor?: Date,
+    public readonly reviewerId?: string,
   ) {}
 
   public isPublic(): boolean {
@@ -47,11 +64,22 @@ export class BlogPost {
       this.isPublished,
       this.publishedAt,
       this.createdAt,
-      this.updatedAt
+      this.updatedAt,
+      this.scheduledFor,
+      this.reviewerId
     );
   }
 
   public publish(): BlogPost {
+    if (this.isPublished) {
+      throw new Error('Post is already published');
+    }
+
+    // Approved posts are published directly, scheduled ones once they are due
+    if (this.status !== PostStatus.APPROVED && !this.isDue()) {
+      throw new Error('Only approved posts can be published');
+    }
+
     return new BlogPost(
       this.id,
       this.title,
@@ -69,7 +97,9 @@ export class BlogPost {
       true,
       new Date(),
       this.createdAt,
-      new Date()
+      new Date(),
+      undefined,
+      this.reviewerId
     );
   }
 
@@ -95,7 +125,206 @@ export class BlogPost {
       false,
       this.publishedAt,
       this.createdAt,
-      new Date() 
+      new Date(),
+      this.scheduledFor,
+      this.reviewerId
+    );
+  }
+
+  public schedule(scheduledFor: Date, now: Date = new Date()): BlogPost {
+    if (this.isPublished) {
+      throw new Error('Post is already published');
+    }
+
+    if (this.status !== PostStatus.APPROVED && this.status !== PostStatus.SCHEDULED) {
+      throw new Error('Only approved posts can be scheduled');
+    }
+
+    if (scheduledFor.getTime() <= now.getTime()) {
+      throw new Error('Scheduled date must be in the future');
+    }
+
+    return new BlogPost(
+      this.id,
+      this.title,
+      this.slug,
+      this.content,
+      this.authorId,
+      this.categoryId,
+      this.excerpt,
+      this.featuredImage,
+      this.images,
+      this.tags,
+      PostStatus.SCHEDULED,
+      this.viewCount,
+      this.commentsCount,
+      false,
+      this.publishedAt,
+      this.createdAt,
+      new Date(),
+      scheduledFor,
+      this.reviewerId
+    );
+  }
+
+  public cancelSchedule(): BlogPost {
+    if (!this.isScheduled()) {
+      throw new Error('Post is not scheduled');
+    }
+
+    return new BlogPost(
+      this.id,
+      this.title,
+      this.slug,
+      this.content,
+      this.authorId,
+      this.categoryId,
+      this.excerpt,
+      this.featuredImage,
+      this.images,
+      this.tags,
+      PostStatus.APPROVED, // Approval still stands
+      this.viewCount,
+      this.commentsCount,
+      false,
+      this.publishedAt,
+      this.createdAt,
+      new Date(),
+      undefined,
+      this.reviewerId
+    );
+  }
+
+  /**
+   * Sets or clears the publish time requested for a draft. The post is only scheduled once
+   * it is approved; until then the time is a request for the reviewer.
+   */
+  public requestSchedule(scheduledFor: Date | undefined, now: Date = new Date()): BlogPost {
+    if (this.status !== PostStatus.DRAFT || this.isPublished) {
+      throw new Error('Only drafts carry a requested publish time');
+    }
+
+    if (scheduledFor && scheduledFor.getTime() <= now.getTime()) {
+      throw new Error('Scheduled date must be in the future');
+    }
+
+    return this.withReviewState(PostStatus.DRAFT, this.reviewerId, scheduledFor);
+  }
+
+  public isScheduled(): boolean {
+    return this.status === PostStatus.SCHEDULED && !!this.scheduledFor;
+  }
+
+  // Scheduled post whose publish time has passed
+  public isDue(now: Date = new Date()): boolean {
+    return this.isScheduled() && this.scheduledFor!.getTime() <= now.getTime();
+  }
+
+  public submitForReview(reviewerId?: string): BlogPost {
+    if (this.status !== PostStatus.DRAFT || this.isPublished) {
+      throw new Error('Only drafts can be submitted for review');
+    }
+
+    const errors = this.validate();
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+
+    const assignedReviewer = reviewerId ?? this.reviewerId;
+    if (assignedReviewer === this.authorId) {
+      throw new Error('Authors cannot review their own posts');
+    }
+
+    return this.withReviewState(PostStatus.IN_REVIEW, assignedReviewer, this.scheduledFor);
+  }
+
+  public withdrawFromReview(): BlogPost {
+    if (!this.isInReview()) {
+      throw new Error('Post is not in review');
+    }
+
+    return this.withReviewState(PostStatus.DRAFT, this.reviewerId, this.scheduledFor);
+  }
+
+  public assignReviewer(reviewerId: string): BlogPost {
+    if (!this.isInReview()) {
+      throw new Error('Reviewers can only be assigned to posts in review');
+    }
+
+    if (reviewerId === this.authorId) {
+      throw new Error('Authors cannot review their own posts');
+    }
+
+    return this.withReviewState(PostStatus.IN_REVIEW, reviewerId, this.scheduledFor);
+  }
+
+  public approve(reviewer: PostReviewer, now: Date = new Date()): BlogPost {
+    this.assertCanReview(reviewer);
+
+    // A publish time requested by the author becomes the schedule, unless it has passed meanwhile
+    if (this.scheduledFor && this.scheduledFor.getTime() > now.getTime()) {
+      return this.withReviewState(PostStatus.SCHEDULED, reviewer.id, this.scheduledFor);
+    }
+
+    return this.withReviewState(PostStatus.APPROVED, reviewer.id, undefined);
+  }
+
+  // Sends the post back to its author, the reviewer stays assigned for the next round
+  public requestChanges(reviewer: PostReviewer): BlogPost {
+    this.assertCanReview(reviewer);
+    return this.withReviewState(PostStatus.DRAFT, reviewer.id, this.scheduledFor);
+  }
+
+  public isInReview(): boolean {
+    return this.status === PostStatus.IN_REVIEW;
+  }
+
+  public isApproved(): boolean {
+    return this.status === PostStatus.APPROVED;
+  }
+
+  private assertCanReview(reviewer: PostReviewer): void {
+    if (!this.isInReview()) {
+      throw new Error('Post is not in review');
+    }
+
+    if (!reviewer.canReview) {
+      throw new Error('Only reviewers can review posts');
+    }
+
+    // post.review.any overrides self review and reviewer assignment
+    if (!reviewer.canReviewAny) {
+      if (reviewer.id === this.authorId) {
+        throw new Error('Authors cannot review their own posts');
+      }
+
+      if (this.reviewerId && this.reviewerId !== reviewer.id) {
+        throw new Error('Post is assigned to another reviewer');
+      }
+    }
+  }
+
+  private withReviewState(status: PostStatus, reviewerId: string | undefined, scheduledFor: Date | undefined): BlogPost {
+    return new BlogPost(
+      this.id,
+      this.title,
+      this.slug,
+      this.content,
+      this.authorId,
+      this.categoryId,
+      this.excerpt,
+      this.featuredImage,
+      this.images,
+      this.tags,
+      status,
+      this.viewCount,
+      this.commentsCount,
+      false,
+      this.publishedAt,
+      this.createdAt,
+      new Date(),
+      scheduledFor,
+      reviewerId
     );
   }
 
@@ -117,7 +346,9 @@ export class BlogPost {
       false,
       this.publishedAt,
       this.createdAt,
-      new Date()
+      new Date(),
+      undefined,
+      this.reviewerId
     );
   }
 
@@ -125,12 +356,19 @@ export class BlogPost {
     title?: string;
     slug?: string;
     content?: string;
-    excerpt?: string;
+    excerpt?: string | null; // null removes the excerpt
     featuredImage?: string;
     images?: string[];
     tags?: string[];
     categoryId?: string;
   }): BlogPost {
+    if (this.isInReview()) {
+      throw new Error('Posts under review cannot be edited, withdraw them from review first');
+    }
+
+    // Editing an approved post invalidates the approval (and any pending schedule)
+    const needsReReview = this.status === PostStatus.APPROVED || this.status === PostStatus.SCHEDULED;
+
     return new BlogPost(
       this.id,
       data.title ?? this.title,
@@ -138,17 +376,19 @@ export class BlogPost {
       data.content ?? this.content,
       this.authorId,
       data.categoryId ?? this.categoryId,
-      data.excerpt ?? this.excerpt,
+      data.excerpt === null ? undefined : data.excerpt ?? this.excerpt,
       data.featuredImage ?? this.featuredImage,
       data.images ?? this.images,
       data.tags ?? this.tags,
-      this.status,
+      needsReReview ? PostStatus.DRAFT : this.status,
       this.viewCount,
       this.commentsCount,
       this.isPublished,
       this.publishedAt,
       this.createdAt,
-      new Date() 
+      new Date(),
+      needsReReview ? undefined : this.scheduledFor,
+      this.reviewerId
     );
   }
 
@@ -164,6 +404,7 @@ export class BlogPost {
     tags?: string[];
     status?: PostStatus;
     isPublished?: boolean;
+    scheduledFor?: Date;
   }): BlogPost {
     // ✅ VALIDATION: Ensure required fields
     if (!data.title?.trim()) {
@@ -205,9 +446,18 @@ export class BlogPost {
       throw new Error('Excerpt cannot exceed 500 characters');
     }
 
-    const isPublishing = data.isPublished || data.status === PostStatus.PUBLISHED;
+    // ✅ VALIDATION: Every post starts as a draft, publishing requires an approved review
+    if (data.isPublished || (data.status && data.status !== PostStatus.DRAFT)) {
+      throw new Error('New posts start as drafts and must be approved before publishing');
+    }
+
     const now = new Date();
 
+    // ✅ VALIDATION: A requested publish time is kept on the draft and scheduled on approval
+    if (data.scheduledFor && data.scheduledFor.getTime() <= now.getTime()) {
+      throw new Error('Scheduled date must be in the future');
+    }
+
     return new BlogPost(
       '', // ID will be generated by database
       data.title.trim(),
@@ -219,13 +469,15 @@ export class BlogPost {
       data.featuredImage,
       data.images || [],
       data.tags || [],
-      data.status || PostStatus.DRAFT,
+      PostStatus.DRAFT,
       0, // Initial view count
       0, // Initial comments count
-      isPublishing,
-      isPublishing ? now : undefined, // ✅ FIXED: Set publishedAt only when publishing
+      false,
+      undefined, // publishedAt is set when the approved post is published
       now,
-      now
+      now,
+      data.scheduledFor,
+      undefined
     );
   }
 
@@ -248,7 +500,9 @@ export class BlogPost {
       data.isPublished || false,
       data.publishedAt,
       data.createdAt,
-      data.updatedAt
+      data.updatedAt,
+      data.scheduledFor ?? undefined,
+      data.reviewerId ?? undefined
     );
   }
 
@@ -270,6 +524,8 @@ export class BlogPost {
       commentsCount: this.commentsCount,
       isPublished: this.isPublished,
       publishedAt: this.publishedAt,
+      scheduledFor: this.scheduledFor,
+      reviewerId: this.reviewerId,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
@@ -317,6 +573,10 @@ export class BlogPost {
       errors.push('Published posts must have a published date');
     }
 
+    if (this.status === PostStatus.SCHEDULED && !this.scheduledFor) {
+      errors.push('Scheduled posts must have a scheduled date');
+    }
+
     return errors;
   }
 
@@ -343,7 +603,9 @@ export class BlogPost {
       this.isPublished,
       this.publishedAt,
       this.createdAt,
-      new Date()
+      new Date(),
+      this.scheduledFor,
+      this.reviewerId
     );
   }
 
@@ -9,6 +9,7 @@ export interface Category {
   icon?: string | null;
   isActive: boolean;
   sortOrder: number;
+  parentId?: string | null;
   createdAt: Date;
   updatedAt: Date;
   
@@ -18,8 +19,23 @@ export interface Category {
   };
 }
 
+// One step of the path from a root category down to a category
+export interface CategoryBreadcrumb {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+// Category loaded together with its chain of parents
+export type CategoryWithParents = CategoryBreadcrumb & {
+  parent?: CategoryWithParents | null;
+};
+
 // Utility functions for business logic
 export const CategoryUtils = {
+  // Deepest allowed nesting, root categories being level 1
+  MAX_DEPTH: 5,
+
   isAvailableForPosts(category: Category): boolean {
     return category.isActive;
   },
@@ -31,6 +47,7 @@ export const CategoryUtils = {
     color?: string;
     icon?: string;
     sortOrder?: number;
+    parentId?: string | null;
   }): Omit<Category, 'id' | 'createdAt' | 'updatedAt'> {
     return {
       name: data.name,
@@ -40,9 +57,19 @@ export const CategoryUtils = {
       icon: data.icon || null,
       isActive: true,
       sortOrder: data.sortOrder || 0,
+      parentId: data.parentId || null,
     };
   },
 
+  // Root category first, the category itself last
+  breadcrumbs(category: CategoryWithParents): CategoryBreadcrumb[] {
+    const path: CategoryBreadcrumb[] = [];
+    for (let current: CategoryWithParents | null | undefined = category; current; current = current.parent) {
+      path.unshift({ id: current.id, name: current.name, slug: current.slug });
+    }
+    return path;
+  },
+
   validateSlug(slug: string): boolean {
     const slugRegex = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
     return slugRegex.test(slug);
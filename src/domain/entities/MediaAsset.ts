@@ -0,0 +1,51 @@
+// src/domain/entities/MediaAsset.ts
+
+// Uploaded file tracked in the media library; the bytes live in the storage provider
+export interface MediaAsset {
+  id: string;
+  key: string; // storage key of the full size file
+  url: string;
+  storageKeys: string[]; // full size file and every generated variant
+  fileName: string;
+  mimeType: string;
+  size: number;
+  storedBytes: number; // every stored file, counted against the owner's quota
+  width?: number | null;
+  height?: number | null;
+  variants?: Record<string, unknown> | null;
+  srcset?: Record<string, string> | null;
+  altText?: string | null;
+  caption?: string | null;
+  contentHash: string;
+  ownerId?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MediaAssetFilter {
+  ownerId?: string;
+  search?: string; // file name, alt text or caption
+  mimeType?: string; // exact type or a prefix ending in "/", e.g. "image/"
+  createdBefore?: Date;
+}
+
+// Where an asset is still used
+export interface MediaAssetReferences {
+  posts: Array<{ id: string; title: string; slug: string }>;
+  avatarUserIds: string[];
+}
+
+// Utility functions for business logic
+export const MediaAssetUtils = {
+  /**
+   * Storage folder shared by the files of one upload ("images/<id>"). Posts and
+   * avatars reference any of those files, so references are matched on it.
+   */
+  folder(asset: Pick<MediaAsset, 'key'>): string {
+    return asset.key.substring(0, asset.key.lastIndexOf('/'));
+  },
+
+  isReferenced(references: MediaAssetReferences): boolean {
+    return references.posts.length > 0 || references.avatarUserIds.length > 0;
+  },
+};
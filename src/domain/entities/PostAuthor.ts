@@ -0,0 +1,77 @@
+// src/domain/entities/PostAuthor.ts
+
+import { PostAuthorRole } from "../enums/PostAuthorRole";
+import { PolicyAction } from "../enums/Permission";
+import { PolicyResource } from "./Role";
+
+export interface PostAuthor {
+  postId: string;
+  userId: string;
+  role: PostAuthorRole;
+  position: number; // contribution order, 0 first
+  createdAt: Date;
+
+  user?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+    avatar?: string | null;
+  };
+}
+
+// One entry of a post's author list, in contribution order
+export interface PostAuthorInput {
+  userId: string;
+  role: PostAuthorRole;
+}
+
+// Utility functions for business logic
+export const PostAuthorUtils = {
+  MAX_AUTHORS: 10,
+
+  // Post actions each role may take with the ".own" permissions of its user's role
+  ROLE_ACTIONS: {
+    [PostAuthorRole.PRIMARY]: ["post.edit", "post.delete", "post.publish"],
+    [PostAuthorRole.CO_AUTHOR]: ["post.edit"],
+    [PostAuthorRole.REVIEWER]: [],
+  } as Record<PostAuthorRole, PolicyAction[]>,
+
+  /**
+   * Policy resource of a post for the given action: the primary author owns it,
+   * and so does every co-author whose role allows the action.
+   */
+  policyResource(
+    action: PolicyAction,
+    authorId: string,
+    authors: ReadonlyArray<Pick<PostAuthorInput, "userId" | "role">> = []
+  ): PolicyResource {
+    return {
+      ownerId: authorId,
+      ownerIds: authors
+        .filter((author) => PostAuthorUtils.ROLE_ACTIONS[author.role]?.includes(action))
+        .map((author) => author.userId),
+    };
+  },
+
+  // Reason the author list cannot be saved, or null when it is valid
+  validate(authors: PostAuthorInput[]): string | null {
+    if (authors.length === 0) {
+      return "A post needs at least one author";
+    }
+
+    if (authors.length > PostAuthorUtils.MAX_AUTHORS) {
+      return `A post can have at most ${PostAuthorUtils.MAX_AUTHORS} authors`;
+    }
+
+    if (authors.filter((author) => author.role === PostAuthorRole.PRIMARY).length !== 1) {
+      return "A post needs exactly one primary author";
+    }
+
+    if (new Set(authors.map((author) => author.userId)).size !== authors.length) {
+      return "An author can only be listed once";
+    }
+
+    return null;
+  },
+};
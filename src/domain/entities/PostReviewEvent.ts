@@ -0,0 +1,25 @@
+// src/domain/entities/PostReviewEvent.ts
+
+import { PostStatus } from "../enums/PostStatus";
+import { ReviewAction } from "../enums/ReviewAction";
+
+// Append-only record of an editorial workflow transition
+export interface PostReviewEvent {
+  id: string;
+  blogPostId: string;
+  action: ReviewAction;
+  fromStatus: PostStatus;
+  toStatus: PostStatus;
+  comment?: string | null;
+  actorId?: string | null; // null for system transitions (scheduled publishing)
+  reviewerId?: string | null; // reviewer assigned at the time of the event
+  createdAt: Date;
+
+  // Optional relation
+  actor?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
@@ -0,0 +1,130 @@
+// src/domain/entities/PostRevision.ts
+
+export interface PostRevision {
+  id: string;
+  blogPostId: string;
+  revisionNumber: number;
+  title: string;
+  content: string;
+  excerpt?: string | null;
+  tags: string[];
+  categoryId: string;
+  editorId?: string | null;
+  createdAt: Date;
+
+  // Optional relation
+  editor?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+  } | null;
+}
+
+// Fields captured in every snapshot
+export type PostRevisionSnapshot = Pick<PostRevision, 'title' | 'content' | 'excerpt' | 'tags' | 'categoryId'>;
+
+export type RevisionField = keyof PostRevisionSnapshot;
+
+export interface ContentLineChange {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+export interface RevisionFieldChange {
+  field: RevisionField;
+  before: any;
+  after: any;
+  added?: string[];
+  removed?: string[];
+  lines?: ContentLineChange[];
+}
+
+// Utility functions for business logic
+export const PostRevisionUtils = {
+  snapshotOf(source: PostRevisionSnapshot): PostRevisionSnapshot {
+    return {
+      title: source.title,
+      content: source.content,
+      excerpt: source.excerpt ?? null,
+      tags: [...(source.tags || [])],
+      categoryId: source.categoryId,
+    };
+  },
+
+  hasChanges(before: PostRevisionSnapshot, after: Partial<PostRevisionSnapshot>): boolean {
+    return PostRevisionUtils.diff(before, { ...before, ...after }).length > 0;
+  },
+
+  diff(before: PostRevisionSnapshot, after: PostRevisionSnapshot): RevisionFieldChange[] {
+    const changes: RevisionFieldChange[] = [];
+
+    for (const field of ['title', 'excerpt', 'categoryId'] as const) {
+      const previous = before[field] ?? null;
+      const next = after[field] ?? null;
+      if (previous !== next) {
+        changes.push({ field, before: previous, after: next });
+      }
+    }
+
+    const beforeTags = before.tags || [];
+    const afterTags = after.tags || [];
+    const added = afterTags.filter((tag) => !beforeTags.includes(tag));
+    const removed = beforeTags.filter((tag) => !afterTags.includes(tag));
+    if (added.length > 0 || removed.length > 0) {
+      changes.push({ field: 'tags', before: beforeTags, after: afterTags, added, removed });
+    }
+
+    if (before.content !== after.content) {
+      changes.push({
+        field: 'content',
+        before: before.content,
+        after: after.content,
+        lines: PostRevisionUtils.diffLines(before.content, after.content),
+      });
+    }
+
+    return changes;
+  },
+
+  /**
+   * Line based diff using the longest common subsequence of both texts
+   */
+  diffLines(before: string, after: string): ContentLineChange[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // lcs[i][j] = LCS length of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const result: ContentLineChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        result.push({ type: 'unchanged', line: a[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        result.push({ type: 'removed', line: a[i] });
+        i++;
+      } else {
+        result.push({ type: 'added', line: b[j] });
+        j++;
+      }
+    }
+    while (i < a.length) {
+      result.push({ type: 'removed', line: a[i++] });
+    }
+    while (j < b.length) {
+      result.push({ type: 'added', line: b[j++] });
+    }
+
+    return result;
+  },
+};
@@ -0,0 +1,176 @@
+// src/domain/entities/RelatedPost.ts
+
+// What the scoring needs to know about a post
+export interface RelatedPostCandidate {
+  id: string;
+  title: string;
+  excerpt?: string | null;
+  content: string;
+  tags: string[];
+  categoryId: string;
+  categoryParentId?: string | null;
+  publishedAt?: Date | null;
+}
+
+// Relative importance of each signal; they do not need to add up to 1
+export interface RelatedPostWeights {
+  tags: number;
+  category: number;
+  content: number;
+  recency: number;
+}
+
+// Each signal is between 0 and 1, score is their weighted average
+export interface RelatedPostScore {
+  id: string;
+  score: number;
+  tags: number;
+  category: number;
+  content: number;
+  recency: number;
+}
+
+const MIN_TOKEN_LENGTH = 3;
+
+// Frequent English words that say nothing about the topic of a post
+const STOP_WORDS = new Set([
+  "and", "are", "but", "can", "for", "from", "has", "have", "how", "into", "its", "just", "more",
+  "not", "now", "one", "our", "out", "that", "the", "their", "them", "then", "there", "these",
+  "they", "this", "was", "what", "when", "which", "while", "who", "will", "with", "would", "you", "your",
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TermVector = Map<string, number>;
+
+// Utility functions for business logic
+export const RelatedPostUtils = {
+  // Lowercase words of the text, without markup, short words and stop words
+  tokenize(text: string): string[] {
+    return text
+      .replace(/<[^>]*>/g, " ")
+      .replace(/https?:\/\/\S+/g, " ")
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(token));
+  },
+
+  // Jaccard index of the two tag sets
+  tagOverlap(source: string[], candidate: string[]): number {
+    const a = new Set(source);
+    const b = new Set(candidate);
+    const shared = [...a].filter((tag) => b.has(tag)).length;
+    const total = new Set([...a, ...b]).size;
+    return total === 0 ? 0 : shared / total;
+  },
+
+  // Same category counts fully, a sibling, parent or child category half
+  categoryMatch(
+    source: Pick<RelatedPostCandidate, "categoryId" | "categoryParentId">,
+    candidate: Pick<RelatedPostCandidate, "categoryId" | "categoryParentId">
+  ): number {
+    if (source.categoryId === candidate.categoryId) {
+      return 1;
+    }
+
+    const siblings = !!source.categoryParentId && source.categoryParentId === candidate.categoryParentId;
+    const parentOrChild =
+      source.categoryParentId === candidate.categoryId || candidate.categoryParentId === source.categoryId;
+    return siblings || parentOrChild ? 0.5 : 0;
+  },
+
+  // Halves every halfLifeDays; a missing or future date counts as new
+  recency(publishedAt: Date | null | undefined, now: Date, halfLifeDays: number): number {
+    if (!publishedAt) {
+      return 1;
+    }
+    const ageDays = Math.max(0, (now.getTime() - publishedAt.getTime()) / DAY_MS);
+    return Math.pow(0.5, ageDays / Math.max(halfLifeDays, 1));
+  },
+
+  /**
+   * Cosine similarity of the TF-IDF vectors of the source and every candidate.
+   * Document frequencies come from the source and the candidates, so words that
+   * appear in most of them weigh little.
+   */
+  contentSimilarity(source: RelatedPostCandidate, candidates: RelatedPostCandidate[]): Map<string, number> {
+    const documents = [source, ...candidates].map((post) =>
+      RelatedPostUtils.tokenize(`${post.title} ${post.excerpt ?? ""} ${post.content}`)
+    );
+
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of documents) {
+      for (const token of new Set(tokens)) {
+        documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+      }
+    }
+
+    const vectors = documents.map((tokens) => {
+      const counts: TermVector = new Map();
+      for (const token of tokens) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+
+      const vector: TermVector = new Map();
+      for (const [token, count] of counts) {
+        // Smoothed IDF, a word found in every document still keeps a small weight
+        const idf = Math.log((1 + documents.length) / (1 + documentFrequency.get(token)!)) + 1;
+        vector.set(token, (count / tokens.length) * idf);
+      }
+      return vector;
+    });
+
+    const [sourceVector, ...candidateVectors] = vectors;
+    return new Map(candidates.map((candidate, index) => [candidate.id, cosine(sourceVector, candidateVectors[index])]));
+  },
+
+  /**
+   * Candidates ordered by their weighted score, best first. Candidates that share
+   * nothing with the source but their recency are left out.
+   */
+  rank(
+    source: RelatedPostCandidate,
+    candidates: RelatedPostCandidate[],
+    weights: RelatedPostWeights,
+    options: { now?: Date; recencyHalfLifeDays: number }
+  ): RelatedPostScore[] {
+    const now = options.now ?? new Date();
+    const totalWeight = weights.tags + weights.category + weights.content + weights.recency;
+    if (totalWeight <= 0) {
+      return [];
+    }
+
+    const similarity = RelatedPostUtils.contentSimilarity(source, candidates);
+
+    return candidates
+      .map((candidate) => {
+        const signals = {
+          tags: RelatedPostUtils.tagOverlap(source.tags, candidate.tags),
+          category: RelatedPostUtils.categoryMatch(source, candidate),
+          content: similarity.get(candidate.id) ?? 0,
+          recency: RelatedPostUtils.recency(candidate.publishedAt, now, options.recencyHalfLifeDays),
+        };
+        const relevance =
+          weights.tags * signals.tags + weights.category * signals.category + weights.content * signals.content;
+
+        return {
+          id: candidate.id,
+          ...signals,
+          score: relevance > 0 ? (relevance + weights.recency * signals.recency) / totalWeight : 0,
+        };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score);
+  },
+};
+
+function cosine(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  for (const [token, weight] of a) {
+    dot += weight * (b.get(token) ?? 0);
+  }
+
+  const norm = (vector: TermVector) => Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
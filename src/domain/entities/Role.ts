@@ -0,0 +1,88 @@
+// src/domain/entities/Role.ts
+
+import { Permission, PolicyAction } from "../enums/Permission";
+
+export interface Role {
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+  isSystem: boolean;
+  uploadLimits: RoleUploadLimits;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Upload limits of the role's users; null falls back to the configured default
+export interface RoleUploadLimits {
+  maxFileSizeBytes: number | null;
+  maxFiles: number | null;
+  storageQuotaMb: number | null; // 0 means unlimited
+}
+
+// Who is acting; only the id and role name are needed to evaluate a policy
+export interface PolicySubject {
+  id: string;
+  role: string;
+}
+
+// What is acted on; ownerId enables the ".own" permissions
+export interface PolicyResource {
+  ownerId?: string | null;
+  ownerIds?: string[]; // further owners, such as the co-authors of a post
+}
+
+export const ROLE_NAME_PATTERN = /^[A-Z][A-Z0-9_]{1,31}$/;
+
+// Utility functions for business logic
+export const RoleUtils = {
+  isValidName(name: string): boolean {
+    return ROLE_NAME_PATTERN.test(name);
+  },
+
+  isKnownPermission(permission: string): permission is Permission {
+    return (Object.values(Permission) as string[]).includes(permission);
+  },
+
+  // Whether a role granting `granted` holds every one of `permissions`; ".any" covers ".own"
+  covers(granted: readonly string[], permissions: readonly string[]): boolean {
+    if (granted.includes(Permission.ALL)) {
+      return true;
+    }
+
+    return permissions.every(
+      (permission) =>
+        granted.includes(permission) ||
+        (permission.endsWith(".own") && granted.includes(`${permission.slice(0, -".own".length)}.any`))
+    );
+  },
+
+  /**
+   * Policy check against a role's permission set.
+   * Without a resource an ".own" permission is enough, so route guards can ask
+   * "could this user do it at all" and leave the owner check to the handler.
+   */
+  can(
+    permissions: readonly string[],
+    subject: PolicySubject,
+    action: PolicyAction,
+    resource?: PolicyResource
+  ): boolean {
+    if (permissions.includes(Permission.ALL) || permissions.includes(action)) {
+      return true;
+    }
+
+    if (permissions.includes(`${action}.any`)) {
+      return true;
+    }
+
+    if (permissions.includes(`${action}.own`)) {
+      return (
+        !resource ||
+        (!!resource.ownerId && resource.ownerId === subject.id) ||
+        !!resource.ownerIds?.includes(subject.id)
+      );
+    }
+
+    return false;
+  },
+};
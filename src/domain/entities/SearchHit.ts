@@ -0,0 +1,32 @@
+// src/domain/entities/SearchHit.ts
+
+import { SearchType } from "../enums/SearchType";
+
+export type SearchHitType = Exclude<SearchType, SearchType.ALL>;
+
+export interface SearchHit {
+  type: SearchHitType;
+  id: string;
+  title: string;
+  slug: string | null;
+  titleHighlight: string;
+  highlight: string;
+  rank: number;
+  date: Date | null; // publishedAt for posts, createdAt otherwise
+  postId: string | null; // Parent post of a comment
+}
+
+export interface SearchFilters {
+  category?: string; // Category slug
+  tag?: string;
+  author?: string; // Author id or username
+  from?: Date;
+  to?: Date;
+}
+
+export const SEARCH_HIT_TYPES: SearchHitType[] = [
+  SearchType.POSTS,
+  SearchType.COMMENTS,
+  SearchType.CATEGORIES,
+  SearchType.AUTHORS,
+];
@@ -0,0 +1,104 @@
+// src/domain/entities/Series.ts
+
+import { PostStatus } from "../enums/PostStatus";
+import { PostAuthorInput } from "./PostAuthor";
+
+// A post as a part of its series
+export interface SeriesPart {
+  id: string;
+  title: string;
+  slug: string;
+  status: PostStatus | string;
+  isPublished: boolean;
+  publishedAt?: Date | null;
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  slug: string;
+  description?: string | null;
+  ownerId: string;
+  createdAt: Date;
+  updatedAt: Date;
+
+  owner?: {
+    id: string;
+    username: string;
+    firstName: string;
+    lastName: string;
+  };
+  // Every part in reading order, when the query loaded them
+  parts?: SeriesPart[];
+  // Published parts, when the query counted them
+  publishedParts?: number;
+}
+
+export interface SeriesFilter {
+  ownerId?: string;
+  search?: string; // part of the title
+}
+
+// Post to be added to a series, with what is needed to check the change
+export interface SeriesPostRef {
+  id: string;
+  authorId: string;
+  authors: PostAuthorInput[];
+  seriesId?: string | null;
+}
+
+export interface SeriesPartLink {
+  id: string;
+  title: string;
+  slug: string;
+}
+
+// Where a post sits in its series
+export interface SeriesNavigation {
+  id: string;
+  title: string;
+  slug: string;
+  part: number; // 1-based
+  totalParts: number;
+  previous: SeriesPartLink | null;
+  next: SeriesPartLink | null;
+}
+
+// Utility functions for business logic
+export const SeriesUtils = {
+  MAX_PARTS: 100,
+
+  isPublished(part: SeriesPart): boolean {
+    return part.isPublished && part.status === PostStatus.PUBLISHED;
+  },
+
+  /**
+   * Parts readers get to see. Unpublished parts are skipped so part numbers and
+   * previous/next links never point at drafts; the current post is kept so its
+   * author can preview where it will appear.
+   */
+  visibleParts(parts: SeriesPart[], currentPostId?: string): SeriesPart[] {
+    return parts.filter((part) => SeriesUtils.isPublished(part) || part.id === currentPostId);
+  },
+
+  navigation(postId: string, series: Pick<Series, "id" | "title" | "slug"> & { parts: SeriesPart[] }): SeriesNavigation | null {
+    const parts = SeriesUtils.visibleParts(series.parts, postId);
+    const index = parts.findIndex((part) => part.id === postId);
+    if (index === -1) {
+      return null;
+    }
+
+    const link = (part?: SeriesPart): SeriesPartLink | null =>
+      part ? { id: part.id, title: part.title, slug: part.slug } : null;
+
+    return {
+      id: series.id,
+      title: series.title,
+      slug: series.slug,
+      part: index + 1,
+      totalParts: parts.length,
+      previous: link(parts[index - 1]),
+      next: link(parts[index + 1]),
+    };
+  },
+};
@@ -0,0 +1,12 @@
+// src/domain/entities/SlugHistory.ts
+
+import { SlugResourceType } from "../enums/SlugResourceType";
+
+// Former slug of a post, category, tag or series
+export interface SlugHistory {
+  id: string;
+  resourceType: SlugResourceType;
+  resourceId: string;
+  slug: string;
+  createdAt: Date;
+}
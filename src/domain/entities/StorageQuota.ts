@@ -0,0 +1,31 @@
+// src/domain/entities/StorageQuota.ts
+
+// Storage used by one user's media assets
+export interface StorageUsage {
+  userId: string;
+  username: string;
+  role: string;
+  storageQuotaMb: number | null; // the user's own quota, null when the role's applies
+  usedBytes: number;
+  assetCount: number;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Utility functions for business logic
+export const StorageQuotaUtils = {
+  /**
+   * Effective quota in bytes: the user's own quota, else the role's, else the default.
+   * A quota of 0 means unlimited and is returned as null.
+   */
+  resolveQuotaBytes(userQuotaMb: number | null, roleQuotaMb: number | null, defaultQuotaMb: number): number | null {
+    const quotaMb = userQuotaMb ?? roleQuotaMb ?? defaultQuotaMb;
+    return quotaMb > 0 ? quotaMb * BYTES_PER_MB : null;
+  },
+
+  formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < BYTES_PER_MB) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / BYTES_PER_MB).toFixed(1)} MB`;
+  },
+};
@@ -0,0 +1,58 @@
+// src/domain/entities/Tag.ts
+
+import slugify from "slugify";
+
+export interface Tag {
+  id: string;
+  name: string; // what posts store in their tags array
+  slug: string;
+  description?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Published posts carrying the tag, when the query counted them
+  postCount?: number;
+}
+
+export type TagSort = "name" | "popular" | "recent";
+
+export interface TagFilter {
+  search?: string; // part of the name
+  sort?: TagSort;
+}
+
+// Utility functions for business logic
+export const TagUtils = {
+  MAX_NAME_LENGTH: 50,
+  // Tags a post can carry
+  MAX_PER_POST: 10,
+  // Weights of the tag cloud go from 1 to CLOUD_LEVELS
+  CLOUD_LEVELS: 5,
+
+  normalizeName(name: string): string {
+    return name.trim().replace(/\s+/g, " ");
+  },
+
+  /**
+   * Tags with the same slug are the same tag, so "nodejs", "NodeJS" and "node.js" share one.
+   * "+" and "#" are spelled out first, otherwise "C++", "C#" and "C" would collide.
+   * The add_tags migration mirrors this in SQL for the existing data.
+   */
+  toSlug(name: string): string {
+    const spelled = name.replace(/\+/g, " plus ").replace(/#/g, " sharp ");
+    return slugify(spelled, { lower: true, strict: true });
+  },
+
+  /**
+   * Spreads usage counts over the cloud levels on a log scale, so a few very popular
+   * tags do not push all the others to the smallest size
+   */
+  cloudWeight(count: number, min: number, max: number): number {
+    if (max <= min) {
+      return Math.ceil(TagUtils.CLOUD_LEVELS / 2);
+    }
+
+    const ratio = (Math.log(count) - Math.log(min)) / (Math.log(max) - Math.log(min));
+    return 1 + Math.round(ratio * (TagUtils.CLOUD_LEVELS - 1));
+  },
+};
@@ -0,0 +1,11 @@
+export enum ApiKeyScope {
+  POSTS_READ = 'posts:read',
+  POSTS_WRITE = 'posts:write',
+  POSTS_PUBLISH = 'posts:publish',
+  COMMENTS_WRITE = 'comments:write',
+  COMMENTS_MODERATE = 'comments:moderate',
+  CATEGORIES_READ = 'categories:read',
+  CATEGORIES_WRITE = 'categories:write',
+  TAGS_WRITE = 'tags:write',
+  USERS_READ = 'users:read'
+}
@@ -0,0 +1,66 @@
+// Actions recorded in the audit log, "<resource>.<verb>"
+export enum AuditAction {
+  USER_ROLE_CHANGE = 'user.role.change',
+  USER_ACTIVATE = 'user.activate',
+  USER_DEACTIVATE = 'user.deactivate',
+  USER_QUOTA_UPDATE = 'user.quota.update',
+  SESSION_REVOKE = 'session.revoke',
+  API_KEY_CREATE = 'api_key.create',
+  API_KEY_REVOKE = 'api_key.revoke',
+
+  ROLE_CREATE = 'role.create',
+  ROLE_UPDATE = 'role.update',
+  ROLE_DELETE = 'role.delete',
+  TWO_FACTOR_POLICY_UPDATE = 'two_factor.policy.update',
+
+  CATEGORY_CREATE = 'category.create',
+  CATEGORY_UPDATE = 'category.update',
+  CATEGORY_DELETE = 'category.delete',
+  CATEGORY_REORDER = 'category.reorder',
+  CATEGORY_MERGE = 'category.merge',
+
+  TAG_UPDATE = 'tag.update',
+  TAG_MERGE = 'tag.merge',
+
+  POST_CREATE = 'post.create',
+  POST_UPDATE = 'post.update',
+  POST_DELETE = 'post.delete',
+  POST_PUBLISH = 'post.publish',
+  POST_UNPUBLISH = 'post.unpublish',
+  POST_SCHEDULE = 'post.schedule',
+  POST_UNSCHEDULE = 'post.unschedule',
+  POST_AUTHORS_UPDATE = 'post.authors.update',
+  POST_REVISION_RESTORE = 'post.revision.restore',
+  POST_REVIEW_SUBMIT = 'post.review.submit',
+  POST_REVIEW_WITHDRAW = 'post.review.withdraw',
+  POST_REVIEW_ASSIGN = 'post.review.assign',
+  POST_REVIEW_APPROVE = 'post.review.approve',
+  POST_REVIEW_REQUEST_CHANGES = 'post.review.request_changes',
+
+  SERIES_CREATE = 'series.create',
+  SERIES_UPDATE = 'series.update',
+  SERIES_DELETE = 'series.delete',
+
+  COMMENT_UPDATE = 'comment.update',
+  COMMENT_DELETE = 'comment.delete',
+  COMMENT_APPROVE = 'comment.approve',
+  COMMENT_REJECT = 'comment.reject',
+
+  MEDIA_UPDATE = 'media.update',
+  MEDIA_DELETE = 'media.delete'
+}
+
+// Kind of resource an audit entry points at
+export enum AuditTargetType {
+  USER = 'User',
+  SESSION = 'Session',
+  API_KEY = 'ApiKey',
+  ROLE = 'Role',
+  TWO_FACTOR_POLICY = 'TwoFactorPolicy',
+  CATEGORY = 'Category',
+  TAG = 'Tag',
+  POST = 'BlogPost',
+  SERIES = 'Series',
+  COMMENT = 'Comment',
+  MEDIA = 'MediaAsset'
+}
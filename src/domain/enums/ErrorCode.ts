@@ -12,11 +12,14 @@ export enum ErrorCode {
   REQUIRED_FIELD_MISSING = 'REQUIRED_FIELD_MISSING',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   MISSING_REQUIRED_FIELD = 'MISSING_REQUIRED_FIELD',
+  UNSUPPORTED_FILE_TYPE = 'UNSUPPORTED_FILE_TYPE',
   
   // Resource Management
   RESOURCE_NOT_FOUND = 'RESOURCE_NOT_FOUND',
   RESOURCE_CONFLICT = 'RESOURCE_CONFLICT',
   DUPLICATE_RESOURCE = 'DUPLICATE_RESOURCE',
+  PAYLOAD_TOO_LARGE = 'PAYLOAD_TOO_LARGE',
+  STORAGE_QUOTA_EXCEEDED = 'STORAGE_QUOTA_EXCEEDED',
 
   // Business Rules
   BUSINESS_RULE_VIOLATION = 'BUSINESS_RULE_VIOLATION',
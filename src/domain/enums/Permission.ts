@@ -0,0 +1,51 @@
+// Permissions granted to roles. "<resource>.<action>.own" only applies to the
+// user's own content, "<resource>.<action>.any" to everyone's.
+export enum Permission {
+  ALL = '*',
+
+  POST_CREATE = 'post.create',
+  POST_EDIT_OWN = 'post.edit.own',
+  POST_EDIT_ANY = 'post.edit.any',
+  POST_DELETE_OWN = 'post.delete.own',
+  POST_DELETE_ANY = 'post.delete.any',
+  POST_PUBLISH_OWN = 'post.publish.own',
+  POST_PUBLISH_ANY = 'post.publish.any',
+  POST_REVIEW = 'post.review',
+  POST_REVIEW_ANY = 'post.review.any', // review own posts and posts assigned to others
+  SERIES_MANAGE_OWN = 'series.manage.own',
+  SERIES_MANAGE_ANY = 'series.manage.any',
+
+  COMMENT_CREATE = 'comment.create',
+  COMMENT_EDIT_OWN = 'comment.edit.own',
+  COMMENT_EDIT_ANY = 'comment.edit.any',
+  COMMENT_DELETE_OWN = 'comment.delete.own',
+  COMMENT_DELETE_ANY = 'comment.delete.any',
+  COMMENT_MODERATE = 'comment.moderate',
+
+  CATEGORY_MANAGE = 'category.manage',
+  TAG_MANAGE = 'tag.manage', // rename and merge tags; authors create tags by using them
+  MEDIA_UPLOAD = 'media.upload',
+  MEDIA_EDIT_OWN = 'media.edit.own',
+  MEDIA_EDIT_ANY = 'media.edit.any',
+  MEDIA_DELETE_OWN = 'media.delete.own',
+  MEDIA_DELETE_ANY = 'media.delete.any',
+  MEDIA_MANAGE = 'media.manage', // browse everyone's files and purge orphans
+  MEDIA_QUOTA = 'media.quota', // view storage usage of all users and change their quotas
+
+  USER_READ = 'user.read',
+  USER_MANAGE = 'user.manage',
+  ROLE_MANAGE = 'role.manage',
+  AUDIT_READ = 'audit.read'
+}
+
+// Actions checked with can(); ".own"/".any" variants are resolved against the resource owner
+export type PolicyAction =
+  | Permission
+  | 'post.edit'
+  | 'post.delete'
+  | 'post.publish'
+  | 'series.manage'
+  | 'comment.edit'
+  | 'comment.delete'
+  | 'media.edit'
+  | 'media.delete';
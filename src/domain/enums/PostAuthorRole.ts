@@ -0,0 +1,7 @@
+// How someone is credited on a post. REVIEWER credits a contributor such as a
+// technical reviewer; it is unrelated to the editorial review workflow.
+export enum PostAuthorRole {
+  PRIMARY = 'PRIMARY',
+  CO_AUTHOR = 'CO_AUTHOR',
+  REVIEWER = 'REVIEWER'
+}
@@ -1,5 +1,8 @@
 export enum PostStatus {
   DRAFT = 'DRAFT',
+  IN_REVIEW = 'IN_REVIEW',
+  APPROVED = 'APPROVED',
+  SCHEDULED = 'SCHEDULED',
   PUBLISHED = 'PUBLISHED',
   ARCHIVED = 'ARCHIVED'
-}
\ No newline at end of file
+}
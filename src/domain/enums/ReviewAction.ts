@@ -0,0 +1,13 @@
+export enum ReviewAction {
+  SUBMITTED = 'SUBMITTED',
+  WITHDRAWN = 'WITHDRAWN',
+  REVIEWER_ASSIGNED = 'REVIEWER_ASSIGNED',
+  APPROVED = 'APPROVED',
+  CHANGES_REQUESTED = 'CHANGES_REQUESTED',
+  APPROVAL_REVOKED = 'APPROVAL_REVOKED',
+  SCHEDULED = 'SCHEDULED',
+  UNSCHEDULED = 'UNSCHEDULED',
+  PUBLISHED = 'PUBLISHED',
+  UNPUBLISHED = 'UNPUBLISHED',
+  ARCHIVED = 'ARCHIVED'
+}
@@ -0,0 +1,7 @@
+export enum SearchType {
+  ALL = 'all',
+  POSTS = 'posts',
+  COMMENTS = 'comments',
+  CATEGORIES = 'categories',
+  AUTHORS = 'authors'
+}
@@ -0,0 +1,6 @@
+export enum SlugResourceType {
+  POST = 'POST',
+  CATEGORY = 'CATEGORY',
+  TAG = 'TAG',
+  SERIES = 'SERIES'
+}
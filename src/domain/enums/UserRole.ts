@@ -1,5 +1,6 @@
 export enum UserRole {
   ADMIN = 'ADMIN',
+  EDITOR = 'EDITOR',
   AUTHOR = 'AUTHOR',
   USER = 'USER'
-}
\ No newline at end of file
+}
@@ -6,13 +6,16 @@ import { IUserRepository } from "../core/interfaces/Repositories/IUserRepository
 import { ICategoryRepository } from "../core/interfaces/Repositories/ICategoryRepository";
 import { IBlogPostRepository } from "../core/interfaces/Repositories/IBlogPostRepository";
 import { ICommentRepository } from "../core/interfaces/Repositories/ICommentRepository";
+import { TransactionContext } from "./database/TransactionContext";
+import { config } from "../config/env";
 
-type PrismaTransactionClient = Omit<PrismaClient, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use">;
-
+/**
+ * Prisma interactive transaction shared with the repositories through TransactionContext.
+ * The transaction client lives in async local storage, so concurrent requests using this
+ * singleton never see each other's transactions.
+ */
 @injectable()
 export class UnitOfWork implements IUnitOfWork {
-  private transactionClient: PrismaClient | null = null;
-
   constructor(
     @inject(TYPES.PrismaClient) private prisma: PrismaClient,
     @inject(TYPES.IUserRepository) public users: IUserRepository,
@@ -21,43 +24,22 @@ export class UnitOfWork implements IUnitOfWork {
     @inject(TYPES.ICommentRepository) public comments: ICommentRepository
   ) {}
 
-  async begin(): Promise<void> {
-   if (this.transactionClient) {
-      throw new Error('Transaction already started');
-    }
-    
-    // this.transactionClient = await new Promise<PrismaTransactionClient>((resolve, reject) => {
-    //   this.prisma.$transaction(async (tx: PrismaTransactionClient) => {
-    //     resolve(tx);
-    //     return tx;
-    //   }).catch(reject);
-    // });
-    
-    // Set transaction client on repositories
-    //this.users.setTransactionClient(this.transactionClient);
-    //this.categories.setTransactionClient(this.transactionClient);
-    //this.blogPosts.setTransactionClient(this.transactionClient);
-    //this.comments.setTransactionClient(this.transactionClient);
+  get inTransaction(): boolean {
+    return TransactionContext.current() !== undefined;
   }
 
-  async commit(): Promise<void> {
-    // In Prisma, the transaction is automatically committed when the callback succeeds
-    // So we just need to clean up
-    await this.dispose();
-  }
-
-  async rollback(): Promise<void> {
-    // In Prisma, the transaction is automatically rolled back if an error is thrown
-    // So we just need to clean up
-    await this.dispose();
-  }
+  async execute<T>(work: (uow: IUnitOfWork) => Promise<T>): Promise<T> {
+    if (this.inTransaction) {
+      return work(this);
+    }
 
-  async dispose(): Promise<void> {
-    // Clear transaction client from all repositories
-    //this.users.setTransactionClient(null);
-    //this.categories.setTransactionClient(null);
-    //this.blogPosts.setTransactionClient(null);
-    //this.comments.setTransactionClient(null);
-    this.transactionClient = null;
+    // Prisma commits when the callback resolves and rolls back when it throws
+    return this.prisma.$transaction(
+      (tx) => TransactionContext.run(tx, () => work(this)),
+      {
+        maxWait: config.database.transactionMaxWaitMs,
+        timeout: config.database.transactionTimeoutMs,
+      }
+    );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+// src/infrastructure/database/TransactionContext.ts
+
+import { AsyncLocalStorage } from "async_hooks";
+import { Prisma, PrismaClient } from "@prisma/client";
+
+// Transaction client of the unit of work running in the current async call chain
+const storage = new AsyncLocalStorage<Prisma.TransactionClient>();
+
+export const TransactionContext = {
+  run<T>(client: Prisma.TransactionClient, work: () => Promise<T>): Promise<T> {
+    return storage.run(client, work);
+  },
+
+  current(): Prisma.TransactionClient | undefined {
+    return storage.getStore();
+  },
+
+  /**
+   * Client a repository should query with: the active transaction, or the shared client outside of one
+   */
+  resolve(prisma: PrismaClient): Prisma.TransactionClient {
+    return storage.getStore() ?? prisma;
+  },
+};
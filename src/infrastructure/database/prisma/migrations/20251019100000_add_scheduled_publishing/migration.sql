@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "PostStatus" ADD VALUE 'SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "blog_posts" ADD COLUMN     "scheduledFor" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "blog_posts_status_scheduledFor_idx" ON "blog_posts"("status", "scheduledFor");
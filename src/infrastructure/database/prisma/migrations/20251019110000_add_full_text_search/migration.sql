@@ -0,0 +1,42 @@
+-- array_to_string is only STABLE, generated columns need an IMMUTABLE expression
+CREATE OR REPLACE FUNCTION "immutable_array_to_string"(text[], text)
+RETURNS text AS $$ SELECT array_to_string($1, $2) $$
+LANGUAGE sql IMMUTABLE;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("username", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("firstName", '') || ' ' || coalesce("lastName", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("bio", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "blog_posts" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('simple', immutable_array_to_string("tags", ' ')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("excerpt", '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce("content", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "searchVector" tsvector GENERATED ALWAYS AS (
+  to_tsvector('simple', coalesce("content", ''))
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "users_searchVector_idx" ON "users" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "categories_searchVector_idx" ON "categories" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "blog_posts_searchVector_idx" ON "blog_posts" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "comments_searchVector_idx" ON "comments" USING GIN ("searchVector");
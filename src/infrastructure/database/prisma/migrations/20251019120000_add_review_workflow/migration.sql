@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ReviewAction" AS ENUM ('SUBMITTED', 'WITHDRAWN', 'REVIEWER_ASSIGNED', 'APPROVED', 'CHANGES_REQUESTED', 'APPROVAL_REVOKED', 'SCHEDULED', 'UNSCHEDULED', 'PUBLISHED', 'UNPUBLISHED', 'ARCHIVED');
+
+-- AlterEnum
+ALTER TYPE "UserRole" ADD VALUE 'EDITOR' BEFORE 'AUTHOR';
+
+-- AlterEnum
+ALTER TYPE "PostStatus" ADD VALUE 'IN_REVIEW' BEFORE 'SCHEDULED';
+ALTER TYPE "PostStatus" ADD VALUE 'APPROVED' BEFORE 'SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "blog_posts" ADD COLUMN     "reviewerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "post_review_events" (
+    "id" TEXT NOT NULL,
+    "action" "ReviewAction" NOT NULL,
+    "fromStatus" "PostStatus" NOT NULL,
+    "toStatus" "PostStatus" NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "blogPostId" TEXT NOT NULL,
+    "actorId" TEXT,
+    "reviewerId" TEXT,
+
+    CONSTRAINT "post_review_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "blog_posts_status_reviewerId_idx" ON "blog_posts"("status", "reviewerId");
+
+-- CreateIndex
+CREATE INDEX "post_review_events_blogPostId_createdAt_idx" ON "post_review_events"("blogPostId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "blog_posts" ADD CONSTRAINT "blog_posts_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_review_events" ADD CONSTRAINT "post_review_events_blogPostId_fkey" FOREIGN KEY ("blogPostId") REFERENCES "blog_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_review_events" ADD CONSTRAINT "post_review_events_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "roles" (
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "permissions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "roles_pkey" PRIMARY KEY ("name")
+);
+
+-- Built-in roles with the permissions that used to be hard-coded
+INSERT INTO "roles" ("name", "description", "permissions", "isSystem", "updatedAt") VALUES
+    ('ADMIN', 'Full system access', ARRAY['*'], true, CURRENT_TIMESTAMP),
+    ('EDITOR', 'Reviews posts submitted for review', ARRAY[
+        'post.review',
+        'comment.create', 'comment.edit.own', 'comment.delete.own'
+    ], true, CURRENT_TIMESTAMP),
+    ('AUTHOR', 'Writes and publishes own posts', ARRAY[
+        'post.create', 'post.edit.own', 'post.delete.own', 'post.publish.own', 'media.upload',
+        'comment.create', 'comment.edit.own', 'comment.delete.own'
+    ], true, CURRENT_TIMESTAMP),
+    ('USER', 'Registered reader', ARRAY[
+        'comment.create', 'comment.edit.own', 'comment.delete.own'
+    ], true, CURRENT_TIMESTAMP);
+
+-- AlterTable: roles become plain references to "roles"
+ALTER TABLE "users" ALTER COLUMN "role" DROP DEFAULT;
+ALTER TABLE "users" ALTER COLUMN "role" SET DATA TYPE TEXT USING "role"::TEXT;
+ALTER TABLE "users" ALTER COLUMN "role" SET DEFAULT 'USER';
+
+ALTER TABLE "two_factor_role_policies" ALTER COLUMN "role" SET DATA TYPE TEXT USING "role"::TEXT;
+
+-- DropEnum
+DROP TYPE "UserRole";
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_role_fkey" FOREIGN KEY ("role") REFERENCES "roles"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "two_factor_role_policies" ADD CONSTRAINT "two_factor_role_policies_role_fkey" FOREIGN KEY ("role") REFERENCES "roles"("name") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "media_assets" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "storageKeys" TEXT[],
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "variants" JSONB,
+    "srcset" JSONB,
+    "altText" TEXT,
+    "caption" TEXT,
+    "contentHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "ownerId" TEXT,
+
+    CONSTRAINT "media_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "media_assets_key_key" ON "media_assets"("key");
+
+-- CreateIndex
+CREATE INDEX "media_assets_ownerId_contentHash_idx" ON "media_assets"("ownerId", "contentHash");
+
+-- CreateIndex
+CREATE INDEX "media_assets_createdAt_idx" ON "media_assets"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "media_assets" ADD CONSTRAINT "media_assets_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Authors manage the files they uploaded
+UPDATE "roles"
+SET "permissions" = array_cat("permissions", ARRAY['media.edit.own', 'media.delete.own']), "updatedAt" = CURRENT_TIMESTAMP
+WHERE "name" = 'AUTHOR' AND NOT ('media.edit.own' = ANY("permissions"));
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "roles" ADD COLUMN     "storageQuotaMb" INTEGER,
+ADD COLUMN     "uploadMaxFileSizeBytes" INTEGER,
+ADD COLUMN     "uploadMaxFiles" INTEGER;
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "storageQuotaMb" INTEGER;
+
+-- AlterTable
+ALTER TABLE "media_assets" ADD COLUMN     "storedBytes" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing assets only know the size of their full size file
+UPDATE "media_assets" SET "storedBytes" = "size";
+
+-- Admins are never limited by default
+UPDATE "roles" SET "storageQuotaMb" = 0, "updatedAt" = CURRENT_TIMESTAMP WHERE "name" = 'ADMIN';
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "category_redirects" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "category_redirects_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "category_redirects_slug_key" ON "category_redirects"("slug");
+
+-- CreateIndex
+CREATE INDEX "category_redirects_categoryId_idx" ON "category_redirects"("categoryId");
+
+-- AddForeignKey
+ALTER TABLE "category_redirects" ADD CONSTRAINT "category_redirects_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "SlugResourceType" AS ENUM ('POST', 'CATEGORY');
+
+-- CreateTable
+CREATE TABLE "slug_history" (
+    "id" TEXT NOT NULL,
+    "resourceType" "SlugResourceType" NOT NULL,
+    "resourceId" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "slug_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "slug_history_resourceType_slug_key" ON "slug_history"("resourceType", "slug");
+
+-- CreateIndex
+CREATE INDEX "slug_history_resourceType_resourceId_idx" ON "slug_history"("resourceType", "resourceId");
+
+-- Slugs of merged categories become category slug history
+INSERT INTO "slug_history" ("id", "resourceType", "resourceId", "slug", "createdAt")
+SELECT "id", 'CATEGORY', "categoryId", "slug", "createdAt" FROM "category_redirects";
+
+-- DropTable
+DROP TABLE "category_redirects";
@@ -0,0 +1,70 @@
+-- AlterEnum
+ALTER TYPE "SlugResourceType" ADD VALUE 'TAG';
+
+-- CreateTable
+CREATE TABLE "tags" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_name_key" ON "tags"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tags_slug_key" ON "tags"("slug");
+
+-- CreateIndex
+CREATE INDEX "blog_posts_tags_idx" ON "blog_posts" USING GIN ("tags");
+
+-- Every spelling of a tag found in posts, with the slug TagUtils.toSlug gives it
+CREATE TEMP TABLE "_tag_variants" AS
+SELECT btrim("tag") AS "name", COUNT(*) AS "uses"
+FROM "blog_posts", unnest("tags") AS "tag"
+GROUP BY btrim("tag");
+
+ALTER TABLE "_tag_variants" ADD COLUMN "slug" TEXT;
+
+UPDATE "_tag_variants" SET "slug" = btrim(
+    regexp_replace(
+        regexp_replace(
+            lower(translate(
+                replace(replace(replace("name", '+', ' plus '), '#', ' sharp '), '&', ' and '),
+                'çğıöşüÇĞİÖŞÜáàâäãåéèêëíìîïóòôõúùûñÁÀÂÄÃÉÈÊËÍÌÎÏÓÒÔÕÚÙÛÑ',
+                'cgiosuCGIOSUaaaaaaeeeeiiiioooouuunAAAAAEEEEIIIIOOOOUUUN'
+            )),
+            '[^a-z0-9[:space:]-]', '', 'g'
+        ),
+        '[[:space:]-]+', '-', 'g'
+    ),
+    '-'
+);
+
+-- Spellings without letters or digits cannot become tags and are dropped from posts
+DELETE FROM "_tag_variants" WHERE "slug" = '';
+
+-- One tag per slug, named after its most used spelling ("nodejs", "NodeJS" and "node.js" become one tag)
+INSERT INTO "tags" ("id", "name", "slug", "updatedAt")
+SELECT DISTINCT ON ("slug") gen_random_uuid()::TEXT, "name", "slug", CURRENT_TIMESTAMP
+FROM "_tag_variants"
+ORDER BY "slug", "uses" DESC, "name";
+
+-- Posts keep each tag once, under its canonical name and in the original order
+UPDATE "blog_posts" AS "p" SET "tags" = COALESCE((
+    SELECT array_agg("t"."name" ORDER BY "t"."position")
+    FROM (
+        SELECT "tg"."name", MIN("u"."position") AS "position"
+        FROM unnest("p"."tags") WITH ORDINALITY AS "u"("tag", "position")
+        JOIN "_tag_variants" AS "v" ON "v"."name" = btrim("u"."tag")
+        JOIN "tags" AS "tg" ON "tg"."slug" = "v"."slug"
+        GROUP BY "tg"."name"
+    ) AS "t"
+), ARRAY[]::TEXT[])
+WHERE cardinality("p"."tags") > 0;
+
+DROP TABLE "_tag_variants";
@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "SlugResourceType" ADD VALUE 'SERIES';
+
+-- CreateTable
+CREATE TABLE "series" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "series_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "blog_posts" ADD COLUMN     "seriesId" TEXT,
+ADD COLUMN     "seriesOrder" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "series_slug_key" ON "series"("slug");
+
+-- CreateIndex
+CREATE INDEX "series_ownerId_idx" ON "series"("ownerId");
+
+-- CreateIndex
+CREATE INDEX "blog_posts_seriesId_seriesOrder_idx" ON "blog_posts"("seriesId", "seriesOrder");
+
+-- AddForeignKey
+ALTER TABLE "series" ADD CONSTRAINT "series_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "blog_posts" ADD CONSTRAINT "blog_posts_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Authors manage their own series
+UPDATE "roles" SET "permissions" = array_append("permissions", 'series.manage.own'), "updatedAt" = CURRENT_TIMESTAMP
+WHERE "name" = 'AUTHOR' AND NOT ('series.manage.own' = ANY("permissions"));
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "PostAuthorRole" AS ENUM ('PRIMARY', 'CO_AUTHOR', 'REVIEWER');
+
+-- CreateTable
+CREATE TABLE "post_authors" (
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "PostAuthorRole" NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_authors_pkey" PRIMARY KEY ("postId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "post_authors_userId_idx" ON "post_authors"("userId");
+
+-- AddForeignKey
+ALTER TABLE "post_authors" ADD CONSTRAINT "post_authors_postId_fkey" FOREIGN KEY ("postId") REFERENCES "blog_posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_authors" ADD CONSTRAINT "post_authors_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every existing post starts with its author as the only, primary author
+INSERT INTO "post_authors" ("postId", "userId", "role", "position", "createdAt")
+SELECT "id", "authorId", 'PRIMARY', 0, "createdAt" FROM "blog_posts";
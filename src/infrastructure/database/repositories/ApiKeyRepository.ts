@@ -0,0 +1,92 @@
+// src/infrastructure/database/repositories/ApiKeyRepository.ts
+
+import { PrismaClient, User } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { IApiKeyRepository } from "../../../core/interfaces/Repositories/IApiKeyRepository";
+import { ApiKey } from "../../../domain/entities/ApiKey";
+import { ApiKeyScope } from "../../../domain/enums/ApiKeyScope";
+
+@injectable()
+export class ApiKeyRepository extends PrismaRepository implements IApiKeyRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to ApiKey interface
+  private mapPrismaToApiKey(prismaKey: any): ApiKey {
+    return {
+      id: prismaKey.id,
+      name: prismaKey.name,
+      prefix: prismaKey.prefix,
+      keyHash: prismaKey.keyHash,
+      scopes: prismaKey.scopes as ApiKeyScope[],
+      userId: prismaKey.userId,
+      expiresAt: prismaKey.expiresAt,
+      lastUsedAt: prismaKey.lastUsedAt,
+      lastUsedIp: prismaKey.lastUsedIp,
+      revokedAt: prismaKey.revokedAt,
+      createdAt: prismaKey.createdAt,
+    };
+  }
+
+  async create(data: {
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    userId: string;
+    expiresAt?: Date | null;
+  }): Promise<ApiKey> {
+    const result = await this.db.apiKey.create({ data });
+    return this.mapPrismaToApiKey(result);
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    const result = await this.db.apiKey.findUnique({ where: { id } });
+    return result ? this.mapPrismaToApiKey(result) : null;
+  }
+
+  async findByPrefix(prefix: string): Promise<(ApiKey & { user: User }) | null> {
+    const result = await this.db.apiKey.findUnique({
+      where: { prefix },
+      include: { user: true },
+    });
+
+    return result ? { ...this.mapPrismaToApiKey(result), user: result.user } : null;
+  }
+
+  async findByUser(userId: string): Promise<ApiKey[]> {
+    const results = await this.db.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return results.map((result) => this.mapPrismaToApiKey(result));
+  }
+
+  async countActiveByUser(userId: string): Promise<number> {
+    return await this.db.apiKey.count({
+      where: {
+        userId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+      },
+    });
+  }
+
+  async revoke(id: string): Promise<void> {
+    await this.db.apiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async markUsed(id: string, ipAddress?: string): Promise<void> {
+    await this.db.apiKey.update({
+      where: { id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ipAddress ?? null },
+    });
+  }
+}
@@ -0,0 +1,253 @@
+// src/infrastructure/database/repositories/AuditLogRepository.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { IAuditLogRepository } from "../../../core/interfaces/Repositories/IAuditLogRepository";
+import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
+import { AuditLog, AuditLogFilter, AuditSnapshot } from "../../../domain/entities/AuditLog";
+import { AuditTargetType } from "../../../domain/enums/AuditAction";
+
+@injectable()
+export class AuditLogRepository extends PrismaRepository implements IAuditLogRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to AuditLog interface
+  private mapPrismaToAuditLog(prismaLog: any): AuditLog {
+    return {
+      id: prismaLog.id,
+      action: prismaLog.action,
+      targetType: prismaLog.targetType,
+      targetId: prismaLog.targetId,
+      before: prismaLog.before as AuditSnapshot | null,
+      after: prismaLog.after as AuditSnapshot | null,
+      actorId: prismaLog.actorId,
+      actorUsername: prismaLog.actorUsername,
+      actorRole: prismaLog.actorRole,
+      apiKeyId: prismaLog.apiKeyId,
+      ip: prismaLog.ip,
+      userAgent: prismaLog.userAgent,
+      requestId: prismaLog.requestId,
+      createdAt: prismaLog.createdAt,
+    };
+  }
+
+  private buildWhere(filter: AuditLogFilter): Prisma.AuditLogWhereInput {
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (filter.actorId) where.actorId = filter.actorId;
+    if (filter.targetType) where.targetType = filter.targetType;
+    if (filter.targetId) where.targetId = filter.targetId;
+    if (filter.requestId) where.requestId = filter.requestId;
+
+    if (filter.action) {
+      where.action = filter.action.endsWith("*")
+        ? { startsWith: filter.action.slice(0, -1) }
+        : filter.action;
+    }
+
+    if (filter.from || filter.to) {
+      where.createdAt = {
+        ...(filter.from && { gte: filter.from }),
+        ...(filter.to && { lte: filter.to }),
+      };
+    }
+
+    return where;
+  }
+
+  async create(data: Omit<AuditLog, "id" | "createdAt">): Promise<AuditLog> {
+    const result = await this.db.auditLog.create({
+      data: {
+        ...data,
+        before: (data.before ?? Prisma.DbNull) as Prisma.InputJsonValue,
+        after: (data.after ?? Prisma.DbNull) as Prisma.InputJsonValue,
+      },
+    });
+    return this.mapPrismaToAuditLog(result);
+  }
+
+  async findMany(filter: AuditLogFilter, page: number, limit: number): Promise<IPaginatedResult<AuditLog>> {
+    const where = this.buildWhere(filter);
+
+    const [logs, total] = await Promise.all([
+      this.db.auditLog.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.db.auditLog.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: logs.map((log) => this.mapPrismaToAuditLog(log)),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async findForExport(filter: AuditLogFilter, limit: number): Promise<AuditLog[]> {
+    const logs = await this.db.auditLog.findMany({
+      where: this.buildWhere(filter),
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return logs.map((log) => this.mapPrismaToAuditLog(log));
+  }
+
+  async findSnapshot(targetType: AuditTargetType, targetId: string | null): Promise<AuditSnapshot | null> {
+    // The 2FA policy is a single global setting, there is no target id
+    if (targetType === AuditTargetType.TWO_FACTOR_POLICY) {
+      const policies = await this.db.twoFactorRolePolicy.findMany({ orderBy: { role: "asc" } });
+      return { requiredRoles: policies.map((policy) => policy.role) };
+    }
+
+    if (!targetId) {
+      return null;
+    }
+
+    switch (targetType) {
+      case AuditTargetType.USER:
+        return await this.db.user.findUnique({
+          where: { id: targetId },
+          select: {
+            id: true,
+            email: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            role: true,
+            isActive: true,
+            emailVerified: true,
+            twoFactorEnabled: true,
+            storageQuotaMb: true,
+          },
+        });
+
+      case AuditTargetType.SESSION:
+        // A session is the latest refresh token of its family
+        return await this.db.refreshToken.findFirst({
+          where: { familyId: targetId },
+          orderBy: { createdAt: "desc" },
+          select: {
+            familyId: true,
+            userId: true,
+            device: true,
+            ipAddress: true,
+            userAgent: true,
+            sessionStartedAt: true,
+            lastUsedAt: true,
+            revoked: true,
+            revokedAt: true,
+          },
+        });
+
+      case AuditTargetType.API_KEY:
+        return await this.db.apiKey.findUnique({
+          where: { id: targetId },
+          select: {
+            id: true,
+            name: true,
+            prefix: true,
+            scopes: true,
+            userId: true,
+            expiresAt: true,
+            revokedAt: true,
+          },
+        });
+
+      case AuditTargetType.ROLE:
+        return await this.db.role.findUnique({ where: { name: targetId } });
+
+      case AuditTargetType.CATEGORY:
+        return await this.db.category.findUnique({ where: { id: targetId } });
+
+      case AuditTargetType.TAG:
+        return await this.db.tag.findUnique({ where: { id: targetId } });
+
+      case AuditTargetType.POST:
+        // Content is left out on purpose, post revisions already keep every version of it
+        return await this.db.blogPost.findUnique({
+          where: { id: targetId },
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            excerpt: true,
+            featuredImage: true,
+            tags: true,
+            status: true,
+            isPublished: true,
+            publishedAt: true,
+            scheduledFor: true,
+            authorId: true,
+            categoryId: true,
+            reviewerId: true,
+            authors: { select: { userId: true, role: true }, orderBy: { position: "asc" } },
+            updatedAt: true,
+          },
+        });
+
+      case AuditTargetType.SERIES: {
+        const series = await this.db.series.findUnique({
+          where: { id: targetId },
+          include: { posts: { select: { id: true }, orderBy: { seriesOrder: "asc" } } },
+        });
+        if (!series) {
+          return null;
+        }
+
+        // The ordered parts are part of the snapshot, reordering them is the usual change
+        const { posts, ...fields } = series;
+        return { ...fields, postIds: posts.map((post) => post.id) };
+      }
+
+      case AuditTargetType.COMMENT:
+        return await this.db.comment.findUnique({
+          where: { id: targetId },
+          select: {
+            id: true,
+            content: true,
+            status: true,
+            isActive: true,
+            authorId: true,
+            blogPostId: true,
+            parentId: true,
+            updatedAt: true,
+          },
+        });
+
+      case AuditTargetType.MEDIA:
+        return await this.db.mediaAsset.findUnique({
+          where: { id: targetId },
+          select: {
+            id: true,
+            key: true,
+            fileName: true,
+            mimeType: true,
+            size: true,
+            altText: true,
+            caption: true,
+            ownerId: true,
+            updatedAt: true,
+          },
+        });
+
+      default:
+        return null;
+    }
+  }
+}
@@ -1,11 +1,13 @@
 import { PrismaClient } from "@prisma/client";
 import { IFindAllOptions } from "../../../core/interfaces/Common/IFindAllOptions";
 import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
-import { BlogPost } from "../../../domain/entities/BlogPost";
+import { BlogPost, BlogPostChanges } from "../../../domain/entities/BlogPost";
 import { BaseRepository } from "./core/BaseRepository";
 import { IBlogPostRepository } from "../../../core/interfaces/Repositories/IBlogPostRepository";
 import { TYPES } from "../../../core/container/types";
 import { inject, injectable } from "inversify";
+import { CategoryUtils } from "../../../domain/entities/Category";
+import { RelatedPostCandidate } from "../../../domain/entities/RelatedPost";
 
 @injectable()
 export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlogPostRepository {
@@ -32,6 +34,49 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
           slug: true,
           color: true,
           icon: true,
+          parent: { select: this.getCategoryParentSelect(CategoryUtils.MAX_DEPTH - 2) },
+        },
+      },
+      reviewer: {
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+      authors: {
+        select: {
+          role: true,
+          position: true,
+          user: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+              avatar: true,
+            },
+          },
+        },
+        orderBy: { position: 'asc' as const },
+      },
+      // Every part of the series, the navigation is worked out from their order
+      series: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          posts: {
+            select: {
+              id: true,
+              title: true,
+              slug: true,
+              status: true,
+              isPublished: true,
+            },
+            orderBy: { seriesOrder: 'asc' as const },
+          },
         },
       },
       _count: {
@@ -47,8 +92,17 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
     };
   }
 
+  // Chain of parent categories for breadcrumbs, one level more than `levels`
+  private getCategoryParentSelect(levels: number): any {
+    const select: any = { id: true, name: true, slug: true };
+    if (levels > 0) {
+      select.parent = { select: this.getCategoryParentSelect(levels - 1) };
+    }
+    return select;
+  }
+
   async findById(id: string): Promise<BlogPost | null> {
-    return await this.prisma.blogPost.findUnique({
+    return await this.db.blogPost.findUnique({
       where: { id },
       include: {
         ...this.getIncludeOptions(),
@@ -103,14 +157,14 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
     };
 
     const [blogPosts, total] = await Promise.all([
-      this.prisma.blogPost.findMany({
+      this.db.blogPost.findMany({
         where,
         skip,
         take,
         orderBy: this.buildOrderBy(sortBy, sortOrder),
         include: this.getIncludeOptions(),
       }),
-      this.prisma.blogPost.count({ where }),
+      this.db.blogPost.count({ where }),
     ]);
 
     return {
@@ -120,14 +174,20 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
   }
 
   async create(postData: Partial<BlogPost>): Promise<BlogPost> {
-    return await this.prisma.blogPost.create({
-      data: postData as any,
+    return await this.db.blogPost.create({
+      data: {
+        ...postData,
+        // The writer starts as the only, primary author
+        authors: {
+          create: { userId: postData.authorId, role: 'PRIMARY', position: 0 },
+        },
+      } as any,
       include: this.getIncludeOptions(),
     });
   }
 
-  async update(id: string, postData: Partial<BlogPost>): Promise<BlogPost> {
-    return await this.prisma.blogPost.update({
+  async update(id: string, postData: BlogPostChanges): Promise<BlogPost> {
+    return await this.db.blogPost.update({
       where: { id },
       data: {
         ...postData,
@@ -138,7 +198,7 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
   }
 
   async exists(id: string): Promise<boolean> {
-    const post = await this.prisma.blogPost.findUnique({
+    const post = await this.db.blogPost.findUnique({
       where: { id },
       select: { id: true },
     });
@@ -174,25 +234,19 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
       ...options,
       filters: {
         ...options.filters,
-        authorId,
+        authors: { some: { userId: authorId } },
       },
     });
   }
 
   async incrementViewCount(id: string): Promise<void> {
-    await this.prisma.blogPost.update({
-      where: { id },
-      data: {
-        viewCount: {
-          increment: 1,
-        },
-        updatedAt: new Date(),
-      },
-    });
+    // Raw update: a page view is not a content change, @updatedAt must stay
+    // untouched so feeds / sitemaps keep reporting the real modification date
+    await this.db.$executeRaw`UPDATE "blog_posts" SET "viewCount" = "viewCount" + 1 WHERE "id" = ${id}`;
   }
 
   async findPopular(limit: number = 10): Promise<BlogPost[]> {
-    return await this.prisma.blogPost.findMany({
+    return await this.db.blogPost.findMany({
       where: {
         isPublished: true,
         status: 'PUBLISHED',
@@ -204,7 +258,7 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
   }
 
   async findRecent(limit: number = 10): Promise<BlogPost[]> {
-    return await this.prisma.blogPost.findMany({
+    return await this.db.blogPost.findMany({
       where: {
         isPublished: true,
         status: 'PUBLISHED',
@@ -236,7 +290,7 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
       where.authorId = authorId;
     }
 
-    return await this.prisma.blogPost.findMany({
+    return await this.db.blogPost.findMany({
       where,
       include: this.getIncludeOptions(),
       orderBy: { updatedAt: 'desc' },
@@ -247,7 +301,7 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
     const dateThreshold = new Date();
     dateThreshold.setDate(dateThreshold.getDate() - days);
 
-    return await this.prisma.blogPost.findMany({
+    return await this.db.blogPost.findMany({
       where: {
         isPublished: true,
         status: 'PUBLISHED',
@@ -264,8 +318,41 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
     });
   }
 
+  async findRelatedCandidates(
+    source: Pick<RelatedPostCandidate, 'id' | 'tags' | 'categoryId'>,
+    limit: number
+  ): Promise<RelatedPostCandidate[]> {
+    return await this.db.$queryRaw<RelatedPostCandidate[]>`
+      SELECT p."id", p."title", p."excerpt", p."content", p."tags", p."categoryId",
+             c."parentId" AS "categoryParentId", p."publishedAt"
+      FROM "blog_posts" p
+      JOIN "categories" c ON c."id" = p."categoryId"
+      WHERE p."isPublished" = true AND p."status" = 'PUBLISHED' AND p."id" <> ${source.id}
+      ORDER BY (p."tags" && ${source.tags}::TEXT[]) DESC,
+               (p."categoryId" = ${source.categoryId}) DESC,
+               p."publishedAt" DESC NULLS LAST
+      LIMIT ${limit}
+    `;
+  }
+
+  async findDueScheduled(now: Date, limit: number = 50): Promise<BlogPost[]> {
+    const duePosts = await this.db.blogPost.findMany({
+      where: {
+        status: 'SCHEDULED',
+        scheduledFor: {
+          lte: now,
+        },
+      },
+      take: limit,
+      orderBy: { scheduledFor: 'asc' },
+      include: this.getIncludeOptions() as any,
+    });
+
+    return duePosts as unknown as BlogPost[];
+  }
+
   async findBySlug(slug: string): Promise<BlogPost | null> {
-    return await this.prisma.blogPost.findUnique({
+    return await this.db.blogPost.findUnique({
       where: { slug },
       include: {
         ...this.getIncludeOptions(),
@@ -311,16 +398,45 @@ export class BlogPostRepository extends BaseRepository<BlogPost> implements IBlo
     });
   }
 
+  async countByCategory(categoryId: string): Promise<number> {
+    return await this.db.blogPost.count({ where: { categoryId } });
+  }
+
+  async moveToCategory(fromCategoryId: string, toCategoryId: string): Promise<number> {
+    const result = await this.db.blogPost.updateMany({
+      where: { categoryId: fromCategoryId },
+      data: { categoryId: toCategoryId },
+    });
+    return result.count;
+  }
+
+  async countByTag(tag: string): Promise<number> {
+    return await this.db.blogPost.count({ where: { tags: { has: tag } } });
+  }
+
+  async replaceTag(fromTag: string, toTag: string): Promise<number> {
+    // Raw update: the tag keeps its position in the array and @updatedAt stays untouched,
+    // renaming a tag does not change the post
+    return await this.db.$executeRaw`
+      UPDATE "blog_posts"
+      SET "tags" = CASE
+        WHEN "tags" @> ARRAY[${toTag}::TEXT] THEN array_remove("tags", ${fromTag}::TEXT)
+        ELSE array_replace("tags", ${fromTag}::TEXT, ${toTag}::TEXT)
+      END
+      WHERE "tags" @> ARRAY[${fromTag}::TEXT]
+    `;
+  }
+
   async delete(id: string): Promise<boolean> {
     try {
       // First, soft delete related comments to maintain referential integrity
-      await this.prisma.comment.updateMany({
-        where: { postId: id },
+      await this.db.comment.updateMany({
+        where: { blogPostId: id },
         data: { isActive: false }
       });
 
       // Then delete the blog post
-      await this.prisma.blogPost.delete({
+      await this.db.blogPost.delete({
         where: { id },
       });
       return true;
@@ -19,6 +19,7 @@ type PrismaCategoryWithCount = {
   icon: string | null;
   isActive: boolean;
   sortOrder: number;
+  parentId: string | null;
   createdAt: Date;
   updatedAt: Date;
   _count?: {
@@ -26,6 +27,9 @@ type PrismaCategoryWithCount = {
   };
 };
 
+// Upper bound for recursive tree queries, well above CategoryUtils.MAX_DEPTH
+const MAX_WALK_DEPTH = 32;
+
 @injectable()
 export class CategoryRepository extends BaseRepository<Category> implements ICategoryRepository {
   constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
@@ -43,6 +47,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
       icon: prismaCategory.icon,
       isActive: prismaCategory.isActive,
       sortOrder: prismaCategory.sortOrder,
+      parentId: prismaCategory.parentId,
       createdAt: prismaCategory.createdAt,
       updatedAt: prismaCategory.updatedAt,
       _count: prismaCategory._count,
@@ -51,7 +56,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
 
   async findById(id: string): Promise<Category | null> {
     try {
-      const result = await this.prisma.category.findUnique({
+      const result = await this.db.category.findUnique({
         where: { id },
         include: {
           _count: {
@@ -89,7 +94,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
       };
 
       const [categories, total] = await Promise.all([
-        this.prisma.category.findMany({
+        this.db.category.findMany({
           where,
           skip,
           take,
@@ -107,7 +112,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
             },
           },
         }),
-        this.prisma.category.count({ where }),
+        this.db.category.count({ where }),
       ]);
 
       return {
@@ -123,7 +128,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
   async create(categoryData: Partial<Category>): Promise<Category> {
     try {
       // Get the highest sort order
-      const maxSortOrder = await this.prisma.category.aggregate({
+      const maxSortOrder = await this.db.category.aggregate({
         _max: {
           sortOrder: true,
         },
@@ -131,7 +136,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
 
       const nextSortOrder = (maxSortOrder._max.sortOrder || 0) + 1;
 
-      const result = await this.prisma.category.create({
+      const result = await this.db.category.create({
         data: {
           name: categoryData.name!,
           slug: categoryData.slug!,
@@ -140,6 +145,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
           icon: categoryData.icon || null,
           sortOrder: categoryData.sortOrder || nextSortOrder,
           isActive: categoryData.isActive !== undefined ? categoryData.isActive : true,
+          parentId: categoryData.parentId || null,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -176,10 +182,11 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
       if (categoryData.icon !== undefined) updateData.icon = categoryData.icon;
       if (categoryData.isActive !== undefined) updateData.isActive = categoryData.isActive;
       if (categoryData.sortOrder !== undefined) updateData.sortOrder = categoryData.sortOrder;
+      if (categoryData.parentId !== undefined) updateData.parentId = categoryData.parentId;
 
       updateData.updatedAt = new Date();
 
-      const result = await this.prisma.category.update({
+      const result = await this.db.category.update({
         where: { id },
         data: updateData,
         include: {
@@ -206,13 +213,13 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
   async delete(id: string): Promise<boolean> {
     try {
       // Check if category has blog posts
-      const postsCount = await this.prisma.blogPost.count({
+      const postsCount = await this.db.blogPost.count({
         where: { categoryId: id },
       });
 
       if (postsCount > 0) {
         // Soft delete - mark as inactive
-        await this.prisma.category.update({
+        await this.db.category.update({
           where: { id },
           data: {
             isActive: false,
@@ -220,8 +227,13 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
           },
         });
       } else {
-        // Hard delete if no posts
-        await this.prisma.category.delete({
+        // Hard delete if no posts; its subcategories move up one level
+        const category = await this.db.category.findUnique({ where: { id }, select: { parentId: true } });
+        await this.db.category.updateMany({
+          where: { parentId: id },
+          data: { parentId: category?.parentId ?? null, updatedAt: new Date() },
+        });
+        await this.db.category.delete({
           where: { id },
         });
       }
@@ -234,7 +246,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
 
   async exists(id: string): Promise<boolean> {
     try {
-      const category = await this.prisma.category.findUnique({
+      const category = await this.db.category.findUnique({
         where: { id },
         select: { id: true },
       });
@@ -247,7 +259,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
 
   async findBySlug(slug: string): Promise<Category | null> {
     try {
-      const result = await this.prisma.category.findUnique({
+      const result = await this.db.category.findUnique({
         where: { slug },
         include: {
           _count: {
@@ -272,7 +284,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
 
   async findActive(): Promise<Category[]> {
     try {
-      const results = await this.prisma.category.findMany({
+      const results = await this.db.category.findMany({
         where: { isActive: true },
         orderBy: { sortOrder: "asc" },
         include: {
@@ -298,7 +310,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
 
   async updateSortOrder(categoryId: string, sortOrder: number): Promise<void> {
     try {
-      await this.prisma.category.update({
+      await this.db.category.update({
         where: { id: categoryId },
         data: {
           sortOrder,
@@ -313,7 +325,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
 
   async findWithPostCount(): Promise<Category[]> {
     try {
-      const results = await this.prisma.category.findMany({
+      const results = await this.db.category.findMany({
         where: { isActive: true },
         include: {
           _count: {
@@ -339,7 +351,7 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
 
   async findPopular(limit: number): Promise<Category[]> {
     try {
-      const results = await this.prisma.category.findMany({
+      const results = await this.db.category.findMany({
         where: { isActive: true },
         include: {
           _count: {
@@ -380,8 +392,8 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
   }> {
     try {
       const [totalCount, activeCount] = await Promise.all([
-        this.prisma.category.count(),
-        this.prisma.category.count({
+        this.db.category.count(),
+        this.db.category.count({
           where: { isActive: true },
         }),
       ]);
@@ -396,4 +408,75 @@ export class CategoryRepository extends BaseRepository<Category> implements ICat
       throw new Error("Failed to get category counts");
     }
   }
+
+  async findAllSorted(): Promise<Category[]> {
+    try {
+      const results = await this.db.category.findMany({
+        orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+        include: {
+          _count: {
+            select: {
+              blogPosts: {
+                where: {
+                  isPublished: true,
+                  status: "PUBLISHED",
+                },
+              },
+            },
+          },
+        },
+      });
+
+      return results.map((result) => this.mapPrismaToCategory(result));
+    } catch (error) {
+      console.error("CategoryRepository.findAllSorted error:", error);
+      throw new Error("Failed to fetch categories");
+    }
+  }
+
+  async findAncestorIds(id: string): Promise<string[]> {
+    // The depth bound stops the walk should a cycle ever reach the table
+    const rows = await this.db.$queryRaw<Array<{ id: string }>>`
+      WITH RECURSIVE ancestors AS (
+        SELECT "id", "parentId", 0 AS depth FROM "categories" WHERE "id" = ${id}
+        UNION ALL
+        SELECT c."id", c."parentId", a.depth + 1
+        FROM "categories" c JOIN ancestors a ON c."id" = a."parentId"
+        WHERE a.depth < ${MAX_WALK_DEPTH}
+      )
+      SELECT "id" FROM ancestors WHERE depth > 0 ORDER BY depth
+    `;
+
+    return rows.map((row) => row.id);
+  }
+
+  async findDescendants(id: string): Promise<Array<{ id: string; depth: number }>> {
+    return await this.db.$queryRaw<Array<{ id: string; depth: number }>>`
+      WITH RECURSIVE descendants AS (
+        SELECT "id", 1 AS depth FROM "categories" WHERE "parentId" = ${id}
+        UNION ALL
+        SELECT c."id", d.depth + 1
+        FROM "categories" c JOIN descendants d ON c."parentId" = d."id"
+        WHERE d.depth < ${MAX_WALK_DEPTH}
+      )
+      SELECT "id", depth FROM descendants ORDER BY depth
+    `;
+  }
+
+  async findChildren(parentId: string): Promise<Category[]> {
+    const results = await this.db.category.findMany({
+      where: { parentId },
+      orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+    });
+
+    return results.map((result) => this.mapPrismaToCategory(result));
+  }
+
+  async moveChildren(fromParentId: string, toParentId: string | null): Promise<number> {
+    const result = await this.db.category.updateMany({
+      where: { parentId: fromParentId },
+      data: { parentId: toParentId, updatedAt: new Date() },
+    });
+    return result.count;
+  }
 }
@@ -76,7 +76,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async findById(id: string): Promise<Comment | null> {
     try {
-      return await this.prisma.comment.findUnique({
+      return await this.db.comment.findUnique({
         where: { id },
         include: this.getFullIncludeOptions(),
       });
@@ -97,14 +97,14 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
     try {
       const [comments, total] = await Promise.all([
-        this.prisma.comment.findMany({
+        this.db.comment.findMany({
           where,
           skip,
           take,
           orderBy: this.buildOrderBy(sortBy || 'createdAt', sortOrder),
           include: this.getIncludeOptions(),
         }),
-        this.prisma.comment.count({ where }),
+        this.db.comment.count({ where }),
       ]);
 
       return {
@@ -122,7 +122,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async create(commentData: Partial<Comment>): Promise<Comment> {
     try {
-      const created = await this.prisma.comment.create({
+      const created = await this.db.comment.create({
         data: {
           content: commentData.content!,
           authorId: commentData.authorId!,
@@ -156,7 +156,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
         }
       });
 
-      await this.prisma.comment.update({
+      await this.db.comment.update({
         where: { id },
         data: updateData,
       });
@@ -170,7 +170,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async delete(id: string): Promise<boolean> {
     try {
-      await this.prisma.comment.update({
+      await this.db.comment.update({
         where: { id },
         data: { 
           isActive: false,
@@ -186,7 +186,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async exists(id: string): Promise<boolean> {
     try {
-      const comment = await this.prisma.comment.findUnique({
+      const comment = await this.db.comment.findUnique({
         where: { id },
         select: { id: true },
       });
@@ -199,7 +199,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async hardDelete(id: string): Promise<boolean> {
     try {
-      await this.prisma.comment.updateMany({
+      await this.db.comment.updateMany({
         where: { parentId: id },
         data: { 
           isActive: false,
@@ -207,7 +207,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
         },
       });
 
-      await this.prisma.comment.delete({
+      await this.db.comment.delete({
         where: { id },
       });
       return true;
@@ -301,7 +301,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async approveComment(id: string): Promise<Comment> {
     try {
-      await this.prisma.comment.update({
+      await this.db.comment.update({
         where: { id },
         data: { 
           status: CommentStatus.APPROVED,
@@ -318,7 +318,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async rejectComment(id: string): Promise<Comment> {
     try {
-      await this.prisma.comment.update({
+      await this.db.comment.update({
         where: { id },
         data: { 
           status: CommentStatus.REJECTED,
@@ -335,7 +335,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async bulkApprove(ids: string[]): Promise<number> {
     try {
-      const result = await this.prisma.comment.updateMany({
+      const result = await this.db.comment.updateMany({
         where: { 
           id: { in: ids },
           status: { not: CommentStatus.APPROVED },
@@ -356,7 +356,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async bulkReject(ids: string[]): Promise<number> {
     try {
-      const result = await this.prisma.comment.updateMany({
+      const result = await this.db.comment.updateMany({
         where: { 
           id: { in: ids },
           status: { not: CommentStatus.REJECTED },
@@ -377,7 +377,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async bulkDelete(ids: string[]): Promise<number> {
     try {
-      const result = await this.prisma.comment.updateMany({
+      const result = await this.db.comment.updateMany({
         where: { 
           id: { in: ids },
           isActive: true,
@@ -397,7 +397,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async findCommentsNeedingReview(): Promise<Comment[]> {
     try {
-      return await this.prisma.comment.findMany({
+      return await this.db.comment.findMany({
         where: {
           OR: [
             { status: CommentStatus.PENDING },
@@ -421,7 +421,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async findSuspiciousComments(): Promise<Comment[]> {
     try {
-      return await this.prisma.comment.findMany({
+      return await this.db.comment.findMany({
         where: {
           OR: [
             { 
@@ -460,12 +460,12 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
   }> {
     try {
       const [total, pending, approved, rejected, inactive, totalReplies] = await Promise.all([
-        this.prisma.comment.count({ where: { isActive: true } }),
-        this.prisma.comment.count({ where: { status: CommentStatus.PENDING, isActive: true } }),
-        this.prisma.comment.count({ where: { status: CommentStatus.APPROVED, isActive: true } }),
-        this.prisma.comment.count({ where: { status: CommentStatus.REJECTED, isActive: true } }),
-        this.prisma.comment.count({ where: { isActive: false } }),
-        this.prisma.comment.count({ where: { parentId: { not: null }, isActive: true } }),
+        this.db.comment.count({ where: { isActive: true } }),
+        this.db.comment.count({ where: { status: CommentStatus.PENDING, isActive: true } }),
+        this.db.comment.count({ where: { status: CommentStatus.APPROVED, isActive: true } }),
+        this.db.comment.count({ where: { status: CommentStatus.REJECTED, isActive: true } }),
+        this.db.comment.count({ where: { isActive: false } }),
+        this.db.comment.count({ where: { parentId: { not: null }, isActive: true } }),
       ]);
 
       return { total, pending, approved, rejected, inactive, totalReplies };
@@ -477,7 +477,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async getRecentComments(limit: number = 10): Promise<Comment[]> {
     try {
-      return await this.prisma.comment.findMany({
+      return await this.db.comment.findMany({
         where: {
           isActive: true,
           status: CommentStatus.APPROVED,
@@ -494,7 +494,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async getCommentsByDateRange(startDate: Date, endDate: Date): Promise<Comment[]> {
     try {
-      return await this.prisma.comment.findMany({
+      return await this.db.comment.findMany({
         where: {
           isActive: true,
           createdAt: {
@@ -514,7 +514,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async countCommentsByBlogPost(blogPostId: string): Promise<number> {
     try {
-      return await this.prisma.comment.count({
+      return await this.db.comment.count({
         where: {
           blogPostId,
           isActive: true,
@@ -532,7 +532,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
     _count: { id: number };
   }>> {
     try {
-      const result = await this.prisma.comment.groupBy({
+      const result = await this.db.comment.groupBy({
         by: ['blogPostId'],
         where: {
           isActive: true,
@@ -565,7 +565,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
       const startDate = new Date();
       startDate.setDate(startDate.getDate() - days);
 
-      return await this.prisma.$queryRaw`
+      return await this.db.$queryRaw`
         SELECT 
           DATE(createdAt) as date,
           COUNT(*) as count,
@@ -587,7 +587,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
     _count: { id: number };
   }>> {
     try {
-      return await this.prisma.comment.groupBy({
+      return await this.db.comment.groupBy({
         by: ['authorId'],
         where: {
           isActive: true,
@@ -621,21 +621,21 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
         totalReplies,
         totalTopLevelComments
       ] = await Promise.all([
-        this.prisma.blogPost.count({ where: { isPublished: true } }),
-        this.prisma.comment.count({ 
+        this.db.blogPost.count({ where: { isPublished: true } }),
+        this.db.comment.count({ 
           where: { 
             isActive: true, 
             status: CommentStatus.APPROVED 
           } 
         }),
-        this.prisma.comment.count({ 
+        this.db.comment.count({ 
           where: { 
             parentId: { not: null },
             isActive: true, 
             status: CommentStatus.APPROVED 
           } 
         }),
-        this.prisma.comment.count({ 
+        this.db.comment.count({ 
           where: { 
             parentId: null,
             isActive: true, 
@@ -676,7 +676,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - daysOld);
 
-      const result = await this.prisma.comment.updateMany({
+      const result = await this.db.comment.updateMany({
         where: {
           status: CommentStatus.REJECTED,
           updatedAt: {
@@ -699,7 +699,7 @@ export class CommentRepository extends BaseRepository<Comment> implements IComme
 
   async getOrphanedComments(): Promise<Comment[]> {
     try {
-      return await this.prisma.comment.findMany({
+      return await this.db.comment.findMany({
         where: {
           OR: [
             {
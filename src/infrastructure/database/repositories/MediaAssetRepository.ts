@@ -0,0 +1,185 @@
+// src/infrastructure/database/repositories/MediaAssetRepository.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { IMediaAssetRepository } from "../../../core/interfaces/Repositories/IMediaAssetRepository";
+import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
+import {
+  MediaAsset,
+  MediaAssetFilter,
+  MediaAssetReferences,
+  MediaAssetUtils,
+} from "../../../domain/entities/MediaAsset";
+
+@injectable()
+export class MediaAssetRepository extends PrismaRepository implements IMediaAssetRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to MediaAsset interface
+  private mapPrismaToMediaAsset(prismaAsset: any): MediaAsset {
+    return {
+      id: prismaAsset.id,
+      key: prismaAsset.key,
+      url: prismaAsset.url,
+      storageKeys: prismaAsset.storageKeys,
+      fileName: prismaAsset.fileName,
+      mimeType: prismaAsset.mimeType,
+      size: prismaAsset.size,
+      storedBytes: prismaAsset.storedBytes,
+      width: prismaAsset.width,
+      height: prismaAsset.height,
+      variants: prismaAsset.variants as Record<string, unknown> | null,
+      srcset: prismaAsset.srcset as Record<string, string> | null,
+      altText: prismaAsset.altText,
+      caption: prismaAsset.caption,
+      contentHash: prismaAsset.contentHash,
+      ownerId: prismaAsset.ownerId,
+      createdAt: prismaAsset.createdAt,
+      updatedAt: prismaAsset.updatedAt,
+    };
+  }
+
+  private buildWhere(filter: MediaAssetFilter): Prisma.MediaAssetWhereInput {
+    const where: Prisma.MediaAssetWhereInput = {};
+
+    if (filter.ownerId) where.ownerId = filter.ownerId;
+    if (filter.createdBefore) where.createdAt = { lt: filter.createdBefore };
+
+    if (filter.mimeType) {
+      where.mimeType = filter.mimeType.endsWith("/") ? { startsWith: filter.mimeType } : filter.mimeType;
+    }
+
+    if (filter.search) {
+      where.OR = [
+        { fileName: { contains: filter.search, mode: "insensitive" } },
+        { altText: { contains: filter.search, mode: "insensitive" } },
+        { caption: { contains: filter.search, mode: "insensitive" } },
+      ];
+    }
+
+    return where;
+  }
+
+  async create(data: Omit<MediaAsset, "id" | "createdAt" | "updatedAt">): Promise<MediaAsset> {
+    const result = await this.db.mediaAsset.create({
+      data: {
+        ...data,
+        variants: (data.variants ?? Prisma.DbNull) as Prisma.InputJsonValue,
+        srcset: (data.srcset ?? Prisma.DbNull) as Prisma.InputJsonValue,
+      },
+    });
+    return this.mapPrismaToMediaAsset(result);
+  }
+
+  async findById(id: string): Promise<MediaAsset | null> {
+    const result = await this.db.mediaAsset.findUnique({ where: { id } });
+    return result ? this.mapPrismaToMediaAsset(result) : null;
+  }
+
+  async findByOwnerAndHash(ownerId: string, contentHash: string): Promise<MediaAsset | null> {
+    const result = await this.db.mediaAsset.findFirst({
+      where: { ownerId, contentHash },
+      orderBy: { createdAt: "asc" },
+    });
+    return result ? this.mapPrismaToMediaAsset(result) : null;
+  }
+
+  async findByStorageKeys(keys: string[]): Promise<MediaAsset[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const results = await this.db.mediaAsset.findMany({
+      where: { storageKeys: { hasSome: keys } },
+    });
+    return results.map((result) => this.mapPrismaToMediaAsset(result));
+  }
+
+  async findMany(filter: MediaAssetFilter, page: number, limit: number): Promise<IPaginatedResult<MediaAsset>> {
+    const where = this.buildWhere(filter);
+
+    const [assets, total] = await Promise.all([
+      this.db.mediaAsset.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.db.mediaAsset.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: assets.map((asset) => this.mapPrismaToMediaAsset(asset)),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async update(id: string, data: Partial<Pick<MediaAsset, "altText" | "caption">>): Promise<MediaAsset> {
+    const result = await this.db.mediaAsset.update({ where: { id }, data });
+    return this.mapPrismaToMediaAsset(result);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.mediaAsset.delete({ where: { id } });
+  }
+
+  async findReferences(asset: MediaAsset): Promise<MediaAssetReferences> {
+    // Every file URL of the asset contains its folder, whichever variant is used
+    const marker = `${MediaAssetUtils.folder(asset)}/`;
+
+    const [posts, revisions, avatarUsers] = await Promise.all([
+      this.db.blogPost.findMany({
+        where: {
+          OR: [
+            { featuredImage: { contains: marker } },
+            { images: { hasSome: this.fileUrls(asset) } },
+            { content: { contains: marker } },
+          ],
+        },
+        select: { id: true, title: true, slug: true },
+      }),
+      // Older revisions can be restored, so the images they embed are still in use
+      this.db.postRevision.findMany({
+        where: { content: { contains: marker } },
+        select: { blogPost: { select: { id: true, title: true, slug: true } } },
+        distinct: ["blogPostId"],
+      }),
+      this.db.user.findMany({
+        where: { avatar: { contains: marker } },
+        select: { id: true },
+      }),
+    ]);
+
+    const postsById = new Map(posts.map((post) => [post.id, post]));
+    for (const revision of revisions) {
+      postsById.set(revision.blogPost.id, revision.blogPost);
+    }
+
+    return {
+      posts: Array.from(postsById.values()),
+      avatarUserIds: avatarUsers.map((user) => user.id),
+    };
+  }
+
+  // Public URLs of the full size file and every variant
+  private fileUrls(asset: MediaAsset): string[] {
+    const urls = new Set<string>([asset.url]);
+    for (const variant of Object.values(asset.variants || {}) as Array<{ sources?: Record<string, string> }>) {
+      Object.values(variant.sources || {}).forEach((url) => urls.add(url));
+    }
+    return Array.from(urls);
+  }
+}
@@ -0,0 +1,69 @@
+// src/infrastructure/database/repositories/OAuthRepository.ts
+
+import { OAuthState, PrismaClient, User, UserIdentity } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { IOAuthRepository } from "../../../core/interfaces/Repositories/IOAuthRepository";
+
+@injectable()
+export class OAuthRepository extends PrismaRepository implements IOAuthRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  async createState(data: {
+    stateHash: string;
+    provider: string;
+    codeVerifier: string;
+    nonce: string;
+    redirectUri: string;
+    expiresAt: Date;
+  }): Promise<OAuthState> {
+    return this.db.oAuthState.create({ data });
+  }
+
+  // Deleting the row is what makes a state single-use; a second callback finds nothing
+  async consumeState(stateHash: string): Promise<OAuthState | null> {
+    const state = await this.db.oAuthState.findUnique({ where: { stateHash } });
+    if (!state) return null;
+
+    const { count } = await this.db.oAuthState.deleteMany({ where: { id: state.id } });
+    return count === 1 ? state : null;
+  }
+
+  async cleanupExpiredStates(): Promise<number> {
+    const { count } = await this.db.oAuthState.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return count;
+  }
+
+  async findIdentity(provider: string, subject: string): Promise<(UserIdentity & { user: User }) | null> {
+    return this.db.userIdentity.findUnique({
+      where: { provider_subject: { provider, subject } },
+      include: { user: true },
+    });
+  }
+
+  async createIdentity(data: {
+    provider: string;
+    subject: string;
+    email?: string | null;
+    userId: string;
+  }): Promise<UserIdentity> {
+    return this.db.userIdentity.create({
+      data: { ...data, lastLoginAt: new Date() },
+    });
+  }
+
+  async touchIdentity(id: string, email?: string | null): Promise<void> {
+    await this.db.userIdentity.update({
+      where: { id },
+      data: {
+        lastLoginAt: new Date(),
+        ...(email !== undefined && { email }),
+      },
+    });
+  }
+}
@@ -0,0 +1,66 @@
+// src/infrastructure/database/repositories/PostAuthorRepository.ts
+
+import { PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { IPostAuthorRepository } from "../../../core/interfaces/Repositories/IPostAuthorRepository";
+import { PostAuthor, PostAuthorInput } from "../../../domain/entities/PostAuthor";
+import { PostAuthorRole } from "../../../domain/enums/PostAuthorRole";
+
+@injectable()
+export class PostAuthorRepository extends PrismaRepository implements IPostAuthorRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to PostAuthor interface
+  private mapPrismaToPostAuthor(prismaAuthor: any): PostAuthor {
+    return {
+      postId: prismaAuthor.postId,
+      userId: prismaAuthor.userId,
+      role: prismaAuthor.role as PostAuthorRole,
+      position: prismaAuthor.position,
+      createdAt: prismaAuthor.createdAt,
+      user: prismaAuthor.user,
+    };
+  }
+
+  async findByPost(postId: string): Promise<PostAuthor[]> {
+    const authors = await this.db.postAuthor.findMany({
+      where: { postId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            avatar: true,
+          },
+        },
+      },
+      orderBy: { position: "asc" },
+    });
+    return authors.map((author) => this.mapPrismaToPostAuthor(author));
+  }
+
+  async replace(postId: string, authors: PostAuthorInput[]): Promise<void> {
+    const primary = authors.find((author) => author.role === PostAuthorRole.PRIMARY);
+
+    await this.db.postAuthor.deleteMany({ where: { postId } });
+    await this.db.postAuthor.createMany({
+      data: authors.map((author, position) => ({
+        postId,
+        userId: author.userId,
+        role: author.role,
+        position,
+      })),
+    });
+
+    // Raw update: changing the credits is not a content change, @updatedAt stays untouched
+    if (primary) {
+      await this.db.$executeRaw`UPDATE "blog_posts" SET "authorId" = ${primary.userId} WHERE "id" = ${postId}`;
+    }
+  }
+}
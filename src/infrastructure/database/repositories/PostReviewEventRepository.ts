@@ -0,0 +1,114 @@
+// src/infrastructure/database/repositories/PostReviewEventRepository.ts
+
+import { PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { IFindAllOptions } from "../../../core/interfaces/Common/IFindAllOptions";
+import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
+import { IPostReviewEventRepository } from "../../../core/interfaces/Repositories/IPostReviewEventRepository";
+import { PostReviewEvent } from "../../../domain/entities/PostReviewEvent";
+import { BaseRepository } from "./core/BaseRepository";
+import { TYPES } from "../../../core/container/types";
+
+const ACTOR_SELECT = {
+  select: {
+    id: true,
+    username: true,
+    firstName: true,
+    lastName: true,
+  },
+};
+
+@injectable()
+export class PostReviewEventRepository extends BaseRepository<PostReviewEvent> implements IPostReviewEventRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to PostReviewEvent interface
+  private mapPrismaToEvent(prismaEvent: any): PostReviewEvent {
+    return {
+      id: prismaEvent.id,
+      blogPostId: prismaEvent.blogPostId,
+      action: prismaEvent.action,
+      fromStatus: prismaEvent.fromStatus,
+      toStatus: prismaEvent.toStatus,
+      comment: prismaEvent.comment,
+      actorId: prismaEvent.actorId,
+      reviewerId: prismaEvent.reviewerId,
+      createdAt: prismaEvent.createdAt,
+      actor: prismaEvent.actor,
+    };
+  }
+
+  async findById(id: string): Promise<PostReviewEvent | null> {
+    const result = await this.db.postReviewEvent.findUnique({
+      where: { id },
+      include: { actor: ACTOR_SELECT },
+    });
+
+    return result ? this.mapPrismaToEvent(result) : null;
+  }
+
+  async findAll(options: IFindAllOptions = {}): Promise<IPaginatedResult<PostReviewEvent>> {
+    const { page = 1, limit = 50, sortBy = "createdAt", sortOrder = "desc", filters = {} } = options;
+    const validPage = Math.max(1, page);
+    const validLimit = Math.min(Math.max(1, limit), 100);
+    const { skip, take } = this.buildSkipTake(validPage, validLimit);
+
+    const [events, total] = await Promise.all([
+      this.db.postReviewEvent.findMany({
+        where: filters,
+        skip,
+        take,
+        orderBy: this.buildOrderBy(sortBy, sortOrder),
+        include: { actor: ACTOR_SELECT },
+      }),
+      this.db.postReviewEvent.count({ where: filters }),
+    ]);
+
+    return {
+      data: events.map((event) => this.mapPrismaToEvent(event)),
+      pagination: this.buildPagination(validPage, validLimit, total),
+    };
+  }
+
+  async findByBlogPost(blogPostId: string, options: IFindAllOptions = {}): Promise<IPaginatedResult<PostReviewEvent>> {
+    return this.findAll({
+      ...options,
+      sortBy: "createdAt",
+      sortOrder: options.sortOrder || "desc",
+      filters: { ...options.filters, blogPostId },
+    });
+  }
+
+  async create(eventData: Partial<PostReviewEvent>): Promise<PostReviewEvent> {
+    const result = await this.db.postReviewEvent.create({
+      data: {
+        blogPostId: eventData.blogPostId!,
+        action: eventData.action!,
+        fromStatus: eventData.fromStatus!,
+        toStatus: eventData.toStatus!,
+        comment: eventData.comment || null,
+        actorId: eventData.actorId || null,
+        reviewerId: eventData.reviewerId || null,
+      },
+      include: { actor: ACTOR_SELECT },
+    });
+
+    return this.mapPrismaToEvent(result);
+  }
+
+  // The history is an audit trail, entries are never modified
+  async update(_id: string, _data: Partial<PostReviewEvent>): Promise<PostReviewEvent> {
+    throw new Error("Post review events cannot be modified");
+  }
+
+  async delete(_id: string): Promise<boolean> {
+    throw new Error("Post review events cannot be deleted");
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const count = await this.db.postReviewEvent.count({ where: { id } });
+    return count > 0;
+  }
+}
@@ -0,0 +1,151 @@
+// src/infrastructure/database/repositories/PostRevisionRepository.ts
+
+import { PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { IFindAllOptions } from "../../../core/interfaces/Common/IFindAllOptions";
+import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
+import { IPostRevisionRepository } from "../../../core/interfaces/Repositories/IPostRevisionRepository";
+import { PostRevision } from "../../../domain/entities/PostRevision";
+import { BaseRepository } from "./core/BaseRepository";
+import { TYPES } from "../../../core/container/types";
+
+const EDITOR_SELECT = {
+  select: {
+    id: true,
+    username: true,
+    firstName: true,
+    lastName: true,
+  },
+};
+
+@injectable()
+export class PostRevisionRepository extends BaseRepository<PostRevision> implements IPostRevisionRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to PostRevision interface
+  private mapPrismaToRevision(prismaRevision: any): PostRevision {
+    return {
+      id: prismaRevision.id,
+      blogPostId: prismaRevision.blogPostId,
+      revisionNumber: prismaRevision.revisionNumber,
+      title: prismaRevision.title,
+      content: prismaRevision.content,
+      excerpt: prismaRevision.excerpt,
+      tags: prismaRevision.tags || [],
+      categoryId: prismaRevision.categoryId,
+      editorId: prismaRevision.editorId,
+      createdAt: prismaRevision.createdAt,
+      editor: prismaRevision.editor,
+    };
+  }
+
+  async findById(id: string): Promise<PostRevision | null> {
+    const result = await this.db.postRevision.findUnique({
+      where: { id },
+      include: { editor: EDITOR_SELECT },
+    });
+
+    return result ? this.mapPrismaToRevision(result) : null;
+  }
+
+  async findAll(options: IFindAllOptions = {}): Promise<IPaginatedResult<PostRevision>> {
+    const { page = 1, limit = 20, sortBy = "createdAt", sortOrder = "desc", filters = {} } = options;
+    const validPage = Math.max(1, page);
+    const validLimit = Math.min(Math.max(1, limit), 100);
+    const { skip, take } = this.buildSkipTake(validPage, validLimit);
+
+    const [revisions, total] = await Promise.all([
+      this.db.postRevision.findMany({
+        where: filters,
+        skip,
+        take,
+        orderBy: this.buildOrderBy(sortBy, sortOrder),
+        include: { editor: EDITOR_SELECT },
+      }),
+      this.db.postRevision.count({ where: filters }),
+    ]);
+
+    return {
+      data: revisions.map((revision) => this.mapPrismaToRevision(revision)),
+      pagination: this.buildPagination(validPage, validLimit, total),
+    };
+  }
+
+  async findByBlogPost(blogPostId: string, options: IFindAllOptions = {}): Promise<IPaginatedResult<PostRevision>> {
+    return this.findAll({
+      ...options,
+      sortBy: "revisionNumber",
+      sortOrder: options.sortOrder || "desc",
+      filters: { ...options.filters, blogPostId },
+    });
+  }
+
+  async findByRevisionNumber(blogPostId: string, revisionNumber: number): Promise<PostRevision | null> {
+    const result = await this.db.postRevision.findUnique({
+      where: { blogPostId_revisionNumber: { blogPostId, revisionNumber } },
+      include: { editor: EDITOR_SELECT },
+    });
+
+    return result ? this.mapPrismaToRevision(result) : null;
+  }
+
+  async getLatestRevisionNumber(blogPostId: string): Promise<number> {
+    const result = await this.db.postRevision.aggregate({
+      where: { blogPostId },
+      _max: { revisionNumber: true },
+    });
+
+    return result._max.revisionNumber || 0;
+  }
+
+  async create(revisionData: Partial<PostRevision>): Promise<PostRevision> {
+    const result = await this.db.postRevision.create({
+      data: {
+        blogPostId: revisionData.blogPostId!,
+        revisionNumber: revisionData.revisionNumber!,
+        title: revisionData.title!,
+        content: revisionData.content!,
+        excerpt: revisionData.excerpt || null,
+        tags: revisionData.tags || [],
+        categoryId: revisionData.categoryId!,
+        editorId: revisionData.editorId || null,
+      },
+      include: { editor: EDITOR_SELECT },
+    });
+
+    return this.mapPrismaToRevision(result);
+  }
+
+  /**
+   * The post row is locked before the latest number is read, so concurrent saves of the same
+   * post wait for each other instead of colliding on the (blogPostId, revisionNumber) index
+   */
+  async createNext(revisionData: Omit<Partial<PostRevision>, "revisionNumber">): Promise<PostRevision> {
+    return this.transaction(async (db) => {
+      await db.$queryRaw`SELECT id FROM blog_posts WHERE id = ${revisionData.blogPostId} FOR UPDATE`;
+      const latest = await this.getLatestRevisionNumber(revisionData.blogPostId!);
+      return this.create({ ...revisionData, revisionNumber: latest + 1 });
+    });
+  }
+
+  // Revisions are immutable snapshots
+  async update(_id: string, _data: Partial<PostRevision>): Promise<PostRevision> {
+    throw new Error("Post revisions cannot be modified");
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.db.postRevision.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async exists(id: string): Promise<boolean> {
+    const count = await this.db.postRevision.count({ where: { id } });
+    return count > 0;
+  }
+}
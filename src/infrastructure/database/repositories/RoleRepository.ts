@@ -0,0 +1,100 @@
+// src/infrastructure/database/repositories/RoleRepository.ts
+
+import { PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { IRoleRepository } from "../../../core/interfaces/Repositories/IRoleRepository";
+import { Role, RoleUploadLimits } from "../../../domain/entities/Role";
+import { Permission } from "../../../domain/enums/Permission";
+
+@injectable()
+export class RoleRepository extends PrismaRepository implements IRoleRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to Role interface
+  private mapPrismaToRole(prismaRole: any): Role {
+    return {
+      name: prismaRole.name,
+      description: prismaRole.description,
+      permissions: prismaRole.permissions as Permission[],
+      isSystem: prismaRole.isSystem,
+      uploadLimits: {
+        maxFileSizeBytes: prismaRole.uploadMaxFileSizeBytes,
+        maxFiles: prismaRole.uploadMaxFiles,
+        storageQuotaMb: prismaRole.storageQuotaMb,
+      },
+      createdAt: prismaRole.createdAt,
+      updatedAt: prismaRole.updatedAt,
+    };
+  }
+
+  async findAll(): Promise<Array<Role & { usersCount: number }>> {
+    const roles = await this.db.role.findMany({
+      orderBy: [{ isSystem: "desc" }, { name: "asc" }],
+      include: { _count: { select: { users: true } } },
+    });
+
+    return roles.map((role) => ({
+      ...this.mapPrismaToRole(role),
+      usersCount: role._count.users,
+    }));
+  }
+
+  async findByName(name: string): Promise<Role | null> {
+    const result = await this.db.role.findUnique({ where: { name } });
+    return result ? this.mapPrismaToRole(result) : null;
+  }
+
+  async findExistingNames(names: string[]): Promise<string[]> {
+    const roles = await this.db.role.findMany({
+      where: { name: { in: names } },
+      select: { name: true },
+    });
+    return roles.map((role) => role.name);
+  }
+
+  async create(data: {
+    name: string;
+    description?: string | null;
+    permissions: Permission[];
+    uploadLimits?: Partial<RoleUploadLimits>;
+  }): Promise<Role> {
+    const { uploadLimits, ...role } = data;
+    const result = await this.db.role.create({
+      data: { ...role, ...this.mapUploadLimits(uploadLimits) },
+    });
+    return this.mapPrismaToRole(result);
+  }
+
+  async update(
+    name: string,
+    data: { description?: string | null; permissions?: Permission[]; uploadLimits?: Partial<RoleUploadLimits> }
+  ): Promise<Role> {
+    const { uploadLimits, ...role } = data;
+    const result = await this.db.role.update({
+      where: { name },
+      data: { ...role, ...this.mapUploadLimits(uploadLimits) },
+    });
+    return this.mapPrismaToRole(result);
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.db.role.delete({ where: { name } });
+  }
+
+  async countUsers(name: string): Promise<number> {
+    return this.db.user.count({ where: { role: name } });
+  }
+
+  // Only the limits present in the input are written
+  private mapUploadLimits(limits?: Partial<RoleUploadLimits>) {
+    return {
+      ...(limits?.maxFileSizeBytes !== undefined && { uploadMaxFileSizeBytes: limits.maxFileSizeBytes }),
+      ...(limits?.maxFiles !== undefined && { uploadMaxFiles: limits.maxFiles }),
+      ...(limits?.storageQuotaMb !== undefined && { storageQuotaMb: limits.storageQuotaMb }),
+    };
+  }
+}
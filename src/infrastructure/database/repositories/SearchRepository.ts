@@ -0,0 +1,227 @@
+// src/infrastructure/database/repositories/SearchRepository.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
+import { ISearchRepository, SearchCriteria } from "../../../core/interfaces/Repositories/ISearchRepository";
+import { SearchFilters, SearchHit, SearchHitType, SEARCH_HIT_TYPES } from "../../../domain/entities/SearchHit";
+import { SearchType } from "../../../domain/enums/SearchType";
+
+// Must match the text search configuration used by the generated searchVector columns
+const TS_CONFIG = "simple";
+
+const HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=\" … \"";
+const TITLE_HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, HighlightAll=true";
+
+/**
+ * PostgreSQL full-text search over the generated "searchVector" columns.
+ * Every requested type contributes a sub-select to one UNION ALL so results are ranked together.
+ */
+@injectable()
+export class SearchRepository extends PrismaRepository implements ISearchRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  async search(criteria: SearchCriteria): Promise<IPaginatedResult<SearchHit> & { totals: Record<SearchHitType, number> }> {
+    const { query, types, filters = {}, page = 1, limit = 10 } = criteria;
+    const validPage = Math.max(1, page);
+    const validLimit = Math.min(Math.max(1, limit), 50);
+    const offset = (validPage - 1) * validLimit;
+
+    const hits = Prisma.join(
+      types.map((type) => this.buildTypeQuery(type, filters)),
+      " UNION ALL "
+    );
+
+    const withClause = Prisma.sql`
+      WITH q AS (SELECT websearch_to_tsquery(${TS_CONFIG}::regconfig, ${query}) AS query),
+      hits AS (${hits})
+    `;
+
+    const [rows, counts] = await Promise.all([
+      this.db.$queryRaw<SearchHit[]>`
+        ${withClause}
+        SELECT
+          h.type,
+          h.id,
+          h.title,
+          h.slug,
+          h."postId",
+          h.date,
+          h.rank,
+          ts_headline(${TS_CONFIG}::regconfig, h.title, q.query, ${TITLE_HEADLINE_OPTIONS}) AS "titleHighlight",
+          ts_headline(${TS_CONFIG}::regconfig, coalesce(h.body, ''), q.query, ${HEADLINE_OPTIONS}) AS highlight
+        FROM (
+          SELECT * FROM hits
+          ORDER BY rank DESC, date DESC NULLS LAST, id
+          LIMIT ${validLimit} OFFSET ${offset}
+        ) h
+        CROSS JOIN q
+        ORDER BY h.rank DESC, h.date DESC NULLS LAST, h.id
+      `,
+      this.db.$queryRaw<Array<{ type: SearchHitType; total: number }>>`
+        ${withClause}
+        SELECT type, COUNT(*)::int AS total FROM hits GROUP BY type
+      `,
+    ]);
+
+    const totals = SEARCH_HIT_TYPES.reduce((acc, type) => {
+      acc[type] = 0;
+      return acc;
+    }, {} as Record<SearchHitType, number>);
+    for (const count of counts) {
+      totals[count.type] = Number(count.total);
+    }
+
+    const total = Object.values(totals).reduce((sum, value) => sum + value, 0);
+    const totalPages = Math.ceil(total / validLimit);
+
+    return {
+      data: rows.map((row) => ({ ...row, rank: Number(row.rank) })),
+      pagination: {
+        currentPage: validPage,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: validLimit,
+        hasNext: validPage < totalPages,
+        hasPrev: validPage > 1,
+      },
+      totals,
+    };
+  }
+
+  // Each sub-select returns: type, id, title, slug, body, "postId", date, rank
+  private buildTypeQuery(type: SearchHitType, filters: SearchFilters): Prisma.Sql {
+    switch (type) {
+      case SearchType.POSTS:
+        return this.buildPostQuery(filters);
+      case SearchType.COMMENTS:
+        return this.buildCommentQuery(filters);
+      case SearchType.CATEGORIES:
+        return this.buildCategoryQuery(filters);
+      case SearchType.AUTHORS:
+        return this.buildAuthorQuery(filters);
+    }
+  }
+
+  private buildPostQuery(filters: SearchFilters): Prisma.Sql {
+    const conditions = [
+      Prisma.sql`p."searchVector" @@ q.query`,
+      Prisma.sql`p."isPublished" = true`,
+      Prisma.sql`p.status = 'PUBLISHED'`,
+      ...this.postFilterConditions(filters),
+    ];
+
+    if (filters.author) {
+      conditions.push(Prisma.sql`(u.id = ${filters.author} OR u.username = ${filters.author})`);
+    }
+    if (filters.from) {
+      conditions.push(Prisma.sql`p."publishedAt" >= ${filters.from}`);
+    }
+    if (filters.to) {
+      conditions.push(Prisma.sql`p."publishedAt" <= ${filters.to}`);
+    }
+
+    return Prisma.sql`
+      SELECT 'posts'::text AS type, p.id, p.title, p.slug, p.content AS body, NULL::text AS "postId",
+        p."publishedAt" AS date, ts_rank_cd(p."searchVector", q.query) AS rank
+      FROM blog_posts p
+      JOIN categories cat ON cat.id = p."categoryId"
+      JOIN users u ON u.id = p."authorId"
+      CROSS JOIN q
+      WHERE ${Prisma.join(conditions, " AND ")}
+    `;
+  }
+
+  private buildCommentQuery(filters: SearchFilters): Prisma.Sql {
+    const conditions = [
+      Prisma.sql`c."searchVector" @@ q.query`,
+      Prisma.sql`c.status = 'APPROVED'`,
+      Prisma.sql`c."isActive" = true`,
+      Prisma.sql`p."isPublished" = true`,
+      Prisma.sql`p.status = 'PUBLISHED'`,
+      ...this.postFilterConditions(filters),
+    ];
+
+    if (filters.author) {
+      conditions.push(Prisma.sql`(u.id = ${filters.author} OR u.username = ${filters.author})`);
+    }
+    if (filters.from) {
+      conditions.push(Prisma.sql`c."createdAt" >= ${filters.from}`);
+    }
+    if (filters.to) {
+      conditions.push(Prisma.sql`c."createdAt" <= ${filters.to}`);
+    }
+
+    return Prisma.sql`
+      SELECT 'comments'::text AS type, c.id, p.title, p.slug, c.content AS body, p.id AS "postId",
+        c."createdAt" AS date, ts_rank_cd(c."searchVector", q.query) AS rank
+      FROM comments c
+      JOIN blog_posts p ON p.id = c."blogPostId"
+      JOIN categories cat ON cat.id = p."categoryId"
+      JOIN users u ON u.id = c."authorId"
+      CROSS JOIN q
+      WHERE ${Prisma.join(conditions, " AND ")}
+    `;
+  }
+
+  // Post related filters (tag, author, date range) do not apply to categories
+  private buildCategoryQuery(filters: SearchFilters): Prisma.Sql {
+    const conditions = [
+      Prisma.sql`cat."searchVector" @@ q.query`,
+      Prisma.sql`cat."isActive" = true`,
+    ];
+
+    if (filters.category) {
+      conditions.push(Prisma.sql`cat.slug = ${filters.category}`);
+    }
+
+    return Prisma.sql`
+      SELECT 'categories'::text AS type, cat.id, cat.name AS title, cat.slug, cat.description AS body, NULL::text AS "postId",
+        cat."createdAt" AS date, ts_rank_cd(cat."searchVector", q.query) AS rank
+      FROM categories cat
+      CROSS JOIN q
+      WHERE ${Prisma.join(conditions, " AND ")}
+    `;
+  }
+
+  private buildAuthorQuery(filters: SearchFilters): Prisma.Sql {
+    const conditions = [
+      Prisma.sql`u."searchVector" @@ q.query`,
+      Prisma.sql`u."isActive" = true`,
+      Prisma.sql`u.role IN ('AUTHOR', 'ADMIN')`,
+    ];
+
+    if (filters.author) {
+      conditions.push(Prisma.sql`(u.id = ${filters.author} OR u.username = ${filters.author})`);
+    }
+
+    return Prisma.sql`
+      SELECT 'authors'::text AS type, u.id, (u."firstName" || ' ' || u."lastName") AS title, u.username AS slug,
+        u.bio AS body, NULL::text AS "postId", u."createdAt" AS date, ts_rank_cd(u."searchVector", q.query) AS rank
+      FROM users u
+      CROSS JOIN q
+      WHERE ${Prisma.join(conditions, " AND ")}
+    `;
+  }
+
+  // Expects the post aliased as "p" and its category as "cat"
+  private postFilterConditions(filters: SearchFilters): Prisma.Sql[] {
+    const conditions: Prisma.Sql[] = [];
+
+    if (filters.category) {
+      conditions.push(Prisma.sql`cat.slug = ${filters.category}`);
+    }
+    if (filters.tag) {
+      // Posts store tag names; the filter takes a tag slug or name
+      conditions.push(
+        Prisma.sql`p.tags && ARRAY(SELECT t.name FROM tags t WHERE t.slug = ${filters.tag} OR t.name = ${filters.tag})`
+      );
+    }
+
+    return conditions;
+  }
+}
@@ -0,0 +1,180 @@
+// src/infrastructure/database/repositories/SeriesRepository.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { ISeriesRepository } from "../../../core/interfaces/Repositories/ISeriesRepository";
+import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
+import { Series, SeriesFilter, SeriesPostRef } from "../../../domain/entities/Series";
+import { PostAuthorRole } from "../../../domain/enums/PostAuthorRole";
+
+const OWNER_SELECT = {
+  select: {
+    id: true,
+    username: true,
+    firstName: true,
+    lastName: true,
+  },
+};
+
+@injectable()
+export class SeriesRepository extends PrismaRepository implements ISeriesRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  private getIncludeOptions() {
+    return {
+      owner: OWNER_SELECT,
+      posts: {
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          status: true,
+          isPublished: true,
+          publishedAt: true,
+        },
+        orderBy: { seriesOrder: "asc" as const },
+      },
+    };
+  }
+
+  // Helper method to convert Prisma result to Series interface
+  private mapPrismaToSeries(prismaSeries: any): Series {
+    return {
+      id: prismaSeries.id,
+      title: prismaSeries.title,
+      slug: prismaSeries.slug,
+      description: prismaSeries.description,
+      ownerId: prismaSeries.ownerId,
+      createdAt: prismaSeries.createdAt,
+      updatedAt: prismaSeries.updatedAt,
+      owner: prismaSeries.owner,
+      parts: prismaSeries.posts,
+      publishedParts: prismaSeries._count?.posts,
+    };
+  }
+
+  async findById(id: string): Promise<Series | null> {
+    const series = await this.db.series.findUnique({
+      where: { id },
+      include: this.getIncludeOptions(),
+    });
+    return series ? this.mapPrismaToSeries(series) : null;
+  }
+
+  async findBySlug(slug: string): Promise<Series | null> {
+    const series = await this.db.series.findUnique({
+      where: { slug },
+      include: this.getIncludeOptions(),
+    });
+    return series ? this.mapPrismaToSeries(series) : null;
+  }
+
+  async findMany(filter: SeriesFilter, page: number, limit: number): Promise<IPaginatedResult<Series>> {
+    const where: Prisma.SeriesWhereInput = {};
+    if (filter.ownerId) where.ownerId = filter.ownerId;
+    if (filter.search) where.title = { contains: filter.search, mode: "insensitive" };
+
+    const [series, total] = await Promise.all([
+      this.db.series.findMany({
+        where,
+        include: {
+          owner: OWNER_SELECT,
+          _count: {
+            select: {
+              posts: { where: { isPublished: true, status: "PUBLISHED" } },
+            },
+          },
+        },
+        orderBy: { updatedAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.db.series.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: series.map((item) => this.mapPrismaToSeries(item)),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async create(data: Pick<Series, "title" | "slug" | "description" | "ownerId">): Promise<Series> {
+    const series = await this.db.series.create({
+      data,
+      include: this.getIncludeOptions(),
+    });
+    return this.mapPrismaToSeries(series);
+  }
+
+  async update(id: string, data: Partial<Pick<Series, "title" | "slug" | "description">>): Promise<Series> {
+    const series = await this.db.series.update({
+      where: { id },
+      data,
+      include: this.getIncludeOptions(),
+    });
+    return this.mapPrismaToSeries(series);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.setParts(id, []);
+    await this.db.series.delete({ where: { id } });
+  }
+
+  async slugExists(slug: string, excludeId?: string): Promise<boolean> {
+    const series = await this.db.series.findFirst({
+      where: { slug, ...(excludeId && { id: { not: excludeId } }) },
+      select: { id: true },
+    });
+    return !!series;
+  }
+
+  async findPostRefs(postIds: string[]): Promise<SeriesPostRef[]> {
+    if (postIds.length === 0) {
+      return [];
+    }
+
+    const posts = await this.db.blogPost.findMany({
+      where: { id: { in: postIds } },
+      select: {
+        id: true,
+        authorId: true,
+        seriesId: true,
+        authors: { select: { userId: true, role: true } },
+      },
+    });
+
+    return posts.map((post) => ({
+      ...post,
+      authors: post.authors.map((author) => ({ userId: author.userId, role: author.role as PostAuthorRole })),
+    }));
+  }
+
+  async setParts(seriesId: string, postIds: string[]): Promise<void> {
+    // Raw updates: the place of a post in a series is not a change of the post, @updatedAt stays untouched
+    await this.db.$executeRaw`
+      UPDATE "blog_posts" SET "seriesId" = NULL, "seriesOrder" = NULL
+      WHERE "seriesId" = ${seriesId} AND NOT ("id" = ANY(${postIds}::TEXT[]))
+    `;
+
+    if (postIds.length > 0) {
+      await this.db.$executeRaw`
+        UPDATE "blog_posts" AS "p" SET "seriesId" = ${seriesId}, "seriesOrder" = "o"."position"
+        FROM unnest(${postIds}::TEXT[]) WITH ORDINALITY AS "o"("id", "position")
+        WHERE "p"."id" = "o"."id"
+      `;
+    }
+  }
+}
@@ -0,0 +1,49 @@
+// src/infrastructure/database/repositories/SitemapRepository.ts
+
+import { PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { ISitemapRepository, SitemapPostEntry } from "../../../core/interfaces/Repositories/ISitemapRepository";
+
+const PUBLISHED_WHERE = { isPublished: true, status: "PUBLISHED" as const };
+
+/**
+ * Lean reads for sitemap generation: only slug / updatedAt, in a stable
+ * order (publishedAt, id) so paginated child sitemaps do not shift.
+ */
+@injectable()
+export class SitemapRepository extends PrismaRepository implements ISitemapRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  async countPublishedPosts(): Promise<number> {
+    return await this.db.blogPost.count({ where: PUBLISHED_WHERE });
+  }
+
+  async findPublishedPosts(skip: number, take: number): Promise<SitemapPostEntry[]> {
+    return await this.db.blogPost.findMany({
+      where: PUBLISHED_WHERE,
+      select: { slug: true, updatedAt: true },
+      orderBy: [{ publishedAt: "asc" }, { id: "asc" }],
+      skip,
+      take,
+    });
+  }
+
+  async getPublishedPostPageDates(pageSize: number): Promise<Date[]> {
+    const rows = await this.db.$queryRaw<Array<{ page: number; lastmod: Date }>>`
+      SELECT ((rn - 1) / ${pageSize})::int AS page, MAX("updatedAt") AS lastmod
+      FROM (
+        SELECT "updatedAt", ROW_NUMBER() OVER (ORDER BY "publishedAt" ASC, "id" ASC) AS rn
+        FROM "blog_posts"
+        WHERE "isPublished" = true AND "status" = 'PUBLISHED'
+      ) AS posts
+      GROUP BY 1
+      ORDER BY 1
+    `;
+
+    return rows.map((row) => row.lastmod);
+  }
+}
@@ -0,0 +1,80 @@
+// src/infrastructure/database/repositories/SlugHistoryRepository.ts
+
+import { PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { ISlugHistoryRepository } from "../../../core/interfaces/Repositories/ISlugHistoryRepository";
+import { SlugHistory } from "../../../domain/entities/SlugHistory";
+import { SlugResourceType } from "../../../domain/enums/SlugResourceType";
+
+@injectable()
+export class SlugHistoryRepository extends PrismaRepository implements ISlugHistoryRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to SlugHistory interface
+  private mapPrismaToSlugHistory(prismaEntry: any): SlugHistory {
+    return {
+      id: prismaEntry.id,
+      resourceType: prismaEntry.resourceType as SlugResourceType,
+      resourceId: prismaEntry.resourceId,
+      slug: prismaEntry.slug,
+      createdAt: prismaEntry.createdAt,
+    };
+  }
+
+  async findBySlug(resourceType: SlugResourceType, slug: string): Promise<SlugHistory | null> {
+    const entry = await this.db.slugHistory.findUnique({
+      where: { resourceType_slug: { resourceType, slug } },
+    });
+    return entry ? this.mapPrismaToSlugHistory(entry) : null;
+  }
+
+  async findSlugs(resourceType: SlugResourceType, resourceId: string): Promise<string[]> {
+    const entries = await this.db.slugHistory.findMany({
+      where: { resourceType, resourceId },
+      select: { slug: true },
+      orderBy: { createdAt: "asc" },
+    });
+    return entries.map((entry) => entry.slug);
+  }
+
+  async isTaken(resourceType: SlugResourceType, slug: string, resourceId?: string): Promise<boolean> {
+    const entry = await this.findBySlug(resourceType, slug);
+    return !!entry && entry.resourceId !== resourceId;
+  }
+
+  async recordChange(
+    resourceType: SlugResourceType,
+    resourceId: string,
+    oldSlug: string,
+    newSlug: string
+  ): Promise<void> {
+    await this.db.slugHistory.deleteMany({
+      where: { resourceType, resourceId, slug: newSlug },
+    });
+
+    await this.db.slugHistory.upsert({
+      where: { resourceType_slug: { resourceType, slug: oldSlug } },
+      create: { resourceType, resourceId, slug: oldSlug },
+      update: { resourceId },
+    });
+  }
+
+  async reassign(resourceType: SlugResourceType, fromResourceId: string, toResourceId: string): Promise<number> {
+    const result = await this.db.slugHistory.updateMany({
+      where: { resourceType, resourceId: fromResourceId },
+      data: { resourceId: toResourceId },
+    });
+    return result.count;
+  }
+
+  async deleteByResource(resourceType: SlugResourceType, resourceId: string): Promise<number> {
+    const result = await this.db.slugHistory.deleteMany({
+      where: { resourceType, resourceId },
+    });
+    return result.count;
+  }
+}
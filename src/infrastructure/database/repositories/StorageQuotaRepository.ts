@@ -0,0 +1,102 @@
+// src/infrastructure/database/repositories/StorageQuotaRepository.ts
+
+import { PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { IStorageQuotaRepository } from "../../../core/interfaces/Repositories/IStorageQuotaRepository";
+import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
+import { StorageUsage } from "../../../domain/entities/StorageQuota";
+
+const USER_SELECT = { id: true, username: true, role: true, storageQuotaMb: true } as const;
+
+@injectable()
+export class StorageQuotaRepository extends PrismaRepository implements IStorageQuotaRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to StorageUsage interface
+  private mapPrismaToStorageUsage(
+    user: { id: string; username: string; role: string; storageQuotaMb: number | null },
+    usage?: { usedBytes: number; assetCount: number }
+  ): StorageUsage {
+    return {
+      userId: user.id,
+      username: user.username,
+      role: user.role,
+      storageQuotaMb: user.storageQuotaMb,
+      usedBytes: usage?.usedBytes ?? 0,
+      assetCount: usage?.assetCount ?? 0,
+    };
+  }
+
+  async findUsage(userId: string): Promise<StorageUsage | null> {
+    const [user, usage] = await Promise.all([
+      this.db.user.findUnique({ where: { id: userId }, select: USER_SELECT }),
+      this.db.mediaAsset.aggregate({
+        where: { ownerId: userId },
+        _sum: { storedBytes: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    if (!user) {
+      return null;
+    }
+
+    return this.mapPrismaToStorageUsage(user, {
+      usedBytes: usage._sum.storedBytes ?? 0,
+      assetCount: usage._count._all,
+    });
+  }
+
+  async findUsages(page: number, limit: number): Promise<IPaginatedResult<StorageUsage>> {
+    const where = { ownerId: { not: null } };
+
+    const [groups, owners] = await Promise.all([
+      this.db.mediaAsset.groupBy({
+        by: ["ownerId"],
+        where,
+        _sum: { storedBytes: true },
+        _count: { _all: true },
+        orderBy: { _sum: { storedBytes: "desc" } },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.db.mediaAsset.groupBy({ by: ["ownerId"], where }),
+    ]);
+
+    const users = await this.db.user.findMany({
+      where: { id: { in: groups.map((group) => group.ownerId!) } },
+      select: USER_SELECT,
+    });
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    const total = owners.length;
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: groups
+        .filter((group) => usersById.has(group.ownerId!))
+        .map((group) =>
+          this.mapPrismaToStorageUsage(usersById.get(group.ownerId!)!, {
+            usedBytes: group._sum?.storedBytes ?? 0,
+            assetCount: (group._count as { _all: number })._all,
+          })
+        ),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async setUserQuota(userId: string, storageQuotaMb: number | null): Promise<void> {
+    await this.db.user.update({ where: { id: userId }, data: { storageQuotaMb } });
+  }
+}
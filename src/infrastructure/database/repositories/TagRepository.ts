@@ -0,0 +1,150 @@
+// src/infrastructure/database/repositories/TagRepository.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { ITagRepository } from "../../../core/interfaces/Repositories/ITagRepository";
+import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
+import { Tag, TagFilter, TagSort } from "../../../domain/entities/Tag";
+
+// Published posts per tag name, read from the tags array of the posts
+const USAGE_CTE = Prisma.sql`
+  WITH usage AS (
+    SELECT u.tag, COUNT(DISTINCT p.id)::int AS "postCount"
+    FROM blog_posts p
+    CROSS JOIN LATERAL unnest(p.tags) AS u(tag)
+    WHERE p."isPublished" = true AND p.status = 'PUBLISHED'
+    GROUP BY u.tag
+  )
+`;
+
+const ORDER_BY: Record<TagSort, Prisma.Sql> = {
+  name: Prisma.sql`lower(t.name), t.id`,
+  popular: Prisma.sql`"postCount" DESC, lower(t.name), t.id`,
+  recent: Prisma.sql`t."createdAt" DESC, t.id`,
+};
+
+@injectable()
+export class TagRepository extends PrismaRepository implements ITagRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Helper method to convert Prisma result to Tag interface
+  private mapPrismaToTag(prismaTag: any): Tag {
+    return {
+      id: prismaTag.id,
+      name: prismaTag.name,
+      slug: prismaTag.slug,
+      description: prismaTag.description,
+      createdAt: prismaTag.createdAt,
+      updatedAt: prismaTag.updatedAt,
+      ...(prismaTag.postCount !== undefined && { postCount: Number(prismaTag.postCount) }),
+    };
+  }
+
+  async findById(id: string): Promise<Tag | null> {
+    return this.findOne(Prisma.sql`t.id = ${id}`);
+  }
+
+  async findBySlug(slug: string): Promise<Tag | null> {
+    return this.findOne(Prisma.sql`t.slug = ${slug}`);
+  }
+
+  async findByName(name: string): Promise<Tag | null> {
+    return this.findOne(Prisma.sql`lower(t.name) = lower(${name})`);
+  }
+
+  async findOrCreate(name: string, slug: string): Promise<Tag> {
+    // Upsert on the slug so two posts introducing the same tag at once end up with one
+    const tag = await this.db.tag.upsert({
+      where: { slug },
+      create: { name, slug },
+      update: {},
+    });
+    return this.mapPrismaToTag(tag);
+  }
+
+  async update(id: string, data: Partial<Pick<Tag, "name" | "slug" | "description">>): Promise<Tag> {
+    const tag = await this.db.tag.update({ where: { id }, data });
+    return this.mapPrismaToTag(tag);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.tag.delete({ where: { id } });
+  }
+
+  async findMany(filter: TagFilter, page: number, limit: number): Promise<IPaginatedResult<Tag>> {
+    const search = filter.search?.trim();
+    const where = search ? Prisma.sql`WHERE strpos(lower(t.name), lower(${search})) > 0` : Prisma.empty;
+
+    const [rows, total] = await Promise.all([
+      this.db.$queryRaw<any[]>`
+        ${USAGE_CTE}
+        SELECT t.*, COALESCE(usage."postCount", 0) AS "postCount"
+        FROM tags t
+        LEFT JOIN usage ON usage.tag = t.name
+        ${where}
+        ORDER BY ${ORDER_BY[filter.sort || "name"]}
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      `,
+      this.db.tag.count({
+        where: search ? { name: { contains: search, mode: "insensitive" } } : {},
+      }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: rows.map((row) => this.mapPrismaToTag(row)),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  async findPopular(limit: number): Promise<Tag[]> {
+    const rows = await this.db.$queryRaw<any[]>`
+      ${USAGE_CTE}
+      SELECT t.*, usage."postCount"
+      FROM tags t
+      JOIN usage ON usage.tag = t.name
+      ORDER BY ${ORDER_BY.popular}
+      LIMIT ${limit}
+    `;
+    return rows.map((row) => this.mapPrismaToTag(row));
+  }
+
+  async findByPrefix(prefix: string, slugPrefix: string, limit: number): Promise<Tag[]> {
+    const slugMatch = slugPrefix ? Prisma.sql`OR starts_with(t.slug, ${slugPrefix})` : Prisma.empty;
+    const rows = await this.db.$queryRaw<any[]>`
+      ${USAGE_CTE}
+      SELECT t.*, COALESCE(usage."postCount", 0) AS "postCount"
+      FROM tags t
+      LEFT JOIN usage ON usage.tag = t.name
+      WHERE starts_with(lower(t.name), lower(${prefix})) ${slugMatch}
+      ORDER BY ${ORDER_BY.popular}
+      LIMIT ${limit}
+    `;
+    return rows.map((row) => this.mapPrismaToTag(row));
+  }
+
+  private async findOne(condition: Prisma.Sql): Promise<Tag | null> {
+    const rows = await this.db.$queryRaw<any[]>`
+      SELECT t.*, (
+        SELECT COUNT(*)::int FROM blog_posts p
+        WHERE p.tags @> ARRAY[t.name] AND p."isPublished" = true AND p.status = 'PUBLISHED'
+      ) AS "postCount"
+      FROM tags t
+      WHERE ${condition}
+      LIMIT 1
+    `;
+    return rows.length > 0 ? this.mapPrismaToTag(rows[0]) : null;
+  }
+}
@@ -0,0 +1,101 @@
+// src/infrastructure/database/repositories/TwoFactorRepository.ts
+
+import { PrismaClient } from "@prisma/client";
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
+import { ITwoFactorRepository } from "../../../core/interfaces/Repositories/ITwoFactorRepository";
+
+@injectable()
+export class TwoFactorRepository extends PrismaRepository implements ITwoFactorRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
+
+  // Stores a new (not yet confirmed) secret; 2FA stays disabled until enable()
+  async saveSecret(userId: string, encryptedSecret: string): Promise<void> {
+    await this.db.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: encryptedSecret,
+        twoFactorEnabled: false,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+      },
+    });
+  }
+
+  async enable(userId: string): Promise<void> {
+    await this.db.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date() },
+    });
+  }
+
+  async disable(userId: string): Promise<void> {
+    await this.transaction(async (db) => {
+      await db.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+      await db.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+        },
+      });
+    });
+  }
+
+  // Records the accepted time step; false if this or a later step was already used (replay)
+  async markStepUsed(userId: string, step: number): Promise<boolean> {
+    const result = await this.db.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return result.count === 1;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await this.transaction(async (db) => {
+      await db.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+      await db.twoFactorRecoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      });
+    });
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.db.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return result.count === 1;
+  }
+
+  async countRemainingRecoveryCodes(userId: string): Promise<number> {
+    return await this.db.twoFactorRecoveryCode.count({
+      where: { userId, usedAt: null },
+    });
+  }
+
+  async findRequiredRoles(): Promise<string[]> {
+    const policies = await this.db.twoFactorRolePolicy.findMany({
+      select: { role: true },
+    });
+    return policies.map((policy) => policy.role);
+  }
+
+  async setRequiredRoles(roles: string[], actorId: string): Promise<void> {
+    await this.transaction(async (db) => {
+      await db.twoFactorRolePolicy.deleteMany({ where: { role: { notIn: roles } } });
+      await db.twoFactorRolePolicy.createMany({
+        data: roles.map((role) => ({ role, createdById: actorId })),
+        skipDuplicates: true,
+      });
+    });
+  }
+}
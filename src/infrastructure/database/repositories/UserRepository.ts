@@ -1,32 +1,33 @@
-import { PrismaClient, User, RefreshToken, TokenBlacklist } from "@prisma/client";
-import { UserRole } from "../../../domain/enums/UserRole";
+import { PrismaClient, User, RefreshToken, TokenBlacklist, UserToken, UserTokenType } from "@prisma/client";
+import { Permission } from "../../../domain/enums/Permission";
 import { inject, injectable } from "inversify";
 import { IFindAllOptions } from "../../../core/interfaces/Common/IFindAllOptions";
 import { IPaginatedResult } from "../../../core/interfaces/Common/IPaginatedResult";
 import logger from "../../../utils/logger";
 import { IUserRepository } from "../../../core/interfaces/Repositories/IUserRepository";
 import { TYPES } from "../../../core/container/types";
+import { PrismaRepository } from "./core/PrismaRepository";
 
 @injectable()
-export class UserRepository implements IUserRepository {
-  constructor(
-    @inject(TYPES.PrismaClient) private prisma: PrismaClient 
-  ) {}
+export class UserRepository extends PrismaRepository implements IUserRepository {
+  constructor(@inject(TYPES.PrismaClient) prisma: PrismaClient) {
+    super(prisma);
+  }
 
   async findById(id: string): Promise<User | null> {
-    return await this.prisma.user.findUnique({
+    return await this.db.user.findUnique({
       where: { id, isActive: true },
     });
   }
 
   async findByEmail(email: string): Promise<User | null> {
-    return await this.prisma.user.findUnique({
+    return await this.db.user.findUnique({
       where: { email },
     });
   }
 
   async findByUsername(username: string): Promise<User | null> {
-    return await this.prisma.user.findUnique({
+    return await this.db.user.findUnique({
       where: { username },
     });
   }
@@ -50,14 +51,14 @@ export class UserRepository implements IUserRepository {
     const include = options?.include || {};
 
     const [users, total] = await Promise.all([
-      this.prisma.user.findMany({
+      this.db.user.findMany({
         where: whereClause,
         orderBy: { [sortBy]: sortOrder },
         skip,
         take: limit,
         include,
       }),
-      this.prisma.user.count({
+      this.db.user.count({
         where: whereClause,
       }),
     ]);
@@ -78,13 +79,13 @@ export class UserRepository implements IUserRepository {
   }
 
   async create(userData: Partial<User>): Promise<User> {
-    return await this.prisma.user.create({
+    return await this.db.user.create({
       data: userData as any,
     });
   }
 
   async update(id: string, userData: Partial<User>): Promise<User> {
-    return await this.prisma.user.update({
+    return await this.db.user.update({
       where: { id },
       data: { ...userData, updatedAt: new Date() },
     });
@@ -92,7 +93,7 @@ export class UserRepository implements IUserRepository {
 
   async delete(id: string): Promise<boolean> {
     try {
-      await this.prisma.user.update({
+      await this.db.user.update({
         where: { id },
         data: { isActive: false, updatedAt: new Date() },
       });
@@ -103,18 +104,22 @@ export class UserRepository implements IUserRepository {
   }
 
   async exists(id: string): Promise<boolean> {
-    const user = await this.prisma.user.findUnique({
+    const user = await this.db.user.findUnique({
       where: { id },
       select: { id: true },
     });
     return !!user;
   }
 
+  // Users whose role may write posts (directly or through "*"), plus anyone who already owns a post
   async findAuthors(): Promise<User[]> {
-    return await this.prisma.user.findMany({
+    return await this.db.user.findMany({
       where: {
-        role: { in: [UserRole.AUTHOR, UserRole.ADMIN] },
         isActive: true,
+        OR: [
+          { roleDefinition: { permissions: { hasSome: [Permission.POST_CREATE, Permission.ALL] } } },
+          { blogPosts: { some: {} } },
+        ],
       },
       select: {
         id: true,
@@ -127,6 +132,13 @@ export class UserRepository implements IUserRepository {
         bio: true,
         role: true,
         isActive: true,
+        emailVerified: true,
+        emailVerifiedAt: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+        twoFactorLastUsedStep: true,
+        storageQuotaMb: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -134,7 +146,7 @@ export class UserRepository implements IUserRepository {
   }
 
   async findActiveUsers(): Promise<User[]> {
-    return await this.prisma.user.findMany({
+    return await this.db.user.findMany({
       where: { isActive: true },
       select: {
         id: true,
@@ -147,6 +159,13 @@ export class UserRepository implements IUserRepository {
         bio: true,
         role: true,
         isActive: true,
+        emailVerified: true,
+        emailVerifiedAt: true,
+        twoFactorEnabled: true,
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+        twoFactorLastUsedStep: true,
+        storageQuotaMb: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -154,15 +173,24 @@ export class UserRepository implements IUserRepository {
   }
 
   async updateLastLogin(id: string): Promise<void> {
-    await this.prisma.user.update({
+    await this.db.user.update({
       where: { id },
       data: { updatedAt: new Date() },
     });
   }
 
   // Refresh Token metodları
-  async createRefreshToken(data: { token: string; userId: string; expiresAt: Date }): Promise<RefreshToken> {
-    return await this.prisma.refreshToken.create({
+  async createRefreshToken(data: {
+    token: string;
+    userId: string;
+    expiresAt: Date;
+    familyId: string;
+    sessionStartedAt?: Date;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+    device?: string | null;
+  }): Promise<RefreshToken> {
+    return await this.db.refreshToken.create({
       data: {
         ...data,
         revoked: false,
@@ -171,7 +199,7 @@ export class UserRepository implements IUserRepository {
   }
 
   async findRefreshToken(token: string): Promise<(RefreshToken & { user: User }) | null> {
-    return await this.prisma.refreshToken.findUnique({
+    return await this.db.refreshToken.findUnique({
       where: { token },
       include: { user: true },
     });
@@ -179,9 +207,9 @@ export class UserRepository implements IUserRepository {
 
   async revokeRefreshToken(token: string): Promise<void> {
     try {
-      await this.prisma.refreshToken.update({
+      await this.db.refreshToken.update({
         where: { token },
-        data: { revoked: true },
+        data: { revoked: true, revokedAt: new Date() },
       });
     } catch {
       logger.warn(`Attempted to revoke non-existent refresh token: ${token}`);
@@ -189,38 +217,70 @@ export class UserRepository implements IUserRepository {
   }
 
   async revokeAllRefreshTokens(userId: string): Promise<void> {
-    await this.prisma.refreshToken.updateMany({
+    await this.db.refreshToken.updateMany({
       where: { userId, revoked: false },
-      data: { revoked: true },
+      data: { revoked: true, revokedAt: new Date() },
     });
   }
 
+  // Revoked tokens are kept until they expire so that reuse can still be detected
   async cleanupExpiredRefreshTokens(): Promise<void> {
-    await this.prisma.refreshToken.deleteMany({
-      where: {
-        OR: [{ expiresAt: { lt: new Date() } }, { revoked: true }],
-      },
+    await this.db.refreshToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+  }
+
+  // Only one concurrent rotation of the same token can win
+  async rotateRefreshToken(id: string): Promise<boolean> {
+    const result = await this.db.refreshToken.updateMany({
+      where: { id, revoked: false },
+      data: { revoked: true, revokedAt: new Date() },
+    });
+    return result.count === 1;
+  }
+
+  async revokeRefreshTokenFamily(familyId: string, userId?: string): Promise<number> {
+    const result = await this.db.refreshToken.updateMany({
+      where: { familyId, revoked: false, ...(userId ? { userId } : {}) },
+      data: { revoked: true, revokedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  // Each active session has exactly one live token: the latest of its family
+  async findActiveSessions(userId: string): Promise<RefreshToken[]> {
+    return await this.db.refreshToken.findMany({
+      where: { userId, revoked: false, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: "desc" },
     });
   }
 
+  async isSessionActive(familyId: string, userId: string): Promise<boolean> {
+    const live = await this.db.refreshToken.findFirst({
+      where: { familyId, userId, revoked: false, expiresAt: { gt: new Date() } },
+      select: { id: true },
+    });
+    return !!live;
+  }
+
   // Blacklist metodları
   async createBlacklistedToken(data: {
     token: string;
     userId?: string | null;
     expiresAt: Date;
   }): Promise<TokenBlacklist> {
-    return await this.prisma.tokenBlacklist.create({ data });
+    return await this.db.tokenBlacklist.create({ data });
   }
 
   async findBlacklistedToken(token: string): Promise<TokenBlacklist | null> {
-    return await this.prisma.tokenBlacklist.findUnique({
+    return await this.db.tokenBlacklist.findUnique({
       where: { token },
     });
   }
 
   async cleanupExpiredBlacklistedToken(tokenId: string): Promise<void> {
     try {
-      await this.prisma.tokenBlacklist.delete({
+      await this.db.tokenBlacklist.delete({
         where: { id: tokenId },
       });
     } catch {
@@ -229,7 +289,7 @@ export class UserRepository implements IUserRepository {
   }
 
   async cleanupExpiredBlacklistedTokens(): Promise<void> {
-    await this.prisma.tokenBlacklist.deleteMany({
+    await this.db.tokenBlacklist.deleteMany({
       where: { expiresAt: { lt: new Date() } },
     });
   }
@@ -238,4 +298,51 @@ export class UserRepository implements IUserRepository {
     const blacklistedToken = await this.findBlacklistedToken(token);
     return !!blacklistedToken;
   }
+
+  // Email verification / password reset token metodları
+  async createUserToken(data: {
+    tokenHash: string;
+    type: UserTokenType;
+    userId: string;
+    expiresAt: Date;
+  }): Promise<UserToken> {
+    return await this.db.userToken.create({ data });
+  }
+
+  async findUserToken(tokenHash: string): Promise<UserToken | null> {
+    return await this.db.userToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  // Marks the token as used; false if it was already used or has expired
+  async consumeUserToken(id: string): Promise<boolean> {
+    const result = await this.db.userToken.updateMany({
+      where: { id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() },
+    });
+    return result.count === 1;
+  }
+
+  async revokeUserTokens(userId: string, type: UserTokenType): Promise<void> {
+    await this.db.userToken.updateMany({
+      where: { userId, type, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  }
+
+  async cleanupExpiredUserTokens(): Promise<void> {
+    await this.db.userToken.deleteMany({
+      where: {
+        OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }],
+      },
+    });
+  }
+
+  async markEmailVerified(id: string): Promise<User> {
+    return await this.db.user.update({
+      where: { id },
+      data: { emailVerified: true, emailVerifiedAt: new Date() },
+    });
+  }
 }
@@ -1,16 +1,10 @@
 // src/infrastructure/database/repositories/core/BaseRepository.ts
 
-import { PrismaClient } from "@prisma/client";
 import { IPaginatedResult } from "../../../../core/interfaces/Common/IPaginatedResult";
 import { IPagination } from "../../../../core/interfaces/Common/IPagination";
+import { PrismaRepository } from "./PrismaRepository";
 
-export abstract class BaseRepository<T> {
-  protected prisma: PrismaClient;
-
-  constructor(prisma: PrismaClient) {
-    this.prisma = prisma;
-  }
-
+export abstract class BaseRepository<T> extends PrismaRepository {
   protected buildSkipTake(page: number, limit: number): { skip: number; take: number } {
     const skip = (page - 1) * limit;
     return { skip, take: limit };
@@ -0,0 +1,30 @@
+// src/infrastructure/database/repositories/core/PrismaRepository.ts
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { TransactionContext } from "../../TransactionContext";
+
+export abstract class PrismaRepository {
+  protected prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  // Joins the unit of work transaction when one is running
+  protected get db(): Prisma.TransactionClient {
+    return TransactionContext.resolve(this.prisma);
+  }
+
+  /**
+   * Runs several statements atomically: inside the running unit of work when there is one,
+   * otherwise in a transaction of their own
+   */
+  protected async transaction<T>(work: (db: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+    const current = TransactionContext.current();
+    if (current) {
+      return work(current);
+    }
+
+    return this.prisma.$transaction((tx) => TransactionContext.run(tx, () => work(tx)));
+  }
+}
@@ -0,0 +1,117 @@
+// src/infrastructure/image/SharpImageProcessor.ts
+
+import sharp, { Metadata, Sharp } from "sharp";
+import { injectable } from "inversify";
+import {
+  IImageProcessor,
+  ImageFormat,
+  ImageVariantSpec,
+  ModernImageFormat,
+  ProcessedImage,
+  ProcessedImageFile,
+} from "../../core/interfaces/Services/IImageProcessor";
+import { ValidationError } from "../../core/errors";
+import { config } from "../../config/env";
+
+const INPUT_FORMATS: Record<string, ImageFormat> = {
+  jpeg: "jpeg",
+  png: "png",
+  webp: "webp",
+  gif: "gif",
+};
+
+/**
+ * libvips based processor. sharp drops EXIF, GPS and other metadata unless it is
+ * explicitly kept, so every stored file is free of it; the EXIF orientation is
+ * applied to the pixels first so photos are not stored sideways.
+ */
+@injectable()
+export class SharpImageProcessor implements IImageProcessor {
+  async process(input: Buffer, variants: ImageVariantSpec[], formats: ModernImageFormat[]): Promise<ProcessedImage> {
+    const metadata = await this.readMetadata(input);
+    const format = INPUT_FORMATS[metadata.format || ""];
+    if (!format) {
+      throw new ValidationError("Unsupported image format", { format: metadata.format });
+    }
+
+    const pages = metadata.pages || 1;
+    const animated = pages > 1;
+    const files: ProcessedImageFile[] = [await this.encode(input, pages, format, "original")];
+    const { width, height } = files[0];
+
+    // Resized variants use the original format as fallback, except for still GIFs which compress better as PNG
+    const fallbackFormat: ImageFormat = format === "gif" && !animated ? "png" : format;
+    const variantFormats = Array.from(new Set<ImageFormat>([fallbackFormat, ...formats]))
+      // libvips cannot encode animated AVIF
+      .filter((variantFormat) => !(animated && variantFormat === "avif"));
+
+    // Sizes are never enlarged; once one variant is clamped to the original width the larger ones would be copies
+    const sorted = [...variants].sort((a, b) => a.width - b.width);
+    const needed = sorted.filter((variant, index) => index === 0 || sorted[index - 1].width < width);
+
+    for (const variant of needed) {
+      for (const variantFormat of variantFormats) {
+        files.push(await this.encode(input, pages, variantFormat, variant.name, variant.width));
+      }
+    }
+
+    return { format, width, height, files };
+  }
+
+  async resize(input: Buffer, width: number, format: ImageFormat = "webp"): Promise<Buffer> {
+    await this.readMetadata(input);
+    const file = await this.encode(input, 1, format, "resized", width);
+    return file.buffer;
+  }
+
+  private async readMetadata(input: Buffer): Promise<Metadata> {
+    try {
+      return await sharp(input).metadata();
+    } catch {
+      throw new ValidationError("File is not a readable image");
+    }
+  }
+
+  private async encode(
+    input: Buffer,
+    pages: number,
+    format: ImageFormat,
+    variant: string,
+    width?: number
+  ): Promise<ProcessedImageFile> {
+    let pipeline = sharp(input, { animated: pages > 1 }).rotate();
+
+    if (width) {
+      pipeline = pipeline.resize({ width, withoutEnlargement: true });
+    }
+
+    const { data, info } = await this.applyFormat(pipeline, format).toBuffer({ resolveWithObject: true });
+
+    return {
+      variant,
+      format,
+      width: info.width,
+      // Frames of animated images are stacked vertically
+      height: Math.round(info.height / pages),
+      contentType: `image/${format}`,
+      buffer: data,
+    };
+  }
+
+  private applyFormat(pipeline: Sharp, format: ImageFormat): Sharp {
+    const quality = config.images.quality;
+
+    switch (format) {
+      case "jpeg":
+        return pipeline.jpeg({ quality, mozjpeg: true });
+      case "png":
+        return pipeline.png({ compressionLevel: 9 });
+      case "gif":
+        return pipeline.gif();
+      case "webp":
+        return pipeline.webp({ quality });
+      case "avif":
+        return pipeline.avif({ quality, effort: 4 });
+    }
+  }
+}
@@ -0,0 +1,22 @@
+// src/infrastructure/mail/ConsoleMailer.ts
+
+import { injectable } from "inversify";
+import { IMailer, MailMessage } from "../../core/interfaces/Services/IMailer";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+
+/**
+ * Development transport: writes outgoing mail to the application log
+ * instead of delivering it.
+ */
+@injectable()
+export class ConsoleMailer implements IMailer {
+  async send(message: MailMessage): Promise<void> {
+    logger.info('Mail sent (console transport)', {
+      from: config.mail.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
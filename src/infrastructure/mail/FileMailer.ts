@@ -0,0 +1,62 @@
+// src/infrastructure/mail/FileMailer.ts
+
+import fs from "fs/promises";
+import path from "path";
+import { injectable } from "inversify";
+import { IMailer, MailMessage } from "../../core/interfaces/Services/IMailer";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+
+/**
+ * Development transport: stores every outgoing mail as an .eml file
+ * in MAIL_OUTPUT_DIR so it can be opened with any mail client.
+ */
+@injectable()
+export class FileMailer implements IMailer {
+  async send(message: MailMessage): Promise<void> {
+    const outputDir = path.resolve(config.mail.outputDir);
+    await fs.mkdir(outputDir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filePath = path.join(outputDir, `${Date.now()}-${safeRecipient}.eml`);
+
+    await fs.writeFile(filePath, this.toEml(message), 'utf8');
+
+    logger.info('Mail written to file', {
+      to: message.to,
+      subject: message.subject,
+      file: filePath,
+    });
+  }
+
+  private toEml(message: MailMessage): string {
+    const headers = [
+      `From: ${config.mail.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+    ];
+
+    if (!message.html) {
+      return [...headers, 'Content-Type: text/plain; charset=utf-8', '', message.text, ''].join('\r\n');
+    }
+
+    const boundary = `boundary-${Date.now().toString(36)}`;
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      message.html,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+  }
+}
@@ -0,0 +1,100 @@
+// src/infrastructure/oauth/GitHubProvider.ts
+
+import {
+  AuthorizationRequest,
+  CodeExchangeRequest,
+  ExternalProfile,
+  IOAuthProvider,
+} from "../../core/interfaces/Services/IOAuthProvider";
+import { UnauthorizedError } from "../../core/errors";
+import logger from "../../utils/logger";
+
+const AUTHORIZE_URL = "https://github.com/login/oauth/authorize";
+const TOKEN_URL = "https://github.com/login/oauth/access_token";
+const API_URL = "https://api.github.com";
+
+/**
+ * GitHub is plain OAuth2 (no id_token); the profile and the verified
+ * primary email come from the REST API.
+ */
+export class GitHubProvider implements IOAuthProvider {
+  readonly id = "github";
+  readonly name = "GitHub";
+
+  constructor(private clientId: string, private clientSecret: string) {}
+
+  async buildAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const url = new URL(AUTHORIZE_URL);
+    url.search = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: request.redirectUri,
+      scope: "read:user user:email",
+      state: request.state,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: "S256",
+      allow_signup: "true",
+    }).toString();
+
+    return url.toString();
+  }
+
+  async exchangeCode(request: CodeExchangeRequest): Promise<ExternalProfile> {
+    const response = await fetch(TOKEN_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        code: request.code,
+        redirect_uri: request.redirectUri,
+        code_verifier: request.codeVerifier,
+      }).toString(),
+    });
+
+    const tokens: any = await response.json().catch(() => ({}));
+    if (!response.ok || !tokens.access_token) {
+      logger.warn("GitHub code exchange failed", { status: response.status, error: tokens.error });
+      throw new UnauthorizedError("Authorization code is invalid or expired");
+    }
+
+    const [user, emails] = await Promise.all([
+      this.api("/user", tokens.access_token),
+      this.api("/user/emails", tokens.access_token),
+    ]);
+
+    const primary = Array.isArray(emails)
+      ? emails.find((entry: any) => entry.primary && entry.verified)
+      : undefined;
+    const [firstName, ...rest] = String(user.name || "").trim().split(/\s+/);
+
+    return {
+      provider: this.id,
+      subject: String(user.id),
+      email: primary?.email?.toLowerCase(),
+      emailVerified: !!primary,
+      username: user.login,
+      firstName: firstName || undefined,
+      lastName: rest.join(" ") || undefined,
+      avatar: user.avatar_url,
+    };
+  }
+
+  private async api(path: string, accessToken: string): Promise<any> {
+    const response = await fetch(`${API_URL}${path}`, {
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${accessToken}`,
+        "User-Agent": "blog-api",
+      },
+    });
+
+    if (!response.ok) {
+      logger.warn("GitHub API request failed", { path, status: response.status });
+      throw new UnauthorizedError("Could not read the GitHub profile");
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,58 @@
+// src/infrastructure/oauth/OAuthProviderRegistry.ts
+
+import { injectable } from "inversify";
+import { IOAuthProvider, IOAuthProviderRegistry } from "../../core/interfaces/Services/IOAuthProvider";
+import { GitHubProvider } from "./GitHubProvider";
+import { OidcProvider } from "./OidcProvider";
+import { config } from "../../config/env";
+
+/**
+ * Builds the enabled login providers from configuration.
+ * A provider is enabled when its client id (and for generic OIDC, the issuer) is set.
+ */
+@injectable()
+export class OAuthProviderRegistry implements IOAuthProviderRegistry {
+  private readonly providers = new Map<string, IOAuthProvider>();
+
+  constructor() {
+    const { github, google, oidc } = config.oauth;
+
+    if (github.clientId) {
+      this.register(new GitHubProvider(github.clientId, github.clientSecret));
+    }
+
+    if (google.clientId) {
+      this.register(new OidcProvider({
+        id: "google",
+        name: "Google",
+        issuer: "https://accounts.google.com",
+        clientId: google.clientId,
+        clientSecret: google.clientSecret,
+        scopes: "openid email profile",
+      }));
+    }
+
+    if (oidc.issuer && oidc.clientId) {
+      this.register(new OidcProvider({
+        id: "oidc",
+        name: oidc.name,
+        issuer: oidc.issuer,
+        clientId: oidc.clientId,
+        clientSecret: oidc.clientSecret,
+        scopes: oidc.scopes,
+      }));
+    }
+  }
+
+  list(): IOAuthProvider[] {
+    return [...this.providers.values()];
+  }
+
+  get(id: string): IOAuthProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  private register(provider: IOAuthProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+}
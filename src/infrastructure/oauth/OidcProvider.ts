@@ -0,0 +1,209 @@
+// src/infrastructure/oauth/OidcProvider.ts
+
+import crypto from "crypto";
+import * as jwt from "jsonwebtoken";
+import {
+  AuthorizationRequest,
+  CodeExchangeRequest,
+  ExternalProfile,
+  IOAuthProvider,
+} from "../../core/interfaces/Services/IOAuthProvider";
+import { UnauthorizedError } from "../../core/errors";
+import logger from "../../utils/logger";
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+export interface OidcProviderOptions {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+}
+
+// Discovery document and signing keys are cached; keys are refetched when an unknown kid shows up
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const ALLOWED_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "PS256", "PS384", "PS512", "ES256", "ES384", "ES512"];
+
+/**
+ * OpenID Connect provider using discovery, the authorization code flow with
+ * PKCE, and id_token validation against the issuer's JWKS.
+ */
+export class OidcProvider implements IOAuthProvider {
+  readonly id: string;
+  readonly name: string;
+
+  private discovery?: { document: DiscoveryDocument; fetchedAt: number };
+  private jwks?: { keys: Array<crypto.JsonWebKey & { kid?: string }>; fetchedAt: number };
+
+  constructor(private options: OidcProviderOptions) {
+    this.id = options.id;
+    this.name = options.name;
+  }
+
+  async buildAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const { authorization_endpoint } = await this.getDiscovery();
+
+    const url = new URL(authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: this.options.clientId,
+      redirect_uri: request.redirectUri,
+      scope: this.options.scopes,
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: "S256",
+    }).toString();
+
+    return url.toString();
+  }
+
+  async exchangeCode(request: CodeExchangeRequest): Promise<ExternalProfile> {
+    const discovery = await this.getDiscovery();
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: request.code,
+        redirect_uri: request.redirectUri,
+        client_id: this.options.clientId,
+        client_secret: this.options.clientSecret,
+        code_verifier: request.codeVerifier,
+      }).toString(),
+    });
+
+    const tokens: any = await response.json().catch(() => ({}));
+    if (!response.ok || !tokens.id_token) {
+      logger.warn("OIDC code exchange failed", {
+        provider: this.id,
+        status: response.status,
+        error: tokens.error,
+      });
+      throw new UnauthorizedError("Authorization code is invalid or expired");
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, request.nonce, discovery.issuer);
+
+    // Some issuers only put email/profile claims in the userinfo response
+    let userInfo: any = {};
+    if (!claims.email && discovery.userinfo_endpoint && tokens.access_token) {
+      userInfo = await this.fetchUserInfo(discovery.userinfo_endpoint, tokens.access_token);
+      if (userInfo.sub !== claims.sub) userInfo = {};
+    }
+
+    const merged = { ...userInfo, ...claims };
+    return {
+      provider: this.id,
+      subject: String(merged.sub),
+      email: merged.email ? String(merged.email).toLowerCase() : undefined,
+      emailVerified: merged.email_verified === true || merged.email_verified === "true",
+      username: merged.preferred_username || merged.nickname,
+      firstName: merged.given_name,
+      lastName: merged.family_name,
+      avatar: merged.picture,
+    };
+  }
+
+  private async verifyIdToken(idToken: string, nonce: string, issuer: string): Promise<any> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === "string") {
+      throw new UnauthorizedError("Invalid id_token");
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+
+    let claims: any;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ALLOWED_ALGORITHMS,
+        audience: this.options.clientId,
+        issuer,
+        clockTolerance: 60,
+      });
+    } catch (error: any) {
+      logger.warn("OIDC id_token rejected", { provider: this.id, error: error.message });
+      throw new UnauthorizedError("Invalid id_token");
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new UnauthorizedError("Invalid id_token nonce");
+    }
+
+    return claims;
+  }
+
+  private async getSigningKey(kid?: string): Promise<crypto.KeyObject> {
+    let jwk = await this.findJwk(kid, false);
+    if (!jwk) jwk = await this.findJwk(kid, true);
+    if (!jwk) throw new UnauthorizedError("Unknown id_token signing key");
+
+    return crypto.createPublicKey({ key: jwk, format: "jwk" });
+  }
+
+  private async findJwk(kid: string | undefined, refresh: boolean) {
+    if (refresh || !this.jwks || Date.now() - this.jwks.fetchedAt > CACHE_TTL_MS) {
+      const { jwks_uri } = await this.getDiscovery();
+      const body: any = await this.fetchJson(jwks_uri);
+      this.jwks = { keys: Array.isArray(body.keys) ? body.keys : [], fetchedAt: Date.now() };
+    }
+
+    const signingKeys = this.jwks.keys.filter((key: any) => !key.use || key.use === "sig");
+    return kid ? signingKeys.find((key) => key.kid === kid) : signingKeys[0];
+  }
+
+  private async getDiscovery(): Promise<DiscoveryDocument> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < CACHE_TTL_MS) {
+      return this.discovery.document;
+    }
+
+    const document = await this.fetchJson(`${this.options.issuer}/.well-known/openid-configuration`);
+    if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+      throw new Error(`Incomplete OpenID configuration for ${this.id}`);
+    }
+
+    // id_tokens are checked against this issuer, so it has to be the one we were configured with
+    // (OIDC Discovery 4.3); the configured value has its trailing slash removed
+    const normalize = (issuer: string) => issuer.replace(/\/$/, "");
+    if (typeof document.issuer !== "string" || normalize(document.issuer) !== normalize(this.options.issuer)) {
+      logger.error("OIDC discovery issuer mismatch", {
+        provider: this.id,
+        expected: this.options.issuer,
+        received: document.issuer,
+      });
+      throw new Error(`OpenID configuration of ${this.id} names another issuer`);
+    }
+
+    this.discovery = { document, fetchedAt: Date.now() };
+    return document;
+  }
+
+  private async fetchUserInfo(endpoint: string, accessToken: string): Promise<any> {
+    try {
+      return await this.fetchJson(endpoint, { Authorization: `Bearer ${accessToken}` });
+    } catch (error: any) {
+      logger.warn("OIDC userinfo request failed", { provider: this.id, error: error.message });
+      return {};
+    }
+  }
+
+  private async fetchJson(url: string, headers: Record<string, string> = {}): Promise<any> {
+    const response = await fetch(url, { headers: { Accept: "application/json", ...headers } });
+    if (!response.ok) {
+      throw new Error(`${url} responded with ${response.status}`);
+    }
+    return response.json();
+  }
+}
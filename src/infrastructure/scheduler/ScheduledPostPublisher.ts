@@ -0,0 +1,79 @@
+// src/infrastructure/scheduler/ScheduledPostPublisher.ts
+
+import { inject, injectable } from "inversify";
+import { TYPES } from "../../core/container/types";
+import { IBlogPostService } from "../../core/interfaces/Services/IBlogPostService";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+
+/**
+ * In-process publisher for scheduled posts.
+ * Polls for due posts and publishes them through BlogPostService.publishDuePosts.
+ */
+@injectable()
+export class ScheduledPostPublisher {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    @inject(TYPES.IBlogPostService) private blogPostService: IBlogPostService
+  ) {}
+
+  public start(intervalMs: number = config.scheduler.publishIntervalMs): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    // Do not keep the process alive just for the scheduler
+    this.timer.unref();
+
+    logger.info('Scheduled post publisher started', { intervalMs });
+
+    // Catch up on posts that became due while the server was down
+    void this.runOnce();
+  }
+
+  public stop(): void {
+    if (!this.timer) {
+      return;
+    }
+
+    clearInterval(this.timer);
+    this.timer = null;
+    logger.info('Scheduled post publisher stopped');
+  }
+
+  public async runOnce(now: Date = new Date()): Promise<number> {
+    // Skip the tick if the previous run is still in progress
+    if (this.isRunning) {
+      return 0;
+    }
+
+    this.isRunning = true;
+    try {
+      const publishedPosts = await this.blogPostService.publishDuePosts(now, config.scheduler.batchSize);
+
+      for (const post of publishedPosts) {
+        logger.info('Scheduled blog post published', {
+          postId: post.id,
+          postTitle: post.title,
+          publishedAt: post.publishedAt,
+        });
+      }
+
+      return publishedPosts.length;
+    } catch (error: any) {
+      logger.error('Scheduled post publisher error', {
+        error: error.message,
+        stack: error.stack,
+      });
+      return 0;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
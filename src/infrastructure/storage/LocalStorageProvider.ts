@@ -0,0 +1,100 @@
+// src/infrastructure/storage/LocalStorageProvider.ts
+
+import fs from "fs/promises";
+import path from "path";
+import { injectable } from "inversify";
+import { IStorageProvider, PutObjectOptions, StoredObject } from "../../core/interfaces/Services/IStorageProvider";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+import { encodeStorageKey, keyFromPrefixedUrl, normalizeStorageKey } from "./storageKey";
+
+/**
+ * Stores files under STORAGE_LOCAL_DIR. The application serves that directory
+ * as static files on STORAGE_LOCAL_PUBLIC_PATH, so no object store is needed
+ * for development.
+ */
+@injectable()
+export class LocalStorageProvider implements IStorageProvider {
+  readonly driver = "local" as const;
+  readonly rootDirectory = path.resolve(config.storage.local.directory);
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.rootDirectory, { recursive: true });
+    logger.info("Local storage ready", { directory: this.rootDirectory });
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions): Promise<StoredObject> {
+    const normalizedKey = normalizeStorageKey(key);
+    const filePath = this.resolvePath(normalizedKey);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+
+    return {
+      key: normalizedKey,
+      url: this.getUrl(normalizedKey),
+      size: body.length,
+      contentType: options.contentType,
+    };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolvePath(normalizeStorageKey(key)));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.resolvePath(normalizeStorageKey(key)));
+      return true;
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        logger.error("Failed to delete file from local storage", { key, error: error.message });
+      }
+      return false;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolvePath(normalizeStorageKey(key)));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicBaseUrl()}/${encodeStorageKey(normalizeStorageKey(key))}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    // Both absolute URLs and paths relative to the API host are accepted
+    return (
+      keyFromPrefixedUrl(url, this.publicBaseUrl()) ?? keyFromPrefixedUrl(url, config.storage.local.publicPath)
+    );
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await fs.access(this.rootDirectory, fs.constants.W_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private publicBaseUrl(): string {
+    return `${config.site.apiUrl}${config.storage.local.publicPath}`;
+  }
+
+  private resolvePath(key: string): string {
+    return path.join(this.rootDirectory, ...key.split("/"));
+  }
+}
@@ -0,0 +1,59 @@
+// src/infrastructure/storage/MemoryStorageProvider.ts
+
+import { injectable } from "inversify";
+import { IStorageProvider, PutObjectOptions, StoredObject } from "../../core/interfaces/Services/IStorageProvider";
+import { config } from "../../config/env";
+import { encodeStorageKey, keyFromPrefixedUrl, normalizeStorageKey } from "./storageKey";
+
+/**
+ * Keeps objects in process memory, for tests and throwaway environments.
+ * Nothing is served over HTTP and everything is lost on restart.
+ */
+@injectable()
+export class MemoryStorageProvider implements IStorageProvider {
+  readonly driver = "memory" as const;
+  private objects = new Map<string, { body: Buffer; contentType: string }>();
+
+  async initialize(): Promise<void> {}
+
+  async put(key: string, body: Buffer, options: PutObjectOptions): Promise<StoredObject> {
+    const normalizedKey = normalizeStorageKey(key);
+    this.objects.set(normalizedKey, { body: Buffer.from(body), contentType: options.contentType });
+
+    return {
+      key: normalizedKey,
+      url: this.getUrl(normalizedKey),
+      size: body.length,
+      contentType: options.contentType,
+    };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const object = this.objects.get(normalizeStorageKey(key));
+    return object ? Buffer.from(object.body) : null;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.objects.delete(normalizeStorageKey(key));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.objects.has(normalizeStorageKey(key));
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicBaseUrl()}/${encodeStorageKey(normalizeStorageKey(key))}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    return keyFromPrefixedUrl(url, this.publicBaseUrl());
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  private publicBaseUrl(): string {
+    return `${config.site.apiUrl}${config.storage.local.publicPath}`;
+  }
+}
@@ -0,0 +1,143 @@
+// src/infrastructure/storage/S3StorageProvider.ts
+
+import { injectable } from "inversify";
+import * as Minio from "minio";
+import { IStorageProvider, PutObjectOptions, StoredObject } from "../../core/interfaces/Services/IStorageProvider";
+import { config } from "../../config/env";
+import logger from "../../utils/logger";
+import { encodeStorageKey, keyFromPrefixedUrl, normalizeStorageKey } from "./storageKey";
+
+/**
+ * Stores files in an S3 compatible bucket (MinIO, AWS S3, R2...). Objects are
+ * public-read and served by the object store itself, or by MINIO_PUBLIC_URL.
+ */
+@injectable()
+export class S3StorageProvider implements IStorageProvider {
+  readonly driver = "s3" as const;
+  private client: Minio.Client;
+  private bucketName = config.minio.bucketName;
+
+  constructor() {
+    this.client = new Minio.Client({
+      endPoint: config.minio.endPoint,
+      port: config.minio.port,
+      useSSL: config.minio.useSSL,
+      accessKey: config.minio.accessKey,
+      secretKey: config.minio.secretKey,
+    });
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      const bucketExists = await this.client.bucketExists(this.bucketName);
+      if (bucketExists) {
+        logger.info(`S3 bucket already exists: ${this.bucketName}`);
+        return;
+      }
+
+      await this.client.makeBucket(this.bucketName, "us-east-1");
+      logger.info(`Created S3 bucket: ${this.bucketName}`);
+
+      // Set bucket policy for public read access to uploaded files
+      const policy = {
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Effect: "Allow",
+            Principal: { AWS: ["*"] },
+            Action: ["s3:GetObject"],
+            Resource: [`arn:aws:s3:::${this.bucketName}/*`],
+          },
+        ],
+      };
+
+      await this.client.setBucketPolicy(this.bucketName, JSON.stringify(policy));
+      logger.info(`Set public read policy for bucket: ${this.bucketName}`);
+    } catch (error: any) {
+      logger.error("Failed to initialize S3 storage", {
+        endpoint: config.minio.endPoint,
+        port: config.minio.port,
+        bucket: this.bucketName,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
+  async put(key: string, body: Buffer, options: PutObjectOptions): Promise<StoredObject> {
+    const normalizedKey = normalizeStorageKey(key);
+
+    await this.client.putObject(this.bucketName, normalizedKey, body, body.length, {
+      "Content-Type": options.contentType,
+      ...(options.cacheControl && { "Cache-Control": options.cacheControl }),
+    });
+
+    return {
+      key: normalizedKey,
+      url: this.getUrl(normalizedKey),
+      size: body.length,
+      contentType: options.contentType,
+    };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const stream = await this.client.getObject(this.bucketName, normalizeStorageKey(key));
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+      }
+      return Buffer.concat(chunks);
+    } catch (error: any) {
+      if (error.code === "NoSuchKey" || error.code === "NotFound") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await this.client.removeObject(this.bucketName, normalizeStorageKey(key));
+      return true;
+    } catch (error: any) {
+      logger.error("Failed to delete object from S3 storage", { key, error: error.message });
+      return false;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.statObject(this.bucketName, normalizeStorageKey(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicBaseUrl()}/${encodeStorageKey(normalizeStorageKey(key))}`;
+  }
+
+  keyFromUrl(url: string): string | null {
+    return keyFromPrefixedUrl(url, this.publicBaseUrl());
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      return await this.client.bucketExists(this.bucketName);
+    } catch {
+      return false;
+    }
+  }
+
+  private publicBaseUrl(): string {
+    if (config.minio.publicUrl) {
+      return config.minio.publicUrl;
+    }
+
+    const protocol = config.minio.useSSL ? "https" : "http";
+    const port = config.minio.port === 443 || config.minio.port === 80 ? "" : `:${config.minio.port}`;
+    return `${protocol}://${config.minio.endPoint}${port}/${this.bucketName}`;
+  }
+}
@@ -0,0 +1,34 @@
+// src/infrastructure/storage/storageKey.ts
+
+import { ValidationError } from "../../core/errors";
+
+/**
+ * Normalizes an object key to a relative, forward-slash path and rejects keys
+ * that could escape the storage root ("..", absolute paths, empty segments)
+ */
+export const normalizeStorageKey = (key: string): string => {
+  const segments = key.replace(/\\/g, "/").replace(/^\/+/, "").split("/");
+
+  if (segments.some((segment) => segment === "" || segment === "." || segment === "..")) {
+    throw new ValidationError("Invalid storage key", { key });
+  }
+
+  return segments.join("/");
+};
+
+// Key part of a URL that starts with the given base, null for any other URL
+export const keyFromPrefixedUrl = (url: string, base: string): string | null => {
+  const prefix = `${base}/`;
+  if (!url.startsWith(prefix)) {
+    return null;
+  }
+
+  try {
+    return normalizeStorageKey(decodeURIComponent(url.slice(prefix.length).split("?")[0]));
+  } catch {
+    return null;
+  }
+};
+
+// Encodes every segment of a key for use in a URL
+export const encodeStorageKey = (key: string): string => key.split("/").map(encodeURIComponent).join("/");
@@ -0,0 +1,122 @@
+// src/presentation/controllers/ApiKeyController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { IApiKeyService } from "../../core/interfaces/Services/IApiKeyService";
+import { CreateApiKeyDto } from "../../application/dtos/apiKey/ApiKeyDto";
+import { ApiKeyScope } from "../../domain/enums/ApiKeyScope";
+
+@injectable()
+export class ApiKeyController {
+  constructor(
+    @inject(TYPES.IApiKeyService) private apiKeyService: IApiKeyService
+  ) {}
+
+  // GET /api/users/api-keys/scopes
+  async getScopes(request: FastifyRequest, reply: FastifyReply) {
+    return reply.send({
+      success: true,
+      data: Object.values(ApiKeyScope),
+    });
+  }
+
+  // GET /api/users/api-keys (Auth required)
+  async getMyApiKeys(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const apiKeys = await this.apiKeyService.listForUser(request.user!.id);
+
+      return reply.send({
+        success: true,
+        data: apiKeys,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get API keys error');
+    }
+  }
+
+  // POST /api/users/api-keys (Auth required)
+  async createApiKey(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const dto = request.body as CreateApiKeyDto;
+      const result = await this.apiKeyService.create(request.user!.id, dto);
+
+      logger.info('API key created', {
+        userId: request.user!.id,
+        apiKeyId: result.apiKey.id,
+        ip: request.ip
+      });
+
+      return reply.status(201).send({
+        success: true,
+        message: 'API key created. Copy it now, it will not be shown again',
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Create API key error');
+    }
+  }
+
+  // DELETE /api/users/api-keys/:id (Auth required)
+  async revokeApiKey(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      await this.apiKeyService.revoke(request.user!.id, id);
+
+      return reply.send({
+        success: true,
+        message: 'API key revoked successfully',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Revoke API key error');
+    }
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,137 @@
+// src/presentation/controllers/AuditController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError, ValidationError } from "../../core/errors";
+import { IAuditService } from "../../core/interfaces/Services/IAuditService";
+import { AuditLogFilter } from "../../domain/entities/AuditLog";
+
+interface AuditQuery {
+  actorId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  requestId?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+  limit?: string;
+}
+
+@injectable()
+export class AuditController {
+  constructor(
+    @inject(TYPES.IAuditService) private auditService: IAuditService
+  ) {}
+
+  // GET /api/admin/audit (Auth required - audit.read)
+  async getAuditLogs(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as AuditQuery;
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(query.limit || '20') || 20));
+
+      const result = await this.auditService.list(this.parseFilter(query), page, limit);
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get audit logs error');
+    }
+  }
+
+  // GET /api/admin/audit/export (Auth required - audit.read)
+  async exportAuditLogs(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const filter = this.parseFilter(request.query as AuditQuery);
+      const csv = await this.auditService.exportCsv(filter);
+
+      logger.info('Audit log exported', {
+        userId: request.user!.id,
+        filter,
+        ip: request.ip,
+      });
+
+      const fileName = `audit-${new Date().toISOString().slice(0, 10)}.csv`;
+      return reply
+        .header('Content-Disposition', `attachment; filename="${fileName}"`)
+        .type('text/csv; charset=utf-8')
+        .send(csv);
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Export audit logs error');
+    }
+  }
+
+  private parseFilter(query: AuditQuery): AuditLogFilter {
+    const filter: AuditLogFilter = {
+      actorId: query.actorId || undefined,
+      action: query.action || undefined,
+      targetType: query.targetType || undefined,
+      targetId: query.targetId || undefined,
+      requestId: query.requestId || undefined,
+    };
+
+    for (const key of ['from', 'to'] as const) {
+      if (query[key]) {
+        const date = new Date(query[key]!);
+        if (isNaN(date.getTime())) {
+          throw new ValidationError(`Invalid ${key} date`, { [key]: query[key] });
+        }
+        filter[key] = date;
+      }
+    }
+
+    return filter;
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
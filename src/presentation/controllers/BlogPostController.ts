@@ -4,16 +4,28 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { TYPES } from '../../core/container/types';
 import logger from '../../utils/logger';
 import { IBlogPostService } from '../../core/interfaces/Services/IBlogPostService';
-import { IImageService } from '../../core/interfaces/Services/IImageService';
+import { IMediaService } from '../../core/interfaces/Services/IMediaService';
+import { IPermissionService } from '../../core/interfaces/Services/IPermissionService';
+import { ICategoryService } from '../../core/interfaces/Services/ICategoryService';
+import { ITagService } from '../../core/interfaces/Services/ITagService';
 import { CreateBlogPostDto } from '../../application/dtos/blogPost/CreateBlogPostDto';
 import { UpdateBlogPostDto } from '../../application/dtos/blogPost/UpdateBlogPostDto';
-import { MultipartFile } from '@fastify/multipart';
+import { UpdatePostAuthorsDto } from '../../application/dtos/blogPost/UpdatePostAuthorsDto';
+import { BlogPostResponseDto } from '../../application/dtos/blogPost/BlogPostResponseDto';
+import { BaseError } from '../../core/errors';
+import { redirectToCanonicalSlug } from '../../utils/slugRedirect';
+import { Permission, PolicyAction } from '../../domain/enums/Permission';
+import { PolicySubject } from '../../domain/entities/Role';
+import { PostAuthorUtils } from '../../domain/entities/PostAuthor';
 
 @injectable()
 export class BlogPostController {
   constructor(
     @inject(TYPES.IBlogPostService) private blogPostService: IBlogPostService,
-    @inject(TYPES.IImageService) private imageService: IImageService
+    @inject(TYPES.IMediaService) private mediaService: IMediaService,
+    @inject(TYPES.IPermissionService) private permissionService: IPermissionService,
+    @inject(TYPES.ICategoryService) private categoryService: ICategoryService,
+    @inject(TYPES.ITagService) private tagService: ITagService
   ) {}
 
   // GET /api/posts
@@ -91,6 +103,51 @@ export class BlogPostController {
     }
   }
 
+  // GET /api/posts/:id/related
+  async getRelatedPosts(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const query = request.query as { limit?: string };
+      const limit = parseInt(query.limit || '5') || 5;
+
+      const posts = await this.blogPostService.getRelated(id, limit);
+      if (!posts) {
+        return reply.status(404).send({ 
+          error: 'Not Found',
+          message: 'Post not found',
+          statusCode: 404
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: posts,
+      });
+    } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
+      logger.error('Get related posts error:', {
+        error: error.message,
+        stack: error.stack,
+        params: request.params,
+        query: request.query,
+        ip: request.ip
+      });
+
+      return reply.status(500).send({ 
+        error: 'Internal Server Error',
+        message: 'Failed to fetch related posts',
+        statusCode: 500
+      });
+    }
+  }
+
   async getPostById(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
@@ -148,6 +205,12 @@ export class BlogPostController {
       const post = await this.blogPostService.getBySlug(slug);
       
       if (!post) {
+        // Links to a renamed post keep working
+        const redirectSlug = await this.blogPostService.getRedirectSlug(slug);
+        if (redirectSlug) {
+          return redirectToCanonicalSlug(request, reply, redirectSlug);
+        }
+
         return reply.status(404).send({ 
           error: 'Not Found',
           message: 'Post not found',
@@ -196,7 +259,13 @@ export class BlogPostController {
         sortOrder: query.sortOrder || 'desc',
       };
 
-      const result = await this.blogPostService.getByCategory(categorySlug, options);
+      // Former slugs of renamed or merged categories point at their current category
+      const redirectSlug = await this.categoryService.getRedirectSlug(categorySlug);
+      if (redirectSlug) {
+        return redirectToCanonicalSlug(request, reply, redirectSlug);
+      }
+
+      const result = await this.blogPostService.getByCategory(categorySlug, options, query.includeDescendants === true);
       
       return reply.send({
         success: true,
@@ -220,6 +289,58 @@ export class BlogPostController {
     }
   }
 
+  // GET /api/posts/tag/:slug
+  async getPostsByTag(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { slug } = request.params as { slug: string };
+      const query = request.query as any;
+
+      const options = {
+        page: parseInt(query.page) || 1,
+        limit: parseInt(query.limit) || 10,
+        sortBy: query.sortBy || 'publishedAt',
+        sortOrder: query.sortOrder || 'desc',
+      };
+
+      // Former slugs of renamed or merged tags point at their current tag
+      const redirectSlug = await this.tagService.getRedirectSlug(slug);
+      if (redirectSlug) {
+        return redirectToCanonicalSlug(request, reply, redirectSlug);
+      }
+
+      const result = await this.blogPostService.getByTag(slug, options);
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      logger.error('Get posts by tag error:', {
+        error: error.message,
+        stack: error.stack,
+        params: request.params,
+        query: request.query,
+        ip: request.ip
+      });
+
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          code: error.code,
+          statusCode: error.statusCode
+        });
+      }
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch posts by tag',
+        statusCode: 500
+      });
+    }
+  }
+
   // GET /api/posts/popular
   async getPopularPosts(request: FastifyRequest, reply: FastifyReply) {
     try {
@@ -319,7 +440,7 @@ export class BlogPostController {
     }
   }
 
-  // POST /api/posts (Auth required - AUTHOR/ADMIN)
+  // POST /api/posts (Auth required - post.create)
   async createPost(request: FastifyRequest, reply: FastifyReply) {
     try {
       const postData = request.body as CreateBlogPostDto;
@@ -341,6 +462,14 @@ export class BlogPostController {
         data: post,
       });
     } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
       logger.error('Create post error:', {
         error: error.message,
         stack: error.stack,
@@ -357,13 +486,13 @@ export class BlogPostController {
     }
   }
 
-  // PUT /api/posts/:id (Auth required - Owner/ADMIN)
+  // PUT /api/posts/:id (Auth required - post.edit)
   async updatePost(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
       const updateData = request.body as UpdateBlogPostDto;
 
-      // Check if user owns the post or is admin
+      // Check if the user may act on this post (own post or ".any" permission)
       const existingPost = await this.blogPostService.getById(id);
       if (!existingPost) {
         return reply.status(404).send({ 
@@ -373,7 +502,7 @@ export class BlogPostController {
         });
       }
 
-      if (existingPost.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.canActOn(request.user!, 'post.edit', existingPost))) {
         return reply.status(403).send({ 
           error: 'Forbidden',
           message: 'Not authorized to update this post',
@@ -381,7 +510,7 @@ export class BlogPostController {
         });
       }
 
-      const post = await this.blogPostService.update(id, updateData);
+      const post = await this.blogPostService.update(id, updateData, request.user!.id);
       
       logger.info('Blog post updated', {
         postId: id,
@@ -397,6 +526,14 @@ export class BlogPostController {
         data: post,
       });
     } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
       logger.error('Update post error:', {
         error: error.message,
         stack: error.stack,
@@ -414,12 +551,12 @@ export class BlogPostController {
     }
   }
 
-  // DELETE /api/posts/:id (Auth required - Owner/ADMIN)
+  // DELETE /api/posts/:id (Auth required - post.delete)
   async deletePost(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
 
-      // Check if user owns the post or is admin
+      // Check if the user may act on this post (own post or ".any" permission)
       const existingPost = await this.blogPostService.getById(id);
       if (!existingPost) {
         return reply.status(404).send({ 
@@ -429,7 +566,7 @@ export class BlogPostController {
         });
       }
 
-      if (existingPost.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.canActOn(request.user!, 'post.delete', existingPost))) {
         return reply.status(403).send({ 
           error: 'Forbidden',
           message: 'Not authorized to delete this post',
@@ -478,7 +615,7 @@ export class BlogPostController {
     try {
       const { id } = request.params as { id: string };
       
-      // Check if user owns the post or is admin
+      // Check if the user may act on this post (own post or ".any" permission)
       const existingPost = await this.blogPostService.getById(id);
       if (!existingPost) {
         return reply.status(404).send({ 
@@ -488,7 +625,7 @@ export class BlogPostController {
         });
       }
 
-      if (existingPost.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.canActOn(request.user!, 'post.edit', existingPost))) {
         return reply.status(403).send({ 
           error: 'Forbidden',
           message: 'Not authorized to upload images for this post',
@@ -496,48 +633,17 @@ export class BlogPostController {
         });
       }
 
-      // ✅ Fixed: Proper file handling with type safety
-      const data: MultipartFile | undefined = await request.file();
-      if (!data) {
-        return reply.status(400).send({ 
-          error: 'Validation Error',
-          message: 'No file uploaded',
-          statusCode: 400
-        });
-      }
+      // Size, type and quota were checked by the acceptUploads preHandler
+      const [file] = request.uploads!;
 
-      // Validate file type
-      const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
-      if (!allowedTypes.includes(data.mimetype)) {
-        return reply.status(400).send({ 
-          error: 'Validation Error',
-          message: 'Invalid file type. Only JPEG, PNG, WebP, and GIF are allowed',
-          statusCode: 400
-        });
-      }
-
-      const buffer = await data.toBuffer();
-      
-      // Validate file size (5MB max)
-      if (buffer.length > 5 * 1024 * 1024) {
-        return reply.status(400).send({ 
-          error: 'Validation Error',
-          message: 'File size too large. Maximum 5MB allowed',
-          statusCode: 400
-        });
-      }
-
-      const imageUrl = await this.imageService.uploadImage(
-        buffer,
-        data.filename,
-        data.mimetype
-      );
+      // Uploads land in the media library, re-uploading the same file reuses its asset
+      const { asset: image } = await this.mediaService.upload(file, request.user!.id);
 
       logger.info('Image uploaded for blog post', {
         postId: id,
-        imageUrl,
-        fileName: data.filename,
-        fileSize: buffer.length,
+        imageUrl: image.url,
+        fileName: file.fileName,
+        fileSize: file.buffer.length,
         authorId: request.user!.id,
         ip: request.ip
       });
@@ -545,9 +651,17 @@ export class BlogPostController {
       return reply.send({
         success: true,
         message: 'Image uploaded successfully',
-        data: { imageUrl },
+        data: { imageUrl: image.url, image },
       });
     } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
       logger.error('Upload image error:', {
         error: error.message,
         stack: error.stack,
@@ -564,12 +678,12 @@ export class BlogPostController {
     }
   }
 
-  // POST /api/posts/:id/upload-multiple-images (Auth required - Owner/ADMIN)
+  // POST /api/posts/:id/upload-multiple-images (Auth required - media.upload + post.edit)
   async uploadMultipleImages(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
       
-      // Check if user owns the post or is admin
+      // Check if the user may act on this post (own post or ".any" permission)
       const existingPost = await this.blogPostService.getById(id);
       if (!existingPost) {
         return reply.status(404).send({ 
@@ -579,7 +693,7 @@ export class BlogPostController {
         });
       }
 
-      if (existingPost.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.canActOn(request.user!, 'post.edit', existingPost))) {
         return reply.status(403).send({ 
           error: 'Forbidden',
           message: 'Not authorized to upload images for this post',
@@ -587,56 +701,10 @@ export class BlogPostController {
         });
       }
 
-      const files: MultipartFile[] = [];
-      const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
-      const maxFileSize = 5 * 1024 * 1024; // 5MB
-      const maxFiles = 10;
-
-      // ✅ Process multiple files
-      for await (const file of request.files()) {
-        if (files.length >= maxFiles) {
-          return reply.status(400).send({
-            error: 'Validation Error',
-            message: `Maximum ${maxFiles} files allowed`,
-            statusCode: 400
-          });
-        }
-
-        if (!allowedTypes.includes(file.mimetype)) {
-          return reply.status(400).send({
-            error: 'Validation Error',
-            message: `Invalid file type: ${file.filename}. Only JPEG, PNG, WebP, and GIF are allowed`,
-            statusCode: 400
-          });
-        }
-
-        const buffer = await file.toBuffer();
-        if (buffer.length > maxFileSize) {
-          return reply.status(400).send({
-            error: 'Validation Error',
-            message: `File too large: ${file.filename}. Maximum 5MB allowed`,
-            statusCode: 400
-          });
-        }
-
-        files.push(file);
-      }
-
-      if (files.length === 0) {
-        return reply.status(400).send({
-          error: 'Validation Error',
-          message: 'No files uploaded',
-          statusCode: 400
-        });
-      }
-
-      // Upload all files
-      const uploadPromises = files.map(async (file) => {
-        const buffer = await file.toBuffer();
-        return await this.imageService.uploadImage(buffer, file.filename, file.mimetype);
-      });
-
-      const imageUrls = await Promise.all(uploadPromises);
+      // Count, size, type and quota were checked by the acceptUploads preHandler
+      const uploads = await this.mediaService.uploadMany(request.uploads!, request.user!.id);
+      const images = uploads.map((upload) => upload.asset);
+      const imageUrls = images.map((image) => image.url);
 
       logger.info('Multiple images uploaded for blog post', {
         postId: id,
@@ -649,9 +717,17 @@ export class BlogPostController {
       return reply.send({
         success: true,
         message: `${imageUrls.length} images uploaded successfully`,
-        data: { imageUrls },
+        data: { imageUrls, images },
       });
     } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
       logger.error('Upload multiple images error:', {
         error: error.message,
         stack: error.stack,
@@ -705,11 +781,11 @@ export class BlogPostController {
     }
   }
 
-  // GET /api/posts/drafts (Auth required - Own drafts or ADMIN)
+  // GET /api/posts/drafts (Auth required - own drafts, all with post.edit.any)
   async getDrafts(request: FastifyRequest, reply: FastifyReply) {
     try {
       const query = request.query as any;
-      const authorId = request.user!.role === 'ADMIN' ? undefined : request.user!.id;
+      const authorId = (await this.permissionService.can(request.user!, Permission.POST_EDIT_ANY)) ? undefined : request.user!.id;
       
       const options = {
         page: parseInt(query.page) || 1,
@@ -718,7 +794,7 @@ export class BlogPostController {
         sortOrder: query.sortOrder || 'desc',
         filters: {
           status: 'DRAFT',
-          ...(authorId && { authorId })
+          ...(authorId && { authors: { some: { userId: authorId } } })
         }
       };
 
@@ -746,12 +822,12 @@ export class BlogPostController {
     }
   }
 
-  // PUT /api/posts/:id/publish (Auth required - Owner/ADMIN)
+  // PUT /api/posts/:id/publish (Auth required - post.publish)
   async publishPost(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
 
-      // Check if user owns the post or is admin
+      // Check if the user may act on this post (own post or ".any" permission)
       const existingPost = await this.blogPostService.getById(id);
       if (!existingPost) {
         return reply.status(404).send({ 
@@ -761,7 +837,7 @@ export class BlogPostController {
         });
       }
 
-      if (existingPost.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.canActOn(request.user!, 'post.publish', existingPost))) {
         return reply.status(403).send({ 
           error: 'Forbidden',
           message: 'Not authorized to publish this post',
@@ -777,10 +853,7 @@ export class BlogPostController {
         });
       }
 
-      const post = await this.blogPostService.update(id, {
-        isPublished: true,
-        status: 'PUBLISHED' as any
-      });
+      const post = await this.blogPostService.publish(id, request.user!.id);
       
       logger.info('Blog post published', {
         postId: id,
@@ -795,6 +868,14 @@ export class BlogPostController {
         data: post,
       });
     } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
       logger.error('Publish post error:', {
         error: error.message,
         stack: error.stack,
@@ -811,12 +892,12 @@ export class BlogPostController {
     }
   }
 
-  // PUT /api/posts/:id/unpublish (Auth required - Owner/ADMIN)
+  // PUT /api/posts/:id/unpublish (Auth required - post.publish)
   async unpublishPost(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
 
-      // Check if user owns the post or is admin
+      // Check if the user may act on this post (own post or ".any" permission)
       const existingPost = await this.blogPostService.getById(id);
       if (!existingPost) {
         return reply.status(404).send({ 
@@ -826,7 +907,7 @@ export class BlogPostController {
         });
       }
 
-      if (existingPost.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.canActOn(request.user!, 'post.publish', existingPost))) {
         return reply.status(403).send({ 
           error: 'Forbidden',
           message: 'Not authorized to unpublish this post',
@@ -842,10 +923,7 @@ export class BlogPostController {
         });
       }
 
-      const post = await this.blogPostService.update(id, {
-        isPublished: false,
-        status: 'DRAFT' as any
-      });
+      const post = await this.blogPostService.unpublish(id, request.user!.id);
       
       logger.info('Blog post unpublished', {
         postId: id,
@@ -860,6 +938,14 @@ export class BlogPostController {
         data: post,
       });
     } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
       logger.error('Unpublish post error:', {
         error: error.message,
         stack: error.stack,
@@ -876,12 +962,166 @@ export class BlogPostController {
     }
   }
 
-  // GET /api/posts/:id/analytics (Auth required - Owner/ADMIN)
+  // PUT /api/posts/:id/schedule (Auth required - post.publish)
+  async schedulePost(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const { scheduledFor } = request.body as { scheduledFor: string };
+
+      const post = await this.blogPostService.schedule(id, scheduledFor, request.user!.id);
+
+      logger.info('Blog post scheduled', {
+        postId: id,
+        postTitle: post.title,
+        scheduledFor: post.scheduledFor,
+        scheduledBy: request.user!.id,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Post scheduled successfully',
+        data: post,
+      });
+    } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
+      logger.error('Schedule post error:', {
+        error: error.message,
+        stack: error.stack,
+        params: request.params,
+        body: request.body,
+        userId: request.user?.id,
+        ip: request.ip
+      });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to schedule post',
+        statusCode: 500
+      });
+    }
+  }
+
+  // DELETE /api/posts/:id/schedule (Auth required - post.publish)
+  async cancelSchedule(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+
+      const post = await this.blogPostService.cancelSchedule(id, request.user!.id);
+
+      logger.info('Blog post schedule cancelled', {
+        postId: id,
+        postTitle: post.title,
+        cancelledBy: request.user!.id,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Post schedule cancelled successfully',
+        data: post,
+      });
+    } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
+      logger.error('Cancel schedule error:', {
+        error: error.message,
+        stack: error.stack,
+        params: request.params,
+        userId: request.user?.id,
+        ip: request.ip
+      });
+
+      return reply.status(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to cancel post schedule',
+        statusCode: 500
+      });
+    }
+  }
+
+  // PUT /api/posts/:id/authors (Auth required - primary author or post.edit.any)
+  async updateAuthors(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+
+      const existingPost = await this.blogPostService.getById(id);
+      if (!existingPost) {
+        return reply.status(404).send({ 
+          error: 'Not Found',
+          message: 'Post not found',
+          statusCode: 404
+        });
+      }
+
+      // Co-authors may edit the post but not change who is credited on it
+      if (!(await this.permissionService.can(request.user!, 'post.edit', { ownerId: existingPost.author.id }))) {
+        return reply.status(403).send({ 
+          error: 'Forbidden',
+          message: 'Not authorized to change the authors of this post',
+          statusCode: 403
+        });
+      }
+
+      const post = await this.blogPostService.setAuthors(id, request.body as UpdatePostAuthorsDto);
+
+      logger.info('Blog post authors updated', {
+        postId: id,
+        authors: post.authors.map((author) => `${author.id}:${author.role}`),
+        updatedBy: request.user!.id,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Post authors updated successfully',
+        data: post,
+      });
+    } catch (error: any) {
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({
+          error: error.name,
+          message: error.message,
+          statusCode: error.statusCode
+        });
+      }
+
+      logger.error('Update post authors error:', {
+        error: error.message,
+        stack: error.stack,
+        params: request.params,
+        body: request.body,
+        userId: request.user?.id,
+        ip: request.ip
+      });
+
+      return reply.status(500).send({ 
+        error: 'Internal Server Error',
+        message: 'Failed to update post authors',
+        statusCode: 500
+      });
+    }
+  }
+
+  // GET /api/posts/:id/analytics (Auth required - post.edit)
   async getPostAnalytics(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
 
-      // Check if user owns the post or is admin
+      // Check if the user may act on this post (own post or ".any" permission)
       const existingPost = await this.blogPostService.getById(id);
       if (!existingPost) {
         return reply.status(404).send({ 
@@ -891,7 +1131,7 @@ export class BlogPostController {
         });
       }
 
-      if (existingPost.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.canActOn(request.user!, 'post.edit', existingPost))) {
         return reply.status(403).send({ 
           error: 'Forbidden',
           message: 'Not authorized to view analytics for this post',
@@ -936,4 +1176,10 @@ export class BlogPostController {
       });
     }
   }
-}
\ No newline at end of file
+
+  // The primary author and the co-authors whose role allows the action act on the post as its owners
+  private canActOn(user: PolicySubject, action: PolicyAction, post: BlogPostResponseDto): Promise<boolean> {
+    const authors = post.authors.map((author) => ({ userId: author.id, role: author.role }));
+    return this.permissionService.can(user, action, PostAuthorUtils.policyResource(action, post.author.id, authors));
+  }
+}
@@ -4,10 +4,13 @@ import { FastifyReply, FastifyRequest } from "fastify";
 import logger from "../../utils/logger";
 import { UpdateCategoryDto } from "../../application/dtos/category/UpdateCategoryDto";
 import { CreateCategoryDto } from "../../application/dtos/category/CreateCategoryDto";
+import { MergeCategoryDto } from "../../application/dtos/category/MergeCategoryDto";
 import { ICategoryService } from "../../core/interfaces/Services/ICategoryService";
 import { TYPES } from "../../core/container/types";
 import { inject, injectable } from "inversify";
 import { IBlogPostService } from "../../core/interfaces/Services/IBlogPostService";
+import { BaseError } from "../../core/errors";
+import { redirectToCanonicalSlug } from "../../utils/slugRedirect";
 
 @injectable()
 export class CategoryController {
@@ -106,6 +109,37 @@ export class CategoryController {
     }
   }
 
+  // GET /api/categories/tree
+  async getCategoryTree(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as { includeInactive?: boolean };
+
+      const tree = await this.categoryService.getTree(query.includeInactive === true);
+
+      return reply.send({
+        success: true,
+        data: tree,
+        meta: {
+          rootCount: tree.length,
+          fetchedAt: new Date().toISOString()
+        }
+      });
+    } catch (error: any) {
+      logger.error('Get category tree error:', {
+        error: error.message,
+        stack: error.stack,
+        ip: request.ip
+      });
+
+      return reply.status(500).send({ 
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to fetch category tree',
+        statusCode: 500
+      });
+    }
+  }
+
   // GET /api/categories/:id
   async getCategoryById(request: FastifyRequest, reply: FastifyReply) {
     try {
@@ -190,6 +224,14 @@ export class CategoryController {
       });
 
       const category = await this.categoryService.getBySlug(slug);
+
+      // Former slugs of renamed or merged categories point at their current category
+      if (!category || !category.isActive) {
+        const redirectSlug = await this.categoryService.getRedirectSlug(slug);
+        if (redirectSlug) {
+          return redirectToCanonicalSlug(request, reply, redirectSlug);
+        }
+      }
       
       if (!category) {
         logger.warn('Category not found by slug', {
@@ -266,16 +308,18 @@ export class CategoryController {
         sortBy: query.sortBy || 'publishedAt',
         sortOrder: (query.sortOrder === 'asc' ? 'asc' : 'desc') as 'asc' | 'desc',
       };
+      const includeDescendants = query.includeDescendants === true;
 
       logger.info('Fetching category posts', {
         categoryId: id,
         categorySlug: category.slug,
         options,
+        includeDescendants,
         ip: request.ip
       });
 
       // Use category slug for blog post service
-      const result = await this.blogPostService.getByCategory(category.slug, options);
+      const result = await this.blogPostService.getByCategory(category.slug, options, includeDescendants);
       
       logger.info('Category posts fetched successfully', {
         categoryId: id,
@@ -324,7 +368,7 @@ export class CategoryController {
     }
   }
 
-  // POST /api/categories (Auth required - ADMIN)
+  // POST /api/categories (Auth required - category.manage)
   async createCategory(request: FastifyRequest, reply: FastifyReply) {
     try {
       const categoryData = request.body as CreateCategoryDto;
@@ -369,6 +413,17 @@ export class CategoryController {
         ip: request.ip
       });
       
+      // Parent category checks
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({ 
+          success: false,
+          error: error.name,
+          message: error.message,
+          code: error.code,
+          statusCode: error.statusCode
+        });
+      }
+
       // Handle specific validation errors
       if (error.message.includes('already exists')) {
         return reply.status(400).send({ 
@@ -397,7 +452,7 @@ export class CategoryController {
     }
   }
 
-  // PUT /api/categories/:id (Auth required - ADMIN)
+  // PUT /api/categories/:id (Auth required - category.manage)
   async updateCategory(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
@@ -446,6 +501,17 @@ export class CategoryController {
         ip: request.ip
       });
       
+      // Parent category checks
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({ 
+          success: false,
+          error: error.name,
+          message: error.message,
+          code: error.code,
+          statusCode: error.statusCode
+        });
+      }
+
       // Handle specific validation errors
       if (error.message.includes('not found')) {
         return reply.status(404).send({ 
@@ -483,7 +549,7 @@ export class CategoryController {
     }
   }
 
-  // DELETE /api/categories/:id (Auth required - ADMIN)
+  // DELETE /api/categories/:id (Auth required - category.manage)
   async deleteCategory(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
@@ -554,7 +620,59 @@ export class CategoryController {
     }
   }
 
-  // PUT /api/categories/:id/sort-order (Auth required - ADMIN)
+  // POST /api/categories/:id/merge (Auth required - category.manage)
+  async mergeCategory(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const mergeData = request.body as MergeCategoryDto;
+
+      const result = await this.categoryService.merge(id, mergeData);
+
+      logger.info(result.dryRun ? 'Category merge previewed' : 'Categories merged', {
+        sourceId: result.source.id,
+        targetId: result.target.id,
+        movedPosts: result.movedPosts,
+        movedSubcategories: result.movedSubcategories.length,
+        sourceAction: result.sourceAction,
+        adminId: request.user!.id,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: result.dryRun ? 'Dry run, nothing was changed' : 'Categories merged successfully',
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Merge category error:', {
+        error: error.message,
+        stack: error.stack,
+        params: request.params,
+        body: request.body,
+        userId: request.user?.id,
+        ip: request.ip
+      });
+
+      if (error instanceof BaseError) {
+        return reply.status(error.statusCode).send({ 
+          success: false,
+          error: error.name,
+          message: error.message,
+          code: error.code,
+          statusCode: error.statusCode
+        });
+      }
+
+      return reply.status(500).send({ 
+        success: false,
+        error: 'Internal Server Error',
+        message: 'Failed to merge categories',
+        statusCode: 500
+      });
+    }
+  }
+
+  // PUT /api/categories/:id/sort-order (Auth required - category.manage)
   async updateSortOrder(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
@@ -628,7 +746,7 @@ export class CategoryController {
     }
   }
 
-  // GET /api/categories/admin/stats (Auth required - ADMIN)
+  // GET /api/categories/admin/stats (Auth required - category.manage)
   async getCategoryStats(request: FastifyRequest, reply: FastifyReply) {
     try {
       logger.info('Fetching category stats', {
@@ -669,7 +787,7 @@ export class CategoryController {
     }
   }
 
-  // PUT /api/categories/bulk-sort-order (Auth required - ADMIN)
+  // PUT /api/categories/bulk-sort-order (Auth required - category.manage)
   async bulkUpdateSortOrder(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { categories } = request.body as { categories: Array<{ id: string; sortOrder: number }> };
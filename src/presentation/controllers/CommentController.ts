@@ -2,6 +2,8 @@ import { FastifyReply, FastifyRequest } from "fastify";
 import { inject, injectable } from "inversify";
 import { TYPES } from "../../core/container/types";
 import { ICommentService } from "../../core/interfaces/Services/ICommentService";
+import { IPermissionService } from "../../core/interfaces/Services/IPermissionService";
+import { Permission } from "../../domain/enums/Permission";
 import { CreateCommentDto } from "../../application/dtos/comment/CreateCommentDto";
 import { UpdateCommentDto } from "../../application/dtos/comment/UpdateCommentDto";
 import logger from "../../utils/logger";
@@ -9,7 +11,8 @@ import logger from "../../utils/logger";
 @injectable()
 export class CommentController {
   constructor(
-    @inject(TYPES.ICommentService) private commentService: ICommentService
+    @inject(TYPES.ICommentService) private commentService: ICommentService,
+    @inject(TYPES.IPermissionService) private permissionService: IPermissionService
   ) {}
 
   // GET /api/comments/:id
@@ -129,7 +132,7 @@ export class CommentController {
         });
       }
       
-      if (authorId !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (authorId !== request.user!.id && !(await this.permissionService.can(request.user!, Permission.COMMENT_MODERATE))) {
         return reply.status(403).send({ 
           success: false,
           error: 'Forbidden',
@@ -344,7 +347,7 @@ export class CommentController {
         });
       }
 
-      if (existingComment.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.permissionService.can(request.user!, 'comment.edit', { ownerId: existingComment.author.id }))) {
         return reply.status(403).send({ 
           success: false,
           error: 'Forbidden',
@@ -353,7 +356,7 @@ export class CommentController {
         });
       }
 
-      if (request.user!.role !== 'ADMIN' && existingComment.status !== 'PENDING') {
+      if (existingComment.status !== 'PENDING' && !(await this.permissionService.can(request.user!, Permission.COMMENT_MODERATE))) {
         return reply.status(400).send({ 
           success: false,
           error: 'Validation Error',
@@ -428,7 +431,7 @@ export class CommentController {
         });
       }
 
-      if (existingComment.author.id !== request.user!.id && request.user!.role !== 'ADMIN') {
+      if (!(await this.permissionService.can(request.user!, 'comment.delete', { ownerId: existingComment.author.id }))) {
         return reply.status(403).send({ 
           success: false,
           error: 'Forbidden',
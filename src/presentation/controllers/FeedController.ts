@@ -0,0 +1,105 @@
+// src/presentation/controllers/FeedController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { IFeedService } from "../../core/interfaces/Services/IFeedService";
+import { FeedDto } from "../../application/dtos/feed/FeedDto";
+import { FEED_CONTENT_TYPES, FeedFormat, FeedRenderer } from "../../utils/feedRenderer";
+import { applyConditionalGet } from "../../utils/conditionalGet";
+import { config } from "../../config/env";
+
+@injectable()
+export class FeedController {
+  constructor(
+    @inject(TYPES.IFeedService) private feedService: IFeedService
+  ) {}
+
+  // GET /feeds/rss.xml, /feeds/atom.xml, /feeds/feed.json
+  async getSiteFeed(request: FastifyRequest, reply: FastifyReply, format: FeedFormat) {
+    try {
+      const feed = await this.feedService.getSiteFeed();
+      return this.sendFeed(request, reply, feed, format);
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get site feed error');
+    }
+  }
+
+  // GET /feeds/category/:slug[/rss.xml|/atom.xml|/feed.json]
+  async getCategoryFeed(request: FastifyRequest, reply: FastifyReply, format: FeedFormat) {
+    try {
+      const { slug } = request.params as { slug: string };
+      const feed = await this.feedService.getCategoryFeed(slug);
+      return this.sendFeed(request, reply, feed, format);
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get category feed error');
+    }
+  }
+
+  // GET /feeds/author/:authorId[/rss.xml|/atom.xml|/feed.json]
+  async getAuthorFeed(request: FastifyRequest, reply: FastifyReply, format: FeedFormat) {
+    try {
+      const { authorId } = request.params as { authorId: string };
+      const feed = await this.feedService.getAuthorFeed(authorId);
+      return this.sendFeed(request, reply, feed, format);
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get author feed error');
+    }
+  }
+
+  private sendFeed(request: FastifyRequest, reply: FastifyReply, feed: FeedDto, format: FeedFormat) {
+    const body = FeedRenderer.render(feed, format, config.site.apiUrl);
+
+    if (applyConditionalGet(request, reply, body, feed.updatedAt)) {
+      return reply.status(304).send();
+    }
+
+    return reply.type(FEED_CONTENT_TYPES[format]).send(body);
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,309 @@
+// src/presentation/controllers/MediaController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { IMediaService } from "../../core/interfaces/Services/IMediaService";
+import { IUploadPolicyService } from "../../core/interfaces/Services/IUploadPolicyService";
+import { UpdateMediaAssetDto } from "../../application/dtos/media/MediaAssetDto";
+
+interface MediaQuery {
+  ownerId?: string;
+  search?: string;
+  mimeType?: string;
+  page?: string;
+  limit?: string;
+}
+
+@injectable()
+export class MediaController {
+  constructor(
+    @inject(TYPES.IMediaService) private mediaService: IMediaService,
+    @inject(TYPES.IUploadPolicyService) private uploadPolicyService: IUploadPolicyService
+  ) {}
+
+  // GET /api/media (Auth required - own assets, everyone's with media.manage)
+  async getMedia(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as MediaQuery;
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(query.limit || '20') || 20));
+
+      const result = await this.mediaService.list(
+        request.user!,
+        {
+          ownerId: query.ownerId || undefined,
+          search: query.search?.trim() || undefined,
+          mimeType: query.mimeType || undefined,
+        },
+        page,
+        limit
+      );
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get media error');
+    }
+  }
+
+  // POST /api/media (Auth required - media.upload, file checked by acceptUploads)
+  async uploadMedia(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const [file] = request.uploads!;
+      const fields = request.uploadFields || {};
+
+      const result = await this.mediaService.upload(
+        {
+          ...file,
+          altText: fields.altText?.trim() || undefined,
+          caption: fields.caption?.trim() || undefined,
+        },
+        request.user!.id
+      );
+
+      logger.info('Media uploaded', {
+        assetId: result.asset.id,
+        duplicate: result.duplicate,
+        fileName: file.fileName,
+        fileSize: file.buffer.length,
+        userId: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.status(result.duplicate ? 200 : 201).send({
+        success: true,
+        message: result.duplicate ? 'File already in the media library' : 'File uploaded successfully',
+        data: result.asset,
+        duplicate: result.duplicate,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Upload media error');
+    }
+  }
+
+  // GET /api/media/:id (Auth required - owner or media.manage)
+  async getMediaById(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const asset = await this.mediaService.getById(id, request.user!);
+
+      return reply.send({
+        success: true,
+        data: asset,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get media asset error');
+    }
+  }
+
+  // PUT /api/media/:id (Auth required - media.edit)
+  async updateMedia(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const asset = await this.mediaService.update(id, request.body as UpdateMediaAssetDto, request.user!);
+
+      return reply.send({
+        success: true,
+        message: 'Media asset updated successfully',
+        data: asset,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Update media asset error');
+    }
+  }
+
+  // DELETE /api/media/:id (Auth required - media.delete)
+  async deleteMedia(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const { force } = request.query as { force?: boolean | string };
+
+      await this.mediaService.delete(id, request.user!, force === true || force === 'true');
+
+      logger.info('Media asset deleted', {
+        assetId: id,
+        force: !!force,
+        userId: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Media asset deleted successfully',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Delete media asset error');
+    }
+  }
+
+  // GET /api/media/orphans (Auth required - media.manage)
+  async getOrphans(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { limit } = request.query as { limit?: string };
+      const assets = await this.mediaService.findOrphans(this.parseLimit(limit));
+
+      return reply.send({
+        success: true,
+        data: assets,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get orphaned media error');
+    }
+  }
+
+  // POST /api/media/orphans/purge (Auth required - media.manage)
+  async purgeOrphans(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { dryRun, limit } = request.query as { dryRun?: boolean | string; limit?: string };
+      const result = await this.mediaService.purgeOrphans({
+        // Nothing is deleted unless explicitly asked for
+        dryRun: !(dryRun === false || dryRun === 'false'),
+        limit: this.parseLimit(limit),
+      });
+
+      logger.info('Orphaned media purge', {
+        dryRun: result.dryRun,
+        count: result.assets.length,
+        freedBytes: result.freedBytes,
+        userId: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.send({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Purge orphaned media error');
+    }
+  }
+
+  // GET /api/media/usage (Auth required - own usage and limits)
+  async getOwnUsage(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const usage = await this.uploadPolicyService.getUsage(request.user!.id);
+
+      return reply.send({
+        success: true,
+        data: usage,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get storage usage error');
+    }
+  }
+
+  // GET /api/media/quotas (Auth required - media.quota)
+  async getQuotas(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as { page?: string; limit?: string };
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(query.limit || '20') || 20));
+
+      const result = await this.uploadPolicyService.listUsage(page, limit);
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get storage quotas error');
+    }
+  }
+
+  // GET /api/media/quotas/:userId (Auth required - media.quota)
+  async getUserQuota(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { userId } = request.params as { userId: string };
+      const usage = await this.uploadPolicyService.getUsage(userId);
+
+      return reply.send({
+        success: true,
+        data: usage,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get storage quota error');
+    }
+  }
+
+  // PUT /api/media/quotas/:userId (Auth required - media.quota)
+  async setUserQuota(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { userId } = request.params as { userId: string };
+      const { storageQuotaMb } = request.body as { storageQuotaMb: number | null };
+
+      const usage = await this.uploadPolicyService.setUserQuota(userId, storageQuotaMb);
+
+      logger.info('Storage quota changed', {
+        targetUserId: userId,
+        storageQuotaMb,
+        changedBy: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Storage quota updated successfully',
+        data: usage,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Update storage quota error');
+    }
+  }
+
+  private parseLimit(limit?: string): number {
+    return Math.min(500, Math.max(1, parseInt(limit || '100') || 100));
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,126 @@
+// src/presentation/controllers/OAuthController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { IOAuthService } from "../../core/interfaces/Services/IOAuthService";
+import { OAuthCallbackDto } from "../../application/dtos/auth/OAuthDto";
+import { SessionContextDto } from "../../application/dtos/auth/SessionDto";
+
+@injectable()
+export class OAuthController {
+  constructor(
+    @inject(TYPES.IOAuthService) private oauthService: IOAuthService
+  ) {}
+
+  // GET /api/users/oauth/providers
+  async getProviders(request: FastifyRequest, reply: FastifyReply) {
+    return reply.send({
+      success: true,
+      data: this.oauthService.listProviders(),
+    });
+  }
+
+  // POST /api/users/oauth/:provider/authorize
+  async authorize(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { provider } = request.params as { provider: string };
+      const result = await this.oauthService.beginAuthorization(provider);
+
+      return reply.send({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'OAuth authorize error');
+    }
+  }
+
+  // POST /api/users/oauth/:provider/callback
+  async callback(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { provider } = request.params as { provider: string };
+      const dto = request.body as OAuthCallbackDto;
+      const result = await this.oauthService.completeAuthorization(provider, dto, this.sessionContext(request));
+
+      if ('mfaRequired' in result) {
+        return reply.send({
+          success: true,
+          message: result.enrollmentRequired
+            ? 'Two-factor authentication must be set up to continue'
+            : 'Two-factor authentication code required',
+          data: result,
+        });
+      }
+
+      logger.info('User logged in via external provider', {
+        userId: result.user.id,
+        provider,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Login successful',
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'OAuth callback error');
+    }
+  }
+
+  private sessionContext(request: FastifyRequest): SessionContextDto {
+    return {
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+    };
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,216 @@
+// src/presentation/controllers/PostReviewController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { IPostReviewService } from "../../core/interfaces/Services/IPostReviewService";
+import { PolicySubject } from "../../domain/entities/Role";
+import { AssignReviewerDto, ReviewDecisionDto, SubmitForReviewDto } from "../../application/dtos/review/ReviewRequestDto";
+
+@injectable()
+export class PostReviewController {
+  constructor(
+    @inject(TYPES.IPostReviewService) private postReviewService: IPostReviewService
+  ) {}
+
+  // GET /api/posts/review/queue (Auth required - post.review)
+  async getQueue(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as any;
+      const options = {
+        page: parseInt(query.page) || 1,
+        limit: parseInt(query.limit) || 20,
+        reviewerId: query.assignedToMe === true || query.assignedToMe === 'true' ? request.user!.id : undefined,
+        unassigned: query.unassigned === true || query.unassigned === 'true',
+      };
+
+      const result = await this.postReviewService.getQueue(options);
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get review queue error');
+    }
+  }
+
+  // GET /api/posts/:id/review (Auth required - Owner or post.review)
+  async getHistory(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const query = request.query as any;
+      const options = {
+        page: parseInt(query.page) || 1,
+        limit: parseInt(query.limit) || 20,
+      };
+
+      const result = await this.postReviewService.getHistory(id, this.actor(request), options);
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get review history error');
+    }
+  }
+
+  // POST /api/posts/:id/review/submit (Auth required - Owner or post.edit.any)
+  async submit(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const body = (request.body || {}) as SubmitForReviewDto;
+
+      const post = await this.postReviewService.submit(id, this.actor(request), body);
+      this.logTransition('Blog post submitted for review', request, id);
+
+      return reply.send({
+        success: true,
+        message: 'Post submitted for review',
+        data: post,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Submit for review error');
+    }
+  }
+
+  // POST /api/posts/:id/review/withdraw (Auth required - Owner or post.edit.any)
+  async withdraw(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const { comment } = (request.body || {}) as ReviewDecisionDto;
+
+      const post = await this.postReviewService.withdraw(id, this.actor(request), comment);
+      this.logTransition('Blog post withdrawn from review', request, id);
+
+      return reply.send({
+        success: true,
+        message: 'Post withdrawn from review',
+        data: post,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Withdraw from review error');
+    }
+  }
+
+  // PUT /api/posts/:id/review/reviewer (Auth required - post.review)
+  async assignReviewer(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const { reviewerId } = request.body as AssignReviewerDto;
+
+      const post = await this.postReviewService.assignReviewer(id, this.actor(request), reviewerId);
+      this.logTransition('Blog post reviewer assigned', request, id);
+
+      return reply.send({
+        success: true,
+        message: 'Reviewer assigned successfully',
+        data: post,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Assign reviewer error');
+    }
+  }
+
+  // POST /api/posts/:id/review/approve (Auth required - post.review)
+  async approve(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const { comment } = (request.body || {}) as ReviewDecisionDto;
+
+      const post = await this.postReviewService.approve(id, this.actor(request), comment);
+      this.logTransition('Blog post approved', request, id);
+
+      return reply.send({
+        success: true,
+        message: 'Post approved',
+        data: post,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Approve post error');
+    }
+  }
+
+  // POST /api/posts/:id/review/request-changes (Auth required - post.review)
+  async requestChanges(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const { comment } = request.body as Required<ReviewDecisionDto>;
+
+      const post = await this.postReviewService.requestChanges(id, this.actor(request), comment);
+      this.logTransition('Blog post changes requested', request, id);
+
+      return reply.send({
+        success: true,
+        message: 'Changes requested',
+        data: post,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Request changes error');
+    }
+  }
+
+  private actor(request: FastifyRequest): PolicySubject {
+    return { id: request.user!.id, role: request.user!.role };
+  }
+
+  private logTransition(message: string, request: FastifyRequest, postId: string) {
+    logger.info(message, {
+      postId,
+      userId: request.user!.id,
+      role: request.user!.role,
+      ip: request.ip,
+    });
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
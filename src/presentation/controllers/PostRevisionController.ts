@@ -0,0 +1,141 @@
+// src/presentation/controllers/PostRevisionController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { IPostRevisionService } from "../../core/interfaces/Services/IPostRevisionService";
+
+@injectable()
+export class PostRevisionController {
+  constructor(
+    @inject(TYPES.IPostRevisionService) private postRevisionService: IPostRevisionService
+  ) {}
+
+  // GET /api/posts/:id/revisions (Auth required - Owner or post.edit.any)
+  async getRevisions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const query = request.query as any;
+      const options = {
+        page: parseInt(query.page) || 1,
+        limit: parseInt(query.limit) || 20,
+      };
+
+      const result = await this.postRevisionService.getRevisions(id, options);
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get revisions error');
+    }
+  }
+
+  // GET /api/posts/:id/revisions/:revisionId (Auth required - Owner or post.edit.any)
+  async getRevision(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id, revisionId } = request.params as { id: string; revisionId: string };
+
+      const revision = await this.postRevisionService.getRevision(id, revisionId);
+
+      return reply.send({
+        success: true,
+        data: revision,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get revision error');
+    }
+  }
+
+  // GET /api/posts/:id/revisions/diff?from=&to= (Auth required - Owner or post.edit.any)
+  async compareRevisions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const { from, to } = request.query as { from: string; to?: string };
+
+      const diff = await this.postRevisionService.compare(id, from, to);
+
+      return reply.send({
+        success: true,
+        data: diff,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Compare revisions error');
+    }
+  }
+
+  // POST /api/posts/:id/revisions/:revisionId/restore (Auth required - Owner or post.edit.any)
+  async restoreRevision(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id, revisionId } = request.params as { id: string; revisionId: string };
+
+      const post = await this.postRevisionService.restore(id, revisionId, request.user!.id);
+
+      logger.info('Blog post revision restored', {
+        postId: id,
+        revisionId,
+        userId: request.user!.id,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Revision restored successfully',
+        data: post,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Restore revision error');
+    }
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+        query: request.query,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,164 @@
+// src/presentation/controllers/RoleController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { IPermissionService } from "../../core/interfaces/Services/IPermissionService";
+import { CreateRoleDto, UpdateRoleDto } from "../../application/dtos/role/RoleDto";
+
+@injectable()
+export class RoleController {
+  constructor(
+    @inject(TYPES.IPermissionService) private permissionService: IPermissionService
+  ) {}
+
+  // GET /api/roles/permissions (Auth required - role.manage)
+  async getPermissions(request: FastifyRequest, reply: FastifyReply) {
+    return reply.send({
+      success: true,
+      data: this.permissionService.listPermissions(),
+    });
+  }
+
+  // GET /api/roles/me (Auth required)
+  async getMyPermissions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const permissions = await this.permissionService.getPermissions(request.user!.role);
+
+      return reply.send({
+        success: true,
+        data: {
+          role: request.user!.role,
+          permissions,
+        },
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get my permissions error');
+    }
+  }
+
+  // GET /api/roles (Auth required - role.manage)
+  async getRoles(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const roles = await this.permissionService.listRoles();
+
+      return reply.send({
+        success: true,
+        data: roles,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get roles error');
+    }
+  }
+
+  // GET /api/roles/:name (Auth required - role.manage)
+  async getRole(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { name } = request.params as { name: string };
+      const role = await this.permissionService.getRole(name);
+
+      return reply.send({
+        success: true,
+        data: role,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get role error');
+    }
+  }
+
+  // POST /api/roles (Auth required - role.manage)
+  async createRole(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const dto = request.body as CreateRoleDto;
+      const role = await this.permissionService.createRole(dto, request.user!.id);
+
+      return reply.status(201).send({
+        success: true,
+        message: 'Role created successfully',
+        data: role,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Create role error');
+    }
+  }
+
+  // PUT /api/roles/:name (Auth required - role.manage)
+  async updateRole(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { name } = request.params as { name: string };
+      const dto = request.body as UpdateRoleDto;
+      const role = await this.permissionService.updateRole(name, dto, request.user!.id);
+
+      return reply.send({
+        success: true,
+        message: 'Role updated successfully',
+        data: role,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Update role error');
+    }
+  }
+
+  // DELETE /api/roles/:name (Auth required - role.manage)
+  async deleteRole(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { name } = request.params as { name: string };
+      await this.permissionService.deleteRole(name, request.user!.id);
+
+      return reply.send({
+        success: true,
+        message: 'Role deleted successfully',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Delete role error');
+    }
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
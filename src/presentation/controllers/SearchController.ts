@@ -0,0 +1,87 @@
+// src/presentation/controllers/SearchController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { ISearchService } from "../../core/interfaces/Services/ISearchService";
+import { SearchQueryDto } from "../../application/dtos/search/SearchQueryDto";
+
+@injectable()
+export class SearchController {
+  constructor(
+    @inject(TYPES.ISearchService) private searchService: ISearchService
+  ) {}
+
+  // GET /api/search
+  async search(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as SearchQueryDto;
+
+      const result = await this.searchService.search(query);
+
+      logger.info('Search accessed', {
+        requestId: (request as any).id,
+        query: result.query,
+        type: result.type,
+        total: result.pagination.totalItems
+      });
+
+      return reply.send({
+        success: true,
+        query: result.query,
+        type: result.type,
+        data: result.results,
+        totals: result.totals,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Search error');
+    }
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        query: request.query,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,199 @@
+// src/presentation/controllers/SeriesController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError, NotFoundError } from "../../core/errors";
+import { ISeriesService } from "../../core/interfaces/Services/ISeriesService";
+import { CreateSeriesDto, UpdateSeriesDto } from "../../application/dtos/series/SeriesDto";
+import { redirectToCanonicalSlug } from "../../utils/slugRedirect";
+
+interface SeriesListQuery {
+  ownerId?: string;
+  search?: string;
+  page?: string;
+  limit?: string;
+}
+
+@injectable()
+export class SeriesController {
+  constructor(@inject(TYPES.ISeriesService) private seriesService: ISeriesService) {}
+
+  // GET /api/series
+  async getSeries(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as SeriesListQuery;
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(query.limit || '20') || 20));
+
+      const result = await this.seriesService.list(
+        { ownerId: query.ownerId, search: query.search?.trim() || undefined },
+        page,
+        limit
+      );
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get series error');
+    }
+  }
+
+  // GET /api/series/:id
+  async getSeriesById(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const series = await this.seriesService.getById(id);
+      if (!series) {
+        throw new NotFoundError('Series not found', { seriesId: id });
+      }
+
+      return reply.send({
+        success: true,
+        data: series,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get series by id error');
+    }
+  }
+
+  // GET /api/series/slug/:slug
+  async getSeriesBySlug(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { slug } = request.params as { slug: string };
+      const series = await this.seriesService.getBySlug(slug);
+
+      if (!series) {
+        // Former slugs of renamed series point at their current slug
+        const redirectSlug = await this.seriesService.getRedirectSlug(slug);
+        if (redirectSlug) {
+          return redirectToCanonicalSlug(request, reply, redirectSlug);
+        }
+
+        throw new NotFoundError('Series not found', { slug });
+      }
+
+      return reply.send({
+        success: true,
+        data: series,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get series by slug error');
+    }
+  }
+
+  // POST /api/series (Auth required - series.manage)
+  async createSeries(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const series = await this.seriesService.create(request.body as CreateSeriesDto, request.user!);
+
+      logger.info('Series created', {
+        seriesId: series.id,
+        title: series.title,
+        ownerId: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.status(201).send({
+        success: true,
+        message: 'Series created successfully',
+        data: series,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Create series error');
+    }
+  }
+
+  // PUT /api/series/:id (Auth required - owner or series.manage.any)
+  async updateSeries(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const series = await this.seriesService.update(id, request.body as UpdateSeriesDto, request.user!);
+
+      logger.info('Series updated', {
+        seriesId: series.id,
+        updatedBy: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Series updated successfully',
+        data: series,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Update series error');
+    }
+  }
+
+  // DELETE /api/series/:id (Auth required - owner or series.manage.any)
+  async deleteSeries(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      await this.seriesService.delete(id, request.user!);
+
+      logger.info('Series deleted', {
+        seriesId: id,
+        deletedBy: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Series deleted successfully, its posts were kept',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Delete series error');
+    }
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
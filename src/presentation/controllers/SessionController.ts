@@ -0,0 +1,133 @@
+// src/presentation/controllers/SessionController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { IAuthService } from "../../core/interfaces/Services/IAuthService";
+
+@injectable()
+export class SessionController {
+  constructor(
+    @inject(TYPES.IAuthService) private authService: IAuthService
+  ) {}
+
+  // GET /api/users/sessions (Auth required)
+  async getMySessions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const sessions = await this.authService.listSessions(request.user!.id, request.user!.sessionId);
+
+      return reply.send({
+        success: true,
+        data: sessions,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get sessions error');
+    }
+  }
+
+  // DELETE /api/users/sessions/:sessionId (Auth required)
+  async revokeMySession(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { sessionId } = request.params as { sessionId: string };
+      await this.authService.revokeSession(request.user!.id, sessionId);
+
+      logger.info('User revoked a session', {
+        userId: request.user!.id,
+        sessionId,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Revoke session error');
+    }
+  }
+
+  // GET /api/users/:id/sessions (Admin only)
+  async getUserSessions(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const sessions = await this.authService.listSessions(id);
+
+      return reply.send({
+        success: true,
+        data: sessions,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get user sessions error');
+    }
+  }
+
+  // DELETE /api/users/:id/sessions/:sessionId (Admin only)
+  async revokeUserSession(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id, sessionId } = request.params as { id: string; sessionId: string };
+      await this.authService.revokeSession(id, sessionId);
+
+      logger.info('Admin revoked a user session', {
+        adminId: request.user!.id,
+        userId: id,
+        sessionId,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Session revoked successfully',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Revoke user session error');
+    }
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
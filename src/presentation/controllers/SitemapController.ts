@@ -0,0 +1,112 @@
+// src/presentation/controllers/SitemapController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError, NotFoundError } from "../../core/errors";
+import { ISitemapService } from "../../core/interfaces/Services/ISitemapService";
+import { SitemapDto, SitemapSection } from "../../application/dtos/sitemap/SitemapDto";
+import { SitemapRenderer } from "../../utils/sitemapRenderer";
+import { applyConditionalGet } from "../../utils/conditionalGet";
+
+const CHILD_SITEMAP_PATTERN = /^(categories|authors|posts)-([1-9]\d*)\.xml$/;
+
+@injectable()
+export class SitemapController {
+  constructor(
+    @inject(TYPES.ISitemapService) private sitemapService: ISitemapService
+  ) {}
+
+  // GET /sitemap.xml
+  async getSitemap(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const sitemap = await this.sitemapService.getSitemap();
+      return this.sendSitemap(request, reply, sitemap);
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get sitemap error');
+    }
+  }
+
+  // GET /sitemaps/:file - e.g. /sitemaps/posts-2.xml
+  async getChildSitemap(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { file } = request.params as { file: string };
+      const match = CHILD_SITEMAP_PATTERN.exec(file);
+      if (!match) {
+        throw new NotFoundError("Sitemap not found", { file });
+      }
+
+      const sitemap = await this.sitemapService.getChildSitemap(match[1] as SitemapSection, parseInt(match[2]));
+      return this.sendSitemap(request, reply, sitemap);
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get child sitemap error');
+    }
+  }
+
+  // GET /robots.txt
+  async getRobots(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      return reply
+        .header('Cache-Control', 'public, max-age=3600')
+        .type('text/plain; charset=utf-8')
+        .send(this.sitemapService.getRobotsTxt());
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get robots.txt error');
+    }
+  }
+
+  private sendSitemap(request: FastifyRequest, reply: FastifyReply, sitemap: SitemapDto) {
+    const body = SitemapRenderer.render(sitemap);
+
+    if (applyConditionalGet(request, reply, body, sitemap.updatedAt, 3600)) {
+      return reply.status(304).send();
+    }
+
+    return reply.type('application/xml; charset=utf-8').send(body);
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,172 @@
+// src/presentation/controllers/TagController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { ITagService } from "../../core/interfaces/Services/ITagService";
+import { MergeTagDto, UpdateTagDto } from "../../application/dtos/tag/TagDto";
+import { TagSort } from "../../domain/entities/Tag";
+
+interface TagListQuery {
+  search?: string;
+  sort?: TagSort;
+  page?: string;
+  limit?: string;
+}
+
+@injectable()
+export class TagController {
+  constructor(@inject(TYPES.ITagService) private tagService: ITagService) {}
+
+  // GET /api/tags
+  async getTags(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as TagListQuery;
+      const page = Math.max(1, parseInt(query.page || '1') || 1);
+      const limit = Math.min(100, Math.max(1, parseInt(query.limit || '50') || 50));
+
+      const result = await this.tagService.list(
+        { search: query.search?.trim() || undefined, sort: query.sort },
+        page,
+        limit
+      );
+
+      return reply.send({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get tags error');
+    }
+  }
+
+  // GET /api/tags/cloud
+  async getTagCloud(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as { limit?: string };
+      const limit = Math.min(200, Math.max(1, parseInt(query.limit || '50') || 50));
+
+      const cloud = await this.tagService.getCloud(limit);
+
+      return reply.send({
+        success: true,
+        data: cloud,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get tag cloud error');
+    }
+  }
+
+  // GET /api/tags/autocomplete
+  async autocomplete(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const query = request.query as { q: string; limit?: string };
+      const limit = Math.min(25, Math.max(1, parseInt(query.limit || '10') || 10));
+
+      const tags = await this.tagService.autocomplete(query.q, limit);
+
+      return reply.send({
+        success: true,
+        data: tags,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Tag autocomplete error');
+    }
+  }
+
+  // PUT /api/tags/:id (Auth required - tag.manage)
+  async updateTag(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const tag = await this.tagService.update(id, request.body as UpdateTagDto);
+
+      logger.info('Tag updated', {
+        tagId: tag.id,
+        name: tag.name,
+        updatedBy: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Tag updated successfully',
+        data: tag,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Update tag error');
+    }
+  }
+
+  // POST /api/tags/:id/merge (Auth required - tag.manage)
+  async mergeTag(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { id } = request.params as { id: string };
+      const result = await this.tagService.merge(id, request.body as MergeTagDto);
+
+      logger.info(result.dryRun ? 'Tag merge previewed' : 'Tags merged', {
+        sourceId: result.source.id,
+        targetId: result.target.id,
+        movedPosts: result.movedPosts,
+        mergedBy: request.user!.id,
+        ip: request.ip,
+      });
+
+      return reply.send({
+        success: true,
+        message: result.dryRun ? 'Dry run, nothing was changed' : 'Tags merged successfully',
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Merge tags error');
+    }
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -0,0 +1,183 @@
+// src/presentation/controllers/TwoFactorController.ts
+import { FastifyReply, FastifyRequest } from "fastify";
+import { inject, injectable } from "inversify";
+import logger from "../../utils/logger";
+import { TYPES } from "../../core/container/types";
+import { BaseError } from "../../core/errors";
+import { ITwoFactorService } from "../../core/interfaces/Services/ITwoFactorService";
+
+@injectable()
+export class TwoFactorController {
+  constructor(
+    @inject(TYPES.ITwoFactorService) private twoFactorService: ITwoFactorService
+  ) {}
+
+  // GET /api/users/2fa (Auth required)
+  async getStatus(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const status = await this.twoFactorService.getStatus(request.user!.id);
+
+      return reply.send({
+        success: true,
+        data: status,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get two-factor status error');
+    }
+  }
+
+  // POST /api/users/2fa/setup (Auth required)
+  async setup(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const result = await this.twoFactorService.beginSetup(request.user!.id);
+
+      return reply.send({
+        success: true,
+        message: 'Scan the QR code or enter the secret in your authenticator app',
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Two-factor setup error');
+    }
+  }
+
+  // POST /api/users/2fa/enable (Auth required)
+  async enable(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { code } = request.body as { code: string };
+      const recoveryCodes = await this.twoFactorService.enable(request.user!.id, code);
+
+      logger.info('Two-factor authentication enabled', {
+        userId: request.user!.id,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Two-factor authentication enabled. Store the recovery codes in a safe place',
+        data: { recoveryCodes },
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Enable two-factor error');
+    }
+  }
+
+  // POST /api/users/2fa/disable (Auth required)
+  async disable(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { password, code } = request.body as { password: string; code: string };
+      await this.twoFactorService.disable(request.user!.id, password, code);
+
+      logger.info('Two-factor authentication disabled', {
+        userId: request.user!.id,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Disable two-factor error');
+    }
+  }
+
+  // POST /api/users/2fa/recovery-codes (Auth required)
+  async regenerateRecoveryCodes(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { code } = request.body as { code: string };
+      const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(request.user!.id, code);
+
+      return reply.send({
+        success: true,
+        message: 'New recovery codes generated; previous codes no longer work',
+        data: { recoveryCodes },
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Regenerate recovery codes error');
+    }
+  }
+
+  // GET /api/users/2fa/required-roles (Auth required - role.manage)
+  async getRequiredRoles(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const roles = await this.twoFactorService.getRequiredRoles();
+
+      return reply.send({
+        success: true,
+        data: { roles },
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Get two-factor policy error');
+    }
+  }
+
+  // PUT /api/users/2fa/required-roles (Auth required - role.manage)
+  async setRequiredRoles(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { roles } = request.body as { roles: string[] };
+      const updatedRoles = await this.twoFactorService.setRequiredRoles(roles, request.user!.id);
+
+      logger.info('Two-factor policy updated', {
+        roles: updatedRoles,
+        updatedBy: request.user!.id,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Two-factor policy updated',
+        data: { roles: updatedRoles },
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Update two-factor policy error');
+    }
+  }
+
+  private handleError(
+    error: any,
+    request: FastifyRequest,
+    reply: FastifyReply,
+    context: string
+  ) {
+    if (error instanceof BaseError) {
+      logger.warn('Operational error occurred', {
+        error: error.toJSON(),
+        context,
+        request: {
+          method: request.method,
+          url: request.url,
+          ip: request.ip,
+          userId: request.user?.id,
+        },
+      });
+
+      return reply.status(error.statusCode).send({
+        error: error.name,
+        message: error.message,
+        code: error.code,
+        statusCode: error.statusCode,
+      });
+    }
+
+    logger.error('Unexpected error occurred', {
+      error: error.message,
+      stack: error.stack,
+      context,
+      request: {
+        method: request.method,
+        url: request.url,
+        ip: request.ip,
+        userId: request.user?.id,
+        params: request.params,
+      },
+    });
+
+    return reply.status(500).send({
+      error: 'Internal Server Error',
+      message: 'Something went wrong',
+      code: 'INTERNAL_SERVER_ERROR',
+      statusCode: 500,
+    });
+  }
+}
@@ -14,14 +14,17 @@ import {
   ValidationError,
   UnauthorizedError
 } from "../../core/errors";
-import { UserRole } from "@prisma/client";
+import { IPermissionService } from "../../core/interfaces/Services/IPermissionService";
+import { Permission } from "../../domain/enums/Permission";
 import { ChangePasswordRequest } from "../../core/interfaces/Requests/ChangePasswordRequest";
+import { SessionContextDto } from "../../application/dtos/auth/SessionDto";
 
 @injectable()
 export class UserController {
   constructor(
     @inject(TYPES.IUserService) private userService: IUserService,
-    @inject(TYPES.IAuthService) private authService: IAuthService
+    @inject(TYPES.IAuthService) private authService: IAuthService,
+    @inject(TYPES.IPermissionService) private permissionService: IPermissionService
   ) {}
 
   // POST /api/users/register
@@ -30,7 +33,7 @@ export class UserController {
       const registerData = request.body as RegisterDto;
       
       // AuthService'den gelen response'u olduğu gibi kullan
-      const result = await this.authService.register(registerData);
+      const result = await this.authService.register(registerData, this.sessionContext(request));
       
       logger.info('User registered successfully', {
         userId: result.user.id,
@@ -53,11 +56,21 @@ export class UserController {
   async login(request: FastifyRequest, reply: FastifyReply) {
     try {
       const loginData = request.body as LoginDto;
-      const result = await this.authService.login(loginData);
+      const result = await this.authService.login(loginData, this.sessionContext(request));
+
+      if ('mfaRequired' in result) {
+        return reply.send({
+          success: true,
+          message: result.enrollmentRequired
+            ? 'Two-factor authentication must be set up to continue'
+            : 'Two-factor authentication code required',
+          data: result,
+        });
+      }
 
       logger.info('User logged in successfully', {
-        userId: result!.user.id,
-        username: result!.user.username,
+        userId: result.user.id,
+        username: result.user.username,
         ip: request.ip
       });
 
@@ -71,6 +84,66 @@ export class UserController {
     }
   }
 
+  // POST /api/users/login/2fa
+  async verifyMfaLogin(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { mfaToken, code } = request.body as { mfaToken: string; code: string };
+      const result = await this.authService.verifyMfaLogin(mfaToken, code, this.sessionContext(request));
+
+      logger.info('User logged in with two-factor authentication', {
+        userId: result.user.id,
+        username: result.user.username,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Login successful',
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Two-factor login error');
+    }
+  }
+
+  // POST /api/users/login/2fa/setup
+  async beginMfaEnrollment(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { mfaToken } = request.body as { mfaToken: string };
+      const result = await this.authService.beginMfaEnrollment(mfaToken);
+
+      return reply.send({
+        success: true,
+        message: 'Scan the QR code or enter the secret in your authenticator app',
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Two-factor enrollment setup error');
+    }
+  }
+
+  // POST /api/users/login/2fa/enable
+  async completeMfaEnrollment(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { mfaToken, code } = request.body as { mfaToken: string; code: string };
+      const result = await this.authService.completeMfaEnrollment(mfaToken, code, this.sessionContext(request));
+
+      logger.info('User enrolled in two-factor authentication at login', {
+        userId: result.user.id,
+        username: result.user.username,
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Two-factor authentication enabled. Store the recovery codes in a safe place',
+        data: result,
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Two-factor enrollment error');
+    }
+  }
+
   // POST /api/users/logout
   async logout(request: FastifyRequest, reply: FastifyReply) {
     try {
@@ -119,7 +192,7 @@ export class UserController {
         });
       }
 
-      const result = await this.authService.refreshToken(refreshToken);
+      const result = await this.authService.refreshToken(refreshToken, this.sessionContext(request));
       
       if (!result) {
         return reply.status(401).send({
@@ -208,6 +281,73 @@ export class UserController {
     }
   }
 
+  // POST /api/users/verify-email
+  async verifyEmail(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { token } = request.body as { token: string };
+
+      await this.authService.verifyEmail(token);
+
+      return reply.send({
+        success: true,
+        message: 'Email verified successfully',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Verify email error');
+    }
+  }
+
+  // POST /api/users/verify-email/resend (Auth required)
+  async resendVerificationEmail(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      await this.authService.resendVerificationEmail(request.user!.id);
+
+      return reply.send({
+        success: true,
+        message: 'Verification email sent',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Resend verification email error');
+    }
+  }
+
+  // POST /api/users/forgot-password
+  async forgotPassword(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { email } = request.body as { email: string };
+
+      await this.authService.forgotPassword(email);
+
+      // Hesabın var olup olmadığı yanıttan anlaşılmamalı
+      return reply.send({
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Forgot password error');
+    }
+  }
+
+  // POST /api/users/reset-password
+  async resetPassword(request: FastifyRequest, reply: FastifyReply) {
+    try {
+      const { token, newPassword } = request.body as { token: string; newPassword: string };
+
+      await this.authService.resetPassword(token, newPassword);
+
+      logger.info('Password reset via email link', {
+        ip: request.ip
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Password reset successfully',
+      });
+    } catch (error: any) {
+      return this.handleError(error, request, reply, 'Reset password error');
+    }
+  }
+
   // GET /api/users/authors
   async getAuthors(request: FastifyRequest, reply: FastifyReply) {
     try {
@@ -240,7 +380,7 @@ export class UserController {
     }
   }
 
-  // GET /api/users (Auth required - ADMIN only)
+  // GET /api/users (Auth required - user.read)
   async getAllUsers(request: FastifyRequest, reply: FastifyReply) {
     try {
       const query = request.query as any;
@@ -266,13 +406,13 @@ export class UserController {
     }
   }
 
-  // GET /api/users/:id/stats (Auth required - ADMIN or own stats)
+  // GET /api/users/:id/stats (Auth required - own stats or user.read)
   async getUserStats(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
       
       // Authorization kontrolü
-      if (request.user!.id !== id && request.user!.role !== UserRole.ADMIN) {
+      if (request.user!.id !== id && !(await this.permissionService.can(request.user!, Permission.USER_READ))) {
         throw new UnauthorizedError('Not authorized to view these stats', {
           requestedUserId: id,
           currentUserId: request.user!.id
@@ -290,53 +430,25 @@ export class UserController {
     }
   }
 
-  // POST /api/users/:id/promote (Auth required - ADMIN only)
-  async promoteToAuthor(request: FastifyRequest, reply: FastifyReply) {
+  // PUT /api/users/:id/role (Auth required - user.manage)
+  async changeRole(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
-      
-      const user = await this.userService.promoteToAuthor(id);
-      
-      logger.info('User promoted to author', {
-        adminId: request.user!.id,
-        targetUserId: id,
-        ip: request.ip
-      });
-      
-      return reply.send({
-        success: true,
-        message: 'User promoted to author successfully',
-        data: user,
-      });
-    } catch (error: any) {
-      return this.handleError(error, request, reply, 'Promote user error');
-    }
-  }
+      const { role } = request.body as { role: string };
+
+      const user = await this.userService.changeRole(id, role, request.user!);
 
-  // POST /api/users/:id/demote (Auth required - ADMIN only)
-  async demoteToUser(request: FastifyRequest, reply: FastifyReply) {
-    try {
-      const { id } = request.params as { id: string };
-      
-      const user = await this.userService.demoteToUser(id);
-      
-      logger.info('User demoted to regular user', {
-        adminId: request.user!.id,
-        targetUserId: id,
-        ip: request.ip
-      });
-      
       return reply.send({
         success: true,
-        message: 'User demoted successfully',
+        message: `User role changed to ${user.role}`,
         data: user,
       });
     } catch (error: any) {
-      return this.handleError(error, request, reply, 'Demote user error');
+      return this.handleError(error, request, reply, 'Change user role error');
     }
   }
 
-  // POST /api/users/:id/deactivate (Auth required - ADMIN only)
+  // POST /api/users/:id/deactivate (Auth required - user.manage)
   async deactivateUser(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
@@ -358,7 +470,7 @@ export class UserController {
     }
   }
 
-  // POST /api/users/:id/activate (Auth required - ADMIN only)
+  // POST /api/users/:id/activate (Auth required - user.manage)
   async activateUser(request: FastifyRequest, reply: FastifyReply) {
     try {
       const { id } = request.params as { id: string };
@@ -401,7 +513,7 @@ export class UserController {
       const filters: any = {};
       
       // Role filter
-      if (query.role && Object.values(UserRole).includes(query.role)) {
+      if (query.role && typeof query.role === 'string') {
         filters.role = query.role;
       }
       
@@ -427,6 +539,14 @@ export class UserController {
     }
   }
 
+  // Device details stored with the session's refresh token
+  private sessionContext(request: FastifyRequest): SessionContextDto {
+    return {
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+    };
+  }
+
   private handleError(
     error: any, 
     request: FastifyRequest, 
@@ -0,0 +1,60 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { authenticate, authenticatedOnly } from '../../core/middleware/auth';
+import { validateBody } from '../../core/middleware/validation';
+import { audit } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { apiKeySchemas } from '../../application/validators/schemas';
+import { ApiKeyRoutesSchema } from '../../schemas/routes/apiKeyRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerApiKeyRoutes(fastify: FastifyInstance) {
+  const apiKeyController = DIContainer.get<ApiKeyController>(TYPES.ApiKeyController);
+
+  // GET /api-keys/scopes
+  fastify.get('/api-keys/scopes', {
+    schema: ApiKeyRoutesSchema.GetScopes.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return apiKeyController.getScopes(request, reply);
+    }
+  });
+
+  // ===== AUTHENTICATED ROUTES (not available to API keys) =====
+
+  // GET /api-keys
+  fastify.get('/api-keys', {
+    schema: ApiKeyRoutesSchema.GetMyApiKeys.schema,
+    preHandler: [authenticate, authenticatedOnly],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return apiKeyController.getMyApiKeys(request, reply);
+    }
+  });
+
+  // POST /api-keys
+  fastify.post('/api-keys', {
+    schema: ApiKeyRoutesSchema.CreateApiKey.schema,
+    preHandler: [
+      authenticate,
+      authenticatedOnly,
+      validateBody(apiKeySchemas.create),
+      audit({ action: AuditAction.API_KEY_CREATE, targetType: AuditTargetType.API_KEY, targetFromResponse: (created) => created?.apiKey?.id })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return apiKeyController.createApiKey(request, reply);
+    }
+  });
+
+  // DELETE /api-keys/:id
+  fastify.delete('/api-keys/:id', {
+    schema: ApiKeyRoutesSchema.RevokeApiKey.schema,
+    preHandler: [
+      authenticate,
+      authenticatedOnly,
+      audit({ action: AuditAction.API_KEY_REVOKE, targetType: AuditTargetType.API_KEY })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return apiKeyController.revokeApiKey(request, reply);
+    }
+  });
+}
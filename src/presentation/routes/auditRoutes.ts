@@ -0,0 +1,29 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { AuditController } from '../controllers/AuditController';
+import { authenticate, requirePermission } from '../../core/middleware/auth';
+import { Permission } from '../../domain/enums/Permission';
+import { AuditRoutesSchema } from '../../schemas/routes/auditRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerAuditRoutes(fastify: FastifyInstance) {
+  const auditController = DIContainer.get<AuditController>(TYPES.AuditController);
+
+  // GET /audit - Filterable, paginated audit log
+  fastify.get('/audit', {
+    schema: AuditRoutesSchema.GetAuditLogs.schema,
+    preHandler: [authenticate, requirePermission(Permission.AUDIT_READ)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return auditController.getAuditLogs(request, reply);
+    }
+  });
+
+  // GET /audit/export - Same filters, as a CSV download
+  fastify.get('/audit/export', {
+    schema: AuditRoutesSchema.ExportAuditLogs.schema,
+    preHandler: [authenticate, requirePermission(Permission.AUDIT_READ)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return auditController.exportAuditLogs(request, reply);
+    }
+  });
+}
@@ -2,8 +2,14 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { BlogPostController } from '../controllers/BlogPostController';
 import { 
   authenticate, 
-  authorOrAdmin 
+  requirePermission,
+  requireBlogOwnership
 } from '../../core/middleware/auth';
+import { audit } from '../../core/middleware/audit';
+import { acceptUploads } from '../../core/middleware/upload';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { Permission } from '../../domain/enums/Permission';
 import { validateBody } from '../../core/middleware/validation';
 import { blogPostSchemas } from '../../application/validators/schemas';
 import { BlogPostRoutesSchema } from '../../schemas/routes/blogPostRoutesSchema';
@@ -49,6 +55,13 @@ export async function registerBlogPostRoutes(fastify: FastifyInstance) {
     }
   });
 
+  fastify.get('/:id/related', {
+    schema: BlogPostRoutesSchema.GetRelatedPosts.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return blogPostController.getRelatedPosts(request, reply);
+    }
+  });
+
   fastify.get('/slug/:slug', {
     schema: BlogPostRoutesSchema.GetPostBySlug.schema,
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
@@ -63,6 +76,13 @@ export async function registerBlogPostRoutes(fastify: FastifyInstance) {
     }
   });
 
+  fastify.get('/tag/:slug', {
+    schema: BlogPostRoutesSchema.GetPostsByTag.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return blogPostController.getPostsByTag(request, reply);
+    }
+  });
+
   fastify.get('/author/:authorId', {
     schema: BlogPostRoutesSchema.GetPostsByAuthor.schema,
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
@@ -75,8 +95,9 @@ export async function registerBlogPostRoutes(fastify: FastifyInstance) {
     schema: BlogPostRoutesSchema.CreatePost.schema,
     preHandler: [
       authenticate, 
-      authorOrAdmin,
-      validateBody(blogPostSchemas.create)
+      requirePermission(Permission.POST_CREATE, ApiKeyScope.POSTS_WRITE),
+      validateBody(blogPostSchemas.create),
+      audit({ action: AuditAction.POST_CREATE, targetType: AuditTargetType.POST, targetFromResponse: (post) => post?.id })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return blogPostController.createPost(request, reply);
@@ -87,8 +108,9 @@ export async function registerBlogPostRoutes(fastify: FastifyInstance) {
     schema: BlogPostRoutesSchema.UpdatePost.schema,
     preHandler: [
       authenticate, 
-      authorOrAdmin,
-      validateBody(blogPostSchemas.update)
+      requirePermission('post.edit', ApiKeyScope.POSTS_WRITE),
+      validateBody(blogPostSchemas.update),
+      audit({ action: AuditAction.POST_UPDATE, targetType: AuditTargetType.POST })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return blogPostController.updatePost(request, reply);
@@ -99,18 +121,88 @@ export async function registerBlogPostRoutes(fastify: FastifyInstance) {
     schema: BlogPostRoutesSchema.DeletePost.schema,
     preHandler: [
       authenticate, 
-      authorOrAdmin
+      requirePermission('post.delete', ApiKeyScope.POSTS_WRITE),
+      audit({ action: AuditAction.POST_DELETE, targetType: AuditTargetType.POST })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return blogPostController.deletePost(request, reply);
     }
   });
 
+  fastify.put('/:id/authors', {
+    schema: BlogPostRoutesSchema.UpdatePostAuthors.schema,
+    preHandler: [
+      authenticate, 
+      requirePermission('post.edit', ApiKeyScope.POSTS_WRITE),
+      validateBody(blogPostSchemas.authors),
+      audit({ action: AuditAction.POST_AUTHORS_UPDATE, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return blogPostController.updateAuthors(request, reply);
+    }
+  });
+
+  // Publishing (approved posts only)
+  fastify.put('/:id/publish', {
+    schema: BlogPostRoutesSchema.PublishPost.schema,
+    preHandler: [
+      authenticate, 
+      requirePermission('post.publish', ApiKeyScope.POSTS_PUBLISH),
+      requireBlogOwnership('post.publish'),
+      audit({ action: AuditAction.POST_PUBLISH, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return blogPostController.publishPost(request, reply);
+    }
+  });
+
+  fastify.put('/:id/unpublish', {
+    schema: BlogPostRoutesSchema.UnpublishPost.schema,
+    preHandler: [
+      authenticate, 
+      requirePermission('post.publish', ApiKeyScope.POSTS_PUBLISH),
+      requireBlogOwnership('post.publish'),
+      audit({ action: AuditAction.POST_UNPUBLISH, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return blogPostController.unpublishPost(request, reply);
+    }
+  });
+
+  // Scheduled publishing
+  fastify.put('/:id/schedule', {
+    schema: BlogPostRoutesSchema.SchedulePost.schema,
+    preHandler: [
+      authenticate, 
+      requirePermission('post.publish', ApiKeyScope.POSTS_PUBLISH),
+      requireBlogOwnership('post.publish'),
+      validateBody(blogPostSchemas.schedule),
+      audit({ action: AuditAction.POST_SCHEDULE, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return blogPostController.schedulePost(request, reply);
+    }
+  });
+
+  fastify.delete('/:id/schedule', {
+    schema: BlogPostRoutesSchema.CancelSchedule.schema,
+    preHandler: [
+      authenticate, 
+      requirePermission('post.publish', ApiKeyScope.POSTS_PUBLISH),
+      requireBlogOwnership('post.publish'),
+      audit({ action: AuditAction.POST_UNSCHEDULE, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return blogPostController.cancelSchedule(request, reply);
+    }
+  });
+
   fastify.post('/:id/upload-image', {
     schema: BlogPostRoutesSchema.UploadImage.schema,
     preHandler: [
       authenticate, 
-      authorOrAdmin
+      requirePermission(Permission.MEDIA_UPLOAD, ApiKeyScope.POSTS_WRITE),
+      acceptUploads()
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return blogPostController.uploadImage(request, reply);
@@ -122,7 +214,8 @@ export async function registerBlogPostRoutes(fastify: FastifyInstance) {
     schema: BlogPostRoutesSchema.UploadMultipleImages.schema,
     preHandler: [
       authenticate, 
-      authorOrAdmin
+      requirePermission(Permission.MEDIA_UPLOAD, ApiKeyScope.POSTS_WRITE),
+      acceptUploads({ multiple: true })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return blogPostController.uploadMultipleImages(request, reply);
@@ -2,8 +2,12 @@ import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { TYPES } from "../../core/container/types";
 import { 
   authenticate, 
-  adminOnly 
+  requirePermission 
 } from "../../core/middleware/auth";
+import { audit, bodyTarget } from "../../core/middleware/audit";
+import { AuditAction, AuditTargetType } from "../../domain/enums/AuditAction";
+import { ApiKeyScope } from "../../domain/enums/ApiKeyScope";
+import { Permission } from "../../domain/enums/Permission";
 import { CategoryRoutesSchema } from "../../schemas/routes/categoryRoutesSchema";
 import { validateBody } from "../../core/middleware/validation";
 import { categorySchemas } from "../../application/validators/schemas";
@@ -47,6 +51,14 @@ export async function registerCategoryRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // GET /api/categories/tree - Get categories nested under their parents
+  fastify.get('/tree', {
+    schema: CategoryRoutesSchema.GetCategoryTree.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return categoryController.getCategoryTree(request, reply);
+    }
+  });
+
   // GET /api/categories/:id - Get category by ID
   fastify.get('/:id', {
     schema: CategoryRoutesSchema.GetCategoryById.schema,
@@ -78,8 +90,9 @@ export async function registerCategoryRoutes(fastify: FastifyInstance) {
     schema: CategoryRoutesSchema.CreateCategory.schema,
     preHandler: [
       authenticate,
-      adminOnly,
-      validateBody(categorySchemas.create)
+      requirePermission(Permission.CATEGORY_MANAGE, ApiKeyScope.CATEGORIES_WRITE),
+      validateBody(categorySchemas.create),
+      audit({ action: AuditAction.CATEGORY_CREATE, targetType: AuditTargetType.CATEGORY, targetFromResponse: (category) => category?.id })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return categoryController.createCategory(request, reply);
@@ -91,8 +104,9 @@ export async function registerCategoryRoutes(fastify: FastifyInstance) {
     schema: CategoryRoutesSchema.UpdateCategory.schema,
     preHandler: [
       authenticate,
-      adminOnly,
-      validateBody(categorySchemas.update)
+      requirePermission(Permission.CATEGORY_MANAGE, ApiKeyScope.CATEGORIES_WRITE),
+      validateBody(categorySchemas.update),
+      audit({ action: AuditAction.CATEGORY_UPDATE, targetType: AuditTargetType.CATEGORY })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return categoryController.updateCategory(request, reply);
@@ -104,20 +118,41 @@ export async function registerCategoryRoutes(fastify: FastifyInstance) {
     schema: CategoryRoutesSchema.DeleteCategory.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.CATEGORY_MANAGE, ApiKeyScope.CATEGORIES_WRITE),
+      audit({ action: AuditAction.CATEGORY_DELETE, targetType: AuditTargetType.CATEGORY })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return categoryController.deleteCategory(request, reply);
     }
   });
 
+  // POST /api/categories/:id/merge - Move posts into another category and retire this one (Admin only)
+  fastify.post('/:id/merge', {
+    schema: CategoryRoutesSchema.MergeCategory.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.CATEGORY_MANAGE, ApiKeyScope.CATEGORIES_WRITE),
+      validateBody(categorySchemas.merge),
+      audit({
+        action: AuditAction.CATEGORY_MERGE,
+        targetType: AuditTargetType.CATEGORY,
+        target: (request) => [(request.params as { id: string }).id, (request.body as { targetId: string }).targetId],
+        skip: (request) => (request.body as { dryRun?: boolean }).dryRun === true
+      })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return categoryController.mergeCategory(request, reply);
+    }
+  });
+
   // PUT /api/categories/:id/sort-order - Update category sort order (Admin only)
   fastify.put('/:id/sort-order', {
     schema: CategoryRoutesSchema.UpdateSortOrder.schema,
     preHandler: [
       authenticate,
-      adminOnly,
-      validateBody(categorySchemas.sortOrder)
+      requirePermission(Permission.CATEGORY_MANAGE, ApiKeyScope.CATEGORIES_WRITE),
+      validateBody(categorySchemas.sortOrder),
+      audit({ action: AuditAction.CATEGORY_REORDER, targetType: AuditTargetType.CATEGORY })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return categoryController.updateSortOrder(request, reply);
@@ -129,8 +164,13 @@ export async function registerCategoryRoutes(fastify: FastifyInstance) {
     schema: CategoryRoutesSchema.BulkUpdateSortOrder.schema,
     preHandler: [
       authenticate,
-      adminOnly,
-      validateBody(categorySchemas.bulkSortOrder)
+      requirePermission(Permission.CATEGORY_MANAGE, ApiKeyScope.CATEGORIES_WRITE),
+      validateBody(categorySchemas.bulkSortOrder),
+      audit({
+        action: AuditAction.CATEGORY_REORDER,
+        targetType: AuditTargetType.CATEGORY,
+        target: bodyTarget((body) => body.categories?.map((category: { id: string }) => category.id))
+      })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return categoryController.bulkUpdateSortOrder(request, reply);
@@ -142,7 +182,7 @@ export async function registerCategoryRoutes(fastify: FastifyInstance) {
     schema: CategoryRoutesSchema.GetCategoryStats.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.CATEGORY_MANAGE, ApiKeyScope.CATEGORIES_READ)
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return categoryController.getCategoryStats(request, reply);
@@ -1,8 +1,13 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { 
   authenticate, 
-  adminOnly 
+  authenticatedOnly,
+  requirePermission
 } from '../../core/middleware/auth';
+import { audit, bodyTarget } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { Permission } from '../../domain/enums/Permission';
 import { validateBody } from '../../core/middleware/validation';
 import { commentSchemas } from '../../application/validators/schemas';
 import { CommentRoutesSchema } from '../../schemas/routes/commentRoutesSchema';
@@ -55,6 +60,7 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.CreateComment.schema,
     preHandler: [
       authenticate,
+      requirePermission(Permission.COMMENT_CREATE, ApiKeyScope.COMMENTS_WRITE),
       validateBody(commentSchemas.create)
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
@@ -66,6 +72,7 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.CreateCommentWithSpamDetection.schema,
     preHandler: [
       authenticate,
+      requirePermission(Permission.COMMENT_CREATE, ApiKeyScope.COMMENTS_WRITE),
       validateBody(commentSchemas.create)
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
@@ -77,7 +84,9 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.UpdateComment.schema,
     preHandler: [
       authenticate,
-      validateBody(commentSchemas.update)
+      requirePermission('comment.edit', ApiKeyScope.COMMENTS_WRITE),
+      validateBody(commentSchemas.update),
+      audit({ action: AuditAction.COMMENT_UPDATE, targetType: AuditTargetType.COMMENT })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.updateComment(request, reply);
@@ -86,7 +95,11 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
 
   fastify.delete('/:id', {
     schema: CommentRoutesSchema.DeleteComment.schema,
-    preHandler: [authenticate],
+    preHandler: [
+      authenticate,
+      requirePermission('comment.delete', ApiKeyScope.COMMENTS_WRITE),
+      audit({ action: AuditAction.COMMENT_DELETE, targetType: AuditTargetType.COMMENT })
+    ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.deleteComment(request, reply);
     }
@@ -95,7 +108,7 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
   // Comments by author (authenticated)
   fastify.get('/author/:authorId', {
     schema: CommentRoutesSchema.GetCommentsByAuthor.schema,
-    preHandler: [authenticate],
+    preHandler: [authenticate, authenticatedOnly],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.getCommentsByAuthor(request, reply);
     }
@@ -106,7 +119,7 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.GetPendingComments.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.COMMENT_MODERATE, ApiKeyScope.COMMENTS_MODERATE)
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.getPendingComments(request, reply);
@@ -117,7 +130,7 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.GetCommentsByDateRange.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.COMMENT_MODERATE, ApiKeyScope.COMMENTS_MODERATE)
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.getCommentsByDateRange(request, reply);
@@ -128,7 +141,8 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.ApproveComment.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.COMMENT_MODERATE, ApiKeyScope.COMMENTS_MODERATE),
+      audit({ action: AuditAction.COMMENT_APPROVE, targetType: AuditTargetType.COMMENT })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.approveComment(request, reply);
@@ -139,7 +153,8 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.RejectComment.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.COMMENT_MODERATE, ApiKeyScope.COMMENTS_MODERATE),
+      audit({ action: AuditAction.COMMENT_REJECT, targetType: AuditTargetType.COMMENT })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.rejectComment(request, reply);
@@ -151,7 +166,8 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.BulkApproveComments.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.COMMENT_MODERATE, ApiKeyScope.COMMENTS_MODERATE),
+      audit({ action: AuditAction.COMMENT_APPROVE, targetType: AuditTargetType.COMMENT, target: bodyTarget((body) => body.commentIds) })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.bulkApproveComments(request, reply);
@@ -162,7 +178,8 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.BulkRejectComments.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.COMMENT_MODERATE, ApiKeyScope.COMMENTS_MODERATE),
+      audit({ action: AuditAction.COMMENT_REJECT, targetType: AuditTargetType.COMMENT, target: bodyTarget((body) => body.commentIds) })
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.bulkRejectComments(request, reply);
@@ -174,7 +191,7 @@ export async function registerCommentRoutes(fastify: FastifyInstance) {
     schema: CommentRoutesSchema.GetCommentStats.schema,
     preHandler: [
       authenticate,
-      adminOnly
+      requirePermission(Permission.COMMENT_MODERATE, ApiKeyScope.COMMENTS_MODERATE)
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return commentController.getCommentStats(request, reply);
@@ -0,0 +1,50 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FeedController } from '../controllers/FeedController';
+import { FeedRoutesSchema } from '../../schemas/routes/feedRoutesSchema';
+import { FEED_FILES, FeedFormat } from '../../utils/feedRenderer';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerFeedRoutes(fastify: FastifyInstance) {
+  const feedController = DIContainer.get<FeedController>(TYPES.FeedController);
+
+  // GET /rss.xml, /atom.xml, /feed.json and the per category / author variants
+  for (const [format, file] of Object.entries(FEED_FILES) as Array<[FeedFormat, string]>) {
+    fastify.get(`/${file}`, {
+      schema: FeedRoutesSchema.GetSiteFeed.schema,
+      handler: async (request: FastifyRequest, reply: FastifyReply) => {
+        return feedController.getSiteFeed(request, reply, format);
+      }
+    });
+
+    fastify.get(`/category/:slug/${file}`, {
+      schema: FeedRoutesSchema.GetCategoryFeed.schema,
+      handler: async (request: FastifyRequest, reply: FastifyReply) => {
+        return feedController.getCategoryFeed(request, reply, format);
+      }
+    });
+
+    fastify.get(`/author/:authorId/${file}`, {
+      schema: FeedRoutesSchema.GetAuthorFeed.schema,
+      handler: async (request: FastifyRequest, reply: FastifyReply) => {
+        return feedController.getAuthorFeed(request, reply, format);
+      }
+    });
+  }
+
+  // GET /category/:slug - RSS by default
+  fastify.get('/category/:slug', {
+    schema: FeedRoutesSchema.GetCategoryFeed.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return feedController.getCategoryFeed(request, reply, 'rss');
+    }
+  });
+
+  // GET /author/:authorId - RSS by default
+  fastify.get('/author/:authorId', {
+    schema: FeedRoutesSchema.GetAuthorFeed.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return feedController.getAuthorFeed(request, reply, 'rss');
+    }
+  });
+}
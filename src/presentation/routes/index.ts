@@ -2,9 +2,23 @@ import { FastifyInstance } from 'fastify';
 import { config } from '../../config/env';
 import logger from '../../utils/logger';
 import { registerUserRoutes } from './userRoutes';
+import { registerTwoFactorRoutes } from './twoFactorRoutes';
+import { registerSessionRoutes } from './sessionRoutes';
+import { registerApiKeyRoutes } from './apiKeyRoutes';
+import { registerOAuthRoutes } from './oauthRoutes';
+import { registerRoleRoutes } from './roleRoutes';
+import { registerAuditRoutes } from './auditRoutes';
+import { registerMediaRoutes } from './mediaRoutes';
 import { registerCategoryRoutes } from './categoryRoutes';
+import { registerTagRoutes } from './tagRoutes';
+import { registerSeriesRoutes } from './seriesRoutes';
 import { registerBlogPostRoutes } from './blogPostRoutes';
 import { registerCommentRoutes } from './commentRoutes';
+import { registerPostRevisionRoutes } from './postRevisionRoutes';
+import { registerPostReviewRoutes } from './postReviewRoutes';
+import { registerSearchRoutes } from './searchRoutes';
+import { registerFeedRoutes } from './feedRoutes';
+import { registerSitemapRoutes } from './sitemapRoutes';
 
 export async function registerAllRoutes(fastify: FastifyInstance) {
   // Health check
@@ -40,9 +54,17 @@ export async function registerAllRoutes(fastify: FastifyInstance) {
       description: 'Modern blog backend API with Clean Architecture',
       endpoints: {
         users: '/api/users',
+        roles: '/api/roles',
+        audit: '/api/admin/audit',
+        media: '/api/media',
         categories: '/api/categories',
+        tags: '/api/tags',
+        series: '/api/series',
         posts: '/api/posts',
         comments: '/api/comments',
+        search: '/api/search',
+        feeds: '/feeds/rss.xml',
+        sitemap: '/sitemap.xml',
       },
       documentation: '/api/docs',
     };
@@ -56,31 +78,27 @@ export async function registerAllRoutes(fastify: FastifyInstance) {
 
   // Register API routes
   await fastify.register(registerUserRoutes, { prefix: '/api/users' });
+  await fastify.register(registerTwoFactorRoutes, { prefix: '/api/users' });
+  await fastify.register(registerSessionRoutes, { prefix: '/api/users' });
+  await fastify.register(registerApiKeyRoutes, { prefix: '/api/users' });
+  await fastify.register(registerOAuthRoutes, { prefix: '/api/users' });
+  await fastify.register(registerRoleRoutes, { prefix: '/api/roles' });
+  await fastify.register(registerAuditRoutes, { prefix: '/api/admin' });
+  await fastify.register(registerMediaRoutes, { prefix: '/api/media' });
   await fastify.register(registerCategoryRoutes, { prefix: '/api/categories' });
+  await fastify.register(registerTagRoutes, { prefix: '/api/tags' });
+  await fastify.register(registerSeriesRoutes, { prefix: '/api/series' });
   await fastify.register(registerBlogPostRoutes, { prefix: '/api/posts' });
+  await fastify.register(registerPostRevisionRoutes, { prefix: '/api/posts' });
+  await fastify.register(registerPostReviewRoutes, { prefix: '/api/posts' });
   await fastify.register(registerCommentRoutes, { prefix: '/api/comments' });
+  await fastify.register(registerSearchRoutes, { prefix: '/api/search' });
 
-  // Search endpoint
-  fastify.get('/api/search', async (request, reply) => {
-    const { q, type = 'posts', ...options } = request.query as any;
-    
-    if (!q) {
-      return reply.status(400).send({ error: 'Search query is required' });
-    }
-
-    logger.info('Search accessed', {
-      requestId: (request as any).id,
-      query: q,
-      type
-    });
+  // Syndication
+  await fastify.register(registerFeedRoutes, { prefix: '/feeds' });
 
-    return {
-      query: q,
-      type,
-      results: [],
-      total: 0,
-    };
-  });
+  // SEO - served from the root: /sitemap.xml, /sitemaps/*, /robots.txt
+  await fastify.register(registerSitemapRoutes);
 
   // 404 handler
   fastify.setNotFoundHandler(async (request, reply) => {
@@ -0,0 +1,130 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { MediaController } from '../controllers/MediaController';
+import { authenticate, authenticatedWithScopes, requirePermission } from '../../core/middleware/auth';
+import { audit, paramTarget } from '../../core/middleware/audit';
+import { acceptUploads } from '../../core/middleware/upload';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { Permission } from '../../domain/enums/Permission';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { validateBody } from '../../core/middleware/validation';
+import { mediaSchemas } from '../../application/validators/schemas';
+import { MediaRoutesSchema } from '../../schemas/routes/mediaRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerMediaRoutes(fastify: FastifyInstance) {
+  const mediaController = DIContainer.get<MediaController>(TYPES.MediaController);
+
+  // GET / - Browse and search the media library
+  fastify.get('/', {
+    schema: MediaRoutesSchema.GetMedia.schema,
+    preHandler: [authenticate, authenticatedWithScopes(ApiKeyScope.POSTS_READ)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.getMedia(request, reply);
+    }
+  });
+
+  // POST / - Upload a file to the library
+  fastify.post('/', {
+    schema: MediaRoutesSchema.UploadMedia.schema,
+    preHandler: [authenticate, requirePermission(Permission.MEDIA_UPLOAD, ApiKeyScope.POSTS_WRITE), acceptUploads()],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.uploadMedia(request, reply);
+    }
+  });
+
+  // GET /orphans - Assets nothing references anymore
+  fastify.get('/orphans', {
+    schema: MediaRoutesSchema.GetOrphans.schema,
+    preHandler: [authenticate, requirePermission(Permission.MEDIA_MANAGE)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.getOrphans(request, reply);
+    }
+  });
+
+  // POST /orphans/purge - Delete orphaned assets (dry run by default)
+  fastify.post('/orphans/purge', {
+    schema: MediaRoutesSchema.PurgeOrphans.schema,
+    preHandler: [authenticate, requirePermission(Permission.MEDIA_MANAGE)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.purgeOrphans(request, reply);
+    }
+  });
+
+  // GET /usage - Storage used by the current user and their upload limits
+  fastify.get('/usage', {
+    schema: MediaRoutesSchema.GetOwnUsage.schema,
+    preHandler: [authenticate, authenticatedWithScopes(ApiKeyScope.POSTS_READ)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.getOwnUsage(request, reply);
+    }
+  });
+
+  // GET /quotas - Storage usage per user, largest first
+  fastify.get('/quotas', {
+    schema: MediaRoutesSchema.GetQuotas.schema,
+    preHandler: [authenticate, requirePermission(Permission.MEDIA_QUOTA)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.getQuotas(request, reply);
+    }
+  });
+
+  // GET /quotas/:userId - Usage and effective limits of one user
+  fastify.get('/quotas/:userId', {
+    schema: MediaRoutesSchema.GetUserQuota.schema,
+    preHandler: [authenticate, requirePermission(Permission.MEDIA_QUOTA)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.getUserQuota(request, reply);
+    }
+  });
+
+  // PUT /quotas/:userId - Set or clear the user's own quota
+  fastify.put('/quotas/:userId', {
+    schema: MediaRoutesSchema.SetUserQuota.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.MEDIA_QUOTA),
+      validateBody(mediaSchemas.quota),
+      audit({ action: AuditAction.USER_QUOTA_UPDATE, targetType: AuditTargetType.USER, target: paramTarget('userId') })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.setUserQuota(request, reply);
+    }
+  });
+
+  // GET /:id - Asset with the posts and avatars using it
+  fastify.get('/:id', {
+    schema: MediaRoutesSchema.GetMediaById.schema,
+    preHandler: [authenticate, authenticatedWithScopes(ApiKeyScope.POSTS_READ)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.getMediaById(request, reply);
+    }
+  });
+
+  // Ownership is checked by the service: media.edit.own / media.edit.any
+  fastify.put('/:id', {
+    schema: MediaRoutesSchema.UpdateMedia.schema,
+    preHandler: [
+      authenticate,
+      authenticatedWithScopes(ApiKeyScope.POSTS_WRITE),
+      validateBody(mediaSchemas.update),
+      audit({ action: AuditAction.MEDIA_UPDATE, targetType: AuditTargetType.MEDIA })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.updateMedia(request, reply);
+    }
+  });
+
+  // Ownership is checked by the service: media.delete.own / media.delete.any
+  fastify.delete('/:id', {
+    schema: MediaRoutesSchema.DeleteMedia.schema,
+    preHandler: [
+      authenticate,
+      authenticatedWithScopes(ApiKeyScope.POSTS_WRITE),
+      audit({ action: AuditAction.MEDIA_DELETE, targetType: AuditTargetType.MEDIA })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return mediaController.deleteMedia(request, reply);
+    }
+  });
+}
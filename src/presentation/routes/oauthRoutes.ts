@@ -0,0 +1,36 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { OAuthController } from '../controllers/OAuthController';
+import { validateBody } from '../../core/middleware/validation';
+import { oauthSchemas } from '../../application/validators/schemas';
+import { OAuthRoutesSchema } from '../../schemas/routes/oauthRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerOAuthRoutes(fastify: FastifyInstance) {
+  const oauthController = DIContainer.get<OAuthController>(TYPES.OAuthController);
+
+  // GET /oauth/providers
+  fastify.get('/oauth/providers', {
+    schema: OAuthRoutesSchema.GetProviders.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return oauthController.getProviders(request, reply);
+    }
+  });
+
+  // POST /oauth/:provider/authorize
+  fastify.post('/oauth/:provider/authorize', {
+    schema: OAuthRoutesSchema.Authorize.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return oauthController.authorize(request, reply);
+    }
+  });
+
+  // POST /oauth/:provider/callback
+  fastify.post('/oauth/:provider/callback', {
+    schema: OAuthRoutesSchema.Callback.schema,
+    preHandler: [validateBody(oauthSchemas.callback)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return oauthController.callback(request, reply);
+    }
+  });
+}
@@ -0,0 +1,112 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PostReviewController } from '../controllers/PostReviewController';
+import { authenticate, requirePermission, requireBlogOwnership, authenticatedWithScopes } from '../../core/middleware/auth';
+import { audit } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { Permission } from '../../domain/enums/Permission';
+import { validateBody } from '../../core/middleware/validation';
+import { reviewSchemas } from '../../application/validators/schemas';
+import { PostReviewRoutesSchema } from '../../schemas/routes/postReviewRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerPostReviewRoutes(fastify: FastifyInstance) {
+  const postReviewController = DIContainer.get<PostReviewController>(TYPES.PostReviewController);
+
+  // ===== EDITOR / ADMIN ROUTES =====
+
+  // GET /review/queue
+  fastify.get('/review/queue', {
+    schema: PostReviewRoutesSchema.GetReviewQueue.schema,
+    preHandler: [authenticate, requirePermission(Permission.POST_REVIEW)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postReviewController.getQueue(request, reply);
+    }
+  });
+
+  // PUT /:id/review/reviewer
+  fastify.put('/:id/review/reviewer', {
+    schema: PostReviewRoutesSchema.AssignReviewer.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.POST_REVIEW),
+      validateBody(reviewSchemas.assignReviewer),
+      audit({ action: AuditAction.POST_REVIEW_ASSIGN, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postReviewController.assignReviewer(request, reply);
+    }
+  });
+
+  // POST /:id/review/approve
+  fastify.post('/:id/review/approve', {
+    schema: PostReviewRoutesSchema.ApprovePost.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.POST_REVIEW),
+      validateBody(reviewSchemas.approve),
+      audit({ action: AuditAction.POST_REVIEW_APPROVE, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postReviewController.approve(request, reply);
+    }
+  });
+
+  // POST /:id/review/request-changes
+  fastify.post('/:id/review/request-changes', {
+    schema: PostReviewRoutesSchema.RequestChanges.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.POST_REVIEW),
+      validateBody(reviewSchemas.requestChanges),
+      audit({ action: AuditAction.POST_REVIEW_REQUEST_CHANGES, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postReviewController.requestChanges(request, reply);
+    }
+  });
+
+  // ===== OWNER / ADMIN ROUTES =====
+
+  // POST /:id/review/submit
+  fastify.post('/:id/review/submit', {
+    schema: PostReviewRoutesSchema.SubmitForReview.schema,
+    preHandler: [
+      authenticate,
+      authenticatedWithScopes(ApiKeyScope.POSTS_PUBLISH),
+      requireBlogOwnership(),
+      validateBody(reviewSchemas.submit),
+      audit({ action: AuditAction.POST_REVIEW_SUBMIT, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postReviewController.submit(request, reply);
+    }
+  });
+
+  // POST /:id/review/withdraw
+  fastify.post('/:id/review/withdraw', {
+    schema: PostReviewRoutesSchema.WithdrawFromReview.schema,
+    preHandler: [
+      authenticate,
+      authenticatedWithScopes(ApiKeyScope.POSTS_PUBLISH),
+      requireBlogOwnership(),
+      validateBody(reviewSchemas.withdraw),
+      audit({ action: AuditAction.POST_REVIEW_WITHDRAW, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postReviewController.withdraw(request, reply);
+    }
+  });
+
+  // ===== OWNER / EDITOR / ADMIN ROUTES =====
+
+  // GET /:id/review
+  fastify.get('/:id/review', {
+    schema: PostReviewRoutesSchema.GetReviewHistory.schema,
+    preHandler: [authenticate, authenticatedWithScopes(ApiKeyScope.POSTS_READ)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postReviewController.getHistory(request, reply);
+    }
+  });
+}
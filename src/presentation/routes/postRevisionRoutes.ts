@@ -0,0 +1,56 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { PostRevisionController } from '../controllers/PostRevisionController';
+import { authenticate, requireBlogOwnership, authenticatedWithScopes } from '../../core/middleware/auth';
+import { audit } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { PostRevisionRoutesSchema } from '../../schemas/routes/postRevisionRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerPostRevisionRoutes(fastify: FastifyInstance) {
+  const postRevisionController = DIContainer.get<PostRevisionController>(TYPES.PostRevisionController);
+
+  // ===== OWNER / ADMIN ROUTES =====
+
+  // GET /:id/revisions
+  fastify.get('/:id/revisions', {
+    schema: PostRevisionRoutesSchema.GetRevisions.schema,
+    preHandler: [authenticate, authenticatedWithScopes(ApiKeyScope.POSTS_READ), requireBlogOwnership()],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postRevisionController.getRevisions(request, reply);
+    }
+  });
+
+  // GET /:id/revisions/diff?from=&to=
+  fastify.get('/:id/revisions/diff', {
+    schema: PostRevisionRoutesSchema.CompareRevisions.schema,
+    preHandler: [authenticate, authenticatedWithScopes(ApiKeyScope.POSTS_READ), requireBlogOwnership()],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postRevisionController.compareRevisions(request, reply);
+    }
+  });
+
+  // GET /:id/revisions/:revisionId
+  fastify.get('/:id/revisions/:revisionId', {
+    schema: PostRevisionRoutesSchema.GetRevision.schema,
+    preHandler: [authenticate, authenticatedWithScopes(ApiKeyScope.POSTS_READ), requireBlogOwnership()],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postRevisionController.getRevision(request, reply);
+    }
+  });
+
+  // POST /:id/revisions/:revisionId/restore
+  fastify.post('/:id/revisions/:revisionId/restore', {
+    schema: PostRevisionRoutesSchema.RestoreRevision.schema,
+    preHandler: [
+      authenticate,
+      authenticatedWithScopes(ApiKeyScope.POSTS_WRITE),
+      requireBlogOwnership(),
+      audit({ action: AuditAction.POST_REVISION_RESTORE, targetType: AuditTargetType.POST })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return postRevisionController.restoreRevision(request, reply);
+    }
+  });
+}
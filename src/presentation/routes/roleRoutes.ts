@@ -0,0 +1,94 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { RoleController } from '../controllers/RoleController';
+import { authenticate, authenticatedOnly, requirePermission } from '../../core/middleware/auth';
+import { audit, paramTarget } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { Permission } from '../../domain/enums/Permission';
+import { validateBody } from '../../core/middleware/validation';
+import { roleSchemas } from '../../application/validators/schemas';
+import { RoleRoutesSchema } from '../../schemas/routes/roleRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerRoleRoutes(fastify: FastifyInstance) {
+  const roleController = DIContainer.get<RoleController>(TYPES.RoleController);
+
+  // GET /me - Permissions of the current user
+  fastify.get('/me', {
+    schema: RoleRoutesSchema.GetMyPermissions.schema,
+    preHandler: [authenticate, authenticatedOnly],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return roleController.getMyPermissions(request, reply);
+    }
+  });
+
+  // ===== ROLE MANAGEMENT (role.manage) =====
+
+  // GET /permissions - Every permission a role can be granted
+  fastify.get('/permissions', {
+    schema: RoleRoutesSchema.GetPermissions.schema,
+    preHandler: [authenticate, requirePermission(Permission.ROLE_MANAGE)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return roleController.getPermissions(request, reply);
+    }
+  });
+
+  // GET /
+  fastify.get('/', {
+    schema: RoleRoutesSchema.GetRoles.schema,
+    preHandler: [authenticate, requirePermission(Permission.ROLE_MANAGE)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return roleController.getRoles(request, reply);
+    }
+  });
+
+  // GET /:name
+  fastify.get('/:name', {
+    schema: RoleRoutesSchema.GetRole.schema,
+    preHandler: [authenticate, requirePermission(Permission.ROLE_MANAGE)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return roleController.getRole(request, reply);
+    }
+  });
+
+  // POST /
+  fastify.post('/', {
+    schema: RoleRoutesSchema.CreateRole.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.ROLE_MANAGE),
+      validateBody(roleSchemas.create),
+      audit({ action: AuditAction.ROLE_CREATE, targetType: AuditTargetType.ROLE, targetFromResponse: (role) => role?.name })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return roleController.createRole(request, reply);
+    }
+  });
+
+  // PUT /:name
+  fastify.put('/:name', {
+    schema: RoleRoutesSchema.UpdateRole.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.ROLE_MANAGE),
+      validateBody(roleSchemas.update),
+      audit({ action: AuditAction.ROLE_UPDATE, targetType: AuditTargetType.ROLE, target: paramTarget('name') })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return roleController.updateRole(request, reply);
+    }
+  });
+
+  // DELETE /:name
+  fastify.delete('/:name', {
+    schema: RoleRoutesSchema.DeleteRole.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.ROLE_MANAGE),
+      audit({ action: AuditAction.ROLE_DELETE, targetType: AuditTargetType.ROLE, target: paramTarget('name') })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return roleController.deleteRole(request, reply);
+    }
+  });
+}
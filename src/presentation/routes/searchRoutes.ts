@@ -0,0 +1,17 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { SearchController } from '../controllers/SearchController';
+import { SearchRoutesSchema } from '../../schemas/routes/searchRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerSearchRoutes(fastify: FastifyInstance) {
+  const searchController = DIContainer.get<SearchController>(TYPES.SearchController);
+
+  // GET / - Unified full-text search
+  fastify.get('/', {
+    schema: SearchRoutesSchema.Search.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return searchController.search(request, reply);
+    }
+  });
+}
@@ -0,0 +1,80 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { SeriesController } from '../controllers/SeriesController';
+import { authenticate, requirePermission } from '../../core/middleware/auth';
+import { audit } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { validateBody } from '../../core/middleware/validation';
+import { seriesSchemas } from '../../application/validators/schemas';
+import { SeriesRoutesSchema } from '../../schemas/routes/seriesRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerSeriesRoutes(fastify: FastifyInstance) {
+  const seriesController = DIContainer.get<SeriesController>(TYPES.SeriesController);
+
+  // GET / - List series with their published part counts
+  fastify.get('/', {
+    schema: SeriesRoutesSchema.GetSeries.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return seriesController.getSeries(request, reply);
+    }
+  });
+
+  // GET /slug/:slug - Series with its published parts; former slugs redirect
+  fastify.get('/slug/:slug', {
+    schema: SeriesRoutesSchema.GetSeriesBySlug.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return seriesController.getSeriesBySlug(request, reply);
+    }
+  });
+
+  // GET /:id - Series with its published parts
+  fastify.get('/:id', {
+    schema: SeriesRoutesSchema.GetSeriesById.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return seriesController.getSeriesById(request, reply);
+    }
+  });
+
+  // POST / - Create a series, optionally with its parts
+  fastify.post('/', {
+    schema: SeriesRoutesSchema.CreateSeries.schema,
+    preHandler: [
+      authenticate,
+      requirePermission('series.manage', ApiKeyScope.POSTS_WRITE),
+      validateBody(seriesSchemas.create),
+      audit({ action: AuditAction.SERIES_CREATE, targetType: AuditTargetType.SERIES, targetFromResponse: (series) => series?.id })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return seriesController.createSeries(request, reply);
+    }
+  });
+
+  // PUT /:id - Update a series or reorder its parts (owner or series.manage.any)
+  fastify.put('/:id', {
+    schema: SeriesRoutesSchema.UpdateSeries.schema,
+    preHandler: [
+      authenticate,
+      requirePermission('series.manage', ApiKeyScope.POSTS_WRITE),
+      validateBody(seriesSchemas.update),
+      audit({ action: AuditAction.SERIES_UPDATE, targetType: AuditTargetType.SERIES })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return seriesController.updateSeries(request, reply);
+    }
+  });
+
+  // DELETE /:id - Delete a series, its posts stay (owner or series.manage.any)
+  fastify.delete('/:id', {
+    schema: SeriesRoutesSchema.DeleteSeries.schema,
+    preHandler: [
+      authenticate,
+      requirePermission('series.manage', ApiKeyScope.POSTS_WRITE),
+      audit({ action: AuditAction.SERIES_DELETE, targetType: AuditTargetType.SERIES })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return seriesController.deleteSeries(request, reply);
+    }
+  });
+}
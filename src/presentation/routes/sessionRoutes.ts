@@ -0,0 +1,61 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { SessionController } from '../controllers/SessionController';
+import { authenticate, requirePermission, authenticatedOnly } from '../../core/middleware/auth';
+import { audit, paramTarget } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { Permission } from '../../domain/enums/Permission';
+import { SessionRoutesSchema } from '../../schemas/routes/sessionRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerSessionRoutes(fastify: FastifyInstance) {
+  const sessionController = DIContainer.get<SessionController>(TYPES.SessionController);
+
+  // ===== AUTHENTICATED ROUTES =====
+
+  // GET /sessions
+  fastify.get('/sessions', {
+    schema: SessionRoutesSchema.GetMySessions.schema,
+    preHandler: [authenticate, authenticatedOnly],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return sessionController.getMySessions(request, reply);
+    }
+  });
+
+  // DELETE /sessions/:sessionId
+  fastify.delete('/sessions/:sessionId', {
+    schema: SessionRoutesSchema.RevokeMySession.schema,
+    preHandler: [
+      authenticate,
+      authenticatedOnly,
+      audit({ action: AuditAction.SESSION_REVOKE, targetType: AuditTargetType.SESSION, target: paramTarget('sessionId') })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return sessionController.revokeMySession(request, reply);
+    }
+  });
+
+  // ===== ADMIN ROUTES =====
+
+  // GET /:id/sessions
+  fastify.get('/:id/sessions', {
+    schema: SessionRoutesSchema.GetUserSessions.schema,
+    preHandler: [authenticate, requirePermission(Permission.USER_MANAGE)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return sessionController.getUserSessions(request, reply);
+    }
+  });
+
+  // DELETE /:id/sessions/:sessionId
+  fastify.delete('/:id/sessions/:sessionId', {
+    schema: SessionRoutesSchema.RevokeUserSession.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.USER_MANAGE),
+      audit({ action: AuditAction.SESSION_REVOKE, targetType: AuditTargetType.SESSION, target: paramTarget('sessionId') })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return sessionController.revokeUserSession(request, reply);
+    }
+  });
+}
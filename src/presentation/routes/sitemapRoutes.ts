@@ -0,0 +1,30 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { SitemapController } from '../controllers/SitemapController';
+import { SitemapRoutesSchema } from '../../schemas/routes/sitemapRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerSitemapRoutes(fastify: FastifyInstance) {
+  const sitemapController = DIContainer.get<SitemapController>(TYPES.SitemapController);
+
+  fastify.get('/sitemap.xml', {
+    schema: SitemapRoutesSchema.GetSitemap.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return sitemapController.getSitemap(request, reply);
+    }
+  });
+
+  fastify.get('/sitemaps/:file', {
+    schema: SitemapRoutesSchema.GetChildSitemap.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return sitemapController.getChildSitemap(request, reply);
+    }
+  });
+
+  fastify.get('/robots.txt', {
+    schema: SitemapRoutesSchema.GetRobots.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return sitemapController.getRobots(request, reply);
+    }
+  });
+}
@@ -0,0 +1,73 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { TagController } from '../controllers/TagController';
+import { authenticate, requirePermission } from '../../core/middleware/auth';
+import { audit } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { Permission } from '../../domain/enums/Permission';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { validateBody } from '../../core/middleware/validation';
+import { tagSchemas } from '../../application/validators/schemas';
+import { TagRoutesSchema } from '../../schemas/routes/tagRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerTagRoutes(fastify: FastifyInstance) {
+  const tagController = DIContainer.get<TagController>(TYPES.TagController);
+
+  // GET / - List tags with their usage counts
+  fastify.get('/', {
+    schema: TagRoutesSchema.GetTags.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return tagController.getTags(request, reply);
+    }
+  });
+
+  // GET /cloud - Most used tags weighted by usage
+  fastify.get('/cloud', {
+    schema: TagRoutesSchema.GetTagCloud.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return tagController.getTagCloud(request, reply);
+    }
+  });
+
+  // GET /autocomplete - Tags starting with what the user typed
+  fastify.get('/autocomplete', {
+    schema: TagRoutesSchema.Autocomplete.schema,
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return tagController.autocomplete(request, reply);
+    }
+  });
+
+  // PUT /:id - Rename a tag or change its description
+  fastify.put('/:id', {
+    schema: TagRoutesSchema.UpdateTag.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.TAG_MANAGE, ApiKeyScope.TAGS_WRITE),
+      validateBody(tagSchemas.update),
+      audit({ action: AuditAction.TAG_UPDATE, targetType: AuditTargetType.TAG })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return tagController.updateTag(request, reply);
+    }
+  });
+
+  // POST /:id/merge - Move the tag's posts to another tag and delete it
+  fastify.post('/:id/merge', {
+    schema: TagRoutesSchema.MergeTag.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.TAG_MANAGE, ApiKeyScope.TAGS_WRITE),
+      validateBody(tagSchemas.merge),
+      audit({
+        action: AuditAction.TAG_MERGE,
+        targetType: AuditTargetType.TAG,
+        target: (request) => [(request.params as { id: string }).id, (request.body as { targetId: string }).targetId],
+        skip: (request) => (request.body as { dryRun?: boolean }).dryRun === true
+      })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return tagController.mergeTag(request, reply);
+    }
+  });
+}
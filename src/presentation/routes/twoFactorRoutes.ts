@@ -0,0 +1,87 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { TwoFactorController } from '../controllers/TwoFactorController';
+import { authenticate, requirePermission, authenticatedOnly } from '../../core/middleware/auth';
+import { audit } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { Permission } from '../../domain/enums/Permission';
+import { validateBody } from '../../core/middleware/validation';
+import { twoFactorSchemas } from '../../application/validators/schemas';
+import { TwoFactorRoutesSchema } from '../../schemas/routes/twoFactorRoutesSchema';
+import { TYPES } from '../../core/container/types';
+import { DIContainer } from '../../core/container/DIContainer';
+
+export async function registerTwoFactorRoutes(fastify: FastifyInstance) {
+  const twoFactorController = DIContainer.get<TwoFactorController>(TYPES.TwoFactorController);
+
+  // ===== AUTHENTICATED ROUTES =====
+
+  // GET /2fa
+  fastify.get('/2fa', {
+    schema: TwoFactorRoutesSchema.GetStatus.schema,
+    preHandler: [authenticate, authenticatedOnly],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return twoFactorController.getStatus(request, reply);
+    }
+  });
+
+  // POST /2fa/setup
+  fastify.post('/2fa/setup', {
+    schema: TwoFactorRoutesSchema.Setup.schema,
+    preHandler: [authenticate, authenticatedOnly],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return twoFactorController.setup(request, reply);
+    }
+  });
+
+  // POST /2fa/enable
+  fastify.post('/2fa/enable', {
+    schema: TwoFactorRoutesSchema.Enable.schema,
+    preHandler: [authenticate, authenticatedOnly, validateBody(twoFactorSchemas.enable)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return twoFactorController.enable(request, reply);
+    }
+  });
+
+  // POST /2fa/disable
+  fastify.post('/2fa/disable', {
+    schema: TwoFactorRoutesSchema.Disable.schema,
+    preHandler: [authenticate, authenticatedOnly, validateBody(twoFactorSchemas.disable)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return twoFactorController.disable(request, reply);
+    }
+  });
+
+  // POST /2fa/recovery-codes
+  fastify.post('/2fa/recovery-codes', {
+    schema: TwoFactorRoutesSchema.RegenerateRecoveryCodes.schema,
+    preHandler: [authenticate, authenticatedOnly, validateBody(twoFactorSchemas.regenerateRecoveryCodes)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return twoFactorController.regenerateRecoveryCodes(request, reply);
+    }
+  });
+
+  // ===== ADMIN ROUTES =====
+
+  // GET /2fa/required-roles
+  fastify.get('/2fa/required-roles', {
+    schema: TwoFactorRoutesSchema.GetRequiredRoles.schema,
+    preHandler: [authenticate, requirePermission(Permission.ROLE_MANAGE)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return twoFactorController.getRequiredRoles(request, reply);
+    }
+  });
+
+  // PUT /2fa/required-roles
+  fastify.put('/2fa/required-roles', {
+    schema: TwoFactorRoutesSchema.SetRequiredRoles.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.ROLE_MANAGE),
+      validateBody(twoFactorSchemas.requiredRoles),
+      audit({ action: AuditAction.TWO_FACTOR_POLICY_UPDATE, targetType: AuditTargetType.TWO_FACTOR_POLICY, target: () => null })
+    ],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return twoFactorController.setRequiredRoles(request, reply);
+    }
+  });
+}
@@ -2,11 +2,16 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { UserController } from '../controllers/UserController';
 import { 
   authenticate, 
-  adminOnly, 
-  requireOwnership 
+  requirePermission, 
+  requireOwnership,
+  authenticatedOnly
 } from '../../core/middleware/auth';
+import { audit } from '../../core/middleware/audit';
+import { AuditAction, AuditTargetType } from '../../domain/enums/AuditAction';
+import { ApiKeyScope } from '../../domain/enums/ApiKeyScope';
+import { Permission } from '../../domain/enums/Permission';
 import { validateBody } from '../../core/middleware/validation';
-import { authSchemas, userSchemas } from '../../application/validators/schemas';
+import { authSchemas, userSchemas, roleSchemas } from '../../application/validators/schemas';
 import { UserRoutesSchema } from '../../schemas/routes/userRoutesSchema';
 import { TYPES } from '../../core/container/types';
 import { DIContainer } from '../../core/container/DIContainer';
@@ -34,6 +39,33 @@ export async function registerUserRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // POST /login/2fa - Exchange MFA token + code for tokens
+  fastify.post('/login/2fa', {
+    schema: UserRoutesSchema.LoginMfa.schema,
+    preHandler: [validateBody(authSchemas.mfaLogin)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return userController.verifyMfaLogin(request, reply);
+    }
+  });
+
+  // POST /login/2fa/setup - Required enrollment, step 1
+  fastify.post('/login/2fa/setup', {
+    schema: UserRoutesSchema.LoginMfaSetup.schema,
+    preHandler: [validateBody(authSchemas.mfaEnrollment)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return userController.beginMfaEnrollment(request, reply);
+    }
+  });
+
+  // POST /login/2fa/enable - Required enrollment, step 2
+  fastify.post('/login/2fa/enable', {
+    schema: UserRoutesSchema.LoginMfaEnable.schema,
+    preHandler: [validateBody(authSchemas.mfaLogin)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return userController.completeMfaEnrollment(request, reply);
+    }
+  });
+
   // POST /refresh
   fastify.post('/refresh', {
     schema: UserRoutesSchema.RefreshToken.schema,
@@ -42,6 +74,33 @@ export async function registerUserRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // POST /verify-email
+  fastify.post('/verify-email', {
+    schema: UserRoutesSchema.VerifyEmail.schema,
+    preHandler: [validateBody(authSchemas.verifyEmail)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return userController.verifyEmail(request, reply);
+    }
+  });
+
+  // POST /forgot-password
+  fastify.post('/forgot-password', {
+    schema: UserRoutesSchema.ForgotPassword.schema,
+    preHandler: [validateBody(authSchemas.forgotPassword)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return userController.forgotPassword(request, reply);
+    }
+  });
+
+  // POST /reset-password
+  fastify.post('/reset-password', {
+    schema: UserRoutesSchema.ResetPassword.schema,
+    preHandler: [validateBody(authSchemas.resetPassword)],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return userController.resetPassword(request, reply);
+    }
+  });
+
   // GET /authors - Public endpoint
   fastify.get('/authors', {
     schema: UserRoutesSchema.GetAuthors.schema,
@@ -63,16 +122,25 @@ export async function registerUserRoutes(fastify: FastifyInstance) {
   // POST /logout
   fastify.post('/logout', {
     schema: UserRoutesSchema.Logout.schema,
-    preHandler: [authenticate],
+    preHandler: [authenticate, authenticatedOnly],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return userController.logout(request, reply);
     }
   });
 
+  // POST /verify-email/resend - Send a new verification link
+  fastify.post('/verify-email/resend', {
+    schema: UserRoutesSchema.ResendVerificationEmail.schema,
+    preHandler: [authenticate, authenticatedOnly],
+    handler: async (request: FastifyRequest, reply: FastifyReply) => {
+      return userController.resendVerificationEmail(request, reply);
+    }
+  });
+
   // GET /profile - Get current user profile
   fastify.get('/profile', {
     schema: UserRoutesSchema.GetProfile.schema,
-    preHandler: [authenticate],
+    preHandler: [authenticate, authenticatedOnly],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return userController.getProfile(request, reply);
     }
@@ -83,6 +151,7 @@ export async function registerUserRoutes(fastify: FastifyInstance) {
     schema: UserRoutesSchema.UpdateProfile.schema,
     preHandler: [
       authenticate,
+      authenticatedOnly,
       validateBody(userSchemas.updateProfile)
     ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
@@ -93,7 +162,7 @@ export async function registerUserRoutes(fastify: FastifyInstance) {
   // POST /change-password
   fastify.post('/change-password', {
     schema: UserRoutesSchema.ChangePassword.schema,
-    preHandler: [authenticate],
+    preHandler: [authenticate, authenticatedOnly],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return userController.changePassword(request, reply);
     }
@@ -102,7 +171,7 @@ export async function registerUserRoutes(fastify: FastifyInstance) {
   // GET /:id/stats - User stats (own or admin)
   fastify.get('/:id/stats', {
     schema: UserRoutesSchema.GetUserStats.schema,
-    preHandler: [authenticate, requireOwnership()],
+    preHandler: [authenticate, authenticatedOnly, requireOwnership('id', Permission.USER_READ)],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return userController.getUserStats(request, reply);
     }
@@ -113,34 +182,34 @@ export async function registerUserRoutes(fastify: FastifyInstance) {
   // GET / - Get all users (Admin only)
   fastify.get('/', {
     schema: UserRoutesSchema.GetAllUsers.schema,
-    preHandler: [authenticate, adminOnly],
+    preHandler: [authenticate, requirePermission(Permission.USER_READ, ApiKeyScope.USERS_READ)],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return userController.getAllUsers(request, reply);
     }
   });
 
-  // POST /:id/promote - Promote user to author (Admin only)
-  fastify.post('/:id/promote', {
-    schema: UserRoutesSchema.PromoteToAuthor.schema,
-    preHandler: [authenticate, adminOnly],
-    handler: async (request: FastifyRequest, reply: FastifyReply) => {
-      return userController.promoteToAuthor(request, reply);
-    }
-  });
-
-  // POST /:id/demote - Demote author to user (Admin only)
-  fastify.post('/:id/demote', {
-    schema: UserRoutesSchema.DemoteToUser.schema,
-    preHandler: [authenticate, adminOnly],
+  // PUT /:id/role - Assign any existing role to a user
+  fastify.put('/:id/role', {
+    schema: UserRoutesSchema.ChangeRole.schema,
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.USER_MANAGE),
+      validateBody(roleSchemas.assign),
+      audit({ action: AuditAction.USER_ROLE_CHANGE, targetType: AuditTargetType.USER })
+    ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
-      return userController.demoteToUser(request, reply);
+      return userController.changeRole(request, reply);
     }
   });
 
   // POST /:id/deactivate - Deactivate user (Admin only)
   fastify.post('/:id/deactivate', {
     schema: UserRoutesSchema.DeactivateUser.schema,
-    preHandler: [authenticate, adminOnly],
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.USER_MANAGE),
+      audit({ action: AuditAction.USER_DEACTIVATE, targetType: AuditTargetType.USER })
+    ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return userController.deactivateUser(request, reply);
     }
@@ -149,7 +218,11 @@ export async function registerUserRoutes(fastify: FastifyInstance) {
   // POST /:id/activate - Activate user (Admin only)
   fastify.post('/:id/activate', {
     schema: UserRoutesSchema.ActivateUser.schema,
-    preHandler: [authenticate, adminOnly],
+    preHandler: [
+      authenticate,
+      requirePermission(Permission.USER_MANAGE),
+      audit({ action: AuditAction.USER_ACTIVATE, targetType: AuditTargetType.USER })
+    ],
     handler: async (request: FastifyRequest, reply: FastifyReply) => {
       return userController.activateUser(request, reply);
     }
@@ -83,6 +83,38 @@ export const CommonResponses = {
     required: ["error", "message", "statusCode"]
   },
 
+  Error413: {
+    type: "object",
+    properties: {
+      error: { type: "string", default: "PayloadTooLargeError" },
+      message: { type: "string", example: "Storage quota exceeded: 1023.5 MB of 1024.0 MB used" },
+      code: { type: "string", example: "STORAGE_QUOTA_EXCEEDED", description: "PAYLOAD_TOO_LARGE or STORAGE_QUOTA_EXCEEDED" },
+      statusCode: { type: "integer", default: 413 },
+      details: {
+        type: "object",
+        description: "Limit that was hit, e.g. maxFileSizeBytes, maxFiles or usedBytes/quotaBytes/remainingBytes",
+        additionalProperties: true
+      }
+    },
+    required: ["error", "message", "statusCode"]
+  },
+
+  Error422: {
+    type: "object",
+    properties: {
+      error: { type: "string", default: "UnsupportedFileTypeError" },
+      message: { type: "string", example: "Unsupported file type: document.png" },
+      code: { type: "string", example: "UNSUPPORTED_FILE_TYPE" },
+      statusCode: { type: "integer", default: 422 },
+      details: {
+        type: "object",
+        description: "Type detected from the file content and the allowed types",
+        additionalProperties: true
+      }
+    },
+    required: ["error", "message", "statusCode"]
+  },
+
   Error500: {
     type: "object",
     properties: {
@@ -0,0 +1,133 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+import { ApiKeyScope } from "../../domain/enums/ApiKeyScope";
+
+const SCOPE_ENUM = Object.values(ApiKeyScope);
+
+const API_KEY_PROPERTIES = {
+  id: { type: "string" },
+  name: { type: "string" },
+  prefix: { type: "string", description: "Public, non-secret start of the key" },
+  scopes: { type: "array", items: { type: "string" } },
+  expiresAt: { type: "string", format: "date-time" },
+  lastUsedAt: { type: "string", format: "date-time" },
+  lastUsedIp: { type: "string" },
+  revokedAt: { type: "string", format: "date-time" },
+  createdAt: { type: "string", format: "date-time" },
+  active: { type: "boolean" },
+};
+
+export const ApiKeyRoutesSchema: IBaseSchema = {
+  GetScopes: {
+    schema: {
+      summary: "List API key scopes",
+      description: "All scopes that can be granted to an API key",
+      tags: ["API Keys"],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+    },
+  },
+
+  GetMyApiKeys: {
+    schema: {
+      summary: "List my API keys",
+      description: "API keys of the current user, including revoked and expired ones. Secrets are never returned",
+      tags: ["API Keys"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: { type: "object", properties: API_KEY_PROPERTIES },
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  CreateApiKey: {
+    schema: {
+      summary: "Create an API key",
+      description: "Create a personal API key. Send it as `Authorization: ApiKey <key>`; it can only call endpoints allowed by its scopes and by the owner's role. The key is shown only once",
+      tags: ["API Keys"],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1, maxLength: 100, description: "What the key is used for, e.g. 'CI release notes'" },
+          scopes: {
+            type: "array",
+            items: { type: "string", enum: SCOPE_ENUM },
+            minItems: 1,
+            uniqueItems: true,
+          },
+          expiresInDays: { type: "integer", minimum: 1, description: "Defaults to the maximum allowed lifetime" },
+        },
+        required: ["name", "scopes"],
+      },
+      response: {
+        201: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                apiKey: { type: "object", properties: API_KEY_PROPERTIES },
+                key: { type: "string", description: "Full API key; store it securely" },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  RevokeApiKey: {
+    schema: {
+      summary: "Revoke an API key",
+      description: "The key stops working immediately",
+      tags: ["API Keys"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "API key ID" },
+        },
+        required: ["id"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
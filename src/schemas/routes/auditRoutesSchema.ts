@@ -0,0 +1,101 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+import { AuditTargetType } from "../../domain/enums/AuditAction";
+
+const AUDIT_LOG_PROPERTIES = {
+  id: { type: "string" },
+  action: { type: "string", description: "e.g. user.role.change, category.delete, comment.reject" },
+  targetType: { type: "string", enum: Object.values(AuditTargetType) },
+  targetId: { type: "string" },
+  before: { type: "object", additionalProperties: true, description: "Target state before the action" },
+  after: { type: "object", additionalProperties: true, description: "Target state after the action" },
+  changedFields: { type: "array", items: { type: "string" } },
+  actor: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      username: { type: "string" },
+      role: { type: "string" },
+      apiKeyId: { type: "string", description: "Set when the action was made with an API key" },
+    },
+  },
+  ip: { type: "string" },
+  userAgent: { type: "string" },
+  requestId: { type: "string", description: "Matches the x-request-id response header" },
+  createdAt: { type: "string", format: "date-time" },
+};
+
+const PAGINATION_PROPERTIES = {
+  currentPage: { type: "integer" },
+  totalPages: { type: "integer" },
+  totalItems: { type: "integer" },
+  itemsPerPage: { type: "integer" },
+  hasNext: { type: "boolean" },
+  hasPrev: { type: "boolean" },
+};
+
+const FILTER_QUERY = {
+  actorId: { type: "string", description: "User who performed the action" },
+  action: { type: "string", description: "Exact action, or a prefix ending in * (e.g. user.*)" },
+  targetType: { type: "string", enum: Object.values(AuditTargetType) },
+  targetId: { type: "string" },
+  requestId: { type: "string" },
+  from: { type: "string", format: "date-time", description: "Entries at or after this time" },
+  to: { type: "string", format: "date-time", description: "Entries at or before this time" },
+};
+
+export const AuditRoutesSchema: IBaseSchema = {
+  GetAuditLogs: {
+    schema: {
+      summary: "Audit log",
+      description: "Administrative and content actions, newest first (requires audit.read)",
+      tags: ["Admin"],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: "object",
+        properties: {
+          ...FILTER_QUERY,
+          page: { type: "integer", minimum: 1, default: 1 },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: { type: "object", properties: AUDIT_LOG_PROPERTIES },
+            },
+            pagination: { type: "object", properties: PAGINATION_PROPERTIES },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  ExportAuditLogs: {
+    schema: {
+      summary: "Export audit log as CSV",
+      description: "Same filters as the audit log; returns at most AUDIT_EXPORT_MAX_ROWS entries, newest first (requires audit.read)",
+      tags: ["Admin"],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: "object",
+        properties: FILTER_QUERY,
+      },
+      // The CSV body is a plain document, only error responses are described here
+      response: {
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
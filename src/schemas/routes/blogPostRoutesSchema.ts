@@ -1,7 +1,55 @@
 import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
 import { CommonResponses } from "../common/responses";
 
-const BLOG_POST_PROPERTIES = {
+const IMAGE_SOURCES_PROPERTIES = {
+  jpeg: { type: "string", format: "uri" },
+  png: { type: "string", format: "uri" },
+  gif: { type: "string", format: "uri" },
+  webp: { type: "string", format: "uri" },
+  avif: { type: "string", format: "uri" },
+};
+
+// Uploaded image as stored in the media library (see MediaAssetResponseDto)
+export const IMAGE_UPLOAD_PROPERTIES = {
+  id: { type: "string", description: "Media library asset ID" },
+  url: { type: "string", format: "uri", description: "Full size image without EXIF/GPS metadata" },
+  key: { type: "string", description: "Storage key of the full size image" },
+  mimeType: { type: "string", description: "Type of the stored full size image" },
+  width: { type: "integer" },
+  height: { type: "integer" },
+  size: { type: "integer", description: "Size in bytes of the full size image" },
+  variants: {
+    type: "object",
+    description: "Resized versions by name (thumb, medium, large...), each available in several formats",
+    additionalProperties: {
+      type: "object",
+      properties: {
+        width: { type: "integer" },
+        height: { type: "integer" },
+        sources: { type: "object", properties: IMAGE_SOURCES_PROPERTIES },
+      },
+    },
+  },
+  srcset: {
+    type: "object",
+    description: "srcset attribute value per format",
+    properties: {
+      jpeg: { type: "string" },
+      png: { type: "string" },
+      gif: { type: "string" },
+      webp: { type: "string" },
+      avif: { type: "string" },
+    },
+  },
+};
+
+const SERIES_PART_LINK_PROPERTIES = {
+  id: { type: "string" },
+  title: { type: "string" },
+  slug: { type: "string" },
+};
+
+export const BLOG_POST_PROPERTIES = {
   id: { type: "string" },
   title: { type: "string" },
   slug: { type: "string" },
@@ -12,6 +60,16 @@ const BLOG_POST_PROPERTIES = {
   status: { type: "string" },
   isPublished: { type: "boolean" },
   publishedAt: { type: "string" },
+  scheduledFor: { type: "string" },
+  reviewer: {
+    type: ["object", "null"],
+    properties: {
+      id: { type: "string" },
+      username: { type: "string" },
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+    },
+  },
   viewCount: { type: "integer" },
   commentsCount: { type: "integer" },
   tags: { type: "array", items: { type: "string" } },
@@ -28,6 +86,21 @@ const BLOG_POST_PROPERTIES = {
       bio: { type: "string" },
     },
   },
+  authors: {
+    type: "array",
+    description: "Everyone credited on the post in contribution order, the primary author included",
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        username: { type: "string" },
+        firstName: { type: "string" },
+        lastName: { type: "string" },
+        avatar: { type: "string" },
+        role: { type: "string", enum: ["PRIMARY", "CO_AUTHOR", "REVIEWER"] },
+      },
+    },
+  },
   category: {
     type: "object",
     properties: {
@@ -36,6 +109,32 @@ const BLOG_POST_PROPERTIES = {
       slug: { type: "string" },
       color: { type: "string" },
       icon: { type: "string" },
+      breadcrumbs: {
+        type: "array",
+        description: "Path from the root category, ending with this category",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            slug: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+  series: {
+    type: "object",
+    nullable: true,
+    description: "Place of the post in its series; part numbers and links only count published parts",
+    properties: {
+      id: { type: "string" },
+      title: { type: "string" },
+      slug: { type: "string" },
+      part: { type: "integer" },
+      totalParts: { type: "integer" },
+      previous: { type: "object", nullable: true, properties: SERIES_PART_LINK_PROPERTIES },
+      next: { type: "object", nullable: true, properties: SERIES_PART_LINK_PROPERTIES },
     },
   },
 };
@@ -155,7 +254,7 @@ export const BlogPostRoutesSchema: IBaseSchema = {
   GetPostBySlug: {
     schema: {
       summary: "Get blog post by slug",
-      description: "Retrieve a specific blog post by its SEO-friendly slug",
+      description: "Retrieve a specific blog post by its SEO-friendly slug. Former slugs of a renamed post answer with a 301 to the current slug",
       tags: ["Blog Posts"],
       params: {
         type: "object",
@@ -188,7 +287,7 @@ export const BlogPostRoutesSchema: IBaseSchema = {
   SearchPosts: {
     schema: {
       summary: "Search blog posts",
-      description: "Search blog posts by title, content, and tags",
+      description: "Ranked full-text search over post titles, tags, excerpts and content. See /api/search for other types and filters",
       tags: ["Blog Posts"],
       querystring: {
         type: "object",
@@ -227,7 +326,7 @@ export const BlogPostRoutesSchema: IBaseSchema = {
   CreatePost: {
     schema: {
       summary: "Create new blog post",
-      description: "Create a new blog post (Author/Admin only)",
+      description: "Create a new draft blog post (Author/Admin only). Drafts are published after an editorial review",
       tags: ["Blog Posts", "Content Management"],
       security: [{ bearerAuth: [] }],
       body: {
@@ -255,9 +354,9 @@ export const BlogPostRoutesSchema: IBaseSchema = {
           },
           tags: {
             type: "array",
-            items: { type: "string" },
+            items: { type: "string", minLength: 1, maxLength: 50 },
             maxItems: 10,
-            description: "Post tags (max 10 tags)",
+            description: "Post tag names (max 10 tags). Spellings of an existing tag (\"NodeJS\", \"node.js\") are stored under its name, unknown tags are created",
           },
           featuredImage: {
             type: "string",
@@ -267,16 +366,16 @@ export const BlogPostRoutesSchema: IBaseSchema = {
           status: {
             type: "string",
             enum: ["DRAFT", "PUBLISHED"],
-            description: "Post status",
+            description: "Only DRAFT is accepted, new posts are published after an approved review",
           },
           isPublished: {
             type: "boolean",
-            description: "Whether the post is published",
+            description: "Only false is accepted, new posts are published after an approved review",
           },
-          publishedAt: {
+          scheduledFor: {
             type: "string",
             format: "date-time",
-            description: "Scheduled publish date (optional)",
+            description: "Requested publish date (optional, must be in the future). The draft keeps it and is scheduled for it when approved",
           },
         },
         required: ["title", "content", "categoryId"],
@@ -333,9 +432,9 @@ export const BlogPostRoutesSchema: IBaseSchema = {
             description: "Updated post content (optional)",
           },
           excerpt: {
-            type: "string",
+            type: ["string", "null"],
             maxLength: 500,
-            description: "Updated excerpt (optional)",
+            description: "Updated excerpt (optional), null removes it",
           },
           categoryId: {
             type: "string",
@@ -343,9 +442,9 @@ export const BlogPostRoutesSchema: IBaseSchema = {
           },
           tags: {
             type: "array",
-            items: { type: "string" },
+            items: { type: "string", minLength: 1, maxLength: 50 },
             maxItems: 10,
-            description: "Updated tags (optional)",
+            description: "Updated tag names (optional), normalized like on create",
           },
           featuredImage: {
             type: "string",
@@ -361,6 +460,11 @@ export const BlogPostRoutesSchema: IBaseSchema = {
             type: "boolean",
             description: "Updated publish status (optional)",
           },
+          scheduledFor: {
+            type: ["string", "null"],
+            format: "date-time",
+            description: "Schedule or reschedule automatic publishing, null cancels the schedule (optional)",
+          },
         },
         additionalProperties: false,
       },
@@ -385,6 +489,64 @@ export const BlogPostRoutesSchema: IBaseSchema = {
     },
   },
 
+  UpdatePostAuthors: {
+    schema: {
+      summary: "Set post authors",
+      description:
+        "Replaces everyone credited on the post (primary author or post.edit.any). The order of the list is the contribution order and it needs exactly one PRIMARY, who becomes the post's author. Co-authors may edit the post, reviewers are only credited; both need a role with post.edit.own to use their rights",
+      tags: ["Blog Posts", "Content Management"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "Blog post ID",
+          },
+        },
+        required: ["id"],
+      },
+      body: {
+        type: "object",
+        properties: {
+          authors: {
+            type: "array",
+            minItems: 1,
+            maxItems: 10,
+            items: {
+              type: "object",
+              properties: {
+                userId: { type: "string" },
+                role: { type: "string", enum: ["PRIMARY", "CO_AUTHOR", "REVIEWER"] },
+              },
+              required: ["userId", "role"],
+            },
+          },
+        },
+        required: ["authors"],
+        additionalProperties: false,
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: BLOG_POST_PROPERTIES,
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
   DeletePost: {
     schema: {
       summary: "Delete blog post",
@@ -460,6 +622,58 @@ export const BlogPostRoutesSchema: IBaseSchema = {
     },
   },
 
+  GetRelatedPosts: {
+    schema: {
+      summary: "Get related blog posts",
+      description:
+        "Published posts similar to the given post, best first. Candidates are scored by tag overlap, category, TF-IDF similarity of their content and recency, with weights set in the RELATED_POSTS_WEIGHT_* settings. Scores are cached until the post or any published post changes, or the cache expires",
+      tags: ["Blog Posts"],
+      params: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "Blog post ID",
+          },
+        },
+        required: ["id"],
+      },
+      querystring: {
+        type: "object",
+        properties: {
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 20,
+            default: 5,
+            description: "Number of posts to return (max 20)",
+          },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  ...BLOG_POST_PROPERTIES,
+                  score: { type: "number", description: "Relevance from 0 to 1" },
+                },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
   GetRecentPosts: {
     schema: {
       summary: "Get recent blog posts",
@@ -500,7 +714,7 @@ export const BlogPostRoutesSchema: IBaseSchema = {
   PublishPost: {
     schema: {
       summary: "Publish blog post",
-      description: "Publish a draft blog post (Owner/Admin only)",
+      description: "Publish an approved blog post (Owner/Admin only)",
       tags: ["Blog Posts", "Content Management"],
       security: [{ bearerAuth: [] }],
       params: {
@@ -571,10 +785,97 @@ export const BlogPostRoutesSchema: IBaseSchema = {
     },
   },
 
+  SchedulePost: {
+    schema: {
+      summary: "Schedule blog post",
+      description: "Schedule or reschedule automatic publishing of an approved blog post (Owner/Admin only)",
+      tags: ["Blog Posts", "Content Management"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "Blog post ID to schedule",
+          },
+        },
+        required: ["id"],
+      },
+      body: {
+        type: "object",
+        properties: {
+          scheduledFor: {
+            type: "string",
+            format: "date-time",
+            description: "Future date the post will be published at",
+          },
+        },
+        required: ["scheduledFor"],
+        additionalProperties: false,
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: BLOG_POST_PROPERTIES,
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  CancelSchedule: {
+    schema: {
+      summary: "Cancel scheduled publishing",
+      description: "Cancel the schedule of a scheduled blog post and move it back to approved (Owner/Admin only)",
+      tags: ["Blog Posts", "Content Management"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "Scheduled blog post ID",
+          },
+        },
+        required: ["id"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: BLOG_POST_PROPERTIES,
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
   UploadImage: {
     schema: {
       summary: "Upload image for blog post",
-      description: "Upload and attach an image to a blog post (Owner/Admin only)",
+      description:
+        "Upload and attach an image to a blog post (Owner/Admin only). The type is detected from the file content; size and storage quota follow the user's role",
       tags: ["Blog Posts", "File Upload"],
       security: [{ bearerAuth: [] }],
       params: {
@@ -605,6 +906,10 @@ export const BlogPostRoutesSchema: IBaseSchema = {
                   type: "string",
                   description: "Unique identifier for the uploaded image",
                 },
+                image: {
+                  type: "object",
+                  properties: IMAGE_UPLOAD_PROPERTIES,
+                },
               },
             },
           },
@@ -613,14 +918,8 @@ export const BlogPostRoutesSchema: IBaseSchema = {
         401: CommonResponses.Error401,
         403: CommonResponses.Error403,
         404: CommonResponses.Error404,
-        413: {
-          type: "object",
-          properties: {
-            error: { type: "string", default: "Payload Too Large" },
-            message: { type: "string" },
-            statusCode: { type: "integer", default: 413 },
-          },
-        },
+        413: CommonResponses.Error413,
+        422: CommonResponses.Error422,
         500: CommonResponses.Error500,
       },
     },
@@ -629,7 +928,7 @@ export const BlogPostRoutesSchema: IBaseSchema = {
   GetPostsByCategory: {
     schema: {
       summary: "Get blog posts by category",
-      description: "Retrieve paginated list of blog posts for a specific category",
+      description: "Retrieve paginated list of blog posts for a specific category. Former slugs of renamed or merged categories answer with a 301 to the current slug",
       tags: ["Blog Posts"],
       params: {
         type: "object",
@@ -641,6 +940,88 @@ export const BlogPostRoutesSchema: IBaseSchema = {
         },
         required: ["categorySlug"],
       },
+      querystring: {
+        type: "object",
+        properties: {
+          page: {
+            type: "integer",
+            minimum: 1,
+            default: 1,
+            description: "Page number for pagination",
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 50,
+            default: 10,
+            description: "Number of posts per page (max 50)",
+          },
+          sortBy: {
+            type: "string",
+            default: "publishedAt",
+            enum: ["publishedAt", "title", "viewCount", "likeCount", "createdAt"],
+            description: "Field to sort by",
+          },
+          sortOrder: {
+            type: "string",
+            enum: ["asc", "desc"],
+            default: "desc",
+            description: "Sort order",
+          },
+          includeDescendants: {
+            type: "boolean",
+            default: false,
+            description: "Also list posts of all subcategories",
+          },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: BLOG_POST_PROPERTIES,
+              },
+            },
+            pagination: {
+              type: "object",
+              properties: {
+                currentPage: { type: "integer" },
+                totalPages: { type: "integer" },
+                totalItems: { type: "integer" },
+                limit: { type: "integer" },
+                hasNext: { type: "boolean" },
+                hasPrev: { type: "boolean" },
+              },
+            },
+          },
+        },
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetPostsByTag: {
+    schema: {
+      summary: "Get blog posts by tag",
+      description: "Retrieve paginated list of published blog posts carrying a tag. Former slugs of renamed or merged tags answer with a 301 to the current slug",
+      tags: ["Blog Posts"],
+      params: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            description: "Tag slug",
+          },
+        },
+        required: ["slug"],
+      },
       querystring: {
         type: "object",
         properties: {
@@ -706,7 +1087,7 @@ export const BlogPostRoutesSchema: IBaseSchema = {
   GetPostsByAuthor: {
     schema: {
       summary: "Get blog posts by author",
-      description: "Retrieve paginated list of blog posts by a specific author",
+      description: "Retrieve paginated list of blog posts the user is credited on, as primary author, co-author or reviewer",
       tags: ["Blog Posts"],
       params: {
         type: "object",
@@ -789,7 +1170,8 @@ export const BlogPostRoutesSchema: IBaseSchema = {
   UploadMultipleImages: {
     schema: {
       summary: "Upload multiple images for blog post",
-      description: "Upload multiple images for a blog post (Owner/Admin only)",
+      description:
+        "Upload multiple images for a blog post (Owner/Admin only). File count, size and storage quota follow the user's role",
       tags: ["Blog Posts", "File Upload"],
       security: [{ bearerAuth: [] }],
       params: {
@@ -816,6 +1198,10 @@ export const BlogPostRoutesSchema: IBaseSchema = {
                   items: { type: "string", format: "uri" },
                   description: "Array of uploaded image URLs",
                 },
+                images: {
+                  type: "array",
+                  items: { type: "object", properties: IMAGE_UPLOAD_PROPERTIES },
+                },
               },
             },
           },
@@ -824,14 +1210,8 @@ export const BlogPostRoutesSchema: IBaseSchema = {
         401: CommonResponses.Error401,
         403: CommonResponses.Error403,
         404: CommonResponses.Error404,
-        413: {
-          type: "object",
-          properties: {
-            error: { type: "string", default: "Payload Too Large" },
-            message: { type: "string" },
-            statusCode: { type: "integer", default: 413 },
-          },
-        },
+        413: CommonResponses.Error413,
+        422: CommonResponses.Error422,
         500: CommonResponses.Error500,
       },
     },
@@ -1,5 +1,45 @@
 import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
 import { CommonResponses } from "../common/responses";
+import { CategoryUtils } from "../../domain/entities/Category";
+
+const CONFLICT_RESPONSE = {
+  type: "object",
+  properties: {
+    error: { type: "string", default: "Conflict" },
+    message: { type: "string" },
+    code: { type: "string" },
+    statusCode: { type: "integer", default: 409 },
+  },
+};
+
+const CATEGORY_SUMMARY_PROPERTIES = {
+  id: { type: "string" },
+  name: { type: "string" },
+  slug: { type: "string" },
+};
+
+// Nesting is capped, so the tree schema is spelled out level by level instead of referring to itself
+const categoryTreeNode = (levels: number): Record<string, unknown> => ({
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    name: { type: "string" },
+    slug: { type: "string" },
+    description: { type: "string" },
+    color: { type: "string" },
+    icon: { type: "string" },
+    isActive: { type: "boolean" },
+    sortOrder: { type: "number" },
+    parentId: { type: ["string", "null"] },
+    depth: { type: "number" },
+    postsCount: { type: "number" },
+    totalPostsCount: { type: "number", description: "Posts of the category and all of its subcategories" },
+    children: {
+      type: "array",
+      items: levels > 1 ? categoryTreeNode(levels - 1) : { type: "object" },
+    },
+  },
+});
 
 export const CategoryRoutesSchema: IBaseSchema = {
   GetAllCategories: {
@@ -59,6 +99,7 @@ export const CategoryRoutesSchema: IBaseSchema = {
                   icon: { type: "string" },
                   isActive: { type: "boolean" },
                   sortOrder: { type: "number" },
+                  parentId: { type: ["string", "null"] },
                   postsCount: { type: "number" },
                   createdAt: { type: "string" },
                   updatedAt: { type: "string" }
@@ -109,6 +150,7 @@ export const CategoryRoutesSchema: IBaseSchema = {
                   icon: { type: "string" },
                   isActive: { type: "boolean" },
                   sortOrder: { type: "number" },
+                  parentId: { type: ["string", "null"] },
                   postsCount: { type: "number" },
                   createdAt: { type: "string" },
                   updatedAt: { type: "string" }
@@ -129,6 +171,44 @@ export const CategoryRoutesSchema: IBaseSchema = {
     },
   },
 
+  GetCategoryTree: {
+    schema: {
+      description: "Get categories as a tree; children of a left out inactive category move up to its nearest shown ancestor",
+      tags: ["Categories"],
+      querystring: {
+        type: "object",
+        properties: {
+          includeInactive: {
+            type: "boolean",
+            default: false,
+            description: "Include inactive categories"
+          }
+        }
+      },
+      response: {
+        200: {
+          description: "Category tree retrieved successfully",
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            data: {
+              type: "array",
+              items: categoryTreeNode(CategoryUtils.MAX_DEPTH)
+            },
+            meta: {
+              type: "object",
+              properties: {
+                rootCount: { type: "number" },
+                fetchedAt: { type: "string" }
+              }
+            }
+          }
+        },
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
   GetCategoryPosts: {
     schema: {
       description: "Get posts by category ID",
@@ -162,6 +242,11 @@ export const CategoryRoutesSchema: IBaseSchema = {
             type: "string", 
             enum: ["asc", "desc"], 
             default: "desc" 
+          },
+          includeDescendants: {
+            type: "boolean",
+            default: false,
+            description: "Also list posts of all subcategories"
           }
         }
       },
@@ -194,7 +279,7 @@ export const CategoryRoutesSchema: IBaseSchema = {
 
   GetCategoryBySlug: {
     schema: {
-      description: "Get category by slug",
+      description: "Get category by slug. Former slugs of renamed or merged categories answer with a 301 to the current slug",
       tags: ["Categories"],
       params: {
         type: "object",
@@ -245,6 +330,10 @@ export const CategoryRoutesSchema: IBaseSchema = {
             minimum: 0,
             description: "Sort order"
           },
+          parentId: {
+            type: ["string", "null"],
+            description: "Parent category ID; null or omitted for a top-level category"
+          },
           isActive: {
             type: "boolean",
             description: "Is category active"
@@ -257,6 +346,7 @@ export const CategoryRoutesSchema: IBaseSchema = {
         400: CommonResponses.Error400,
         401: CommonResponses.Error401,
         403: CommonResponses.Error403,
+        409: CONFLICT_RESPONSE,
         500: CommonResponses.Error500,
       },
     },
@@ -303,6 +393,10 @@ export const CategoryRoutesSchema: IBaseSchema = {
             minimum: 0,
             description: "Sort order"
           },
+          parentId: {
+            type: ["string", "null"],
+            description: "Parent category ID; null or omitted for a top-level category"
+          },
           isActive: { 
             type: "boolean",
             description: "Is category active"
@@ -315,6 +409,7 @@ export const CategoryRoutesSchema: IBaseSchema = {
         401: CommonResponses.Error401,
         403: CommonResponses.Error403,
         404: CommonResponses.Error404,
+        409: CONFLICT_RESPONSE,
         500: CommonResponses.Error500,
       },
     },
@@ -342,6 +437,68 @@ export const CategoryRoutesSchema: IBaseSchema = {
     },
   },
 
+  MergeCategory: {
+    schema: {
+      description: "Merge a category into another one (Admin only). Posts, subcategories and old slugs move to the target in one transaction; the source slug redirects to the target and the source is deactivated, or deleted with deleteSource",
+      tags: ["Categories", "Admin"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Source category ID" },
+        },
+        required: ["id"],
+      },
+      body: {
+        type: "object",
+        properties: {
+          targetId: { type: "string", description: "Category that receives the posts" },
+          deleteSource: {
+            type: "boolean",
+            default: false,
+            description: "Delete the source instead of deactivating it"
+          },
+          dryRun: {
+            type: "boolean",
+            default: false,
+            description: "Only report what would change"
+          },
+        },
+        required: ["targetId"],
+      },
+      response: {
+        200: {
+          description: "Merge report",
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                dryRun: { type: "boolean" },
+                source: { type: "object", properties: CATEGORY_SUMMARY_PROPERTIES },
+                target: { type: "object", properties: CATEGORY_SUMMARY_PROPERTIES },
+                movedPosts: { type: "number" },
+                movedSubcategories: {
+                  type: "array",
+                  items: { type: "object", properties: CATEGORY_SUMMARY_PROPERTIES }
+                },
+                redirectedSlugs: { type: "array", items: { type: "string" } },
+                sourceAction: { type: "string", enum: ["deactivated", "deleted"] },
+              }
+            }
+          }
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
   UpdateSortOrder: {
     schema: {
       description: "Update category sort order (Admin only)",
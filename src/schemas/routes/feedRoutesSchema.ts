@@ -0,0 +1,60 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+
+// Feeds are XML / JSON Feed documents, only error responses are described here
+export const FeedRoutesSchema: IBaseSchema = {
+  GetSiteFeed: {
+    schema: {
+      summary: "Site feed",
+      description: "Latest published posts as RSS 2.0, Atom 1.0 or JSON Feed 1.1. Supports conditional GET (ETag / Last-Modified)",
+      tags: ["Feeds"],
+      response: {
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetCategoryFeed: {
+    schema: {
+      summary: "Category feed",
+      description: "Latest published posts of a category. Without a file name the feed is served as RSS",
+      tags: ["Feeds"],
+      params: {
+        type: "object",
+        properties: {
+          slug: {
+            type: "string",
+            description: "Category slug",
+          },
+        },
+        required: ["slug"],
+      },
+      response: {
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetAuthorFeed: {
+    schema: {
+      summary: "Author feed",
+      description: "Latest published posts of an author. Without a file name the feed is served as RSS",
+      tags: ["Feeds"],
+      params: {
+        type: "object",
+        properties: {
+          authorId: {
+            type: "string",
+            description: "Author ID",
+          },
+        },
+        required: ["authorId"],
+      },
+      response: {
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
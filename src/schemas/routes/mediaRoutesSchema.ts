@@ -0,0 +1,411 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+import { IMAGE_UPLOAD_PROPERTIES } from "./blogPostRoutesSchema";
+
+const MEDIA_ASSET_PROPERTIES = {
+  id: { type: "string" },
+  url: IMAGE_UPLOAD_PROPERTIES.url,
+  key: IMAGE_UPLOAD_PROPERTIES.key,
+  fileName: { type: "string", description: "Name of the file as uploaded" },
+  mimeType: { type: "string", description: "Type of the stored full size file" },
+  size: IMAGE_UPLOAD_PROPERTIES.size,
+  width: { type: "integer" },
+  height: { type: "integer" },
+  variants: IMAGE_UPLOAD_PROPERTIES.variants,
+  srcset: IMAGE_UPLOAD_PROPERTIES.srcset,
+  altText: { type: "string" },
+  caption: { type: "string" },
+  ownerId: { type: "string" },
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+};
+
+const REFERENCES_PROPERTIES = {
+  posts: {
+    type: "array",
+    description: "Posts using the asset in their featured image, gallery, content or revision history",
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        title: { type: "string" },
+        slug: { type: "string" },
+      },
+    },
+  },
+  avatarUserIds: { type: "array", items: { type: "string" } },
+};
+
+const PAGINATION_PROPERTIES = {
+  currentPage: { type: "integer" },
+  totalPages: { type: "integer" },
+  totalItems: { type: "integer" },
+  itemsPerPage: { type: "integer" },
+  hasNext: { type: "boolean" },
+  hasPrev: { type: "boolean" },
+};
+
+const ID_PARAMS = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Media asset ID" },
+  },
+  required: ["id"],
+};
+
+const ASSET_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    message: { type: "string" },
+    data: { type: "object", properties: MEDIA_ASSET_PROPERTIES },
+  },
+};
+
+const ORPHAN_LIMIT_QUERY = {
+  limit: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+};
+
+const STORAGE_USAGE_PROPERTIES = {
+  userId: { type: "string" },
+  username: { type: "string" },
+  role: { type: "string" },
+  usedBytes: { type: "integer", description: "All stored files, variants included" },
+  assetCount: { type: "integer" },
+  quotaBytes: { type: "integer", nullable: true, description: "Effective quota, null when unlimited" },
+  remainingBytes: { type: "integer", nullable: true },
+  quotaSource: { type: "string", enum: ["user", "role", "default"] },
+  storageQuotaMb: { type: "integer", nullable: true, description: "The user's own quota, overriding the role" },
+  maxFileSizeBytes: { type: "integer" },
+  maxFiles: { type: "integer", description: "Files per upload request" },
+};
+
+const USAGE_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    message: { type: "string" },
+    data: { type: "object", properties: STORAGE_USAGE_PROPERTIES },
+  },
+};
+
+const USER_PARAMS = {
+  type: "object",
+  properties: {
+    userId: { type: "string", description: "User ID" },
+  },
+  required: ["userId"],
+};
+
+const CONFLICT_RESPONSE = {
+  type: "object",
+  properties: {
+    error: { type: "string", default: "Conflict" },
+    message: { type: "string" },
+    statusCode: { type: "integer", default: 409 },
+  },
+};
+
+export const MediaRoutesSchema: IBaseSchema = {
+  GetMedia: {
+    schema: {
+      summary: "Browse the media library",
+      description: "Newest first. Users see their own uploads; with media.manage everyone's, optionally filtered by owner",
+      tags: ["Media"],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: "object",
+        properties: {
+          search: { type: "string", description: "Matches file name, alt text and caption" },
+          mimeType: { type: "string", description: "Exact type, or a prefix ending in / (e.g. image/)" },
+          ownerId: { type: "string", description: "Only with media.manage" },
+          page: { type: "integer", minimum: 1, default: 1 },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: { type: "object", properties: MEDIA_ASSET_PROPERTIES },
+            },
+            pagination: { type: "object", properties: PAGINATION_PROPERTIES },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  UploadMedia: {
+    schema: {
+      summary: "Upload a file to the media library",
+      description:
+        "Multipart upload with optional altText and caption fields. Uploading a file the user already uploaded returns the existing asset with 200",
+      tags: ["Media", "File Upload"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            ...ASSET_RESPONSE.properties,
+            duplicate: { type: "boolean", default: true },
+          },
+        },
+        201: {
+          type: "object",
+          properties: {
+            ...ASSET_RESPONSE.properties,
+            duplicate: { type: "boolean", default: false },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        413: CommonResponses.Error413,
+        422: CommonResponses.Error422,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetMediaById: {
+    schema: {
+      summary: "Get a media asset",
+      description: "Includes the posts and avatars that use the asset (owner or media.manage)",
+      tags: ["Media"],
+      security: [{ bearerAuth: [] }],
+      params: ID_PARAMS,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "object",
+              properties: {
+                ...MEDIA_ASSET_PROPERTIES,
+                references: { type: "object", properties: REFERENCES_PROPERTIES },
+              },
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  UpdateMedia: {
+    schema: {
+      summary: "Edit media metadata",
+      description: "Alt text and caption; an empty value clears the field (media.edit)",
+      tags: ["Media"],
+      security: [{ bearerAuth: [] }],
+      params: ID_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          altText: { type: ["string", "null"], maxLength: 300 },
+          caption: { type: ["string", "null"], maxLength: 1000 },
+        },
+      },
+      response: {
+        200: ASSET_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  DeleteMedia: {
+    schema: {
+      summary: "Delete a media asset",
+      description: "Removes the record and every stored file. Assets still in use are refused with 409 unless force=true (media.delete)",
+      tags: ["Media"],
+      security: [{ bearerAuth: [] }],
+      params: ID_PARAMS,
+      querystring: {
+        type: "object",
+        properties: {
+          force: { type: "boolean", default: false },
+        },
+      },
+      response: {
+        200: CommonResponses.Success,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        409: CONFLICT_RESPONSE,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetOrphans: {
+    schema: {
+      summary: "List orphaned media",
+      description:
+        "Assets no post, revision or avatar uses, older than MEDIA_ORPHAN_GRACE_HOURS (requires media.manage)",
+      tags: ["Media", "Admin"],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: "object",
+        properties: ORPHAN_LIMIT_QUERY,
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: { type: "object", properties: MEDIA_ASSET_PROPERTIES },
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  PurgeOrphans: {
+    schema: {
+      summary: "Purge orphaned media",
+      description: "Deletes up to limit orphaned assets and their files. Defaults to a dry run; pass dryRun=false to delete (requires media.manage)",
+      tags: ["Media", "Admin"],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: "object",
+        properties: {
+          ...ORPHAN_LIMIT_QUERY,
+          dryRun: { type: "boolean", default: true },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "object",
+              properties: {
+                dryRun: { type: "boolean" },
+                scanned: { type: "integer", description: "Assets checked for references" },
+                assets: {
+                  type: "array",
+                  items: { type: "object", properties: MEDIA_ASSET_PROPERTIES },
+                },
+                freedBytes: { type: "integer", description: "Size of the full size files" },
+              },
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetOwnUsage: {
+    schema: {
+      summary: "My storage usage",
+      description: "Storage used by the current user, the effective quota and upload limits",
+      tags: ["Media"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: USAGE_RESPONSE,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetQuotas: {
+    schema: {
+      summary: "Storage usage per user",
+      description: "Users that own media, largest usage first (requires media.quota)",
+      tags: ["Media", "Admin"],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: "object",
+        properties: {
+          page: { type: "integer", minimum: 1, default: 1 },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: { type: "object", properties: STORAGE_USAGE_PROPERTIES },
+            },
+            pagination: { type: "object", properties: PAGINATION_PROPERTIES },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetUserQuota: {
+    schema: {
+      summary: "Storage usage of a user",
+      description: "Usage, effective quota and upload limits (requires media.quota)",
+      tags: ["Media", "Admin"],
+      security: [{ bearerAuth: [] }],
+      params: USER_PARAMS,
+      response: {
+        200: USAGE_RESPONSE,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  SetUserQuota: {
+    schema: {
+      summary: "Set a user's storage quota",
+      description:
+        "Overrides the quota of the user's role; null goes back to the role's quota, 0 means unlimited (requires media.quota)",
+      tags: ["Media", "Admin"],
+      security: [{ bearerAuth: [] }],
+      params: USER_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          storageQuotaMb: { type: "integer", minimum: 0, nullable: true },
+        },
+        required: ["storageQuotaMb"],
+      },
+      response: {
+        200: USAGE_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
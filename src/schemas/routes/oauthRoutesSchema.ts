@@ -0,0 +1,134 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+
+const CONFLICT_RESPONSE = {
+  type: "object",
+  properties: {
+    error: { type: "string", default: "Conflict" },
+    message: { type: "string" },
+    code: { type: "string" },
+    statusCode: { type: "integer", default: 409 },
+  },
+};
+
+const PROVIDER_PARAMS = {
+  type: "object",
+  properties: {
+    provider: { type: "string", description: "Provider id from /oauth/providers (github, google, oidc)" },
+  },
+  required: ["provider"],
+};
+
+export const OAuthRoutesSchema: IBaseSchema = {
+  GetProviders: {
+    schema: {
+      summary: "List login providers",
+      description: "External identity providers enabled on this server",
+      tags: ["Authentication"],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  name: { type: "string" },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+
+  Authorize: {
+    schema: {
+      summary: "Start a social / OIDC login",
+      description: "Creates a single-use state and PKCE verifier and returns the provider's authorization URL. After login the provider redirects the browser to `redirectUri` with `code` and `state`, which the frontend posts to the callback endpoint",
+      tags: ["Authentication"],
+      params: PROVIDER_PARAMS,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "object",
+              properties: {
+                provider: { type: "string" },
+                authorizationUrl: { type: "string" },
+                state: { type: "string" },
+                redirectUri: { type: "string" },
+                expiresIn: { type: "integer", description: "Seconds until the state expires" },
+              },
+            },
+          },
+        },
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  Callback: {
+    schema: {
+      summary: "Complete a social / OIDC login",
+      description: "Exchanges the authorization code and returns the same tokens as /login. The external identity is linked to an existing account with the same email when the provider and the account both verified it (409 when the account did not), or a new account is created when sign-up is allowed. Returns an MFA challenge when two-factor authentication applies",
+      tags: ["Authentication"],
+      params: PROVIDER_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          code: { type: "string", description: "Authorization code from the provider redirect" },
+          state: { type: "string", description: "State returned by the authorize endpoint" },
+        },
+        required: ["code", "state"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                user: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    email: { type: "string" },
+                    username: { type: "string" },
+                    firstName: { type: "string" },
+                    lastName: { type: "string" },
+                    role: { type: "string" },
+                    avatar: { type: "string" },
+                    emailVerified: { type: "boolean" },
+                    twoFactorEnabled: { type: "boolean" },
+                  },
+                },
+                accessToken: { type: "string" },
+                refreshToken: { type: "string" },
+                mfaRequired: { type: "boolean" },
+                mfaToken: { type: "string" },
+                enrollmentRequired: { type: "boolean" },
+                expiresIn: { type: "integer" },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        409: CONFLICT_RESPONSE,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
@@ -0,0 +1,270 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+import { BLOG_POST_PROPERTIES } from "./blogPostRoutesSchema";
+
+const REVIEW_EVENT_PROPERTIES = {
+  id: { type: "string" },
+  blogPostId: { type: "string" },
+  action: { type: "string" },
+  fromStatus: { type: "string" },
+  toStatus: { type: "string" },
+  comment: { type: "string" },
+  reviewerId: { type: "string" },
+  createdAt: { type: "string" },
+  actor: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      username: { type: "string" },
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+    },
+  },
+};
+
+const PAGINATION_PROPERTIES = {
+  currentPage: { type: "integer" },
+  totalPages: { type: "integer" },
+  totalItems: { type: "integer" },
+  itemsPerPage: { type: "integer" },
+  hasNext: { type: "boolean" },
+  hasPrev: { type: "boolean" },
+};
+
+const POST_ID_PARAMS = {
+  type: "object",
+  properties: {
+    id: {
+      type: "string",
+      description: "Blog post ID",
+    },
+  },
+  required: ["id"],
+};
+
+const PAGINATION_QUERY = {
+  page: {
+    type: "integer",
+    minimum: 1,
+    default: 1,
+    description: "Page number for pagination",
+  },
+  limit: {
+    type: "integer",
+    minimum: 1,
+    maximum: 100,
+    default: 20,
+    description: "Number of items per page (max 100)",
+  },
+};
+
+const COMMENT_BODY = {
+  type: "object",
+  properties: {
+    comment: {
+      type: "string",
+      maxLength: 2000,
+      description: "Review comment (optional)",
+    },
+  },
+  additionalProperties: false,
+};
+
+const POST_RESPONSE = {
+  200: {
+    type: "object",
+    properties: {
+      success: { type: "boolean", default: true },
+      message: { type: "string" },
+      data: {
+        type: "object",
+        properties: BLOG_POST_PROPERTIES,
+      },
+    },
+  },
+  400: CommonResponses.Error400,
+  401: CommonResponses.Error401,
+  403: CommonResponses.Error403,
+  404: CommonResponses.Error404,
+  500: CommonResponses.Error500,
+};
+
+export const PostReviewRoutesSchema: IBaseSchema = {
+  GetReviewQueue: {
+    schema: {
+      summary: "Review queue",
+      description: "Posts waiting for review, oldest submission first (Editor/Admin only)",
+      tags: ["Blog Posts", "Review"],
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: "object",
+        properties: {
+          ...PAGINATION_QUERY,
+          assignedToMe: {
+            type: "boolean",
+            description: "Only posts assigned to the current user",
+          },
+          unassigned: {
+            type: "boolean",
+            description: "Only posts without a reviewer",
+          },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: BLOG_POST_PROPERTIES,
+              },
+            },
+            pagination: {
+              type: "object",
+              properties: PAGINATION_PROPERTIES,
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetReviewHistory: {
+    schema: {
+      summary: "Review history",
+      description: "Every workflow transition of a post, newest first (Owner/Editor/Admin)",
+      tags: ["Blog Posts", "Review"],
+      security: [{ bearerAuth: [] }],
+      params: POST_ID_PARAMS,
+      querystring: {
+        type: "object",
+        properties: PAGINATION_QUERY,
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: REVIEW_EVENT_PROPERTIES,
+              },
+            },
+            pagination: {
+              type: "object",
+              properties: PAGINATION_PROPERTIES,
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  SubmitForReview: {
+    schema: {
+      summary: "Submit post for review",
+      description: "Move a draft to IN_REVIEW, optionally requesting a specific reviewer (Owner/Admin)",
+      tags: ["Blog Posts", "Review"],
+      security: [{ bearerAuth: [] }],
+      params: POST_ID_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          reviewerId: {
+            type: "string",
+            description: "Editor or admin who should review the post (optional)",
+          },
+          comment: {
+            type: "string",
+            maxLength: 2000,
+            description: "Note for the reviewer (optional)",
+          },
+        },
+        additionalProperties: false,
+      },
+      response: POST_RESPONSE,
+    },
+  },
+
+  WithdrawFromReview: {
+    schema: {
+      summary: "Withdraw post from review",
+      description: "Move a post in review back to DRAFT (Owner/Admin)",
+      tags: ["Blog Posts", "Review"],
+      security: [{ bearerAuth: [] }],
+      params: POST_ID_PARAMS,
+      body: COMMENT_BODY,
+      response: POST_RESPONSE,
+    },
+  },
+
+  AssignReviewer: {
+    schema: {
+      summary: "Assign reviewer",
+      description: "Assign or reassign the reviewer of a post in review (Editor/Admin)",
+      tags: ["Blog Posts", "Review"],
+      security: [{ bearerAuth: [] }],
+      params: POST_ID_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          reviewerId: {
+            type: "string",
+            description: "Editor or admin user ID",
+          },
+        },
+        required: ["reviewerId"],
+        additionalProperties: false,
+      },
+      response: POST_RESPONSE,
+    },
+  },
+
+  ApprovePost: {
+    schema: {
+      summary: "Approve post",
+      description: "Approve a post in review so it can be published or scheduled (Editor/Admin)",
+      tags: ["Blog Posts", "Review"],
+      security: [{ bearerAuth: [] }],
+      params: POST_ID_PARAMS,
+      body: COMMENT_BODY,
+      response: POST_RESPONSE,
+    },
+  },
+
+  RequestChanges: {
+    schema: {
+      summary: "Request changes",
+      description: "Send a post in review back to its author as DRAFT with a comment (Editor/Admin)",
+      tags: ["Blog Posts", "Review"],
+      security: [{ bearerAuth: [] }],
+      params: POST_ID_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          comment: {
+            type: "string",
+            minLength: 1,
+            maxLength: 2000,
+            description: "What needs to change",
+          },
+        },
+        required: ["comment"],
+        additionalProperties: false,
+      },
+      response: POST_RESPONSE,
+    },
+  },
+};
@@ -0,0 +1,240 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+import { BLOG_POST_PROPERTIES } from "./blogPostRoutesSchema";
+
+const REVISION_PROPERTIES = {
+  id: { type: "string" },
+  blogPostId: { type: "string" },
+  revisionNumber: { type: "integer" },
+  title: { type: "string" },
+  content: { type: "string" },
+  excerpt: { type: "string" },
+  tags: { type: "array", items: { type: "string" } },
+  categoryId: { type: "string" },
+  createdAt: { type: "string" },
+  editor: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      username: { type: "string" },
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+    },
+  },
+};
+
+const REVISION_REFERENCE_PROPERTIES = {
+  revisionId: { type: ["string", "null"] },
+  revisionNumber: { type: ["integer", "null"] },
+  createdAt: { type: "string" },
+};
+
+const POST_ID_PARAMS = {
+  type: "object",
+  properties: {
+    id: {
+      type: "string",
+      description: "Blog post ID",
+    },
+  },
+  required: ["id"],
+};
+
+const REVISION_PARAMS = {
+  type: "object",
+  properties: {
+    id: {
+      type: "string",
+      description: "Blog post ID",
+    },
+    revisionId: {
+      type: "string",
+      description: "Revision ID",
+    },
+  },
+  required: ["id", "revisionId"],
+};
+
+export const PostRevisionRoutesSchema: IBaseSchema = {
+  GetRevisions: {
+    schema: {
+      summary: "List post revisions",
+      description: "Retrieve the revision history of a blog post, newest first (Owner/Admin only)",
+      tags: ["Blog Posts", "Revisions"],
+      security: [{ bearerAuth: [] }],
+      params: POST_ID_PARAMS,
+      querystring: {
+        type: "object",
+        properties: {
+          page: {
+            type: "integer",
+            minimum: 1,
+            default: 1,
+            description: "Page number for pagination",
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 100,
+            default: 20,
+            description: "Number of revisions per page (max 100)",
+          },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: REVISION_PROPERTIES,
+              },
+            },
+            pagination: {
+              type: "object",
+              properties: {
+                currentPage: { type: "integer" },
+                totalPages: { type: "integer" },
+                totalItems: { type: "integer" },
+                itemsPerPage: { type: "integer" },
+                hasNext: { type: "boolean" },
+                hasPrev: { type: "boolean" },
+              },
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetRevision: {
+    schema: {
+      summary: "Get post revision",
+      description: "Retrieve a single revision snapshot of a blog post (Owner/Admin only)",
+      tags: ["Blog Posts", "Revisions"],
+      security: [{ bearerAuth: [] }],
+      params: REVISION_PARAMS,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "object",
+              properties: REVISION_PROPERTIES,
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  CompareRevisions: {
+    schema: {
+      summary: "Compare post revisions",
+      description:
+        "Field level diff between two revisions of a blog post. Use 'current' to compare against the live version (Owner/Admin only)",
+      tags: ["Blog Posts", "Revisions"],
+      security: [{ bearerAuth: [] }],
+      params: POST_ID_PARAMS,
+      querystring: {
+        type: "object",
+        properties: {
+          from: {
+            type: "string",
+            description: "Revision ID to compare from, or 'current'",
+          },
+          to: {
+            type: "string",
+            default: "current",
+            description: "Revision ID to compare to, or 'current' (default)",
+          },
+        },
+        required: ["from"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "object",
+              properties: {
+                blogPostId: { type: "string" },
+                from: { type: "object", properties: REVISION_REFERENCE_PROPERTIES },
+                to: { type: "object", properties: REVISION_REFERENCE_PROPERTIES },
+                changes: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      field: { type: "string" },
+                      before: {},
+                      after: {},
+                      added: { type: "array", items: { type: "string" } },
+                      removed: { type: "array", items: { type: "string" } },
+                      lines: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            type: { type: "string", enum: ["added", "removed", "unchanged"] },
+                            line: { type: "string" },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  RestoreRevision: {
+    schema: {
+      summary: "Restore post revision",
+      description:
+        "Restore a blog post to the given revision. The current state is saved as a new revision first (Owner/Admin only)",
+      tags: ["Blog Posts", "Revisions"],
+      security: [{ bearerAuth: [] }],
+      params: REVISION_PARAMS,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: BLOG_POST_PROPERTIES,
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
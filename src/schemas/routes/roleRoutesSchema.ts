@@ -0,0 +1,229 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+import { Permission } from "../../domain/enums/Permission";
+
+const PERMISSION_ENUM = Object.values(Permission);
+
+const UPLOAD_LIMITS_PROPERTIES = {
+  maxFileSizeBytes: { type: "integer", minimum: 1, nullable: true },
+  maxFiles: { type: "integer", minimum: 1, maximum: 100, nullable: true, description: "Files per upload request" },
+  storageQuotaMb: { type: "integer", minimum: 0, nullable: true, description: "0 means unlimited" },
+};
+
+const UPLOAD_LIMITS_SCHEMA = {
+  type: "object",
+  description: "Limits for the role's users; null uses the UPLOAD_* defaults",
+  properties: UPLOAD_LIMITS_PROPERTIES,
+};
+
+const ROLE_PROPERTIES = {
+  name: { type: "string" },
+  description: { type: "string", nullable: true },
+  permissions: { type: "array", items: { type: "string" } },
+  isSystem: { type: "boolean", description: "Built-in role; can be edited but not deleted" },
+  uploadLimits: UPLOAD_LIMITS_SCHEMA,
+  usersCount: { type: "integer" },
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+};
+
+const ROLE_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    message: { type: "string" },
+    data: { type: "object", properties: ROLE_PROPERTIES },
+  },
+};
+
+const CONFLICT_RESPONSE = {
+  type: "object",
+  properties: {
+    error: { type: "string", default: "Conflict" },
+    message: { type: "string" },
+    statusCode: { type: "integer", default: 409 },
+  },
+};
+
+const NAME_PARAMS = {
+  type: "object",
+  properties: {
+    name: { type: "string", description: "Role name, e.g. EDITOR" },
+  },
+  required: ["name"],
+};
+
+export const RoleRoutesSchema: IBaseSchema = {
+  GetMyPermissions: {
+    schema: {
+      summary: "My permissions",
+      description: "Role and resolved permissions of the current user",
+      tags: ["Roles"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "object",
+              properties: {
+                role: { type: "string" },
+                permissions: { type: "array", items: { type: "string" } },
+              },
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetPermissions: {
+    schema: {
+      summary: "List permissions",
+      description: "Every permission that can be granted to a role. `*` grants everything; `.own` permissions only apply to the user's own content",
+      tags: ["Roles"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: { type: "array", items: { type: "string" } },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+      },
+    },
+  },
+
+  GetRoles: {
+    schema: {
+      summary: "List roles",
+      description: "All roles with their permission sets and number of users",
+      tags: ["Roles"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: { type: "object", properties: ROLE_PROPERTIES },
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetRole: {
+    schema: {
+      summary: "Get a role",
+      tags: ["Roles"],
+      security: [{ bearerAuth: [] }],
+      params: NAME_PARAMS,
+      response: {
+        200: ROLE_RESPONSE,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  CreateRole: {
+    schema: {
+      summary: "Create a role",
+      description: "Create a new role (e.g. MODERATOR) with a permission set. Assign it with PUT /api/users/:id/role",
+      tags: ["Roles"],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: "object",
+        properties: {
+          name: { type: "string", pattern: "^[A-Za-z][A-Za-z0-9_]{1,31}$", description: "Stored upper case" },
+          description: { type: "string", maxLength: 200 },
+          permissions: {
+            type: "array",
+            items: { type: "string", enum: PERMISSION_ENUM },
+            uniqueItems: true,
+          },
+          uploadLimits: UPLOAD_LIMITS_SCHEMA,
+        },
+        required: ["name", "permissions"],
+      },
+      response: {
+        201: ROLE_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        409: CONFLICT_RESPONSE,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  UpdateRole: {
+    schema: {
+      summary: "Update a role",
+      description: "Replace the permission set and/or description of a role. Takes effect on the next request of every user with the role",
+      tags: ["Roles"],
+      security: [{ bearerAuth: [] }],
+      params: NAME_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          description: { type: "string", maxLength: 200, nullable: true },
+          permissions: {
+            type: "array",
+            items: { type: "string", enum: PERMISSION_ENUM },
+            uniqueItems: true,
+          },
+          uploadLimits: UPLOAD_LIMITS_SCHEMA,
+        },
+      },
+      response: {
+        200: ROLE_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  DeleteRole: {
+    schema: {
+      summary: "Delete a role",
+      description: "Delete a custom role. Built-in roles and roles still assigned to users cannot be deleted",
+      tags: ["Roles"],
+      security: [{ bearerAuth: [] }],
+      params: NAME_PARAMS,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        409: CONFLICT_RESPONSE,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
@@ -0,0 +1,117 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+
+const SEARCH_RESULT_PROPERTIES = {
+  type: { type: "string" },
+  id: { type: "string" },
+  title: { type: "string" },
+  slug: { type: "string" },
+  titleHighlight: { type: "string" },
+  highlight: { type: "string" },
+  rank: { type: "number" },
+  date: { type: "string" },
+  postId: { type: "string" },
+  url: { type: "string" },
+};
+
+export const SearchRoutesSchema: IBaseSchema = {
+  Search: {
+    schema: {
+      summary: "Full-text search",
+      description:
+        "Ranked full-text search across posts, comments, categories and authors. Matches are highlighted with <mark></mark>. " +
+        "Filters that do not apply to a result type are ignored for that type.",
+      tags: ["Search"],
+      querystring: {
+        type: "object",
+        properties: {
+          q: {
+            type: "string",
+            minLength: 2,
+            maxLength: 200,
+            description: "Search query, supports \"quoted phrases\", OR and -exclusion",
+          },
+          type: {
+            type: "string",
+            enum: ["all", "posts", "comments", "categories", "authors"],
+            default: "posts",
+            description: "What to search",
+          },
+          category: {
+            type: "string",
+            description: "Filter by category slug (optional)",
+          },
+          tag: {
+            type: "string",
+            description: "Filter by tag slug or name (optional)",
+          },
+          author: {
+            type: "string",
+            description: "Filter by author id or username (optional)",
+          },
+          from: {
+            type: "string",
+            format: "date-time",
+            description: "Only results published/created after this date (optional)",
+          },
+          to: {
+            type: "string",
+            format: "date-time",
+            description: "Only results published/created before this date (optional)",
+          },
+          page: {
+            type: "integer",
+            minimum: 1,
+            default: 1,
+          },
+          limit: {
+            type: "integer",
+            minimum: 1,
+            maximum: 50,
+            default: 10,
+          },
+        },
+        required: ["q"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            query: { type: "string" },
+            type: { type: "string" },
+            data: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: SEARCH_RESULT_PROPERTIES,
+              },
+            },
+            totals: {
+              type: "object",
+              properties: {
+                posts: { type: "integer" },
+                comments: { type: "integer" },
+                categories: { type: "integer" },
+                authors: { type: "integer" },
+              },
+            },
+            pagination: {
+              type: "object",
+              properties: {
+                currentPage: { type: "integer" },
+                totalPages: { type: "integer" },
+                totalItems: { type: "integer" },
+                itemsPerPage: { type: "integer" },
+                hasNext: { type: "boolean" },
+                hasPrev: { type: "boolean" },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
@@ -0,0 +1,229 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+import { SeriesUtils } from "../../domain/entities/Series";
+
+const CONFLICT_RESPONSE = {
+  type: "object",
+  properties: {
+    error: { type: "string", default: "Conflict" },
+    message: { type: "string" },
+    code: { type: "string" },
+    statusCode: { type: "integer", default: 409 },
+  },
+};
+
+const SERIES_PART_PROPERTIES = {
+  id: { type: "string" },
+  title: { type: "string" },
+  slug: { type: "string" },
+  part: { type: "integer", description: "Position in the series, starting at 1" },
+  status: { type: "string" },
+  isPublished: { type: "boolean" },
+  publishedAt: { type: "string", format: "date-time", nullable: true },
+};
+
+const SERIES_PROPERTIES = {
+  id: { type: "string" },
+  title: { type: "string" },
+  slug: { type: "string" },
+  description: { type: "string" },
+  ownerId: { type: "string" },
+  owner: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      username: { type: "string" },
+      firstName: { type: "string" },
+      lastName: { type: "string" },
+    },
+  },
+  totalParts: { type: "integer", description: "Published parts" },
+  parts: {
+    type: "array",
+    description: "Parts in reading order",
+    items: { type: "object", properties: SERIES_PART_PROPERTIES },
+  },
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+};
+
+const PAGINATION_PROPERTIES = {
+  currentPage: { type: "integer" },
+  totalPages: { type: "integer" },
+  totalItems: { type: "integer" },
+  itemsPerPage: { type: "integer" },
+  hasNext: { type: "boolean" },
+  hasPrev: { type: "boolean" },
+};
+
+const ID_PARAMS = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Series ID" },
+  },
+  required: ["id"],
+};
+
+const POST_IDS_PROPERTY = {
+  type: "array",
+  items: { type: "string" },
+  uniqueItems: true,
+  maxItems: SeriesUtils.MAX_PARTS,
+};
+
+const SERIES_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    message: { type: "string" },
+    data: { type: "object", properties: SERIES_PROPERTIES },
+  },
+};
+
+export const SeriesRoutesSchema: IBaseSchema = {
+  GetSeries: {
+    schema: {
+      summary: "List series",
+      description: "Series with the number of their published parts, most recently changed first",
+      tags: ["Series"],
+      querystring: {
+        type: "object",
+        properties: {
+          ownerId: { type: "string", description: "Only series of this user" },
+          search: { type: "string", description: "Part of the series title" },
+          page: { type: "integer", minimum: 1, default: 1 },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: { type: "object", properties: SERIES_PROPERTIES },
+            },
+            pagination: { type: "object", properties: PAGINATION_PROPERTIES },
+          },
+        },
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetSeriesById: {
+    schema: {
+      summary: "Get series by ID",
+      description: "The series with its published parts in reading order",
+      tags: ["Series"],
+      params: ID_PARAMS,
+      response: {
+        200: SERIES_RESPONSE,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetSeriesBySlug: {
+    schema: {
+      summary: "Get series by slug",
+      description:
+        "The series with its published parts in reading order. A former slug of a renamed series answers with a 301 to its current slug",
+      tags: ["Series"],
+      params: {
+        type: "object",
+        properties: {
+          slug: { type: "string", description: "Series slug" },
+        },
+        required: ["slug"],
+      },
+      response: {
+        200: SERIES_RESPONSE,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  CreateSeries: {
+    schema: {
+      summary: "Create a series",
+      description:
+        "Creates a series owned by the current user (requires series.manage). postIds lists the parts in reading order; only posts the user may edit can be added, and a post belongs to one series at a time",
+      tags: ["Series"],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: "object",
+        properties: {
+          title: { type: "string", minLength: 3, maxLength: 200 },
+          description: { type: "string", maxLength: 1000 },
+          postIds: POST_IDS_PROPERTY,
+        },
+        required: ["title"],
+      },
+      response: {
+        201: SERIES_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        409: CONFLICT_RESPONSE,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  UpdateSeries: {
+    schema: {
+      summary: "Update a series",
+      description:
+        "Changes the title or description, or replaces the parts (owner of the series or series.manage.any). postIds sets the new reading order, posts left out become standalone again. A new title changes the slug and the old one redirects",
+      tags: ["Series"],
+      security: [{ bearerAuth: [] }],
+      params: ID_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          title: { type: "string", minLength: 3, maxLength: 200 },
+          description: { type: "string", maxLength: 1000, nullable: true },
+          postIds: POST_IDS_PROPERTY,
+        },
+        minProperties: 1,
+      },
+      response: {
+        200: SERIES_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        409: CONFLICT_RESPONSE,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  DeleteSeries: {
+    schema: {
+      summary: "Delete a series",
+      description: "Deletes the series (owner of the series or series.manage.any); its posts are kept as standalone posts",
+      tags: ["Series"],
+      security: [{ bearerAuth: [] }],
+      params: ID_PARAMS,
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+          },
+        },
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
@@ -0,0 +1,117 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+
+const SESSION_PROPERTIES = {
+  id: { type: "string", description: "Session id; stays the same across token refreshes" },
+  device: { type: "string", description: "Browser and platform parsed from the user agent" },
+  ipAddress: { type: "string" },
+  userAgent: { type: "string" },
+  startedAt: { type: "string", format: "date-time" },
+  lastUsedAt: { type: "string", format: "date-time", description: "Last login or token refresh" },
+  expiresAt: { type: "string", format: "date-time" },
+  current: { type: "boolean", description: "Session of the access token used for this request" },
+};
+
+const SESSION_LIST_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    data: {
+      type: "array",
+      items: { type: "object", properties: SESSION_PROPERTIES },
+    },
+  },
+};
+
+const MESSAGE_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    message: { type: "string" },
+  },
+};
+
+export const SessionRoutesSchema: IBaseSchema = {
+  GetMySessions: {
+    schema: {
+      summary: "List my sessions",
+      description: "Active sessions (one per login/device) of the current user, most recently used first",
+      tags: ["Sessions"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: SESSION_LIST_RESPONSE,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  RevokeMySession: {
+    schema: {
+      summary: "Revoke one of my sessions",
+      description: "Sign out a single device; its refresh token stops working immediately",
+      tags: ["Sessions"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          sessionId: { type: "string" },
+        },
+        required: ["sessionId"],
+      },
+      response: {
+        200: MESSAGE_RESPONSE,
+        401: CommonResponses.Error401,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetUserSessions: {
+    schema: {
+      summary: "List a user's sessions",
+      description: "Active sessions of any user (Admin only)",
+      tags: ["Sessions"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "User ID" },
+        },
+        required: ["id"],
+      },
+      response: {
+        200: SESSION_LIST_RESPONSE,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  RevokeUserSession: {
+    schema: {
+      summary: "Revoke a user's session",
+      description: "Sign out one session of any user (Admin only)",
+      tags: ["Sessions"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "User ID" },
+          sessionId: { type: "string" },
+        },
+        required: ["id", "sessionId"],
+      },
+      response: {
+        200: MESSAGE_RESPONSE,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
@@ -0,0 +1,49 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+
+// sitemap.xml / robots.txt are plain documents, only error responses are described here
+export const SitemapRoutesSchema: IBaseSchema = {
+  GetSitemap: {
+    schema: {
+      summary: "XML sitemap",
+      description: "Published posts, active categories and author pages. Above the per-file URL limit a sitemap index pointing at /sitemaps/<section>-<page>.xml is returned",
+      tags: ["SEO"],
+      response: {
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetChildSitemap: {
+    schema: {
+      summary: "Child sitemap",
+      description: "One page of a sitemap section, e.g. posts-2.xml",
+      tags: ["SEO"],
+      params: {
+        type: "object",
+        properties: {
+          file: {
+            type: "string",
+            description: "<categories|authors|posts>-<page>.xml",
+          },
+        },
+        required: ["file"],
+      },
+      response: {
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetRobots: {
+    schema: {
+      summary: "robots.txt",
+      description: "Crawler rules configured through ROBOTS_* environment variables, links to the sitemap",
+      tags: ["SEO"],
+      response: {
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
@@ -0,0 +1,234 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+import { TagUtils } from "../../domain/entities/Tag";
+
+const CONFLICT_RESPONSE = {
+  type: "object",
+  properties: {
+    error: { type: "string", default: "Conflict" },
+    message: { type: "string" },
+    code: { type: "string" },
+    statusCode: { type: "integer", default: 409 },
+  },
+};
+
+const TAG_SUMMARY_PROPERTIES = {
+  id: { type: "string" },
+  name: { type: "string", description: "Name stored in the tags of posts" },
+  slug: { type: "string" },
+};
+
+const TAG_PROPERTIES = {
+  ...TAG_SUMMARY_PROPERTIES,
+  description: { type: "string" },
+  postCount: { type: "integer", description: "Published posts carrying the tag" },
+  createdAt: { type: "string", format: "date-time" },
+  updatedAt: { type: "string", format: "date-time" },
+};
+
+const PAGINATION_PROPERTIES = {
+  currentPage: { type: "integer" },
+  totalPages: { type: "integer" },
+  totalItems: { type: "integer" },
+  itemsPerPage: { type: "integer" },
+  hasNext: { type: "boolean" },
+  hasPrev: { type: "boolean" },
+};
+
+const ID_PARAMS = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Tag ID" },
+  },
+  required: ["id"],
+};
+
+const TAG_LIST_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    data: {
+      type: "array",
+      items: { type: "object", properties: TAG_PROPERTIES },
+    },
+  },
+};
+
+export const TagRoutesSchema: IBaseSchema = {
+  GetTags: {
+    schema: {
+      summary: "List tags",
+      description: "Every tag with the number of published posts carrying it, including unused ones",
+      tags: ["Tags"],
+      querystring: {
+        type: "object",
+        properties: {
+          search: { type: "string", description: "Part of the tag name" },
+          sort: {
+            type: "string",
+            enum: ["name", "popular", "recent"],
+            default: "name",
+            description: "Alphabetical, most used first or newest first",
+          },
+          page: { type: "integer", minimum: 1, default: 1 },
+          limit: { type: "integer", minimum: 1, maximum: 100, default: 50 },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            ...TAG_LIST_RESPONSE.properties,
+            pagination: { type: "object", properties: PAGINATION_PROPERTIES },
+          },
+        },
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetTagCloud: {
+    schema: {
+      summary: "Tag cloud",
+      description:
+        "The most used tags in alphabetical order, each with a weight from 1 to 5 spread on a log scale of its usage. Tags without published posts are left out",
+      tags: ["Tags"],
+      querystring: {
+        type: "object",
+        properties: {
+          limit: { type: "integer", minimum: 1, maximum: 200, default: 50 },
+        },
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  ...TAG_SUMMARY_PROPERTIES,
+                  postCount: { type: "integer" },
+                  weight: { type: "integer", minimum: 1, maximum: TagUtils.CLOUD_LEVELS },
+                },
+              },
+            },
+          },
+        },
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  Autocomplete: {
+    schema: {
+      summary: "Autocomplete tags",
+      description: "Tags whose name or slug starts with the typed text, most used first",
+      tags: ["Tags"],
+      querystring: {
+        type: "object",
+        properties: {
+          q: { type: "string", minLength: 1, maxLength: 50, description: "Typed text" },
+          limit: { type: "integer", minimum: 1, maximum: 25, default: 10 },
+        },
+        required: ["q"],
+      },
+      response: {
+        200: TAG_LIST_RESPONSE,
+        400: CommonResponses.Error400,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  UpdateTag: {
+    schema: {
+      summary: "Rename a tag",
+      description:
+        "Changes the name or description of a tag (requires tag.manage). A new name is applied to every post carrying the tag and the old slug redirects to the new one. A name another tag already has is rejected with 409, merge the tags instead",
+      tags: ["Tags", "Admin"],
+      security: [{ bearerAuth: [] }],
+      params: ID_PARAMS,
+      body: {
+        type: "object",
+        properties: {
+          name: { type: "string", minLength: 1, maxLength: 50 },
+          description: { type: "string", maxLength: 200, nullable: true },
+        },
+        minProperties: 1,
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: { type: "object", properties: TAG_PROPERTIES },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        409: CONFLICT_RESPONSE,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  MergeTag: {
+    schema: {
+      summary: "Merge tags",
+      description:
+        "Replaces the tag with the target tag in every post, in one transaction, and deletes it (requires tag.manage). Its slug and former slugs redirect to the target",
+      tags: ["Tags", "Admin"],
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Source tag ID" },
+        },
+        required: ["id"],
+      },
+      body: {
+        type: "object",
+        properties: {
+          targetId: { type: "string", description: "Tag that replaces the source" },
+          dryRun: {
+            type: "boolean",
+            default: false,
+            description: "Only report what would change",
+          },
+        },
+        required: ["targetId"],
+      },
+      response: {
+        200: {
+          description: "Merge report",
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                dryRun: { type: "boolean" },
+                source: { type: "object", properties: TAG_SUMMARY_PROPERTIES },
+                target: { type: "object", properties: TAG_SUMMARY_PROPERTIES },
+                movedPosts: { type: "integer", description: "Posts of any status" },
+                redirectedSlugs: { type: "array", items: { type: "string" } },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        404: CommonResponses.Error404,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
@@ -0,0 +1,211 @@
+import { IBaseSchema } from "../../core/interfaces/Common/IBaseSchema";
+import { CommonResponses } from "../common/responses";
+
+const ROLE_ENUM = ["USER", "AUTHOR", "EDITOR", "ADMIN"];
+
+const MESSAGE_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    message: { type: "string" },
+  },
+};
+
+const RECOVERY_CODES_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    message: { type: "string" },
+    data: {
+      type: "object",
+      properties: {
+        recoveryCodes: {
+          type: "array",
+          items: { type: "string" },
+          description: "One-time recovery codes; shown only once",
+        },
+      },
+    },
+  },
+};
+
+const REQUIRED_ROLES_RESPONSE = {
+  type: "object",
+  properties: {
+    success: { type: "boolean", default: true },
+    message: { type: "string" },
+    data: {
+      type: "object",
+      properties: {
+        roles: { type: "array", items: { type: "string" } },
+      },
+    },
+  },
+};
+
+const CODE_BODY = {
+  type: "object",
+  properties: {
+    code: {
+      type: "string",
+      description: "6 digit code from the authenticator app",
+    },
+  },
+  required: ["code"],
+};
+
+export const TwoFactorRoutesSchema: IBaseSchema = {
+  GetStatus: {
+    schema: {
+      summary: "Two-factor status",
+      description: "Whether 2FA is enabled or required for the current user and how many recovery codes are left",
+      tags: ["Two-Factor Authentication"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            data: {
+              type: "object",
+              properties: {
+                enabled: { type: "boolean" },
+                required: { type: "boolean" },
+                enabledAt: { type: "string" },
+                recoveryCodesRemaining: { type: "integer" },
+              },
+            },
+          },
+        },
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  Setup: {
+    schema: {
+      summary: "Start two-factor setup",
+      description: "Generate a new TOTP secret and otpauth URI (render it as a QR code). 2FA stays off until /2fa/enable",
+      tags: ["Two-Factor Authentication"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                secret: { type: "string", description: "Base32 secret for manual entry" },
+                otpauthUri: { type: "string", description: "otpauth://totp URI for QR codes" },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  Enable: {
+    schema: {
+      summary: "Enable two-factor authentication",
+      description: "Confirm the setup with a code from the authenticator app; returns one-time recovery codes",
+      tags: ["Two-Factor Authentication"],
+      security: [{ bearerAuth: [] }],
+      body: CODE_BODY,
+      response: {
+        200: RECOVERY_CODES_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  Disable: {
+    schema: {
+      summary: "Disable two-factor authentication",
+      description: "Requires the password and an authenticator or recovery code. Not allowed when 2FA is required for the user's role",
+      tags: ["Two-Factor Authentication"],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: "object",
+        properties: {
+          password: { type: "string", description: "Current password" },
+          code: { type: "string", description: "Authenticator code or recovery code" },
+        },
+        required: ["password", "code"],
+      },
+      response: {
+        200: MESSAGE_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  RegenerateRecoveryCodes: {
+    schema: {
+      summary: "Regenerate recovery codes",
+      description: "Replace all recovery codes; previous codes stop working",
+      tags: ["Two-Factor Authentication"],
+      security: [{ bearerAuth: [] }],
+      body: CODE_BODY,
+      response: {
+        200: RECOVERY_CODES_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  GetRequiredRoles: {
+    schema: {
+      summary: "Roles that require 2FA",
+      description: "List roles whose users must use two-factor authentication (Admin only)",
+      tags: ["Two-Factor Authentication"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: REQUIRED_ROLES_RESPONSE,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  SetRequiredRoles: {
+    schema: {
+      summary: "Require 2FA for roles",
+      description: "Replace the set of roles that must use two-factor authentication. Users of these roles without 2FA are asked to enroll at their next login (Admin only)",
+      tags: ["Two-Factor Authentication"],
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: "object",
+        properties: {
+          roles: {
+            type: "array",
+            items: { type: "string", enum: ROLE_ENUM },
+            uniqueItems: true,
+          },
+        },
+        required: ["roles"],
+      },
+      response: {
+        200: REQUIRED_ROLES_RESPONSE,
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        403: CommonResponses.Error403,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+};
@@ -5,7 +5,7 @@ export const UserRoutesSchema: IBaseSchema = {
   Login: {
     schema: {
       summary: "User authentication",
-      description: "Authenticate user with email and password, returns JWT tokens",
+      description: "Authenticate user with email and password, returns JWT tokens. When two-factor authentication is enabled or required for the user's role, returns an MFA challenge instead",
       tags: ["Authentication"],
       body: {
         type: "object",
@@ -41,6 +41,8 @@ export const UserRoutesSchema: IBaseSchema = {
                     lastName: { type: "string" },
                     role: { type: "string" },
                     avatar: { type: "string" },
+                    emailVerified: { type: "boolean" },
+                    twoFactorEnabled: { type: "boolean" },
                   },
                 },
                 accessToken: {
@@ -51,6 +53,16 @@ export const UserRoutesSchema: IBaseSchema = {
                   type: "string",
                   description: "JWT refresh token",
                 },
+                mfaRequired: { type: "boolean" },
+                mfaToken: {
+                  type: "string",
+                  description: "Short-lived token to exchange for tokens at /login/2fa",
+                },
+                enrollmentRequired: {
+                  type: "boolean",
+                  description: "2FA is required for the role but not set up yet; use /login/2fa/setup and /login/2fa/enable",
+                },
+                expiresIn: { type: "integer" },
               },
             },
           },
@@ -68,6 +80,139 @@ export const UserRoutesSchema: IBaseSchema = {
     },
   },
 
+  LoginMfa: {
+    schema: {
+      summary: "Complete login with second factor",
+      description: "Exchange the MFA token from /login and an authenticator or recovery code for JWT tokens",
+      tags: ["Authentication"],
+      body: {
+        type: "object",
+        properties: {
+          mfaToken: { type: "string", description: "Token returned by /login" },
+          code: { type: "string", description: "6 digit authenticator code or a recovery code" },
+        },
+        required: ["mfaToken", "code"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                user: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    email: { type: "string" },
+                    username: { type: "string" },
+                    firstName: { type: "string" },
+                    lastName: { type: "string" },
+                    role: { type: "string" },
+                    avatar: { type: "string" },
+                    emailVerified: { type: "boolean" },
+                    twoFactorEnabled: { type: "boolean" },
+                  },
+                },
+                accessToken: { type: "string" },
+                refreshToken: { type: "string" },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  LoginMfaSetup: {
+    schema: {
+      summary: "Start required 2FA enrollment at login",
+      description: "Returns a TOTP secret and otpauth URI for users whose role requires 2FA but who have not enrolled yet",
+      tags: ["Authentication"],
+      body: {
+        type: "object",
+        properties: {
+          mfaToken: { type: "string", description: "Token returned by /login with enrollmentRequired" },
+        },
+        required: ["mfaToken"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                secret: { type: "string" },
+                otpauthUri: { type: "string" },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  LoginMfaEnable: {
+    schema: {
+      summary: "Finish required 2FA enrollment at login",
+      description: "Confirms the authenticator code, enables 2FA and returns JWT tokens together with one-time recovery codes",
+      tags: ["Authentication"],
+      body: {
+        type: "object",
+        properties: {
+          mfaToken: { type: "string", description: "Token returned by /login with enrollmentRequired" },
+          code: { type: "string", description: "6 digit authenticator code" },
+        },
+        required: ["mfaToken", "code"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                user: {
+                  type: "object",
+                  properties: {
+                    id: { type: "string" },
+                    email: { type: "string" },
+                    username: { type: "string" },
+                    firstName: { type: "string" },
+                    lastName: { type: "string" },
+                    role: { type: "string" },
+                    avatar: { type: "string" },
+                    emailVerified: { type: "boolean" },
+                    twoFactorEnabled: { type: "boolean" },
+                  },
+                },
+                accessToken: { type: "string" },
+                refreshToken: { type: "string" },
+                recoveryCodes: { type: "array", items: { type: "string" } },
+              },
+            },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
   Register: {
     schema: {
       summary: "Register new user account",
@@ -127,6 +272,8 @@ export const UserRoutesSchema: IBaseSchema = {
                     lastName: { type: "string" },
                     role: { type: "string" },
                     avatar: { type: "string" },
+                    emailVerified: { type: "boolean" },
+                    twoFactorEnabled: { type: "boolean" },
                   },
                 },
                 accessToken: {
@@ -179,6 +326,8 @@ export const UserRoutesSchema: IBaseSchema = {
                 avatar: { type: "string" },
                 bio: { type: "string" },
                 isActive: { type: "boolean" },
+                emailVerified: { type: "boolean" },
+                twoFactorEnabled: { type: "boolean" },
                 createdAt: { type: "string" },
                 updatedAt: { type: "string" },
               },
@@ -250,6 +399,8 @@ export const UserRoutesSchema: IBaseSchema = {
                 avatar: { type: "string" },
                 bio: { type: "string" },
                 isActive: { type: "boolean" },
+                emailVerified: { type: "boolean" },
+                twoFactorEnabled: { type: "boolean" },
                 createdAt: { type: "string" },
                 updatedAt: { type: "string" },
               },
@@ -274,7 +425,7 @@ export const UserRoutesSchema: IBaseSchema = {
   GetAuthors: {
     schema: {
       summary: "Get all blog authors",
-      description: "Retrieve list of users who have authored blog posts",
+      description: "Active users whose role grants post.create (or every permission), plus anyone who already owns a post",
       tags: ["Users"],
       response: {
         200: {
@@ -389,8 +540,7 @@ export const UserRoutesSchema: IBaseSchema = {
           },
           role: {
             type: "string",
-            enum: ["USER", "ADMIN", "AUTHOR"],
-            description: "Filter by user role (optional)",
+            description: "Filter by user role name, e.g. USER or MODERATOR (optional)",
           },
           search: {
             type: "string",
@@ -461,6 +611,124 @@ export const UserRoutesSchema: IBaseSchema = {
     },
   },
 
+  VerifyEmail: {
+    schema: {
+      summary: "Verify email address",
+      description: "Confirm the user's email address with the single-use token sent by email",
+      tags: ["Authentication"],
+      body: {
+        type: "object",
+        properties: {
+          token: {
+            type: "string",
+            description: "Email verification token",
+          },
+        },
+        required: ["token"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+          },
+        },
+        400: CommonResponses.Error400,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  ResendVerificationEmail: {
+    schema: {
+      summary: "Resend verification email",
+      description: "Send a new email verification link to the authenticated user; earlier links stop working",
+      tags: ["Authentication"],
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+          },
+        },
+        400: CommonResponses.Error400,
+        401: CommonResponses.Error401,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  ForgotPassword: {
+    schema: {
+      summary: "Request password reset",
+      description: "Send a password reset link if an active account exists for the email; the response is the same either way",
+      tags: ["Authentication"],
+      body: {
+        type: "object",
+        properties: {
+          email: {
+            type: "string",
+            format: "email",
+            description: "Email address of the account",
+          },
+        },
+        required: ["email"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+          },
+        },
+        400: CommonResponses.Error400,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
+  ResetPassword: {
+    schema: {
+      summary: "Reset password",
+      description: "Set a new password with the single-use token sent by email; signs the user out of all devices",
+      tags: ["Authentication"],
+      body: {
+        type: "object",
+        properties: {
+          token: {
+            type: "string",
+            description: "Password reset token",
+          },
+          newPassword: {
+            type: "string",
+            minLength: 6,
+            description: "New password (minimum 6 characters)",
+          },
+          confirmPassword: {
+            type: "string",
+            description: "Confirm new password (must match newPassword)",
+          },
+        },
+        required: ["token", "newPassword", "confirmPassword"],
+      },
+      response: {
+        200: {
+          type: "object",
+          properties: {
+            success: { type: "boolean", default: true },
+            message: { type: "string" },
+          },
+        },
+        400: CommonResponses.Error400,
+        500: CommonResponses.Error500,
+      },
+    },
+  },
+
   // Add logout endpoint for completeness
   Logout: {
     schema: {
@@ -581,90 +849,31 @@ export const UserRoutesSchema: IBaseSchema = {
     },
   },
 
-  PromoteToAuthor: {
+  ChangeRole: {
     schema: {
-      summary: "Promote user to author",
-      description: "Promote a regular user to author role (Admin only)",
-      tags: ["Users", "Admin"],
+      summary: "Assign a role to a user",
+      description: "Assign an existing role, built-in or custom, to a user (requires user.manage). Only roles whose permissions the caller holds can be assigned or taken away",
+      tags: ["Users", "Roles", "Admin"],
       security: [{ bearerAuth: [] }],
       params: {
         type: "object",
         properties: {
-          id: { type: "string", description: "User ID to promote" },
+          id: { type: "string", description: "User ID" },
         },
         required: ["id"],
       },
-      response: {
-        200: {
-          type: "object",
-          properties: {
-            success: { type: "boolean" },
-            message: { type: "string" },
-            data: {
-              type: "object",
-              properties: {
-                id: { type: "string" },
-                email: { type: "string" },
-                username: { type: "string" },
-                firstName: { type: "string" },
-                lastName: { type: "string" },
-                role: { type: "string", enum: ["USER", "AUTHOR", "ADMIN"] },
-                isActive: { type: "boolean" },
-                createdAt: { type: "string", format: "date-time" },
-                updatedAt: { type: "string", format: "date-time" },
-              },
-            },
-          },
-        },
-        400: {
-          type: "object",
-          properties: {
-            error: { type: "string" },
-            message: { type: "string" },
-            statusCode: { type: "number" },
-          },
-        },
-        403: {
-          type: "object",
-          properties: {
-            error: { type: "string" },
-            message: { type: "string" },
-            statusCode: { type: "number" },
-          },
-        },
-        404: {
-          type: "object",
-          properties: {
-            error: { type: "string" },
-            message: { type: "string" },
-            statusCode: { type: "number" },
-          },
-        },
-      },
-    },
-  },
-
-  DemoteToUser: {
-    schema: {
-      summary: "Demote author to user",
-      description: "Demote an author to regular user role (Admin only)",
-      tags: ["Users", "Admin"],
-      security: [{ bearerAuth: [] }],
-      params: {
+      body: {
         type: "object",
         properties: {
-          id: {
-            type: "string",
-            description: "User ID to demote",
-          },
+          role: { type: "string", description: "Role name, e.g. EDITOR or MODERATOR" },
         },
-        required: ["id"],
+        required: ["role"],
       },
       response: {
         200: {
           type: "object",
           properties: {
-            success: { type: "boolean", default: true },
+            success: { type: "boolean" },
             message: { type: "string" },
             data: {
               type: "object",
@@ -674,17 +883,10 @@ export const UserRoutesSchema: IBaseSchema = {
                 username: { type: "string" },
                 firstName: { type: "string" },
                 lastName: { type: "string" },
-                role: {
-                  type: "string",
-                  enum: ["USER", "AUTHOR", "ADMIN"],
-                },
+                role: { type: "string" },
                 isActive: { type: "boolean" },
-                createdAt: { type: "string" },
-                updatedAt: { type: "string" },
-                avatar: { type: "string" },
-                bio: { type: "string" },
-                postsCount: { type: "number" },
-                commentsCount: { type: "number" },
+                createdAt: { type: "string", format: "date-time" },
+                updatedAt: { type: "string", format: "date-time" },
               },
             },
           },
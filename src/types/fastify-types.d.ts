@@ -15,6 +15,11 @@ declare module '@fastify/jwt' {
       email: string;
       username: string;
       role: string;
+      sessionId?: string;
+      apiKey?: {
+        id: string;
+        scopes: string[];
+      };
     };
   }
 }
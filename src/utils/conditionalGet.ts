@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+/**
+ * Sets ETag / Last-Modified validators on the reply and checks them against
+ * If-None-Match / If-Modified-Since. Returns true when a 304 should be sent.
+ */
+export function applyConditionalGet(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  body: string,
+  lastModified: Date,
+  maxAgeSeconds: number = 300
+): boolean {
+  const etag = `"${crypto.createHash('sha1').update(body).digest('hex')}"`;
+
+  reply
+    .header('ETag', etag)
+    .header('Last-Modified', lastModified.toUTCString())
+    .header('Cache-Control', `public, max-age=${maxAgeSeconds}`);
+
+  // If-None-Match takes precedence over If-Modified-Since (RFC 9110)
+  const ifNoneMatch = request.headers['if-none-match'];
+  if (ifNoneMatch) {
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .some((tag) => tag === etag || tag === '*');
+  }
+
+  const ifModifiedSince = request.headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const since = new Date(ifModifiedSince);
+    // HTTP dates have second precision
+    return !isNaN(since.getTime()) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since.getTime() / 1000);
+  }
+
+  return false;
+}
@@ -0,0 +1,25 @@
+// Cells starting with one of these are run as formulas by spreadsheet apps
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Serializes rows to RFC 4180 CSV with a header line
+ */
+export class CsvRenderer {
+  static render(headers: string[], rows: unknown[][]): string {
+    return [headers, ...rows].map((row) => row.map((cell) => this.renderCell(cell)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private static renderCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    if (FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
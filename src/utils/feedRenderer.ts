@@ -0,0 +1,124 @@
+import { FeedDto, FeedItemDto } from '../application/dtos/feed/FeedDto';
+import { HelperUtils } from './helper';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+/**
+ * Serializes a FeedDto to RSS 2.0, Atom 1.0 or JSON Feed 1.1
+ */
+export class FeedRenderer {
+  static render(feed: FeedDto, format: FeedFormat, apiUrl: string): string {
+    const selfUrl = `${apiUrl}${feed.feedPath}/${FEED_FILES[format]}`;
+
+    switch (format) {
+      case 'rss':
+        return this.renderRss(feed, selfUrl);
+      case 'atom':
+        return this.renderAtom(feed, selfUrl);
+      case 'json':
+        return this.renderJson(feed, selfUrl);
+    }
+  }
+
+  static renderRss(feed: FeedDto, selfUrl: string): string {
+    const items = feed.items.map((item) => [
+      '    <item>',
+      `      <title>${HelperUtils.escapeXml(item.title)}</title>`,
+      `      <link>${HelperUtils.escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${HelperUtils.escapeXml(item.id)}</guid>`,
+      `      <pubDate>${item.publishedAt.toUTCString()}</pubDate>`,
+      item.author.name ? `      <dc:creator>${HelperUtils.escapeXml(item.author.name)}</dc:creator>` : null,
+      ...item.categories.map((category) => `      <category>${HelperUtils.escapeXml(category)}</category>`),
+      `      <description>${HelperUtils.escapeXml(item.summary)}</description>`,
+      item.contentHtml ? `      <content:encoded>${this.cdata(item.contentHtml)}</content:encoded>` : null,
+      '    </item>',
+    ].filter((line) => line !== null).join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      '  <channel>',
+      `    <title>${HelperUtils.escapeXml(feed.title)}</title>`,
+      `    <link>${HelperUtils.escapeXml(feed.siteUrl)}</link>`,
+      `    <description>${HelperUtils.escapeXml(feed.description)}</description>`,
+      `    <language>${HelperUtils.escapeXml(feed.language)}</language>`,
+      `    <lastBuildDate>${feed.updatedAt.toUTCString()}</lastBuildDate>`,
+      `    <atom:link href="${HelperUtils.escapeXml(selfUrl)}" rel="self" type="application/rss+xml"/>`,
+      ...items,
+      '  </channel>',
+      '</rss>',
+      '',
+    ].join('\n');
+  }
+
+  static renderAtom(feed: FeedDto, selfUrl: string): string {
+    const entries = feed.items.map((item) => [
+      '  <entry>',
+      `    <id>${HelperUtils.escapeXml(item.url)}</id>`,
+      `    <title>${HelperUtils.escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${HelperUtils.escapeXml(item.url)}"/>`,
+      `    <published>${item.publishedAt.toISOString()}</published>`,
+      `    <updated>${item.updatedAt.toISOString()}</updated>`,
+      item.author.name
+        ? `    <author><name>${HelperUtils.escapeXml(item.author.name)}</name>${item.author.url ? `<uri>${HelperUtils.escapeXml(item.author.url)}</uri>` : ''}</author>`
+        : null,
+      ...item.categories.map((category) => `    <category term="${HelperUtils.escapeXml(category)}"/>`),
+      `    <summary>${HelperUtils.escapeXml(item.summary)}</summary>`,
+      item.contentHtml ? `    <content type="html">${HelperUtils.escapeXml(item.contentHtml)}</content>` : null,
+      '  </entry>',
+    ].filter((line) => line !== null).join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${HelperUtils.escapeXml(feed.language)}">`,
+      `  <id>${HelperUtils.escapeXml(selfUrl)}</id>`,
+      `  <title>${HelperUtils.escapeXml(feed.title)}</title>`,
+      `  <subtitle>${HelperUtils.escapeXml(feed.description)}</subtitle>`,
+      `  <link rel="alternate" type="text/html" href="${HelperUtils.escapeXml(feed.siteUrl)}"/>`,
+      `  <link rel="self" type="application/atom+xml" href="${HelperUtils.escapeXml(selfUrl)}"/>`,
+      `  <updated>${feed.updatedAt.toISOString()}</updated>`,
+      ...entries,
+      '</feed>',
+      '',
+    ].join('\n');
+  }
+
+  static renderJson(feed: FeedDto, selfUrl: string): string {
+    return JSON.stringify({
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      description: feed.description,
+      home_page_url: feed.siteUrl,
+      feed_url: selfUrl,
+      language: feed.language,
+      items: feed.items.map((item: FeedItemDto) => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        summary: item.summary,
+        ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+        date_published: item.publishedAt.toISOString(),
+        date_modified: item.updatedAt.toISOString(),
+        authors: item.author.name ? [{ name: item.author.name, url: item.author.url }] : [],
+        tags: item.categories,
+      })),
+    }, null, 2);
+  }
+
+  // "]]>" cannot appear inside a CDATA section, split it across two sections
+  private static cdata(value: string): string {
+    return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+  }
+}
@@ -0,0 +1,37 @@
+// Content type detection from the leading "magic" bytes of a file
+
+interface FileSignature {
+  mimeType: string;
+  offset: number;
+  bytes: number[];
+  // Some containers need a second marker further in (e.g. RIFF....WEBP)
+  also?: { offset: number; bytes: number[] };
+}
+
+const ascii = (text: string): number[] => Array.from(text, (char) => char.charCodeAt(0));
+
+const SIGNATURES: FileSignature[] = [
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/gif', offset: 0, bytes: ascii('GIF87a') },
+  { mimeType: 'image/gif', offset: 0, bytes: ascii('GIF89a') },
+  { mimeType: 'image/webp', offset: 0, bytes: ascii('RIFF'), also: { offset: 8, bytes: ascii('WEBP') } },
+  { mimeType: 'image/avif', offset: 4, bytes: ascii('ftypavif') },
+  { mimeType: 'application/pdf', offset: 0, bytes: ascii('%PDF-') },
+];
+
+const matchesAt = (buffer: Buffer, offset: number, bytes: number[]): boolean =>
+  buffer.length >= offset + bytes.length && bytes.every((byte, index) => buffer[offset + index] === byte);
+
+/**
+ * Detects the type of a file from its content. Returns null for unknown content,
+ * which callers should treat as not allowed.
+ */
+export const detectFileType = (buffer: Buffer): string | null => {
+  const signature = SIGNATURES.find(
+    (candidate) =>
+      matchesAt(buffer, candidate.offset, candidate.bytes) &&
+      (!candidate.also || matchesAt(buffer, candidate.also.offset, candidate.also.bytes))
+  );
+  return signature?.mimeType ?? null;
+};
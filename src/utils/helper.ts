@@ -59,6 +59,18 @@ export class HelperUtils {
     return emailRegex.test(email);
   }
 
+  /**
+   * Escape text for use in XML element content and attribute values
+   */
+  static escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
   /**
    * Sanitize filename for storage
    */
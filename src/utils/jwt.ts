@@ -153,9 +153,11 @@ export const generatePasswordResetToken = (userId: string): string => {
   };
 
   const signOptions: SignOptions = {
-    expiresIn: (process.env.JWT_EXPIRE || JWT_CONSTANTS.RESET_PASSWORD_EXPIRE) as jwt.SignOptions['expiresIn'],
+    expiresIn: JWT_CONSTANTS.RESET_PASSWORD_EXPIRE as jwt.SignOptions['expiresIn'],
     issuer: 'blog-backend',
-    algorithm: JWT_CONSTANTS.ALGORITHM
+    algorithm: JWT_CONSTANTS.ALGORITHM,
+    // Unique per token so two links issued in the same second differ
+    jwtid: crypto.randomUUID()
   };
 
   return jwt.sign(resetPayload, JWT_SECRET, signOptions);
@@ -195,9 +197,11 @@ export const generateEmailVerificationToken = (userId: string): string => {
   };
 
   const signOptions: SignOptions = {
-    expiresIn: (process.env.JWT_EXPIRE || JWT_CONSTANTS.EMAIL_VERIFICATION_EXPIRE) as jwt.SignOptions['expiresIn'],
+    expiresIn: JWT_CONSTANTS.EMAIL_VERIFICATION_EXPIRE as jwt.SignOptions['expiresIn'],
     issuer: 'blog-backend',
-    algorithm: JWT_CONSTANTS.ALGORITHM
+    algorithm: JWT_CONSTANTS.ALGORITHM,
+    // Unique per token so two links issued in the same second differ
+    jwtid: crypto.randomUUID()
   };
 
   return jwt.sign(emailPayload, JWT_SECRET, signOptions);
@@ -0,0 +1,54 @@
+import { MailMessage } from '../core/interfaces/Services/IMailer';
+import { HelperUtils } from './helper';
+
+interface MailRecipient {
+  email: string;
+  firstName: string;
+}
+
+/**
+ * Builds the transactional mails sent by the auth flows
+ */
+export class MailTemplates {
+  static emailVerification(user: MailRecipient, link: string, expiresIn: string): MailMessage {
+    return this.build(
+      user,
+      'Verify your email address',
+      'Please confirm your email address by opening the link below.',
+      link,
+      `The link expires in ${expiresIn}. If you did not create an account, you can ignore this email.`
+    );
+  }
+
+  static passwordReset(user: MailRecipient, link: string, expiresIn: string): MailMessage {
+    return this.build(
+      user,
+      'Reset your password',
+      'We received a request to reset your password. Open the link below to choose a new one.',
+      link,
+      `The link expires in ${expiresIn} and can only be used once. If you did not request a reset, you can ignore this email.`
+    );
+  }
+
+  private static build(
+    user: MailRecipient,
+    subject: string,
+    intro: string,
+    link: string,
+    footer: string
+  ): MailMessage {
+    const greeting = `Hi ${user.firstName},`;
+
+    return {
+      to: user.email,
+      subject,
+      text: [greeting, '', intro, '', link, '', footer].join('\n'),
+      html: [
+        `<p>${HelperUtils.escapeXml(greeting)}</p>`,
+        `<p>${HelperUtils.escapeXml(intro)}</p>`,
+        `<p><a href="${HelperUtils.escapeXml(link)}">${HelperUtils.escapeXml(link)}</a></p>`,
+        `<p>${HelperUtils.escapeXml(footer)}</p>`,
+      ].join('\n'),
+    };
+  }
+}
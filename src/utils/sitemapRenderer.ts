@@ -0,0 +1,29 @@
+import { SitemapDto, SitemapUrlDto } from '../application/dtos/sitemap/SitemapDto';
+import { HelperUtils } from './helper';
+
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+
+/**
+ * Serializes a SitemapDto to a sitemaps.org <urlset> or <sitemapindex> document
+ */
+export class SitemapRenderer {
+  static render(sitemap: SitemapDto): string {
+    const [root, child] = sitemap.kind === 'index' ? ['sitemapindex', 'sitemap'] : ['urlset', 'url'];
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<${root} xmlns="${SITEMAP_NAMESPACE}">`,
+      ...sitemap.entries.map((entry) => this.renderEntry(child, entry)),
+      `</${root}>`,
+      '',
+    ].join('\n');
+  }
+
+  private static renderEntry(tag: string, entry: SitemapUrlDto): string {
+    const lastmod = entry.lastmod && entry.lastmod.getTime() > 0
+      ? `<lastmod>${entry.lastmod.toISOString()}</lastmod>`
+      : '';
+
+    return `  <${tag}><loc>${HelperUtils.escapeXml(entry.loc)}</loc>${lastmod}</${tag}>`;
+  }
+}
@@ -0,0 +1,13 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+/**
+ * Answers a request for a former slug with a 301 to the same URL carrying the canonical
+ * slug. The slug has to be the last path segment; the query string is kept.
+ */
+export const redirectToCanonicalSlug = (request: FastifyRequest, reply: FastifyReply, slug: string) => {
+  const queryStart = request.url.indexOf('?');
+  const path = queryStart === -1 ? request.url : request.url.substring(0, queryStart);
+  const search = queryStart === -1 ? '' : request.url.substring(queryStart);
+
+  return reply.redirect(`${path.substring(0, path.lastIndexOf('/') + 1)}${encodeURIComponent(slug)}${search}`, 301);
+};
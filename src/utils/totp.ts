@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  step?: number;   // seconds per time step
+  digits?: number;
+  window?: number; // accepted steps before/after the current one (clock drift)
+}
+
+const DEFAULTS: Required<TotpOptions> = {
+  step: 30,
+  digits: 6,
+  window: 1,
+};
+
+/**
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1) compatible with
+ * Google Authenticator, 1Password, Authy and similar apps
+ */
+export class Totp {
+  /**
+   * Generate a random base32 encoded shared secret (160 bits by default, as recommended by RFC 4226)
+   */
+  static generateSecret(bytes: number = 20): string {
+    return this.base32Encode(crypto.randomBytes(bytes));
+  }
+
+  /**
+   * Code for the given time
+   */
+  static generate(secret: string, time: number = Date.now(), options: TotpOptions = {}): string {
+    const { step, digits } = { ...DEFAULTS, ...options };
+    return this.hotp(secret, Math.floor(time / 1000 / step), digits);
+  }
+
+  /**
+   * Returns the matched time step, or null if the code is not valid within the window.
+   * Callers store the step to reject replays of the same code.
+   */
+  static verify(secret: string, code: string, time: number = Date.now(), options: TotpOptions = {}): number | null {
+    const { step, digits, window } = { ...DEFAULTS, ...options };
+    const normalized = code.replace(/\s+/g, '');
+    if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+      return null;
+    }
+
+    const current = Math.floor(time / 1000 / step);
+    for (let offset = -window; offset <= window; offset++) {
+      const counter = current + offset;
+      const expected = this.hotp(secret, counter, digits);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return counter;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * otpauth:// URI for enrollment; authenticator apps read it from a QR code
+   */
+  static buildUri(secret: string, accountName: string, issuer: string, options: TotpOptions = {}): string {
+    const { step, digits } = { ...DEFAULTS, ...options };
+    const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(digits),
+      period: String(step),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * HOTP (RFC 4226) with dynamic truncation
+   */
+  private static hotp(secret: string, counter: number, digits: number): string {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(buffer).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+  }
+
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 secret');
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
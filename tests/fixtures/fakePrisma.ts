@@ -0,0 +1,81 @@
+import { PrismaClient } from "@prisma/client";
+
+export interface RecordedWrite {
+  client: string; // "root" or the transaction that made the write ("tx1", "tx2", ...)
+  model: string;
+  method: string;
+  args: any;
+}
+
+export interface FakePrisma {
+  client: PrismaClient;
+  // Writes that reached the database: made outside a transaction or in a committed one
+  committed: RecordedWrite[];
+  // Transaction clients handed out by $transaction, in order
+  transactionClients: unknown[];
+}
+
+const WRITE_METHODS = new Set(["create", "createMany", "update", "updateMany", "upsert", "delete", "deleteMany"]);
+
+/**
+ * Model delegates that record writes into `writes` and answer with the written data, enough for
+ * the repositories to map a result
+ */
+function createClient(name: string, writes: RecordedWrite[], extra: Record<string, unknown> = {}): any {
+  return new Proxy(extra, {
+    get(target, prop) {
+      if (typeof prop === "symbol" || prop === "then") {
+        return undefined;
+      }
+      if (prop in target) {
+        return target[prop];
+      }
+
+      const model = prop;
+      return new Proxy(
+        {},
+        {
+          get(_delegate, method) {
+            return async (args: any = {}) => {
+              if (typeof method === "string" && WRITE_METHODS.has(method)) {
+                writes.push({ client: name, model, method, args });
+              }
+
+              if (method === "findMany") return [];
+              if (method === "count") return 0;
+              if (typeof method === "string" && method.endsWith("Many")) return { count: 1 };
+
+              const now = new Date();
+              return { id: `${model}-${writes.length}`, createdAt: now, updatedAt: now, ...args.where, ...args.data };
+            };
+          },
+        }
+      );
+    },
+  });
+}
+
+/**
+ * Stand-in for PrismaClient with interactive transactions: writes made through a transaction
+ * client are held back and only reach `committed` when the transaction callback resolves
+ */
+export function createFakePrisma(): FakePrisma {
+  const committed: RecordedWrite[] = [];
+  const transactionClients: unknown[] = [];
+
+  const $transaction = async (work: (tx: unknown) => Promise<unknown>) => {
+    const pending: RecordedWrite[] = [];
+    const tx = createClient(`tx${transactionClients.length + 1}`, pending);
+    transactionClients.push(tx);
+
+    const result = await work(tx);
+    committed.push(...pending);
+    return result;
+  };
+
+  return {
+    client: createClient("root", committed, { $transaction }) as PrismaClient,
+    committed,
+    transactionClients,
+  };
+}
@@ -0,0 +1,135 @@
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import * as jwt from "jsonwebtoken";
+
+const KEY_ID = "mock-key";
+
+interface Grant {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  audience: string;
+  claims: Record<string, unknown>;
+}
+
+export interface AuthorizeOptions {
+  // Claims added to the id_token (sub, email, email_verified, ...)
+  claims?: Record<string, unknown>;
+  // Overrides for tokens a well-behaved issuer would never send
+  nonce?: string;
+  audience?: string;
+}
+
+/**
+ * OpenID Connect issuer on a local port with discovery, JWKS and a token endpoint that
+ * enforces PKCE (S256). `authorize` stands in for the user logging in on the issuer's page.
+ */
+export class MockOidcIssuer {
+  issuer = "";
+  // Issuer announced by the discovery document, when it should differ from the real one
+  discoveryIssuer?: string;
+  readonly tokenRequests: URLSearchParams[] = [];
+
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private keys = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+  private grants = new Map<string, Grant>();
+
+  constructor(private clientSecret: string) {}
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}/realms/test`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  authorize(authorizationUrl: string, options: AuthorizeOptions = {}): string {
+    const params = new URL(authorizationUrl).searchParams;
+    if (params.get("code_challenge_method") !== "S256" || !params.get("code_challenge")) {
+      throw new Error("Authorization request without a S256 PKCE challenge");
+    }
+
+    const code = crypto.randomBytes(16).toString("hex");
+    this.grants.set(code, {
+      clientId: params.get("client_id")!,
+      redirectUri: params.get("redirect_uri")!,
+      codeChallenge: params.get("code_challenge")!,
+      nonce: options.nonce ?? params.get("nonce")!,
+      audience: options.audience ?? params.get("client_id")!,
+      claims: { sub: "subject-1", ...options.claims },
+    });
+    return code;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const path = new URL(req.url!, this.issuer).pathname.replace(new URL(this.issuer).pathname, "");
+
+    if (req.method === "GET" && path === "/.well-known/openid-configuration") {
+      return this.json(res, 200, {
+        issuer: this.discoveryIssuer ?? this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    }
+
+    if (req.method === "GET" && path === "/jwks") {
+      const jwk = this.keys.publicKey.export({ format: "jwk" });
+      return this.json(res, 200, { keys: [{ ...jwk, kid: KEY_ID, use: "sig", alg: "RS256" }] });
+    }
+
+    if (req.method === "POST" && path === "/token") {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => this.token(res, new URLSearchParams(body)));
+      return;
+    }
+
+    this.json(res, 404, { error: "not_found" });
+  }
+
+  private token(res: http.ServerResponse, params: URLSearchParams): void {
+    this.tokenRequests.push(params);
+
+    const code = params.get("code") ?? "";
+    const grant = this.grants.get(code);
+    this.grants.delete(code);
+
+    const challenge = crypto
+      .createHash("sha256")
+      .update(params.get("code_verifier") ?? "")
+      .digest("base64url");
+
+    if (
+      !grant ||
+      params.get("grant_type") !== "authorization_code" ||
+      params.get("client_id") !== grant.clientId ||
+      params.get("client_secret") !== this.clientSecret ||
+      params.get("redirect_uri") !== grant.redirectUri ||
+      challenge !== grant.codeChallenge
+    ) {
+      return this.json(res, 400, { error: "invalid_grant" });
+    }
+
+    const idToken = jwt.sign({ ...grant.claims, nonce: grant.nonce }, this.keys.privateKey, {
+      algorithm: "RS256",
+      keyid: KEY_ID,
+      issuer: this.issuer,
+      audience: grant.audience,
+      expiresIn: "5m",
+    });
+
+    this.json(res, 200, { access_token: "access-token", token_type: "Bearer", id_token: idToken });
+  }
+
+  private json(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
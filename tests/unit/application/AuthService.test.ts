@@ -0,0 +1,58 @@
+import { AuthService } from "../../../src/application/services/AuthService";
+import { IUserRepository } from "../../../src/core/interfaces/Repositories/IUserRepository";
+import { IMailer } from "../../../src/core/interfaces/Services/IMailer";
+import { ITwoFactorService } from "../../../src/core/interfaces/Services/ITwoFactorService";
+import { IUnitOfWork } from "../../../src/core/interfaces/IUnitOfWork";
+
+describe("AuthService sessions", () => {
+  let openSessions: Set<string>;
+  let isSessionActive: jest.Mock;
+  let service: AuthService;
+
+  beforeEach(() => {
+    openSessions = new Set(["session-1", "session-2"]);
+    isSessionActive = jest.fn(async (familyId: string) => openSessions.has(familyId));
+
+    const userRepository = {
+      isSessionActive,
+      revokeRefreshTokenFamily: jest.fn(async (familyId: string) => (openSessions.delete(familyId) ? 1 : 0)),
+      revokeAllRefreshTokens: jest.fn(async () => openSessions.clear()),
+      createBlacklistedToken: jest.fn(),
+    } as unknown as IUserRepository;
+
+    service = new AuthService(userRepository, {} as IMailer, {} as ITwoFactorService, {} as IUnitOfWork);
+  });
+
+  it("caches an open session", async () => {
+    expect(await service.isSessionActive("session-1", "user-1")).toBe(true);
+    expect(await service.isSessionActive("session-1", "user-1")).toBe(true);
+
+    expect(isSessionActive).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not accept a session of another user from the cache", async () => {
+    await service.isSessionActive("session-1", "user-1");
+    await service.isSessionActive("session-1", "user-2");
+
+    expect(isSessionActive).toHaveBeenCalledTimes(2);
+  });
+
+  it("closes a session for its access tokens as soon as it is revoked", async () => {
+    await service.isSessionActive("session-1", "user-1");
+
+    await service.revokeSession("user-1", "session-1");
+
+    expect(await service.isSessionActive("session-1", "user-1")).toBe(false);
+    expect(await service.isSessionActive("session-2", "user-1")).toBe(true);
+  });
+
+  it("closes every session of the user on logout from all devices", async () => {
+    await service.isSessionActive("session-1", "user-1");
+    await service.isSessionActive("session-2", "user-1");
+
+    await service.logoutAll("user-1", "access-token");
+
+    expect(await service.isSessionActive("session-1", "user-1")).toBe(false);
+    expect(await service.isSessionActive("session-2", "user-1")).toBe(false);
+  });
+});
@@ -0,0 +1,256 @@
+import { OAuthState, User, UserIdentity } from "@prisma/client";
+import { OAuthService } from "../../../src/application/services/OAuthService";
+import { OidcProvider } from "../../../src/infrastructure/oauth/OidcProvider";
+import { IOAuthRepository } from "../../../src/core/interfaces/Repositories/IOAuthRepository";
+import { IUserRepository } from "../../../src/core/interfaces/Repositories/IUserRepository";
+import { IAuthService } from "../../../src/core/interfaces/Services/IAuthService";
+import { IOAuthProvider } from "../../../src/core/interfaces/Services/IOAuthProvider";
+import { ConflictError, UnauthorizedError } from "../../../src/core/errors";
+import { AuthorizeOptions, MockOidcIssuer } from "../../fixtures/mockOidcIssuer";
+
+const CLIENT_ID = "blog-client";
+const CLIENT_SECRET = "blog-secret";
+
+// OAuth states and identities kept in memory, with the single-use semantics of the real repository
+class InMemoryOAuthRepository implements IOAuthRepository {
+  states = new Map<string, OAuthState>();
+  identities: Array<UserIdentity & { user: User }> = [];
+
+  constructor(private users: User[]) {}
+
+  async createState(data: Omit<OAuthState, "id" | "createdAt">): Promise<OAuthState> {
+    const state = { ...data, id: `state-${this.states.size + 1}`, createdAt: new Date() };
+    this.states.set(data.stateHash, state);
+    return state;
+  }
+
+  async consumeState(stateHash: string): Promise<OAuthState | null> {
+    const state = this.states.get(stateHash) ?? null;
+    this.states.delete(stateHash);
+    return state;
+  }
+
+  async cleanupExpiredStates(): Promise<number> {
+    return 0;
+  }
+
+  async findIdentity(provider: string, subject: string) {
+    return this.identities.find((identity) => identity.provider === provider && identity.subject === subject) ?? null;
+  }
+
+  async createIdentity(data: { provider: string; subject: string; email?: string | null; userId: string }) {
+    const identity = {
+      id: `identity-${this.identities.length + 1}`,
+      provider: data.provider,
+      subject: data.subject,
+      email: data.email ?? null,
+      userId: data.userId,
+      lastLoginAt: new Date(),
+      createdAt: new Date(),
+      user: this.users.find((user) => user.id === data.userId)!,
+    } as UserIdentity & { user: User };
+    this.identities.push(identity);
+    return identity;
+  }
+
+  async touchIdentity(): Promise<void> {}
+}
+
+const localUser = (overrides: Partial<User>): User =>
+  ({
+    id: "user-1",
+    email: "ada@example.com",
+    username: "ada",
+    firstName: "Ada",
+    lastName: "Lovelace",
+    password: "local-password-hash",
+    role: "USER",
+    isActive: true,
+    emailVerified: true,
+    emailVerifiedAt: new Date(),
+    ...overrides,
+  }) as User;
+
+describe("OAuthService with an OpenID Connect issuer", () => {
+  const issuer = new MockOidcIssuer(CLIENT_SECRET);
+
+  let users: User[];
+  let oauthRepository: InMemoryOAuthRepository;
+  let loginWithExternalIdentity: jest.Mock;
+  let service: OAuthService;
+
+  const createProvider = (id: string) =>
+    new OidcProvider({
+      id,
+      name: "Test issuer",
+      issuer: issuer.issuer,
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      scopes: "openid email profile",
+    });
+
+  // Starts a login, lets the user sign in at the issuer and returns what the frontend posts back
+  const signIn = async (options: AuthorizeOptions = {}, provider = "oidc") => {
+    const { authorizationUrl, state } = await service.beginAuthorization(provider);
+    const code = issuer.authorize(authorizationUrl, {
+      ...options,
+      claims: { email: "ada@example.com", email_verified: true, ...options.claims },
+    });
+    return { code, state, authorizationUrl };
+  };
+
+  beforeAll(() => issuer.start());
+  afterAll(() => issuer.stop());
+
+  beforeEach(() => {
+    issuer.discoveryIssuer = undefined;
+    issuer.tokenRequests.length = 0;
+    users = [];
+    oauthRepository = new InMemoryOAuthRepository(users);
+    loginWithExternalIdentity = jest.fn(async (user: User) => ({ user: { id: user.id }, accessToken: "access" }));
+
+    const userRepository = {
+      findByEmail: async (email: string) => users.find((user) => user.email === email) ?? null,
+      findByUsername: async (username: string) => users.find((user) => user.username === username) ?? null,
+      create: async (data: Partial<User>) => {
+        const user = localUser({ ...data, id: `user-${users.length + 1}` });
+        users.push(user);
+        return user;
+      },
+      markEmailVerified: jest.fn(),
+    } as unknown as IUserRepository;
+
+    const providers: IOAuthProvider[] = [createProvider("oidc"), createProvider("other")];
+    service = new OAuthService(
+      { list: () => providers, get: (id) => providers.find((provider) => provider.id === id) },
+      oauthRepository,
+      userRepository,
+      { loginWithExternalIdentity } as unknown as IAuthService
+    );
+  });
+
+  it("creates an account and logs in after a valid code exchange", async () => {
+    const { code, state } = await signIn({ claims: { sub: "new-subject", preferred_username: "ada" } });
+
+    await service.completeAuthorization("oidc", { code, state });
+
+    expect(users).toHaveLength(1);
+    expect(oauthRepository.identities).toEqual([
+      expect.objectContaining({ provider: "oidc", subject: "new-subject", userId: users[0].id }),
+    ]);
+    expect(loginWithExternalIdentity).toHaveBeenCalledWith(users[0], {});
+  });
+
+  describe("state", () => {
+    it("is single use", async () => {
+      const { code, state } = await signIn();
+      await service.completeAuthorization("oidc", { code, state });
+
+      await expect(service.completeAuthorization("oidc", { code, state })).rejects.toThrow(UnauthorizedError);
+    });
+
+    it("rejects a state that was never issued", async () => {
+      const { code } = await signIn();
+
+      await expect(service.completeAuthorization("oidc", { code, state: "forged" })).rejects.toThrow(
+        "Invalid or expired authorization state"
+      );
+      expect(issuer.tokenRequests).toHaveLength(0);
+    });
+
+    it("rejects a state issued for another provider", async () => {
+      const { code, state } = await signIn({}, "other");
+
+      await expect(service.completeAuthorization("oidc", { code, state })).rejects.toThrow(
+        "Invalid or expired authorization state"
+      );
+    });
+
+    it("rejects an expired state", async () => {
+      const { code, state } = await signIn();
+      for (const pending of oauthRepository.states.values()) {
+        pending.expiresAt = new Date(Date.now() - 1000);
+      }
+
+      await expect(service.completeAuthorization("oidc", { code, state })).rejects.toThrow(
+        "Invalid or expired authorization state"
+      );
+    });
+  });
+
+  describe("PKCE", () => {
+    it("sends an S256 challenge and redeems the code with its verifier", async () => {
+      const { code, state, authorizationUrl } = await signIn();
+      const pending = [...oauthRepository.states.values()][0];
+
+      expect(authorizationUrl).not.toContain(pending.codeVerifier);
+      await service.completeAuthorization("oidc", { code, state });
+
+      expect(issuer.tokenRequests[issuer.tokenRequests.length - 1].get("code_verifier")).toBe(pending.codeVerifier);
+    });
+
+    it("fails when the verifier does not match the challenge", async () => {
+      const { code, state } = await signIn();
+      for (const pending of oauthRepository.states.values()) {
+        pending.codeVerifier = "another-verifier";
+      }
+
+      await expect(service.completeAuthorization("oidc", { code, state })).rejects.toThrow(
+        "Authorization code is invalid or expired"
+      );
+      expect(loginWithExternalIdentity).not.toHaveBeenCalled();
+    });
+  });
+
+  it("rejects an id_token carrying another nonce", async () => {
+    const { code, state } = await signIn({ nonce: "replayed-nonce" });
+
+    await expect(service.completeAuthorization("oidc", { code, state })).rejects.toThrow("Invalid id_token nonce");
+  });
+
+  it("rejects an id_token issued for another client", async () => {
+    const { code, state } = await signIn({ audience: "someone-else" });
+
+    await expect(service.completeAuthorization("oidc", { code, state })).rejects.toThrow("Invalid id_token");
+    expect(loginWithExternalIdentity).not.toHaveBeenCalled();
+  });
+
+  it("rejects a discovery document naming another issuer", async () => {
+    issuer.discoveryIssuer = "https://evil.example.com";
+
+    await expect(service.beginAuthorization("oidc")).rejects.toThrow("names another issuer");
+  });
+
+  describe("existing accounts", () => {
+    it("links the identity to an account with the same verified email", async () => {
+      users.push(localUser({ id: "local-1" }));
+      const { code, state } = await signIn();
+
+      await service.completeAuthorization("oidc", { code, state });
+
+      expect(users).toHaveLength(1);
+      expect(oauthRepository.identities[0].userId).toBe("local-1");
+      expect(loginWithExternalIdentity).toHaveBeenCalledWith(users[0], {});
+    });
+
+    it("refuses to link to an account whose email was never verified", async () => {
+      users.push(localUser({ id: "local-1", emailVerified: false, emailVerifiedAt: null }));
+      const { code, state } = await signIn();
+
+      await expect(service.completeAuthorization("oidc", { code, state })).rejects.toThrow(ConflictError);
+      expect(oauthRepository.identities).toHaveLength(0);
+      expect(users[0].emailVerified).toBe(false);
+      expect(loginWithExternalIdentity).not.toHaveBeenCalled();
+    });
+
+    it("does not link on an email the issuer did not verify", async () => {
+      users.push(localUser({ id: "local-1" }));
+      const { code, state } = await signIn({ claims: { email_verified: false } });
+
+      await expect(service.completeAuthorization("oidc", { code, state })).rejects.toThrow(
+        "The identity provider did not return a verified email address"
+      );
+      expect(oauthRepository.identities).toHaveLength(0);
+    });
+  });
+});
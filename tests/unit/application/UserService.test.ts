@@ -0,0 +1,79 @@
+import { User } from "@prisma/client";
+import { UserService } from "../../../src/application/services/UserService";
+import { IUserRepository } from "../../../src/core/interfaces/Repositories/IUserRepository";
+import { IRoleRepository } from "../../../src/core/interfaces/Repositories/IRoleRepository";
+import { IUnitOfWork } from "../../../src/core/interfaces/IUnitOfWork";
+import { Role } from "../../../src/domain/entities/Role";
+import { Permission } from "../../../src/domain/enums/Permission";
+import { ForbiddenError } from "../../../src/core/errors";
+
+const role = (name: string, permissions: Permission[]): Role => ({
+  name,
+  permissions,
+  isSystem: false,
+  uploadLimits: { maxFileSizeBytes: null, maxFiles: null, storageQuotaMb: null },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const ROLES = [
+  role("ADMIN", [Permission.ALL]),
+  role("AUTHOR", [Permission.POST_CREATE, Permission.POST_EDIT_OWN, Permission.COMMENT_CREATE]),
+  role("USER", [Permission.COMMENT_CREATE]),
+  role("MODERATOR", [
+    Permission.USER_MANAGE,
+    Permission.POST_CREATE,
+    Permission.POST_EDIT_ANY,
+    Permission.COMMENT_CREATE,
+    Permission.COMMENT_MODERATE,
+  ]),
+];
+
+describe("UserService.changeRole", () => {
+  let users: User[];
+  let update: jest.Mock;
+  let service: UserService;
+
+  const moderator = { id: "moderator-1", role: "MODERATOR" };
+
+  beforeEach(() => {
+    users = [
+      { id: "user-1", username: "grace", role: "USER" } as User,
+      { id: "admin-1", username: "ada", role: "ADMIN" } as User,
+    ];
+    update = jest.fn(async (id: string, data: Partial<User>) => ({ ...users.find((user) => user.id === id)!, ...data }));
+
+    const userRepository = {
+      findById: async (id: string) => users.find((user) => user.id === id) ?? null,
+      update,
+    } as unknown as IUserRepository;
+    const roleRepository = {
+      findByName: async (name: string) => ROLES.find((candidate) => candidate.name === name) ?? null,
+    } as unknown as IRoleRepository;
+
+    service = new UserService(userRepository, roleRepository, {} as IUnitOfWork);
+  });
+
+  it("assigns a role whose permissions the caller holds", async () => {
+    const result = await service.changeRole("user-1", "author", moderator);
+
+    expect(result.role).toBe("AUTHOR");
+    expect(update).toHaveBeenCalledWith("user-1", { role: "AUTHOR" });
+  });
+
+  it("refuses to assign a role granting more than the caller has", async () => {
+    await expect(service.changeRole("user-1", "ADMIN", moderator)).rejects.toThrow(ForbiddenError);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("refuses to change the role of a user who has more than the caller", async () => {
+    await expect(service.changeRole("admin-1", "USER", moderator)).rejects.toThrow(ForbiddenError);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("lets a wildcard role assign any role", async () => {
+    const result = await service.changeRole("user-1", "MODERATOR", { id: "admin-2", role: "ADMIN" });
+
+    expect(result.role).toBe("MODERATOR");
+  });
+});
@@ -0,0 +1,153 @@
+import { RelatedPostCandidate, RelatedPostUtils, RelatedPostWeights } from "../../../src/domain/entities/RelatedPost";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-06-01T00:00:00Z");
+
+const WEIGHTS: RelatedPostWeights = { tags: 0.4, category: 0.2, content: 0.3, recency: 0.1 };
+
+const post = (overrides: Partial<RelatedPostCandidate>): RelatedPostCandidate => ({
+  id: "post",
+  title: "Untitled",
+  excerpt: null,
+  content: "",
+  tags: [],
+  categoryId: "cat-other",
+  categoryParentId: null,
+  publishedAt: NOW,
+  ...overrides,
+});
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS);
+
+describe("RelatedPostUtils", () => {
+  describe("tagOverlap", () => {
+    it("is the shared tags over all distinct tags", () => {
+      expect(RelatedPostUtils.tagOverlap(["node", "typescript", "api"], ["typescript", "api", "testing"])).toBe(0.5);
+    });
+
+    it("is 1 for the same tags in any order and 0 for disjoint tags", () => {
+      expect(RelatedPostUtils.tagOverlap(["a", "b"], ["b", "a"])).toBe(1);
+      expect(RelatedPostUtils.tagOverlap(["a"], ["b"])).toBe(0);
+    });
+
+    it("ignores duplicates and is 0 when neither post has tags", () => {
+      expect(RelatedPostUtils.tagOverlap(["a", "a", "b"], ["a"])).toBe(0.5);
+      expect(RelatedPostUtils.tagOverlap([], [])).toBe(0);
+    });
+  });
+
+  describe("categoryMatch", () => {
+    it("counts the same category fully", () => {
+      expect(RelatedPostUtils.categoryMatch({ categoryId: "js" }, { categoryId: "js" })).toBe(1);
+    });
+
+    it("counts a sibling, parent or child category half", () => {
+      const child = { categoryId: "node", categoryParentId: "js" };
+
+      expect(RelatedPostUtils.categoryMatch(child, { categoryId: "deno", categoryParentId: "js" })).toBe(0.5);
+      expect(RelatedPostUtils.categoryMatch(child, { categoryId: "js", categoryParentId: null })).toBe(0.5);
+      expect(RelatedPostUtils.categoryMatch({ categoryId: "js", categoryParentId: null }, child)).toBe(0.5);
+    });
+
+    it("does not treat two top-level categories as siblings", () => {
+      expect(
+        RelatedPostUtils.categoryMatch({ categoryId: "js", categoryParentId: null }, { categoryId: "go", categoryParentId: null })
+      ).toBe(0);
+    });
+
+    it("is 0 for unrelated categories", () => {
+      expect(
+        RelatedPostUtils.categoryMatch({ categoryId: "node", categoryParentId: "js" }, { categoryId: "rails", categoryParentId: "ruby" })
+      ).toBe(0);
+    });
+  });
+
+  describe("recency", () => {
+    it("halves every half-life", () => {
+      expect(RelatedPostUtils.recency(NOW, NOW, 30)).toBe(1);
+      expect(RelatedPostUtils.recency(daysAgo(30), NOW, 30)).toBeCloseTo(0.5);
+      expect(RelatedPostUtils.recency(daysAgo(60), NOW, 30)).toBeCloseTo(0.25);
+    });
+
+    it("counts a missing or future date as new", () => {
+      expect(RelatedPostUtils.recency(null, NOW, 30)).toBe(1);
+      expect(RelatedPostUtils.recency(undefined, NOW, 30)).toBe(1);
+      expect(RelatedPostUtils.recency(daysAgo(-5), NOW, 30)).toBe(1);
+    });
+
+    it("uses a half-life of at least one day", () => {
+      expect(RelatedPostUtils.recency(daysAgo(1), NOW, 0)).toBeCloseTo(0.5);
+    });
+  });
+
+  describe("rank", () => {
+    const source = post({
+      id: "source",
+      title: "Dependency injection in TypeScript",
+      content: "Inversify containers bind services to interfaces and resolve constructor dependencies.",
+      tags: ["typescript", "inversify"],
+      categoryId: "node",
+      categoryParentId: "js",
+    });
+
+    it("orders candidates by their weighted score, best first", () => {
+      const sameTopic = post({
+        id: "same-topic",
+        title: "Testing Inversify containers",
+        content: "Rebind services in the container to resolve constructor dependencies with fakes.",
+        tags: ["typescript", "inversify"],
+        categoryId: "node",
+        categoryParentId: "js",
+      });
+      const sameCategory = post({
+        id: "same-category",
+        title: "Streams",
+        content: "Backpressure explained with readable and writable streams.",
+        tags: ["streams"],
+        categoryId: "node",
+        categoryParentId: "js",
+      });
+      const sharedTag = post({
+        id: "shared-tag",
+        title: "Generics",
+        content: "Conditional types and inference tricks.",
+        tags: ["typescript"],
+        categoryId: "rails",
+        categoryParentId: "ruby",
+      });
+
+      const ranked = RelatedPostUtils.rank(source, [sharedTag, sameCategory, sameTopic], WEIGHTS, {
+        now: NOW,
+        recencyHalfLifeDays: 180,
+      });
+
+      expect(ranked.map((result) => result.id)).toEqual(["same-topic", "shared-tag", "same-category"]);
+      expect(ranked[0]).toMatchObject({ tags: 1, category: 1, recency: 1 });
+      expect(ranked[0].content).toBeGreaterThan(0);
+      expect(ranked[1]).toMatchObject({ tags: 0.5, category: 0, content: 0 });
+      expect(ranked[1].score).toBeCloseTo((0.4 * 0.5 + 0.1) / 1);
+    });
+
+    it("leaves out candidates that only share their recency", () => {
+      const unrelated = post({ id: "unrelated", title: "Sourdough", content: "Feed the starter twice a day.", tags: ["baking"] });
+
+      expect(RelatedPostUtils.rank(source, [unrelated], WEIGHTS, { now: NOW, recencyHalfLifeDays: 180 })).toEqual([]);
+    });
+
+    it("prefers the newer of two otherwise equal candidates", () => {
+      const older = post({ id: "older", tags: ["typescript"], publishedAt: daysAgo(365) });
+      const newer = post({ id: "newer", tags: ["typescript"], publishedAt: daysAgo(1) });
+
+      const ranked = RelatedPostUtils.rank(source, [older, newer], WEIGHTS, { now: NOW, recencyHalfLifeDays: 180 });
+
+      expect(ranked.map((result) => result.id)).toEqual(["newer", "older"]);
+    });
+
+    it("returns nothing when every weight is zero", () => {
+      const candidate = post({ id: "candidate", tags: ["typescript"] });
+      const zero = { tags: 0, category: 0, content: 0, recency: 0 };
+
+      expect(RelatedPostUtils.rank(source, [candidate], zero, { now: NOW, recencyHalfLifeDays: 180 })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { PrismaClient } from "@prisma/client";
+import { UnitOfWork } from "../../../src/infrastructure/UnitOfWork";
+import { TransactionContext } from "../../../src/infrastructure/database/TransactionContext";
+import { PrismaRepository } from "../../../src/infrastructure/database/repositories/core/PrismaRepository";
+import { ApiKeyRepository } from "../../../src/infrastructure/database/repositories/ApiKeyRepository";
+import { AuditLogRepository } from "../../../src/infrastructure/database/repositories/AuditLogRepository";
+import { BlogPostRepository } from "../../../src/infrastructure/database/repositories/BlogPostRepository";
+import { CategoryRepository } from "../../../src/infrastructure/database/repositories/CategoryRepository";
+import { CommentRepository } from "../../../src/infrastructure/database/repositories/CommentRepository";
+import { MediaAssetRepository } from "../../../src/infrastructure/database/repositories/MediaAssetRepository";
+import { OAuthRepository } from "../../../src/infrastructure/database/repositories/OAuthRepository";
+import { PostAuthorRepository } from "../../../src/infrastructure/database/repositories/PostAuthorRepository";
+import { PostReviewEventRepository } from "../../../src/infrastructure/database/repositories/PostReviewEventRepository";
+import { PostRevisionRepository } from "../../../src/infrastructure/database/repositories/PostRevisionRepository";
+import { RoleRepository } from "../../../src/infrastructure/database/repositories/RoleRepository";
+import { SearchRepository } from "../../../src/infrastructure/database/repositories/SearchRepository";
+import { SeriesRepository } from "../../../src/infrastructure/database/repositories/SeriesRepository";
+import { SitemapRepository } from "../../../src/infrastructure/database/repositories/SitemapRepository";
+import { SlugHistoryRepository } from "../../../src/infrastructure/database/repositories/SlugHistoryRepository";
+import { StorageQuotaRepository } from "../../../src/infrastructure/database/repositories/StorageQuotaRepository";
+import { TagRepository } from "../../../src/infrastructure/database/repositories/TagRepository";
+import { TwoFactorRepository } from "../../../src/infrastructure/database/repositories/TwoFactorRepository";
+import { UserRepository } from "../../../src/infrastructure/database/repositories/UserRepository";
+import { AuditAction, AuditTargetType } from "../../../src/domain/enums/AuditAction";
+import { createFakePrisma, FakePrisma } from "../../fixtures/fakePrisma";
+
+const REPOSITORIES: Array<new (prisma: PrismaClient) => PrismaRepository> = [
+  ApiKeyRepository,
+  AuditLogRepository,
+  BlogPostRepository,
+  CategoryRepository,
+  CommentRepository,
+  MediaAssetRepository,
+  OAuthRepository,
+  PostAuthorRepository,
+  PostReviewEventRepository,
+  PostRevisionRepository,
+  RoleRepository,
+  SearchRepository,
+  SeriesRepository,
+  SitemapRepository,
+  SlugHistoryRepository,
+  StorageQuotaRepository,
+  TagRepository,
+  TwoFactorRepository,
+  UserRepository,
+];
+
+describe("UnitOfWork", () => {
+  let prisma: FakePrisma;
+  let users: UserRepository;
+  let auditLogs: AuditLogRepository;
+  let twoFactor: TwoFactorRepository;
+  let unitOfWork: UnitOfWork;
+
+  beforeEach(() => {
+    prisma = createFakePrisma();
+    users = new UserRepository(prisma.client);
+    auditLogs = new AuditLogRepository(prisma.client);
+    twoFactor = new TwoFactorRepository(prisma.client);
+    unitOfWork = new UnitOfWork(
+      prisma.client,
+      users,
+      new CategoryRepository(prisma.client),
+      new BlogPostRepository(prisma.client),
+      new CommentRepository(prisma.client)
+    );
+  });
+
+  const writeEverywhere = async () => {
+    await users.update("user-1", { firstName: "Ada" });
+    await auditLogs.create({
+      action: AuditAction.USER_ACTIVATE,
+      targetType: AuditTargetType.USER,
+      targetId: "user-1",
+      before: null,
+      after: null,
+      actorId: "admin-1",
+      actorUsername: "admin",
+      actorRole: "ADMIN",
+      apiKeyId: null,
+      ip: null,
+      userAgent: null,
+      requestId: null,
+    });
+    await twoFactor.replaceRecoveryCodes("user-1", ["hash-1", "hash-2"]);
+  };
+
+  it("commits every repository write in one transaction when the work resolves", async () => {
+    await unitOfWork.execute(writeEverywhere);
+
+    expect(prisma.transactionClients).toHaveLength(1);
+    expect(prisma.committed.map((write) => `${write.model}.${write.method}`)).toEqual([
+      "user.update",
+      "auditLog.create",
+      "twoFactorRecoveryCode.deleteMany",
+      "twoFactorRecoveryCode.createMany",
+    ]);
+    expect(prisma.committed.every((write) => write.client === "tx1")).toBe(true);
+  });
+
+  it("rolls back every repository write when the work throws", async () => {
+    const failure = new Error("boom");
+
+    await expect(
+      unitOfWork.execute(async () => {
+        await writeEverywhere();
+        throw failure;
+      })
+    ).rejects.toBe(failure);
+
+    expect(prisma.committed).toEqual([]);
+  });
+
+  it("joins the outer transaction from a nested execute", async () => {
+    await unitOfWork.execute(async (outer) => {
+      await users.update("user-1", { firstName: "Ada" });
+
+      await outer.execute(async (inner) => {
+        expect(inner.inTransaction).toBe(true);
+        await users.update("user-2", { firstName: "Grace" });
+      });
+    });
+
+    expect(prisma.transactionClients).toHaveLength(1);
+    expect(prisma.committed.map((write) => write.client)).toEqual(["tx1", "tx1"]);
+  });
+
+  it("rolls back the outer writes when a nested execute throws", async () => {
+    await expect(
+      unitOfWork.execute(async (outer) => {
+        await users.update("user-1", { firstName: "Ada" });
+        await outer.execute(async () => {
+          await users.update("user-2", { firstName: "Grace" });
+          throw new Error("nested failure");
+        });
+      })
+    ).rejects.toThrow("nested failure");
+
+    expect(prisma.committed).toEqual([]);
+  });
+
+  it("reports whether the call chain runs inside a transaction", async () => {
+    expect(unitOfWork.inTransaction).toBe(false);
+    await unitOfWork.execute(async (uow) => {
+      expect(uow.inTransaction).toBe(true);
+    });
+    expect(unitOfWork.inTransaction).toBe(false);
+  });
+
+  it("keeps concurrent units of work apart", async () => {
+    const seen: unknown[] = [];
+
+    await Promise.all(
+      ["user-1", "user-2"].map((id) =>
+        unitOfWork.execute(async () => {
+          seen.push(TransactionContext.current());
+          await new Promise((resolve) => setImmediate(resolve));
+          await users.update(id, { firstName: id });
+        })
+      )
+    );
+
+    expect(prisma.transactionClients).toHaveLength(2);
+    expect(seen[0]).toBe(prisma.transactionClients[0]);
+    expect(seen[1]).toBe(prisma.transactionClients[1]);
+    expect(prisma.committed.map((write) => [write.client, write.args.where.id])).toEqual(
+      expect.arrayContaining([
+        ["tx1", "user-1"],
+        ["tx2", "user-2"],
+      ])
+    );
+  });
+
+  describe.each(REPOSITORIES.map((Repository) => [Repository.name, Repository] as const))(
+    "%s",
+    (_name, Repository) => {
+      it("queries through the transaction client inside a unit of work and the shared client outside", async () => {
+        const repository = new Repository(prisma.client);
+        const db = () => (repository as unknown as { db: unknown }).db;
+
+        expect(db()).toBe(prisma.client);
+        await unitOfWork.execute(async () => {
+          expect(db()).toBe(prisma.transactionClients[0]);
+        });
+      });
+    }
+  );
+
+  it("opens a transaction of its own for multi-statement repository writes outside a unit of work", async () => {
+    await twoFactor.disable("user-1");
+
+    expect(prisma.transactionClients).toHaveLength(1);
+    expect(prisma.committed.map((write) => `${write.client}:${write.model}.${write.method}`)).toEqual([
+      "tx1:twoFactorRecoveryCode.deleteMany",
+      "tx1:user.update",
+    ]);
+  });
+});